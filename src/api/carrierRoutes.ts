@@ -5,343 +5,449 @@
 
 import { Router, Request, Response } from 'express';
 import { carrierSelector } from '../services/CarrierSelector';
-import { TrackingInfo, SelectionPriority, RecipientData } from '../carriers/types';
-
-const router = Router();
-
-/**
- * Tracking number patterns for carrier detection
- */
-const TRACKING_PATTERNS: Array<{ pattern: RegExp; carrierId: string }> = [
-    { pattern: /^IR\d{8,}/i, carrierId: 'interrapidisimo' },
-    { pattern: /^SV\d{8,}/i, carrierId: 'servientrega' },
-    { pattern: /^ENV\d{8,}/i, carrierId: 'envia' },
-    { pattern: /^CD\d{8,}/i, carrierId: 'coordinadora' },
-    { pattern: /^TCC\d{8,}/i, carrierId: 'tcc' },
-    { pattern: /^DPR\d{8,}/i, carrierId: 'deprisa' },
-];
+import { Carrier, SelectionPriority, RecipientData } from '../carriers/types';
+import { CarrierApiError, CarrierErrorKind } from '../carriers/http/CarrierApi';
+import { detectCarrierByTrackingNumber } from '../carriers/trackingPatterns';
+import { parseColombianAddress } from '../services/AddressNormalizer';
+import { cityGazetteer } from '../services/CityGazetteer';
+import { ShipmentService } from '../services/ShipmentService';
+import { canTransition } from '../services/ShipmentLifecycle';
+import { CarrierBooking, Shipment } from '../types';
+import { labelGenerator, LABEL_SIZES, LabelSize } from '../services/LabelGenerator';
+import { apiKeyAuth } from '../middleware/auth';
+
+// Answer status of a failed carrier API call: our credentials being refused is
+// the carrier's problem as far as the caller is concerned
+const CARRIER_ERROR_STATUS: Record<CarrierErrorKind, number> = {
+    unauthorized: 502,
+    not_found: 404,
+    rejected: 422,
+    unavailable: 503
+};
+
+function errorStatus(error: unknown): number {
+    return error instanceof CarrierApiError ? CARRIER_ERROR_STATUS[error.kind] : 500;
+}
 
 /**
- * Detect carrier from tracking number format
+ * Creates the carrier routes router, mounted under /api
+ * @param shipments - Where carrier-created shipments are kept; label, cancel
+ * and tracking calls use their stored carrier. Without them shipments cannot
+ * be created, labelled or cancelled (503) and tracking only detects the
+ * carrier from the tracking number.
  */
-function detectCarrierByTrackingNumber(trackingNumber: string): string | null {
-    for (const { pattern, carrierId } of TRACKING_PATTERNS) {
-        if (pattern.test(trackingNumber)) {
-            return carrierId;
+export function createCarrierRouter(shipments: ShipmentService | null): Router {
+    const router = Router();
+
+    /**
+     * The stored shipment of the request's tracking number and its carrier,
+     * answering 503/404 when there is none
+     */
+    async function findStored(req: Request, res: Response): Promise<{ shipment: Shipment; carrier: Carrier } | null> {
+        if (!shipments) {
+            res.status(503).json({ success: false, error: 'Registro de envíos no configurado' });
+            return null;
+        }
+        const shipment = await shipments.getShipmentByTrackingNumber(req.params.trackingNumber);
+        if (!shipment) {
+            res.status(404).json({ success: false, error: 'Envío no encontrado' });
+            return null;
         }
+        const carrier = shipment.carrier ? carrierSelector.getCarrier(shipment.carrier) : undefined;
+        if (!carrier) {
+            res.status(404).json({ success: false, error: 'Transportadora no encontrada' });
+            return null;
+        }
+        return { shipment, carrier };
     }
-    return null;
-}
 
-/**
- * GET /api/tracking/:trackingNumber
- * Unified tracking endpoint - works with any carrier's tracking number
- */
-router.get('/tracking/:trackingNumber', async (req: Request, res: Response) => {
-    const { trackingNumber } = req.params;
+    /**
+     * GET /api/tracking/:trackingNumber
+     * Unified tracking endpoint - works with any carrier's tracking number,
+     * through the stored carrier of shipments created here
+     */
+    router.get('/tracking/:trackingNumber', async (req: Request, res: Response) => {
+        const { trackingNumber } = req.params;
 
-    if (!trackingNumber || trackingNumber.trim() === '') {
-        return res.status(400).json({
-            success: false,
-            error: 'Número de guía requerido'
-        });
-    }
-
-    try {
-        // Try to detect carrier by tracking number format
-        const detectedCarrierId = detectCarrierByTrackingNumber(trackingNumber);
-        
-        if (detectedCarrierId) {
-            const carrier = carrierSelector.getCarrier(detectedCarrierId);
-            if (carrier) {
-                const trackingInfo = await carrier.getTrackingInfo(trackingNumber);
-                return res.json({
-                    success: true,
-                    tracking: trackingInfo
-                });
-            }
+        if (!trackingNumber || trackingNumber.trim() === '') {
+            return res.status(400).json({
+                success: false,
+                error: 'Número de guía requerido'
+            });
         }
 
-        // If carrier not detected, try all carriers
-        const carriers = carrierSelector.getCarriers();
-        for (const carrier of carriers) {
-            try {
-                const trackingInfo = await carrier.getTrackingInfo(trackingNumber);
-                if (trackingInfo) {
+        try {
+            // The carrier of a shipment created here, otherwise detected by tracking number format
+            const stored = shipments ? await shipments.getShipmentByTrackingNumber(trackingNumber) : null;
+            const carrierId = stored?.carrier || detectCarrierByTrackingNumber(trackingNumber);
+        
+            if (carrierId) {
+                const carrier = carrierSelector.getCarrier(carrierId);
+                if (carrier) {
+                    const trackingInfo = await carrier.getTrackingInfo(trackingNumber);
                     return res.json({
                         success: true,
                         tracking: trackingInfo
                     });
                 }
-            } catch {
-                // Continue to next carrier
             }
-        }
-
-        return res.status(404).json({
-            success: false,
-            error: 'Guía no encontrada en ninguna transportadora'
-        });
-    } catch (error: any) {
-        console.error('Error getting tracking info:', error);
-        return res.status(500).json({
-            success: false,
-            error: error.message || 'Error al obtener información de tracking'
-        });
-    }
-});
-
-/**
- * POST /api/shipments
- * Create a shipment with automatic carrier selection
- */
-router.post('/shipments', async (req: Request, res: Response) => {
-    const {
-        origin,
-        destination,
-        weight,
-        priority,
-        recipientData,
-        orderNumber,
-        declaredValue,
-        dimensions
-    } = req.body;
-
-    // Validate required fields
-    if (!origin || !destination || !weight || !recipientData || !orderNumber) {
-        return res.status(400).json({
-            success: false,
-            error: 'Campos requeridos: origin, destination, weight, recipientData, orderNumber'
-        });
-    }
 
-    // Validate recipient data
-    const recipient: RecipientData = recipientData;
-    if (!recipient.name || !recipient.phone || !recipient.address || !recipient.city) {
-        return res.status(400).json({
-            success: false,
-            error: 'Datos de destinatario incompletos: name, phone, address, city son requeridos'
-        });
-    }
+            // If carrier not detected, try all carriers
+            const carriers = carrierSelector.getCarriers();
+            for (const carrier of carriers) {
+                try {
+                    const trackingInfo = await carrier.getTrackingInfo(trackingNumber);
+                    if (trackingInfo) {
+                        return res.json({
+                            success: true,
+                            tracking: trackingInfo
+                        });
+                    }
+                } catch {
+                    // Continue to next carrier
+                }
+            }
 
-    try {
-        // Select best carrier
-        const selectionPriority: SelectionPriority = priority || 'balanced';
-        const { carrier, quote, reason } = await carrierSelector.selectBestCarrier(
-            origin,
-            destination,
-            Number(weight),
-            selectionPriority
-        );
+            return res.status(404).json({
+                success: false,
+                error: 'Guía no encontrada en ninguna transportadora'
+            });
+        } catch (error: any) {
+            console.error('Error getting tracking info:', error);
+            return res.status(errorStatus(error)).json({
+                success: false,
+                error: error.message || 'Error al obtener información de tracking'
+            });
+        }
+    });
 
-        // Create shipment with selected carrier
-        const shipment = await carrier.createShipment({
+    /**
+     * POST /api/shipments
+     * Create a shipment with automatic carrier selection, stored with its
+     * quote, selection reason, label reference and recipient. An order whose
+     * shipment is waiting in 'ready_for_shipping' has that shipment booked
+     * (moved to 'created'); otherwise a new one is stored.
+     */
+    router.post('/shipments', async (req: Request, res: Response) => {
+        const {
             origin,
             destination,
-            weight: Number(weight),
-            recipient,
-            reference: orderNumber,
+            weight,
+            priority,
+            recipientData,
+            orderNumber,
+            productDescription,
             declaredValue,
+            codAmount,
             dimensions
-        });
-
-        // Note: In a real implementation, you would save to database here
-        // await ShipmentRepository.create({ ... });
+        } = req.body;
 
-        return res.json({
-            success: true,
-            shipment: {
-                trackingNumber: shipment.trackingNumber,
-                carrier: carrier.name,
-                carrierId: carrier.id,
-                estimatedDelivery: shipment.estimatedDelivery,
-                labelUrl: `/api/shipments/${shipment.trackingNumber}/label`,
-                createdAt: shipment.createdAt
-            },
-            quote: {
-                price: quote.price,
-                currency: quote.currency,
-                estimatedDays: quote.estimatedDays,
-                serviceName: quote.serviceName
-            },
-            selectionReason: reason
-        });
-    } catch (error: any) {
-        console.error('Error creating shipment:', error);
-        return res.status(500).json({
-            success: false,
-            error: error.message || 'Error al crear el envío'
-        });
-    }
-});
+        if (!shipments) {
+            return res.status(503).json({
+                success: false,
+                error: 'Registro de envíos no configurado'
+            });
+        }
 
-/**
- * GET /api/shipments/:trackingNumber/label
- * Get shipping label for a shipment
- */
-router.get('/shipments/:trackingNumber/label', async (req: Request, res: Response) => {
-    const { trackingNumber } = req.params;
+        // Validate required fields
+        if (!origin || !destination || !weight || !recipientData || !orderNumber) {
+            return res.status(400).json({
+                success: false,
+                error: 'Campos requeridos: origin, destination, weight, recipientData, orderNumber'
+            });
+        }
 
-    try {
-        const carrierId = detectCarrierByTrackingNumber(trackingNumber);
-        if (!carrierId) {
-            return res.status(404).json({
+        if (codAmount !== undefined && (typeof codAmount !== 'number' || !isFinite(codAmount) || codAmount < 0)) {
+            return res.status(400).json({
                 success: false,
-                error: 'No se pudo determinar la transportadora'
+                error: 'codAmount debe ser un valor en COP mayor o igual a 0'
             });
         }
 
-        const carrier = carrierSelector.getCarrier(carrierId);
-        if (!carrier) {
-            return res.status(404).json({
+        // Validate recipient data
+        let recipient: RecipientData = recipientData;
+        if (!recipient.name || !recipient.phone || !recipient.address || !recipient.city) {
+            return res.status(400).json({
                 success: false,
-                error: 'Transportadora no encontrada'
+                error: 'Datos de destinatario incompletos: name, phone, address, city son requeridos'
             });
         }
 
-        const label = await carrier.getLabel(trackingNumber);
-        
-        res.setHeader('Content-Type', 'application/pdf');
-        res.setHeader('Content-Disposition', `attachment; filename="label-${trackingNumber}.pdf"`);
-        return res.send(label);
-    } catch (error: any) {
-        console.error('Error getting label:', error);
-        return res.status(500).json({
-            success: false,
-            error: error.message || 'Error al obtener la etiqueta'
-        });
-    }
-});
+        // Carriers get the address in canonical nomenclature, with its parts
+        const structuredAddress = parseColombianAddress(recipient.address);
+        if (structuredAddress) {
+            recipient = { ...recipient, address: structuredAddress.normalized, structuredAddress };
+        }
+        const municipality = cityGazetteer.lookup(recipient.city, recipient.department);
+        if (!recipient.daneCode && municipality) {
+            recipient = { ...recipient, daneCode: municipality.code, department: recipient.department || municipality.department };
+        }
 
-/**
- * DELETE /api/shipments/:trackingNumber
- * Cancel a shipment
- */
-router.delete('/shipments/:trackingNumber', async (req: Request, res: Response) => {
-    const { trackingNumber } = req.params;
+        try {
+            // The order's shipment waiting for its guide, if TechAura announced it
+            const existing = await shipments.getShipmentByOrderNumber(orderNumber);
+            const waiting = existing?.status === 'ready_for_shipping' ? existing : null;
+
+            // Select best carrier
+            const selectionPriority: SelectionPriority = priority || 'balanced';
+            const { carrier, quote, reason } = await carrierSelector.selectBestCarrier(
+                origin,
+                destination,
+                Number(weight),
+                selectionPriority
+            );
+
+            // Create shipment with selected carrier
+            const shipment = await carrier.createShipment({
+                origin,
+                destination,
+                weight: Number(weight),
+                recipient,
+                reference: orderNumber,
+                declaredValue,
+                codAmount: codAmount || undefined,
+                dimensions
+            });
 
-    try {
-        const carrierId = detectCarrierByTrackingNumber(trackingNumber);
-        if (!carrierId) {
-            return res.status(404).json({
+            const booking: CarrierBooking = {
+                quote: {
+                    price: quote.price,
+                    currency: quote.currency,
+                    estimatedDays: quote.estimatedDays,
+                    serviceName: quote.serviceName
+                },
+                selectionReason: reason,
+                labelReference: shipment.labelUrl ?? null,
+                estimatedDelivery: shipment.estimatedDelivery ?? null,
+                recipient,
+                weight: Number(weight),
+                ...(codAmount ? { codAmount } : {})
+            };
+
+            let stored: Shipment;
+            try {
+                const booked = waiting
+                    ? await shipments.bookShipment(waiting.id, { trackingNumber: shipment.trackingNumber, carrier: carrier.id, booking }, 'api')
+                    : null;
+                if (waiting && !booked) {
+                    throw new Error(`El envío del pedido ${orderNumber} ya no está listo para despacho`);
+                }
+                stored = booked || await shipments.createShipment({
+                    orderNumber,
+                    trackingNumber: shipment.trackingNumber,
+                    carrier: carrier.id,
+                    customerName: recipient.name,
+                    customerPhone: recipient.phone,
+                    shippingAddress: recipient.address,
+                    city: municipality?.name || recipient.city,
+                    shippingPhone: recipient.phone,
+                    productDescription: productDescription || '',
+                    status: 'created',
+                    booking
+                }, 'api');
+            } catch (error) {
+                // A guide nobody knows about would still be picked up: void it
+                await carrier.cancelShipment(shipment.trackingNumber).catch(cancelError =>
+                    console.error(`Error cancelling unrecorded shipment ${shipment.trackingNumber}:`, cancelError));
+                throw error;
+            }
+
+            return res.json({
+                success: true,
+                shipment: {
+                    id: stored.id,
+                    trackingNumber: shipment.trackingNumber,
+                    carrier: carrier.name,
+                    carrierId: carrier.id,
+                    estimatedDelivery: shipment.estimatedDelivery,
+                    labelUrl: `/api/shipments/${shipment.trackingNumber}/label`,
+                    createdAt: shipment.createdAt
+                },
+                quote: {
+                    price: quote.price,
+                    currency: quote.currency,
+                    estimatedDays: quote.estimatedDays,
+                    serviceName: quote.serviceName
+                },
+                selectionReason: reason
+            });
+        } catch (error: any) {
+            console.error('Error creating shipment:', error);
+            return res.status(errorStatus(error)).json({
                 success: false,
-                error: 'No se pudo determinar la transportadora'
+                error: error.message || 'Error al crear el envío'
             });
         }
+    });
 
-        const carrier = carrierSelector.getCarrier(carrierId);
-        if (!carrier) {
-            return res.status(404).json({
+    /**
+     * GET /api/shipments/:trackingNumber/label
+     * Shipping label of a shipment created here, generated from the stored
+     * shipment (?size=4x6|a4); ?source=carrier fetches the carrier's own instead
+     */
+    router.get('/shipments/:trackingNumber/label', apiKeyAuth, async (req: Request, res: Response) => {
+        const { trackingNumber } = req.params;
+        const size = String(req.query.size || '4x6').toLowerCase();
+        const source = String(req.query.source || 'generated');
+
+        if (!LABEL_SIZES.includes(size as LabelSize)) {
+            return res.status(400).json({
                 success: false,
-                error: 'Transportadora no encontrada'
+                error: `Tamaño de etiqueta inválido: ${size}. Valores permitidos: ${LABEL_SIZES.join(', ')}`
             });
         }
+        if (source !== 'generated' && source !== 'carrier') {
+            return res.status(400).json({
+                success: false,
+                error: `Origen de etiqueta inválido: ${source}. Valores permitidos: generated, carrier`
+            });
+        }
+
+        try {
+            const stored = await findStored(req, res);
+            if (!stored) return;
 
-        const cancelled = await carrier.cancelShipment(trackingNumber);
+            const label = source === 'carrier'
+                ? await stored.carrier.getLabel(trackingNumber)
+                : await labelGenerator.render([stored.shipment], size as LabelSize);
         
-        if (cancelled) {
-            return res.json({
-                success: true,
-                message: 'Envío cancelado exitosamente'
-            });
-        } else {
-            return res.status(400).json({
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="label-${trackingNumber}.pdf"`);
+            return res.send(label);
+        } catch (error: any) {
+            console.error('Error getting label:', error);
+            return res.status(errorStatus(error)).json({
                 success: false,
-                error: 'No se pudo cancelar el envío'
+                error: error.message || 'Error al obtener la etiqueta'
             });
         }
-    } catch (error: any) {
-        console.error('Error cancelling shipment:', error);
-        return res.status(500).json({
-            success: false,
-            error: error.message || 'Error al cancelar el envío'
-        });
-    }
-});
+    });
 
-/**
- * GET /api/carriers/quote
- * Get quotes from all carriers for a route
- */
-router.get('/carriers/quote', async (req: Request, res: Response) => {
-    const { origin, destination, weight } = req.query;
+    /**
+     * DELETE /api/shipments/:trackingNumber
+     * Cancel a shipment created here, while the carrier has not picked it up
+     */
+    router.delete('/shipments/:trackingNumber', async (req: Request, res: Response) => {
+        const { trackingNumber } = req.params;
+
+        try {
+            const stored = await findStored(req, res);
+            if (!stored) return;
+
+            if (!canTransition(stored.shipment.status, 'cancelled')) {
+                return res.status(409).json({
+                    success: false,
+                    error: `El envío ya no se puede cancelar (estado: ${stored.shipment.status})`
+                });
+            }
 
-    if (!origin || !destination || !weight) {
-        return res.status(400).json({
-            success: false,
-            error: 'Parámetros requeridos: origin, destination, weight'
-        });
-    }
+            const cancelled = await stored.carrier.cancelShipment(trackingNumber);
+        
+            if (cancelled) {
+                await shipments!.updateShipmentStatus(stored.shipment.id, 'cancelled', { triggeredBy: 'api' });
+                return res.json({
+                    success: true,
+                    message: 'Envío cancelado exitosamente'
+                });
+            } else {
+                return res.status(400).json({
+                    success: false,
+                    error: 'No se pudo cancelar el envío'
+                });
+            }
+        } catch (error: any) {
+            console.error('Error cancelling shipment:', error);
+            return res.status(errorStatus(error)).json({
+                success: false,
+                error: error.message || 'Error al cancelar el envío'
+            });
+        }
+    });
 
-    try {
-        const quotes = await carrierSelector.getAllQuotes(
-            String(origin),
-            String(destination),
-            Number(weight)
-        );
+    /**
+     * GET /api/carriers/quote
+     * Get quotes from all carriers for a route
+     */
+    router.get('/carriers/quote', async (req: Request, res: Response) => {
+        const { origin, destination, weight } = req.query;
 
-        return res.json({
-            success: true,
-            origin: String(origin),
-            destination: String(destination),
-            weight: Number(weight),
-            quotes
-        });
-    } catch (error: any) {
-        console.error('Error getting quotes:', error);
-        return res.status(500).json({
-            success: false,
-            error: error.message || 'Error al obtener cotizaciones'
-        });
-    }
-});
+        if (!origin || !destination || !weight) {
+            return res.status(400).json({
+                success: false,
+                error: 'Parámetros requeridos: origin, destination, weight'
+            });
+        }
 
-/**
- * GET /api/carriers
- * List all available carriers
- */
-router.get('/carriers', (req: Request, res: Response) => {
-    const carriers = carrierSelector.getCarriers().map(carrier => ({
-        id: carrier.id,
-        name: carrier.name,
-        logo: carrier.logo,
-        hasPickup: carrier.hasPickup,
-        pricePerKg: carrier.pricePerKg,
-        supportedCitiesCount: carrier.supportedCities.length
-    }));
-
-    return res.json({
-        success: true,
-        carriers
-    });
-});
+        try {
+            const quotes = await carrierSelector.getAllQuotes(
+                String(origin),
+                String(destination),
+                Number(weight)
+            );
 
-/**
- * GET /api/carriers/:carrierId
- * Get details of a specific carrier
- */
-router.get('/carriers/:carrierId', (req: Request, res: Response) => {
-    const { carrierId } = req.params;
-
-    const carrier = carrierSelector.getCarrier(carrierId);
-    if (!carrier) {
-        return res.status(404).json({
-            success: false,
-            error: 'Transportadora no encontrada'
-        });
-    }
+            return res.json({
+                success: true,
+                origin: String(origin),
+                destination: String(destination),
+                weight: Number(weight),
+                quotes
+            });
+        } catch (error: any) {
+            console.error('Error getting quotes:', error);
+            return res.status(500).json({
+                success: false,
+                error: error.message || 'Error al obtener cotizaciones'
+            });
+        }
+    });
 
-    return res.json({
-        success: true,
-        carrier: {
+    /**
+     * GET /api/carriers
+     * List all available carriers
+     */
+    router.get('/carriers', (req: Request, res: Response) => {
+        const carriers = carrierSelector.getCarriers().map(carrier => ({
             id: carrier.id,
             name: carrier.name,
             logo: carrier.logo,
             hasPickup: carrier.hasPickup,
             pricePerKg: carrier.pricePerKg,
-            supportedCities: carrier.supportedCities
+            supportedCitiesCount: carrier.supportedCities.length
+        }));
+
+        return res.json({
+            success: true,
+            carriers
+        });
+    });
+
+    /**
+     * GET /api/carriers/:carrierId
+     * Get details of a specific carrier
+     */
+    router.get('/carriers/:carrierId', (req: Request, res: Response) => {
+        const { carrierId } = req.params;
+
+        const carrier = carrierSelector.getCarrier(carrierId);
+        if (!carrier) {
+            return res.status(404).json({
+                success: false,
+                error: 'Transportadora no encontrada'
+            });
         }
+
+        return res.json({
+            success: true,
+            carrier: {
+                id: carrier.id,
+                name: carrier.name,
+                logo: carrier.logo,
+                hasPickup: carrier.hasPickup,
+                pricePerKg: carrier.pricePerKg,
+                supportedCities: carrier.supportedCities
+            }
+        });
     });
-});
 
-export default router;
+    return router;
+}
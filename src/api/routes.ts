@@ -4,12 +4,27 @@ import rateLimit from 'express-rate-limit';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { GuideParser, WhatsAppChatDetectedError } from '../services/GuideParser';
-import { ICustomerMatcher, BulkOrderExportRow } from '../types';
+import { GuideParser, NonGuideDocumentError } from '../services/GuideParser';
+import { getWeakFields, isConfidentEnoughToSend } from '../services/GuideConfidence';
+import { config } from '../config/config';
+import { ICustomerMatcher, BulkOrderExportRow, ShippingGuideData, ProcessedGuideRecord, GuideJobOptions, UnmatchedGuide, CustomerMatch } from '../types';
 import { WhatsAppSender } from '../services/WhatsAppSender';
 import { WhatsAppChatParser } from '../services/WhatsAppChatParser';
-import webhooksRouter from '../routes/webhooks';
-import carrierRoutes from './carrierRoutes';
+import { PdfPageExtractor } from '../services/PdfPageExtractor';
+import { PaymentProofService } from '../services/PaymentProofService';
+import { GuideRegistry, hashFile } from '../services/GuideRegistry';
+import { JobQueue, JobStateSetter } from '../services/JobQueue';
+import { UnmatchedGuideStore } from '../services/UnmatchedGuideStore';
+import { SendLog } from '../services/SendLog';
+import { autoSendMatch } from '../services/MatchScorer';
+import { parseColombianAddress } from '../services/AddressNormalizer';
+import { ocrWorkerPool } from '../services/OcrWorkerPool';
+import { ocrCache } from '../services/OcrCache';
+import webhooksRouter, { createCarrierWebhookRouter, keepRawBody } from '../routes/webhooks';
+import { createCarrierRouter } from './carrierRoutes';
+import { createShipmentRouter } from './shipmentRoutes';
+import { ShipmentService } from '../services/ShipmentService';
+import { TrackingUpdater } from '../services/TrackingUpdater';
 import { apiKeyAuth } from '../middleware/auth';
 
 // Upload directory using OS-appropriate temp path
@@ -77,20 +92,428 @@ const testLimiter = rateLimit({
     legacyHeaders: false,
 });
 
+// Copies each guide's page out of multi-guide PDFs before sending
+const pageExtractor = new PdfPageExtractor();
+
 interface Services {
     parser: GuideParser;
     matcher: ICustomerMatcher;
     sender: WhatsAppSender;
+    /**
+     * Guides already sent; without it duplicates are not checked
+     */
+    registry?: GuideRegistry | null;
+    /**
+     * Queue uploads are processed through; without it they are processed inline
+     */
+    jobs?: JobQueue | null;
+    /**
+     * Review queue for guides with no matching order; without it they are only answered
+     */
+    unmatched?: UnmatchedGuideStore | null;
+    /**
+     * Logs every attempt to send a guide; without it only successful sends are
+     * kept, in the registry
+     */
+    sendLog?: SendLog | null;
+    /**
+     * Shipments listed by GET /api/shipments and created, labelled and cancelled
+     * through the carrier routes; without them those answer 503
+     */
+    shipments?: ShipmentService | null;
+    /**
+     * Applies the carriers' tracking callbacks (POST /webhooks/carriers/:carrierId);
+     * without it those answer 503
+     */
+    tracking?: TrackingUpdater | null;
+}
+
+type UploadedFile = Pick<Express.Multer.File, 'path' | 'originalname'>;
+
+/**
+ * Status and body of the answer to a single-file upload
+ */
+interface UploadOutcome {
+    status: number;
+    body: any;
+}
+
+/**
+ * Answer for a guide or file that was already sent
+ */
+function duplicateResponse(previous: ProcessedGuideRecord) {
+    return {
+        success: false,
+        duplicate: true,
+        message: `Guía duplicada: la guía ${previous.trackingNumber} ya fue enviada a ${previous.sentTo} el ${previous.processedAt}. Envía force=true para reenviarla.`,
+        trackingNumber: previous.trackingNumber,
+        previous
+    };
+}
+
+/**
+ * Answer for a guide another upload or watched file is sending right now
+ */
+function sendingResponse(trackingNumber: string) {
+    return {
+        success: false,
+        duplicate: true,
+        message: `Guía duplicada: la guía ${trackingNumber} se está enviando en este momento.`,
+        trackingNumber
+    };
+}
+
+/**
+ * `force=true` (form field or query string) re-sends duplicates
+ */
+function isForced(req: Request): boolean {
+    const force = req.body?.force ?? req.query.force;
+    return force === true || force === 'true';
 }
 
 export function setupRoutes(app: express.Application, services: Services): void {
-    app.use(express.json());
+    // The body as sent is kept for the carrier webhooks' signatures
+    app.use(express.json({ verify: keepRawBody }));
+
+    const registry = services.registry || null;
+    const unmatched = services.unmatched || null;
+    const sendLog = services.sendLog || null;
+
+    /**
+     * Records a sent guide in the duplicate registry
+     */
+    function recordSent(guideData: ShippingGuideData, fileHash: string, orderNumber: string, sentTo: string, source: ProcessedGuideRecord['source'] = 'upload'): void {
+        registry?.recordGuide({
+            trackingNumber: guideData.trackingNumber,
+            carrier: guideData.carrier,
+            fileHash,
+            orderNumber,
+            sentTo,
+            source,
+            processedAt: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Logs an attempt to send a guide. A logging failure is only reported:
+     * the guide was sent (or not) either way.
+     */
+    async function logSend(guideData: ShippingGuideData, fileHash: string, orderNumber: string, sentTo: string, success: boolean, source: ProcessedGuideRecord['source'] = 'upload'): Promise<void> {
+        try {
+            await sendLog?.record({
+                trackingNumber: guideData.trackingNumber,
+                carrier: guideData.carrier || null,
+                orderNumber,
+                sentTo,
+                source,
+                fileHash: fileHash || null,
+                success,
+                error: success ? null : 'WhatsApp send failed',
+                sentAt: new Date()
+            });
+        } catch (error) {
+            console.error(`⚠️ Could not log the send of guide ${guideData.trackingNumber}:`, (error as Error).message);
+        }
+    }
+
+    /**
+     * Answer fields for an uploaded guide with no order to send it to
+     * automatically: the candidate orders and, with a review queue, the
+     * `reviewId` of the guide queued for review
+     */
+    async function unmatchedGuide(file: UploadedFile, guideData: ShippingGuideData, candidates: CustomerMatch[], lowConfidence = false) {
+        const reason: UnmatchedGuide['reason'] = lowConfidence ? 'low_confidence' : candidates.length === 0 ? 'no_match' : 'low_score';
+        const messages: Record<UnmatchedGuide['reason'], string> = {
+            low_confidence: 'Algunos datos de la guía no se leyeron con suficiente confianza para enviarla automáticamente; revísala',
+            no_match: 'No se encontró cliente asociado',
+            low_score: 'Ningún pedido coincide con suficiente confianza para enviar la guía automáticamente; revisa los candidatos'
+        };
+        const answer = { success: false, message: messages[reason], guideData, weakFields: getWeakFields(guideData, config.parser.minAutoSendConfidence), candidates };
+        if (!unmatched) return answer;
+        const entry = await unmatched.add({ reason, source: 'upload', guide: guideData, fileName: file.originalname, candidates }, file.path);
+        return { ...answer, reviewId: entry.id };
+    }
+
+    /**
+     * Whether a guide's key fields were read too poorly to send it without
+     * review; `force` sends it anyway
+     */
+    function needsReview(guideData: ShippingGuideData, force: boolean): boolean {
+        return !force && !isConfidentEnoughToSend(guideData, config.parser.minAutoSendConfidence);
+    }
+
+    /**
+     * Candidate orders proposed to the reviewer of a low-confidence guide, if they can be looked up
+     */
+    function reviewCandidates(guideData: ShippingGuideData): Promise<CustomerMatch[]> {
+        return services.matcher.findCandidates(guideData).catch(() => []);
+    }
+
+    /**
+     * Matches and sends each guide parsed from one uploaded file.
+     * When the file holds several guides, each customer is sent only the
+     * page with their guide, and each result carries that page number.
+     * Guides already sent, or read with low confidence, are held back unless `force` is set.
+     */
+    async function deliverGuides(file: UploadedFile, guides: ShippingGuideData[], fileHash: string, force: boolean, setState?: JobStateSetter) {
+        const multiGuide = guides.length > 1;
+        const results: any[] = [];
+        for (const guideData of guides) {
+            const page = multiGuide ? { page: guideData.page } : {};
+            let sendPath = file.path;
+            let claimed = false;
+            try {
+                const previous = force ? null : registry?.findGuide(guideData.trackingNumber);
+                if (previous) {
+                    results.push({ fileName: file.originalname, ...page, ...duplicateResponse(previous) });
+                    continue;
+                }
+                if (registry) {
+                    claimed = registry.claimGuide(guideData.trackingNumber);
+                    if (!claimed) {
+                        results.push({ fileName: file.originalname, ...page, ...sendingResponse(guideData.trackingNumber) });
+                        continue;
+                    }
+                }
+                if (needsReview(guideData, force)) {
+                    results.push({ fileName: file.originalname, ...page, ...(await unmatchedGuide(file, guideData, await reviewCandidates(guideData), true)) });
+                    continue;
+                }
+                await setState?.('matching');
+                const candidates = await services.matcher.findCandidates(guideData);
+                const customer = autoSendMatch(candidates, config.matching.autoSendScore, config.matching.autoSendMargin);
+                if (!customer) {
+                    results.push({ fileName: file.originalname, ...page, ...(await unmatchedGuide(file, guideData, candidates)) });
+                    continue;
+                }
+                await setState?.('sending');
+                if (multiGuide && guideData.page) {
+                    sendPath = await pageExtractor.extractPage(file.path, guideData.page);
+                }
+                const sent = await services.sender.sendGuide(customer.phone, guideData, sendPath);
+                await logSend(guideData, fileHash, customer.orderNumber, customer.phone, sent);
+                if (sent) {
+                    await services.matcher.updateOrderTracking(customer.orderNumber, guideData.trackingNumber, guideData.carrier);
+                    recordSent(guideData, fileHash, customer.orderNumber, customer.phone);
+                    results.push({ success: true, fileName: file.originalname, ...page, trackingNumber: guideData.trackingNumber, sentTo: customer.phone, customer: customer.name });
+                } else {
+                    results.push({ success: false, fileName: file.originalname, ...page, error: 'Error al enviar la guía por WhatsApp' });
+                }
+            } catch (err: any) {
+                results.push({ success: false, fileName: file.originalname, ...page, error: err.message || 'Error interno' });
+            } finally {
+                if (claimed) registry!.releaseGuide(guideData.trackingNumber);
+                if (sendPath !== file.path) pageExtractor.cleanup(sendPath);
+            }
+        }
+        if (results.every(result => result.success || result.duplicate)) {
+            registry?.recordFile(fileHash, guides.map(g => g.trackingNumber));
+        }
+        return results;
+    }
+
+    /**
+     * Hash of the uploaded file and its earlier delivery, when every guide in it was already sent
+     */
+    function checkFile(file: UploadedFile, force: boolean): { fileHash: string; previous: ProcessedGuideRecord | null } {
+        if (!registry) {
+            return { fileHash: '', previous: null };
+        }
+        const fileHash = hashFile(file.path);
+        return { fileHash, previous: force ? null : registry.findFile(fileHash) };
+    }
+
+    const paymentProofs = new PaymentProofService(services.matcher);
+
+    /**
+     * Answers an upload that turned out not to be a guide. Payment receipts are
+     * attached to their order (given as `orderNumber` or matched by payer name);
+     * the other types are rejected with a hint about where they belong.
+     */
+    async function handleNonGuide(file: UploadedFile, error: NonGuideDocumentError, orderNumber?: string) {
+        const { classification } = error;
+        const documentType = classification.type;
+
+        if (documentType === 'payment_receipt') {
+            const proof = await paymentProofs.attach(file.path, file.originalname, error.text, orderNumber);
+            if (proof.attached) {
+                return { status: 200, body: { success: true, documentType, message: 'Comprobante de pago adjuntado al pedido', orderNumber: proof.orderNumber, receipt: proof.receipt } };
+            }
+            return {
+                status: proof.orderNumber ? 502 : 400,
+                body: {
+                    success: false,
+                    documentType,
+                    error: proof.orderNumber
+                        ? 'No se pudo adjuntar el comprobante de pago al pedido'
+                        : '⚠️ Esta imagen es un comprobante de pago, pero no se encontró el pedido. Envíalo de nuevo indicando el número de pedido (orderNumber).',
+                    receipt: proof.receipt,
+                    classification
+                }
+            };
+        }
+
+        const messages: Record<string, string> = {
+            whatsapp_chat: '⚠️ Esta imagen parece ser una captura de WhatsApp. Usa la sección "📱 Guías desde WhatsApp" para procesar conversaciones de clientes.',
+            invoice: '⚠️ Este documento parece ser una factura, no una guía de transportadora.',
+            id_document: '⚠️ Esta imagen parece ser un documento de identidad. Por privacidad no se procesa ni se guarda.'
+        };
+        return {
+            status: 400,
+            body: { success: false, documentType, error: messages[documentType] || '⚠️ Este documento no parece ser una guía de transportadora.', classification }
+        };
+    }
+
+    function errorOutcome(error: any): UploadOutcome {
+        if (error.message === 'Database not connected') {
+            return { status: 503, body: { success: false, error: 'Base de datos no conectada' } };
+        }
+        return { status: 500, body: { success: false, error: error.message || 'Error interno del servidor' } };
+    }
+
+    /**
+     * Parses, matches and sends the guide(s) of one uploaded file, or routes it
+     * when it is another kind of document, and deletes it. Errors are answered,
+     * not thrown, so a failed upload is not retried behind the user's back.
+     */
+    async function processUpload(filePath: string, options: GuideJobOptions, setState?: JobStateSetter): Promise<UploadOutcome> {
+        const file: UploadedFile = { path: filePath, originalname: options.originalName || path.basename(filePath) };
+        const force = options.force === true;
+        let claimed: string | null = null;
+        try {
+            // The same file was already sent: skip it before paying for the OCR
+            const { fileHash, previous: previousFile } = checkFile(file, force);
+            if (previousFile) {
+                return { status: 409, body: duplicateResponse(previousFile) };
+            }
+
+            // Parse the guide(s)
+            const guides = await services.parser.parseAll(filePath);
+            if (guides.length === 0) {
+                return {
+                    status: 400,
+                    body: {
+                        success: false,
+                        error: '⚠️ Esta imagen no parece ser una guía de transportadora. Si tienes capturas de WhatsApp con datos de clientes, usa la sección "📱 Guías desde WhatsApp".'
+                    }
+                };
+            }
+
+            // A PDF with several guides is answered per guide, like a multi-file upload
+            if (guides.length > 1) {
+                return { status: 200, body: { success: true, results: await deliverGuides(file, guides, fileHash, force, setState) } };
+            }
+            const guideData = guides[0];
+
+            const previousGuide = force ? null : registry?.findGuide(guideData.trackingNumber);
+            if (previousGuide) {
+                return { status: 409, body: duplicateResponse(previousGuide) };
+            }
+            // Held from here until the guide is recorded, so a concurrent job does not send it too
+            if (registry) {
+                if (!registry.claimGuide(guideData.trackingNumber)) {
+                    return { status: 409, body: sendingResponse(guideData.trackingNumber) };
+                }
+                claimed = guideData.trackingNumber;
+            }
+
+            // Low-confidence key fields need a human before anything is sent
+            if (needsReview(guideData, force)) {
+                return { status: 200, body: await unmatchedGuide(file, guideData, await reviewCandidates(guideData), true) };
+            }
+
+            // Match customer
+            await setState?.('matching');
+            const candidates = await services.matcher.findCandidates(guideData);
+            const customer = autoSendMatch(candidates, config.matching.autoSendScore, config.matching.autoSendMargin);
+            if (!customer) {
+                return { status: 200, body: await unmatchedGuide(file, guideData, candidates) };
+            }
+
+            // Send via WhatsApp
+            await setState?.('sending');
+            const sent = await services.sender.sendGuide(customer.phone, guideData, filePath);
+            await logSend(guideData, fileHash, customer.orderNumber, customer.phone, sent);
+            if (!sent) {
+                return { status: 500, body: { success: false, error: 'Error al enviar la guía por WhatsApp' } };
+            }
+
+            await services.matcher.updateOrderTracking(
+                customer.orderNumber,
+                guideData.trackingNumber,
+                guideData.carrier
+            );
+            recordSent(guideData, fileHash, customer.orderNumber, customer.phone);
+            registry?.recordFile(fileHash, [guideData.trackingNumber]);
+
+            return {
+                status: 200,
+                body: {
+                    success: true,
+                    message: 'Guía enviada correctamente',
+                    trackingNumber: guideData.trackingNumber,
+                    sentTo: customer.phone,
+                    customer: customer.name
+                }
+            };
+        } catch (caught: any) {
+            let error = caught;
+            if (error instanceof NonGuideDocumentError) {
+                try {
+                    return await handleNonGuide(file, error, options.orderNumber);
+                } catch (handlerError: any) {
+                    error = handlerError;
+                }
+            }
+
+            console.error('Error processing guide:', error);
+            return errorOutcome(error);
+        } finally {
+            if (claimed) registry!.releaseGuide(claimed);
+            if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        }
+    }
+
+    services.jobs?.register('upload', (job, setState) => processUpload(job.filePath, job.options, setState));
+
+    /**
+     * Processes uploaded files, in order. With a job queue the files are
+     * queued together and processed at its concurrency.
+     */
+    async function processUploads(files: Express.Multer.File[], force: boolean, orderNumber?: string): Promise<UploadOutcome[]> {
+        const jobs = services.jobs;
+        const optionsFor = (file: Express.Multer.File): GuideJobOptions => ({ force, originalName: file.originalname, orderNumber });
+        if (!jobs) {
+            const outcomes: UploadOutcome[] = [];
+            for (const file of files) {
+                outcomes.push(await processUpload(file.path, optionsFor(file)));
+            }
+            return outcomes;
+        }
+
+        const settled: Array<Promise<UploadOutcome>> = [];
+        for (const file of files) {
+            try {
+                const job = await jobs.enqueue('upload', file.path, optionsFor(file));
+                settled.push(jobs.waitFor(job.id).then(outcome => outcome as UploadOutcome, errorOutcome));
+            } catch (error) {
+                console.error('Error queueing guide upload:', error);
+                if (fs.existsSync(file.path)) fs.unlinkSync(file.path);
+                settled.push(Promise.resolve(errorOutcome(error)));
+            }
+        }
+        return Promise.all(settled);
+    }
 
     // Mount webhooks router
     app.use('/webhooks', webhooksRouter);
+    app.use('/webhooks', createCarrierWebhookRouter(services.shipments || null, services.tracking || null));
+
+    // Shipment listing, before the carrier routes' /api/shipments/:trackingNumber ones
+    app.use('/api', createShipmentRouter(services.shipments || null));
 
     // Mount carrier routes for multi-carrier tracking
-    app.use('/api', carrierRoutes);
+    app.use('/api', createCarrierRouter(services.shipments || null));
 
     // Note: Primary /health endpoint is registered early in index.ts for resilience.
     // This serves as a fallback when routes are used standalone (e.g., tests).
@@ -139,6 +562,21 @@ export function setupRoutes(app: express.Application, services: Services): void
         }
     });
 
+    // OCR worker pool load: queue depth, busy workers and job timings
+    app.get('/api/ocr/metrics', apiKeyAuth, (req: Request, res: Response) => {
+        res.json({ success: true, metrics: ocrWorkerPool.getMetrics(), cache: ocrCache.getStats() });
+    });
+
+    // Drops every cached OCR result, e.g. after changing the OCR setup
+    app.delete('/api/ocr/cache', apiKeyAuth, (req: Request, res: Response) => {
+        try {
+            const removed = ocrCache.clear();
+            return res.json({ success: true, removed });
+        } catch (error: any) {
+            return res.status(500).json({ success: false, error: error.message || 'No se pudo limpiar la caché de OCR' });
+        }
+    });
+
     // Manual guide upload and processing — accepts multiple files
     app.post('/api/process-guide', apiKeyAuth, uploadLimiter, upload.array('guide', 50), async (req: Request, res: Response) => {
         const files = req.files as Express.Multer.File[] | undefined;
@@ -154,124 +592,132 @@ export function setupRoutes(app: express.Application, services: Services): void
             });
         }
 
-        // If multiple files, process each and return array of results
+        const outcomes = await processUploads(allFiles, isForced(req), req.body?.orderNumber);
+
+        // If multiple files, return an array of results (one per guide for multi-guide PDFs)
         if (allFiles.length > 1) {
-            const results = [];
-            for (const file of allFiles) {
-                try {
-                    const guideData = await services.parser.parse(file.path);
-                    if (!guideData) {
-                        fs.existsSync(file.path) && fs.unlinkSync(file.path);
-                        results.push({ success: false, fileName: file.originalname, error: '⚠️ Esta imagen no parece ser una guía de transportadora. Si tienes capturas de WhatsApp con datos de clientes, usa la sección "📱 Guías desde WhatsApp".' });
-                        continue;
-                    }
-                    const customer = await services.matcher.findCustomer(guideData);
-                    if (!customer) {
-                        fs.existsSync(file.path) && fs.unlinkSync(file.path);
-                        results.push({ success: false, fileName: file.originalname, message: 'No se encontró cliente asociado', guideData });
-                        continue;
-                    }
-                    const sent = await services.sender.sendGuide(customer.phone, guideData, file.path);
-                    if (sent) {
-                        await services.matcher.updateOrderTracking(customer.orderNumber, guideData.trackingNumber, guideData.carrier);
-                        fs.existsSync(file.path) && fs.unlinkSync(file.path);
-                        results.push({ success: true, fileName: file.originalname, trackingNumber: guideData.trackingNumber, sentTo: customer.phone, customer: customer.name });
-                    } else {
-                        fs.existsSync(file.path) && fs.unlinkSync(file.path);
-                        results.push({ success: false, fileName: file.originalname, error: 'Error al enviar la guía por WhatsApp' });
-                    }
-                } catch (err: any) {
-                    if (fs.existsSync(file.path)) fs.unlinkSync(file.path);
-                    if (err instanceof WhatsAppChatDetectedError) {
-                        results.push({ success: false, fileName: file.originalname, error: '⚠️ Esta imagen parece ser una captura de WhatsApp. Usa la sección "📱 Guías desde WhatsApp" para procesar conversaciones de clientes.' });
-                    } else {
-                        results.push({ success: false, fileName: file.originalname, error: err.message || 'Error interno' });
-                    }
-                }
-            }
+            const results = outcomes.flatMap(({ body }, i) => body.results || [{ fileName: allFiles[i].originalname, ...body }]);
             return res.json({ success: true, results });
         }
 
         // Single file path (original behaviour)
-        const file = allFiles[0];
+        const { status, body } = outcomes[0];
+        return res.status(status).json(body);
+    });
+
+    /**
+     * The review queue entry of the request, answering 503/404 when there is
+     * none (or the error when it cannot be read)
+     */
+    async function findUnmatched(req: Request, res: Response): Promise<UnmatchedGuide | null> {
+        if (!unmatched) {
+            res.status(503).json({ success: false, error: 'Cola de revisión de guías no configurada' });
+            return null;
+        }
+        let entry: UnmatchedGuide | null;
         try {
-            const filePath = file.path;
+            entry = await unmatched.get(req.params.id);
+        } catch (error: any) {
+            console.error('Error reading unmatched guide:', error);
+            const { status, body } = errorOutcome(error);
+            res.status(status).json(body);
+            return null;
+        }
+        if (!entry) {
+            res.status(404).json({ success: false, error: 'Guía no encontrada' });
+        }
+        return entry;
+    }
 
-            // Parse the guide
-            const guideData = await services.parser.parse(filePath);
-            if (!guideData) {
-                fs.unlinkSync(filePath); // Clean up
-                return res.status(400).json({ 
-                    success: false, 
-                    error: '⚠️ Esta imagen no parece ser una guía de transportadora. Si tienes capturas de WhatsApp con datos de clientes, usa la sección "📱 Guías desde WhatsApp".' 
-                });
-            }
+    // Guides waiting for review, newest first; ?status=pending|assigned and ?q= free-text search
+    app.get('/api/unmatched-guides', apiKeyAuth, async (req: Request, res: Response) => {
+        if (!unmatched) {
+            return res.status(503).json({ success: false, error: 'Cola de revisión de guías no configurada' });
+        }
+        const status = req.query.status === 'pending' || req.query.status === 'assigned' ? req.query.status : undefined;
+        const query = typeof req.query.q === 'string' ? req.query.q : undefined;
+        try {
+            const guides = await unmatched.list({ status, query });
+            return res.json({ success: true, total: guides.length, guides });
+        } catch (error: any) {
+            console.error('Error listing unmatched guides:', error);
+            const { status, body } = errorOutcome(error);
+            return res.status(status).json(body);
+        }
+    });
 
-            // Match customer
-            const customer = await services.matcher.findCustomer(guideData);
-            if (!customer) {
-                fs.unlinkSync(filePath); // Clean up
-                return res.json({
-                    success: false,
-                    message: 'No se encontró cliente asociado',
-                    guideData
-                });
+    app.get('/api/unmatched-guides/:id', apiKeyAuth, async (req: Request, res: Response) => {
+        const entry = await findUnmatched(req, res);
+        if (!entry) return;
+        return res.json({ success: true, guide: entry });
+    });
+
+    // The guide's image or PDF, for the review page
+    app.get('/api/unmatched-guides/:id/file', apiKeyAuth, async (req: Request, res: Response) => {
+        const entry = await findUnmatched(req, res);
+        if (!entry) return;
+        return res.sendFile(unmatched!.filePath(entry), (error) => {
+            if (error && !res.headersSent) {
+                res.status(404).json({ success: false, error: 'Archivo de la guía no encontrado' });
             }
+        });
+    });
 
-            // Send via WhatsApp
-            const sent = await services.sender.sendGuide(customer.phone, guideData, filePath);
-            
-            if (sent) {
-                await services.matcher.updateOrderTracking(
-                    customer.orderNumber, 
-                    guideData.trackingNumber, 
-                    guideData.carrier
-                );
+    /**
+     * Assigns a reviewed guide to an order: sends it to the order's customer
+     * (only its own page for multi-guide PDFs) and sets the order's tracking number.
+     * A guide sent meanwhile some other way is not sent again unless `force` is set.
+     */
+    app.post('/api/unmatched-guides/:id/assign', apiKeyAuth, async (req: Request, res: Response) => {
+        const entry = await findUnmatched(req, res);
+        if (!entry) return;
+        if (entry.status === 'assigned') {
+            return res.status(409).json({ success: false, error: `La guía ya fue asignada al pedido ${entry.orderNumber}`, guide: entry });
+        }
+        const orderNumber = typeof req.body?.orderNumber === 'string' ? req.body.orderNumber.trim() : '';
+        if (!orderNumber) {
+            return res.status(400).json({ success: false, error: 'Indica el número de pedido (orderNumber)' });
+        }
 
-                // Clean up after successful send and DB update
-                fs.unlinkSync(filePath);
+        const trackingNumber = entry.guide.trackingNumber;
+        const previous = isForced(req) ? null : registry?.findGuide(trackingNumber);
+        if (previous) {
+            return res.status(409).json(duplicateResponse(previous));
+        }
+        if (registry && !registry.claimGuide(trackingNumber)) {
+            return res.status(409).json(sendingResponse(trackingNumber));
+        }
 
-                return res.json({
-                    success: true,
-                    message: 'Guía enviada correctamente',
-                    trackingNumber: guideData.trackingNumber,
-                    sentTo: customer.phone,
-                    customer: customer.name
-                });
-            } else {
-                // Clean up on send failure
-                fs.unlinkSync(filePath);
-                return res.status(500).json({
-                    success: false,
-                    error: 'Error al enviar la guía por WhatsApp'
-                });
-            }
-        } catch (error: any) {
-            console.error('Error processing guide:', error);
-            
-            // Clean up file if it exists
-            if (file?.path && fs.existsSync(file.path)) {
-                fs.unlinkSync(file.path);
+        const filePath = unmatched!.filePath(entry);
+        let sendPath = filePath;
+        try {
+            const order = await services.matcher.findOrder(orderNumber);
+            if (!order) {
+                return res.status(404).json({ success: false, error: 'Pedido no encontrado' });
             }
 
-            if (error instanceof WhatsAppChatDetectedError) {
-                return res.status(400).json({
-                    success: false,
-                    error: '⚠️ Esta imagen parece ser una captura de WhatsApp. Usa la sección "📱 Guías desde WhatsApp" para procesar conversaciones de clientes.'
-                });
+            const guideData = entry.guide;
+            if (guideData.page && path.extname(filePath) === '.pdf') {
+                sendPath = await pageExtractor.extractPage(filePath, guideData.page);
             }
-
-            if (error.message === 'Database not connected') {
-                return res.status(503).json({
-                    success: false,
-                    error: 'Base de datos no conectada'
-                });
+            const fileHash = registry ? hashFile(filePath) : '';
+            const sent = await services.sender.sendGuide(order.phone, guideData, sendPath);
+            await logSend(guideData, fileHash, order.orderNumber, order.phone, sent, 'review');
+            if (!sent) {
+                return res.status(502).json({ success: false, error: 'Error al enviar la guía por WhatsApp' });
             }
 
-            return res.status(500).json({ 
-                success: false, 
-                error: error.message || 'Error interno del servidor'
-            });
+            await services.matcher.updateOrderTracking(order.orderNumber, guideData.trackingNumber, guideData.carrier);
+            recordSent(guideData, fileHash, order.orderNumber, order.phone, 'review');
+            const assigned = await unmatched!.markAssigned(entry.id, order.orderNumber, order.phone);
+            return res.json({ success: true, message: 'Guía asignada y enviada', trackingNumber: guideData.trackingNumber, sentTo: order.phone, customer: order.name, guide: assigned });
+        } catch (error: any) {
+            console.error('Error assigning unmatched guide:', error);
+            const { status, body } = errorOutcome(error);
+            return res.status(status).json(body);
+        } finally {
+            registry?.releaseGuide(trackingNumber);
+            if (sendPath !== filePath) pageExtractor.cleanup(sendPath);
         }
     });
 
@@ -294,7 +740,8 @@ export function setupRoutes(app: express.Application, services: Services): void
             if (guideData) {
                 return res.json({
                     success: true,
-                    data: guideData
+                    data: guideData,
+                    weakFields: getWeakFields(guideData, config.parser.minAutoSendConfidence)
                 });
             } else {
                 return res.status(400).json({
@@ -307,6 +754,16 @@ export function setupRoutes(app: express.Application, services: Services): void
                 fs.unlinkSync(req.file.path);
             }
 
+            // Show why the file was not taken as a guide
+            if (error instanceof NonGuideDocumentError) {
+                return res.status(400).json({
+                    success: false,
+                    error: 'Could not extract data from guide',
+                    documentType: error.classification.type,
+                    classification: error.classification
+                });
+            }
+
             return res.status(500).json({ 
                 success: false, 
                 error: error.message 
@@ -336,12 +793,16 @@ export function setupRoutes(app: express.Application, services: Services): void
                 rawText: 'Test'
             };
 
-            const match = await services.matcher.findCustomer(guideData);
+            // Every candidate is answered with its signals, to see how the score came about
+            const candidates = await services.matcher.findCandidates(guideData);
+            const match = candidates[0];
 
             if (match) {
                 return res.json({
                     success: true,
-                    match
+                    match,
+                    autoSend: autoSendMatch(candidates, config.matching.autoSendScore, config.matching.autoSendMargin) !== null,
+                    candidates
                 });
             } else {
                 return res.json({
@@ -403,22 +864,26 @@ export function setupRoutes(app: express.Application, services: Services): void
                 'COLONIA (OBLIGATORIO SOLO PARA QUIKEN)', 'SEGURO (SOLO APLICA PARA ENVIA)'
             ];
 
-            const rows = orders.map(o => [
-                o.nombreDestinatario || '',
-                o.telefono || '',
-                o.direccion || '',
-                o.ciudad || '',
-                o.barrio || '',
-                o.conRecaudo || '',
-                o.nota || '',
-                o.email || '',
-                o.idVariable || '',
-                o.codigoPostal || '',
-                o.transportadora || '',
-                o.cedula || '',
-                o.colonia || '',
-                o.seguro || ''
-            ]);
+            // Addresses go out in canonical nomenclature; the barrio is taken from the address when missing
+            const rows = orders.map(o => {
+                const address = o.direccion ? parseColombianAddress(o.direccion) : null;
+                return [
+                    o.nombreDestinatario || '',
+                    o.telefono || '',
+                    address?.normalized || o.direccion || '',
+                    o.ciudad || '',
+                    o.barrio || address?.neighborhood || '',
+                    o.conRecaudo || '',
+                    o.nota || '',
+                    o.email || '',
+                    o.idVariable || '',
+                    o.codigoPostal || '',
+                    o.transportadora || '',
+                    o.cedula || '',
+                    o.colonia || '',
+                    o.seguro || ''
+                ];
+            });
 
             if (format === 'xlsx') {
                 const ExcelJS = await import('exceljs');
@@ -462,7 +927,13 @@ export function setupRoutes(app: express.Application, services: Services): void
             availableEndpoints: [
                 'GET /health',
                 'GET /health/techaura',
+                'GET /api/ocr/metrics',
+                'DELETE /api/ocr/cache',
                 'POST /api/process-guide',
+                'GET /api/unmatched-guides',
+                'GET /api/unmatched-guides/:id',
+                'GET /api/unmatched-guides/:id/file',
+                'POST /api/unmatched-guides/:id/assign',
                 'POST /api/test-parse',
                 'POST /api/test-match',
                 'POST /api/extract-whatsapp-orders',
@@ -470,7 +941,10 @@ export function setupRoutes(app: express.Application, services: Services): void
                 'GET /orders/confirm',
                 'POST /webhooks/order-completed',
                 'POST /webhooks/new-order',
+                'POST /webhooks/carriers/:carrierId',
                 'GET /api/tracking/:trackingNumber',
+                'GET /api/shipments',
+                'POST /api/shipments/labels',
                 'POST /api/shipments',
                 'GET /api/shipments/:trackingNumber/label',
                 'DELETE /api/shipments/:trackingNumber',
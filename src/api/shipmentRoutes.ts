@@ -0,0 +1,256 @@
+/**
+ * Shipment listing routes: search, cursor pagination and CSV/XLSX export of
+ * the shipments this service keeps
+ */
+
+import { Router, Request, Response } from 'express';
+import { Shipment } from '../types';
+import { ShipmentService, ShipmentListOptions, InvalidCursorError, SHIPMENT_SORT_FIELDS } from '../services/ShipmentService';
+import { ShipmentFilter, ShipmentSortField } from '../services/ShipmentRepository';
+import { isShipmentStatus } from '../services/ShipmentLifecycle';
+import { sanitizePhone } from '../services/MatchScorer';
+import { cityGazetteer } from '../services/CityGazetteer';
+import { labelGenerator, LABEL_SIZES, LabelSize } from '../services/LabelGenerator';
+import { apiKeyAuth } from '../middleware/auth';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Exports page through the listing this many at a time, up to EXPORT_MAX_ROWS
+const EXPORT_PAGE_SIZE = 500;
+const EXPORT_MAX_ROWS = 10000;
+
+// Labels printed in one batch PDF
+const MAX_BATCH_LABELS = 200;
+
+const EXPORT_COLUMNS: Array<[string, (shipment: Shipment) => string | Date]> = [
+    ['PEDIDO', s => s.orderNumber],
+    ['GUIA', s => s.trackingNumber],
+    ['TRANSPORTADORA', s => s.carrier || ''],
+    ['ESTADO', s => s.status],
+    ['CLIENTE', s => s.customerName || ''],
+    ['TELEFONO', s => s.shippingPhone || s.customerPhone || ''],
+    ['DIRECCION', s => s.shippingAddress || ''],
+    ['CIUDAD', s => s.city || ''],
+    ['PRODUCTO', s => s.productDescription || ''],
+    ['CREADO', s => s.createdAt],
+    ['ACTUALIZADO', s => s.updatedAt]
+];
+
+/**
+ * A query parameter given once, as text
+ */
+function param(req: Request, name: string): string | undefined {
+    const value = req.query[name];
+    return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * A date parameter: a whole day ('2024-01-15', local time) or a timestamp.
+ * `to` dates include their whole day, so they are returned as the moment
+ * right after it.
+ */
+function dateParam(value: string, end: boolean): Date | null {
+    const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (day) {
+        const date = new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]) + (end ? 1 : 0));
+        return isNaN(date.getTime()) ? null : date;
+    }
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return null;
+    return end ? new Date(date.getTime() + 1) : date;
+}
+
+/**
+ * Listing options of the request's query string, or the error to answer
+ * with. ?status= takes a comma-separated list; a city is matched by its
+ * gazetteer name, so 'bogota' finds 'Bogotá'.
+ */
+function parseListQuery(req: Request): { options: ShipmentListOptions } | { error: string } {
+    const filter: ShipmentFilter = {};
+
+    const status = param(req, 'status');
+    if (status) {
+        const statuses = status.split(',').map(s => s.trim()).filter(Boolean);
+        const invalid = statuses.find(s => !isShipmentStatus(s));
+        if (invalid) return { error: `Estado de envío inválido: ${invalid}` };
+        filter.statuses = statuses.filter(isShipmentStatus);
+    }
+
+    const carrier = param(req, 'carrier');
+    if (carrier) filter.carrier = carrier.toLowerCase();
+
+    const city = param(req, 'city');
+    if (city) filter.city = cityGazetteer.lookup(city)?.name || city;
+
+    for (const [name, end] of [['from', false], ['to', true]] as const) {
+        const value = param(req, name);
+        if (!value) continue;
+        const date = dateParam(value, end);
+        if (!date) return { error: `Fecha inválida en ${name}: ${value}` };
+        if (end) filter.createdBefore = date; else filter.createdFrom = date;
+    }
+
+    const phone = param(req, 'phone');
+    if (phone) {
+        const digits = sanitizePhone(phone);
+        if (!digits) return { error: `Teléfono inválido: ${phone}` };
+        filter.phone = digits;
+    }
+
+    const search = param(req, 'q');
+    if (search) filter.search = search;
+
+    const sort = param(req, 'sort') ?? 'createdAt';
+    if (!SHIPMENT_SORT_FIELDS.includes(sort as ShipmentSortField)) {
+        return { error: `Orden inválido: ${sort}. Valores permitidos: ${SHIPMENT_SORT_FIELDS.join(', ')}` };
+    }
+    const order = param(req, 'order') ?? 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+        return { error: `Dirección de orden inválida: ${order}. Valores permitidos: asc, desc` };
+    }
+
+    const limitValue = param(req, 'limit');
+    const limit = limitValue === undefined ? DEFAULT_PAGE_SIZE : Number(limitValue);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        return { error: `limit debe ser un entero entre 1 y ${MAX_PAGE_SIZE}` };
+    }
+
+    return { options: { filter, sort: sort as ShipmentSortField, order, limit, cursor: param(req, 'cursor') } };
+}
+
+/**
+ * Every shipment of the listing, page by page, up to EXPORT_MAX_ROWS
+ */
+async function exportRows(shipments: ShipmentService, options: ShipmentListOptions): Promise<{ rows: Shipment[]; truncated: boolean }> {
+    const rows: Shipment[] = [];
+    let cursor: string | undefined;
+    do {
+        const page = await shipments.listShipments({ ...options, limit: EXPORT_PAGE_SIZE, cursor });
+        rows.push(...page.shipments);
+        cursor = page.nextCursor ?? undefined;
+    } while (cursor && rows.length < EXPORT_MAX_ROWS);
+    return { rows: rows.slice(0, EXPORT_MAX_ROWS), truncated: !!cursor };
+}
+
+async function sendExport(res: Response, format: 'csv' | 'xlsx', rows: Shipment[], truncated: boolean): Promise<void> {
+    const headers = EXPORT_COLUMNS.map(([header]) => header);
+    const values = rows.map(shipment => EXPORT_COLUMNS.map(([, value]) => value(shipment)));
+    if (truncated) {
+        res.setHeader('X-Export-Truncated', 'true');
+    }
+
+    if (format === 'xlsx') {
+        const ExcelJS = await import('exceljs');
+        const workbook = new ExcelJS.Workbook();
+        const sheet = workbook.addWorksheet('Envios');
+
+        sheet.addRow(headers);
+        const headerRow = sheet.getRow(1);
+        headerRow.font = { bold: true };
+        headerRow.commit();
+
+        values.forEach(row => sheet.addRow(row));
+
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', 'attachment; filename="envios.xlsx"');
+
+        await workbook.xlsx.write(res);
+        res.end();
+        return;
+    }
+
+    const escape = (v: string | Date) => `"${(v instanceof Date ? v.toISOString() : v).replace(/"/g, '""')}"`;
+    const csv = [headers, ...values].map(row => row.map(escape).join(',')).join('\r\n');
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="envios.csv"');
+    res.send('\uFEFF' + csv); // BOM for Excel UTF-8 compatibility
+}
+
+/**
+ * Creates the shipment listing router, mounted under /api
+ * @param shipments - Shipments to list; without them the listing answers 503
+ */
+export function createShipmentRouter(shipments: ShipmentService | null): Router {
+    const router = Router();
+
+    /**
+     * GET /api/shipments
+     * Shipments newest first by default. Filters: ?status=a,b &carrier= &city=
+     * &from= &to= &phone= &q=; ?sort= &order=asc|desc; ?limit= and ?cursor= (the
+     * previous page's nextCursor); ?format=csv|xlsx exports every match instead
+     */
+    router.get('/shipments', apiKeyAuth, async (req: Request, res: Response) => {
+        if (!shipments) {
+            return res.status(503).json({ success: false, error: 'Listado de envíos no configurado' });
+        }
+
+        const format = param(req, 'format') ?? 'json';
+        if (format !== 'json' && format !== 'csv' && format !== 'xlsx') {
+            return res.status(400).json({ success: false, error: `Formato inválido: ${format}. Valores permitidos: json, csv, xlsx` });
+        }
+
+        const parsed = parseListQuery(req);
+        if ('error' in parsed) {
+            return res.status(400).json({ success: false, error: parsed.error });
+        }
+
+        try {
+            if (format !== 'json') {
+                const { rows, truncated } = await exportRows(shipments, { ...parsed.options, cursor: undefined });
+                return await sendExport(res, format, rows, truncated);
+            }
+
+            const page = await shipments.listShipments(parsed.options);
+            return res.json({ success: true, count: page.shipments.length, shipments: page.shipments, nextCursor: page.nextCursor });
+        } catch (error: any) {
+            if (error instanceof InvalidCursorError) {
+                return res.status(400).json({ success: false, error: 'Cursor inválido para este listado' });
+            }
+            console.error('Error listing shipments:', error);
+            return res.status(500).json({ success: false, error: error.message || 'Error al listar los envíos' });
+        }
+    });
+
+    /**
+     * POST /api/shipments/labels
+     * One PDF with the labels of many shipments, a page each, in the order
+     * given: { trackingNumbers: [...], size: '4x6' | 'a4' }
+     */
+    router.post('/shipments/labels', apiKeyAuth, async (req: Request, res: Response) => {
+        if (!shipments) {
+            return res.status(503).json({ success: false, error: 'Listado de envíos no configurado' });
+        }
+
+        const { trackingNumbers, size = '4x6' } = req.body || {};
+        if (!Array.isArray(trackingNumbers) || trackingNumbers.length === 0 || !trackingNumbers.every(t => typeof t === 'string' && t.trim() !== '')) {
+            return res.status(400).json({ success: false, error: 'trackingNumbers debe ser una lista de números de guía' });
+        }
+        if (trackingNumbers.length > MAX_BATCH_LABELS) {
+            return res.status(400).json({ success: false, error: `Máximo ${MAX_BATCH_LABELS} etiquetas por lote` });
+        }
+        if (!LABEL_SIZES.includes(size)) {
+            return res.status(400).json({ success: false, error: `Tamaño de etiqueta inválido: ${size}. Valores permitidos: ${LABEL_SIZES.join(', ')}` });
+        }
+
+        try {
+            const unique = [...new Set(trackingNumbers.map((t: string) => t.trim()))];
+            const found = await Promise.all(unique.map(t => shipments.getShipmentByTrackingNumber(t)));
+            const missing = unique.filter((_, i) => !found[i]);
+            if (missing.length > 0) {
+                return res.status(404).json({ success: false, error: 'Envíos no encontrados', missing });
+            }
+
+            const pdf = await labelGenerator.render(found as Shipment[], size as LabelSize);
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="etiquetas-${unique.length}.pdf"`);
+            return res.send(pdf);
+        } catch (error: any) {
+            console.error('Error rendering labels:', error);
+            return res.status(500).json({ success: false, error: error.message || 'Error al generar las etiquetas' });
+        }
+    });
+
+    return router;
+}
@@ -1,5 +1,7 @@
 import express, { Request, Response, Router } from 'express';
 import { techAuraIntegration, OrderForShipping, OrderDetails } from '../services/TechAuraIntegration';
+import { ShipmentService } from '../services/ShipmentService';
+import { ShipmentStatus } from '../carriers/types';
 
 const TECHAURA_ENABLED = process.env.TECHAURA_ENABLED !== 'false';
 const TECHAURA_VIEW_TIMEOUT_MS = 1500;
@@ -64,21 +66,53 @@ export async function getShippingStats(): Promise<DashboardStats> {
 }
 
 /**
- * Get tracking history for an order
+ * Names of the shipment statuses shown in the tracking timeline
+ */
+const STATUS_LABELS: Record<ShipmentStatus, string> = {
+    ready_for_shipping: 'Listo para envío',
+    created: 'Guía creada',
+    picked_up: 'Recogido por la transportadora',
+    in_transit: 'En tránsito',
+    out_for_delivery: 'En reparto',
+    delivered: 'Entregado',
+    failed_delivery: 'Entrega fallida',
+    returned: 'Devuelto',
+    cancelled: 'Cancelado'
+};
+
+/**
+ * Get tracking history for an order: the status changes of its shipment, oldest first
  * @param orderNumber - The order number
+ * @param shipments - Where the shipment and its status history are kept
  * @returns Array of tracking events
  */
-export async function getTrackingHistory(orderNumber: string): Promise<TrackingEvent[]> {
-    // In a full implementation, this would query the database for tracking history
-    // For now, return an empty array as placeholder
-    return [];
+export async function getTrackingHistory(orderNumber: string, shipments: ShipmentService): Promise<TrackingEvent[]> {
+    try {
+        const shipment = await shipments.getShipmentByOrderNumber(orderNumber);
+        if (!shipment) return [];
+
+        const history = await shipments.getStatusHistory(shipment.id);
+        return history.map(change => {
+            const event = change.carrierEvent;
+            const eventText = event ? [event.description, event.location].filter(Boolean).join(' — ') : '';
+            return {
+                timestamp: change.changedAt,
+                action: STATUS_LABELS[change.toStatus] || change.toStatus,
+                details: [eventText, `por ${change.triggeredBy}`].filter(Boolean).join(' · ')
+            };
+        });
+    } catch (error) {
+        console.error('Error fetching tracking history:', error);
+        return [];
+    }
 }
 
 /**
  * Creates the view routes router
+ * @param shipments - Shipments whose status history backs the order tracking timeline; none shows it empty
  * @returns Express Router with view routes configured
  */
-export function createViewRouter(): Router {
+export function createViewRouter(shipments: ShipmentService | null = null): Router {
     const router = Router();
 
     // Dashboard - main overview
@@ -162,7 +196,7 @@ export function createViewRouter(): Router {
                 });
             }
 
-            const tracking = await getTrackingHistory(orderNumber);
+            const tracking = shipments ? await getTrackingHistory(orderNumber, shipments) : [];
             
             res.render('order-detail', { 
                 order, 
@@ -208,6 +242,14 @@ export function createViewRouter(): Router {
         }
     });
 
+    // Review queue of the guides that could not be sent automatically; loaded from /api/unmatched-guides
+    router.get('/unmatched', (req: Request, res: Response) => {
+        res.render('unmatched-guides', {
+            title: 'Guías sin pedido',
+            currentPage: 'unmatched'
+        });
+    });
+
     // Redirect root to dashboard
     router.get('/', (req: Request, res: Response) => {
         res.redirect('/dashboard');
@@ -51,7 +51,7 @@ export abstract class BaseCarrier implements Carrier {
     /**
      * Map carrier-specific status to unified status
      */
-    protected abstract mapStatus(carrierStatus: string): ShipmentStatus;
+    abstract mapStatus(carrierStatus: string): ShipmentStatus;
 
     /**
      * Generate a tracking number (for simulation/testing)
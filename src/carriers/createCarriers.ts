@@ -0,0 +1,83 @@
+/**
+ * Carrier factory
+ * Builds the carriers for the configured mode: the in-process simulations,
+ * HTTP adapters against the local mock carrier server, or HTTP adapters
+ * against the carriers' live APIs
+ */
+
+import { config } from '../config/config';
+import { RetryConfig } from '../config/retry';
+import { BaseCarrier } from './BaseCarrier';
+import { Carrier } from './types';
+import { CarrierCredentials } from './http/CarrierApi';
+import { CARRIER_APIS } from './http/apis';
+import { HttpCarrier } from './http/HttpCarrier';
+import {
+    InterRapidisimoCarrier,
+    ServientregaCarrier,
+    EnviaCarrier,
+    CoordinadoraCarrier,
+    TCCCarrier,
+    DeprisaCarrier
+} from './implementations';
+
+export type CarrierMode = 'simulated' | 'mock' | 'live';
+
+export interface CarrierOptions {
+    mode: CarrierMode;
+    /** Base URL of the mock carrier server; each carrier is under /<carrierId> */
+    mockUrl: string;
+    timeoutMs: number;
+    /** Live API access by carrier id */
+    credentials: Record<string, CarrierCredentials>;
+    retry?: RetryConfig;
+}
+
+/**
+ * The simulated carriers, which answer without any API
+ */
+export function createSimulatedCarriers(): BaseCarrier[] {
+    return [
+        new InterRapidisimoCarrier(),
+        new ServientregaCarrier(),
+        new EnviaCarrier(),
+        new CoordinadoraCarrier(),
+        new TCCCarrier(),
+        new DeprisaCarrier()
+    ];
+}
+
+/**
+ * The carriers of the mode. In live mode a carrier without an API URL and
+ * key is left out, with a warning.
+ */
+export function createCarriers(options: CarrierOptions = config.carriers): Carrier[] {
+    const simulated = createSimulatedCarriers();
+    if (options.mode === 'simulated') {
+        return simulated;
+    }
+
+    const carriers: Carrier[] = [];
+    for (const base of simulated) {
+        const configured = options.credentials[base.id];
+        const credentials: CarrierCredentials = options.mode === 'mock'
+            ? {
+                apiUrl: `${options.mockUrl.replace(/\/+$/, '')}/${base.id}`,
+                apiKey: configured?.apiKey || 'mock-key',
+                username: configured?.username || 'mock'
+            }
+            : configured;
+
+        if (!credentials?.apiUrl || !credentials.apiKey) {
+            const prefix = base.id.toUpperCase();
+            console.warn(`⚠️ ${base.name} is not available: ${prefix}_API_URL and ${prefix}_API_KEY are not set`);
+            continue;
+        }
+
+        carriers.push(new HttpCarrier(base, CARRIER_APIS[base.id], credentials, {
+            timeoutMs: options.timeoutMs,
+            retry: options.retry
+        }));
+    }
+    return carriers;
+}
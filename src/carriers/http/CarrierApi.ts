@@ -0,0 +1,160 @@
+/**
+ * Carrier HTTP API descriptions
+ * What HttpCarrier needs to know about each carrier's REST API: where its
+ * endpoints are, how it authenticates and how its payloads map to ours
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { ShipmentData, Quote } from '../types';
+
+/**
+ * Access to one carrier's API. `username` is only used by carriers with
+ * basic auth, whose password is the API key.
+ */
+export interface CarrierCredentials {
+    apiUrl: string;
+    apiKey: string;
+    username?: string;
+}
+
+/**
+ * How the API key is sent: in a header of the carrier's own, as a bearer
+ * token or as the password of basic auth
+ */
+export type CarrierAuth =
+    | { type: 'header'; header: string }
+    | { type: 'bearer' }
+    | { type: 'basic' };
+
+/**
+ * A carrier's answer to a shipment booking
+ */
+export interface CarrierBookingResponse {
+    trackingNumber: string;
+    labelUrl?: string;
+    estimatedDelivery?: Date;
+}
+
+/**
+ * A tracking event with the carrier's own status name
+ */
+export interface CarrierTrackingEvent {
+    /** Null when the carrier's date cannot be read */
+    timestamp: Date | null;
+    status: string;
+    description: string;
+    location: string;
+    details: string | null;
+}
+
+/**
+ * A carrier's tracking answer, statuses still in the carrier's vocabulary
+ * (they are mapped by the carrier's mapStatus)
+ */
+export interface CarrierTrackingResponse {
+    status: string;
+    statusDescription: string;
+    estimatedDelivery: Date | null;
+    events: CarrierTrackingEvent[];
+    currentLocation: string | null;
+    recipientName: string | null;
+    signedBy: string | null;
+    deliveredAt: Date | null;
+}
+
+/**
+ * How a carrier signs its tracking callbacks with the secret shared with it:
+ * an HMAC of the body as sent, in a header (hex or base64, after `prefix`
+ * if any, e.g. 'sha256='), or the secret itself in a header
+ */
+export type CarrierWebhookSignature =
+    | { type: 'hmac'; header: string; algorithm: 'sha1' | 'sha256'; encoding: 'hex' | 'base64'; prefix?: string }
+    | { type: 'secret'; header: string };
+
+/**
+ * A tracking callback's guide and events, statuses still in the carrier's
+ * vocabulary
+ */
+export interface CarrierWebhookPayload {
+    trackingNumber: string;
+    events: CarrierTrackingEvent[];
+}
+
+export interface CarrierApi {
+    auth: CarrierAuth;
+    /**
+     * Endpoint paths under the API URL; ':trackingNumber' is replaced by the guide
+     */
+    endpoints: {
+        createShipment: string;
+        tracking: string;
+        label: string;
+        cancel: { method: 'post' | 'delete'; path: string };
+        quote: string;
+    };
+    /**
+     * Labels come as the PDF itself or base64-encoded in a field of a JSON answer
+     */
+    label: { format: 'pdf' } | { format: 'base64'; field: string };
+    shipmentRequest(data: ShipmentData): object;
+    shipmentResponse(body: any): CarrierBookingResponse;
+    trackingResponse(body: any): CarrierTrackingResponse;
+    quoteRequest(origin: string, destination: string, weight: number): object;
+    quoteResponse(body: any): Quote;
+    /**
+     * The message of an error answer, if it has one
+     */
+    errorMessage(body: any): string | undefined;
+    /**
+     * Tracking callbacks the carrier pushes to POST /webhooks/carriers/<carrierId>
+     */
+    webhook: {
+        signature: CarrierWebhookSignature;
+        payload(body: any): CarrierWebhookPayload;
+    };
+}
+
+/**
+ * Why a carrier API call failed: our credentials were refused, the guide
+ * does not exist, the carrier refused the request (e.g. a guide it can no
+ * longer cancel) or the carrier could not be reached or failed
+ */
+export type CarrierErrorKind = 'unauthorized' | 'not_found' | 'rejected' | 'unavailable';
+
+/**
+ * A failed carrier API call, with a message in Spanish for the API's answers
+ */
+export class CarrierApiError extends Error {
+    constructor(
+        public readonly carrierId: string,
+        public readonly kind: CarrierErrorKind,
+        message: string,
+        public readonly status: number | null = null
+    ) {
+        super(message);
+        this.name = 'CarrierApiError';
+    }
+}
+
+/**
+ * A date of a carrier payload, or null when missing or unreadable
+ */
+export function parseCarrierDate(value: unknown): Date | null {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Whether a callback's signature header is the one the shared secret gives
+ * for its body. Compared in constant time.
+ */
+export function verifyWebhookSignature(signature: CarrierWebhookSignature, secret: string, body: Buffer, header: string | undefined): boolean {
+    if (!secret || !header) return false;
+    const expected = signature.type === 'secret'
+        ? secret
+        : (signature.prefix ?? '') + createHmac(signature.algorithm, secret).update(body).digest(signature.encoding);
+    const given = Buffer.from(header.trim());
+    const wanted = Buffer.from(expected);
+    return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
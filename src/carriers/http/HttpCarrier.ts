@@ -0,0 +1,212 @@
+/**
+ * HTTP Carrier
+ * A Carrier backed by the carrier's REST API (or the local mock carrier
+ * server). Metadata, quotes' city coverage and the status vocabulary come
+ * from the carrier's simulated implementation; requests and answers are
+ * mapped by the carrier's CarrierApi description.
+ */
+
+import axios, { AxiosError, AxiosInstance } from 'axios';
+import { BaseCarrier } from '../BaseCarrier';
+import {
+    Carrier,
+    ShipmentData,
+    ShipmentResult,
+    TrackingInfo,
+    Quote
+} from '../types';
+import { CarrierApi, CarrierApiError, CarrierCredentials, CarrierTrackingEvent } from './CarrierApi';
+import { RetryConfig, retryConfig, calculateBackoffDelay, sleep } from '../../config/retry';
+
+export interface HttpCarrierOptions {
+    timeoutMs: number;
+    /** Retries of tracking and label lookups when the carrier is unavailable */
+    retry?: RetryConfig;
+}
+
+export class HttpCarrier implements Carrier {
+    readonly id: string;
+    readonly name: string;
+    readonly logo: string;
+    readonly supportedCities: string[];
+    readonly averageDeliveryDays: Map<string, number>;
+    readonly pricePerKg: number;
+    readonly hasPickup: boolean;
+
+    private http: AxiosInstance;
+    private retry: RetryConfig;
+
+    constructor(
+        private readonly base: BaseCarrier,
+        private readonly api: CarrierApi,
+        credentials: CarrierCredentials,
+        options: HttpCarrierOptions
+    ) {
+        this.id = base.id;
+        this.name = base.name;
+        this.logo = base.logo;
+        this.supportedCities = base.supportedCities;
+        this.averageDeliveryDays = base.averageDeliveryDays;
+        this.pricePerKg = base.pricePerKg;
+        this.hasPickup = base.hasPickup;
+        this.retry = options.retry ?? retryConfig;
+
+        const headers: Record<string, string> = {};
+        if (api.auth.type === 'header') {
+            headers[api.auth.header] = credentials.apiKey;
+        } else if (api.auth.type === 'bearer') {
+            headers['Authorization'] = `Bearer ${credentials.apiKey}`;
+        }
+
+        this.http = axios.create({
+            baseURL: credentials.apiUrl.replace(/\/+$/, ''),
+            timeout: options.timeoutMs,
+            headers,
+            auth: api.auth.type === 'basic'
+                ? { username: credentials.username || '', password: credentials.apiKey }
+                : undefined
+        });
+    }
+
+    async createShipment(data: ShipmentData): Promise<ShipmentResult> {
+        const body = await this.request('post', this.api.endpoints.createShipment, this.api.shipmentRequest(data));
+        const booking = this.api.shipmentResponse(body);
+
+        return {
+            trackingNumber: booking.trackingNumber,
+            carrier: this.id,
+            labelUrl: booking.labelUrl,
+            estimatedDelivery: booking.estimatedDelivery,
+            createdAt: new Date()
+        };
+    }
+
+    async getTrackingInfo(trackingNumber: string): Promise<TrackingInfo> {
+        const body = await this.request('get', this.path(this.api.endpoints.tracking, trackingNumber));
+        const tracking = this.api.trackingResponse(body);
+
+        return {
+            carrier: this.name,
+            trackingNumber,
+            status: this.base.mapStatus(tracking.status),
+            statusDescription: tracking.statusDescription,
+            estimatedDelivery: tracking.estimatedDelivery,
+            // An event without a readable date cannot be placed among the guide's
+            // others, and stamping it with the lookup time would store it again on
+            // every poll as the latest event
+            events: tracking.events
+                .filter((event): event is CarrierTrackingEvent & { timestamp: Date } => event.timestamp !== null)
+                .map(event => ({ ...event, status: this.base.mapStatus(event.status) })),
+            currentLocation: tracking.currentLocation,
+            recipientName: tracking.recipientName,
+            signedBy: tracking.signedBy,
+            deliveredAt: tracking.deliveredAt
+        };
+    }
+
+    async getLabel(trackingNumber: string): Promise<Buffer> {
+        const path = this.path(this.api.endpoints.label, trackingNumber);
+        if (this.api.label.format === 'pdf') {
+            return Buffer.from(await this.request<ArrayBuffer>('get', path, undefined, true));
+        }
+
+        const body = await this.request<any>('get', path);
+        const encoded = body?.[this.api.label.field];
+        if (typeof encoded !== 'string' || encoded === '') {
+            throw new CarrierApiError(this.id, 'unavailable', `${this.name} no devolvió la etiqueta de ${trackingNumber}`);
+        }
+        return Buffer.from(encoded, 'base64');
+    }
+
+    /**
+     * Cancels the guide; false when the carrier refuses to (e.g. it already
+     * picked the shipment up)
+     */
+    async cancelShipment(trackingNumber: string): Promise<boolean> {
+        const { method, path } = this.api.endpoints.cancel;
+        try {
+            await this.request(method, this.path(path, trackingNumber));
+            return true;
+        } catch (error) {
+            if (error instanceof CarrierApiError && error.kind === 'rejected') {
+                console.warn(`⚠️ ${error.message}`);
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    async getQuote(origin: string, destination: string, weight: number): Promise<Quote> {
+        const body = await this.request('post', this.api.endpoints.quote, this.api.quoteRequest(origin, destination, weight));
+        return this.api.quoteResponse(body);
+    }
+
+    private path(template: string, trackingNumber: string): string {
+        return template.replace(':trackingNumber', encodeURIComponent(trackingNumber));
+    }
+
+    /**
+     * Calls the carrier API and answers the response body. Failures are
+     * thrown as CarrierApiError; lookups (GET) are retried while the carrier
+     * is unavailable, bookings and cancellations are not, so they are never
+     * sent twice.
+     */
+    private async request<T = any>(method: 'get' | 'post' | 'delete', url: string, data?: object, binary = false): Promise<T> {
+        const attempts = method === 'get' ? this.retry.maxRetries + 1 : 1;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const response = await this.http.request<T>({
+                    method,
+                    url,
+                    data,
+                    responseType: binary ? 'arraybuffer' : 'json'
+                });
+                return response.data;
+            } catch (error) {
+                const translated = this.translateError(error);
+                if (translated.kind !== 'unavailable' || attempt + 1 >= attempts) {
+                    throw translated;
+                }
+                const delay = calculateBackoffDelay(attempt, this.retry);
+                console.warn(`⚠️ ${translated.message}. Reintento ${attempt + 1}/${attempts - 1} en ${delay}ms`);
+                await sleep(delay);
+            }
+        }
+    }
+
+    private translateError(error: unknown): CarrierApiError {
+        if (!axios.isAxiosError(error) || !error.response) {
+            const detail = (error as Error)?.message || 'sin respuesta';
+            return new CarrierApiError(this.id, 'unavailable', `${this.name} no disponible: ${detail}`);
+        }
+
+        const status = error.response.status;
+        const message = this.errorMessage(error);
+        if (status === 401 || status === 403) {
+            return new CarrierApiError(this.id, 'unauthorized', `${this.name} rechazó las credenciales de la API`, status);
+        }
+        if (status === 404) {
+            return new CarrierApiError(this.id, 'not_found', `${this.name}: ${message || 'guía no encontrada'}`, status);
+        }
+        if (status >= 400 && status < 500 && status !== 408 && status !== 429) {
+            return new CarrierApiError(this.id, 'rejected', `${this.name} rechazó la solicitud: ${message || `HTTP ${status}`}`, status);
+        }
+        return new CarrierApiError(this.id, 'unavailable', `${this.name} no disponible: ${message || `HTTP ${status}`}`, status);
+    }
+
+    /**
+     * The carrier's message of an error answer; binary requests get it as bytes
+     */
+    private errorMessage(error: AxiosError): string | undefined {
+        let body: any = error.response?.data;
+        if (body instanceof ArrayBuffer || Buffer.isBuffer(body)) {
+            try {
+                body = JSON.parse(Buffer.from(body as ArrayBuffer).toString('utf8'));
+            } catch {
+                return undefined;
+            }
+        }
+        return body && typeof body === 'object' ? this.api.errorMessage(body) : undefined;
+    }
+}
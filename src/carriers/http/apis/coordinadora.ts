@@ -0,0 +1,83 @@
+/**
+ * Coordinadora API
+ * Dispatches (despachos) with snake_case payloads, API key in the apikey
+ * header; labels come base64-encoded; callbacks signed with HMAC-SHA256
+ * as 'sha256=<hex>'
+ */
+
+import { CarrierApi, parseCarrierDate } from '../CarrierApi';
+
+export const coordinadoraApi: CarrierApi = {
+    auth: { type: 'header', header: 'apikey' },
+    endpoints: {
+        createShipment: '/despachos',
+        tracking: '/despachos/:trackingNumber/seguimiento',
+        label: '/despachos/:trackingNumber/etiqueta',
+        cancel: { method: 'post', path: '/despachos/:trackingNumber/anulacion' },
+        quote: '/cotizador'
+    },
+    label: { format: 'base64', field: 'pdf_base64' },
+
+    shipmentRequest: data => ({
+        referencia: data.reference,
+        ciudad_origen: data.origin,
+        ciudad_destino: data.destination,
+        peso: data.weight,
+        valor_declarado: data.declaredValue ?? 0,
+        valor_recaudo: data.codAmount ?? 0,
+        destinatario: {
+            nombre: data.recipient.name,
+            telefono: data.recipient.phone,
+            direccion: data.recipient.address,
+            codigo_dane: data.recipient.daneCode ?? null
+        }
+    }),
+
+    shipmentResponse: body => ({
+        trackingNumber: String(body.codigo_remision),
+        estimatedDelivery: parseCarrierDate(body.fecha_entrega) ?? undefined
+    }),
+
+    trackingResponse: body => ({
+        status: body.estado.nombre,
+        statusDescription: body.estado.descripcion,
+        estimatedDelivery: parseCarrierDate(body.fecha_entrega_estimada),
+        events: (body.novedades || []).map((n: any) => ({
+            timestamp: parseCarrierDate(n.fecha),
+            status: n.estado,
+            description: n.descripcion,
+            location: n.ciudad || '',
+            details: n.observaciones || null
+        })),
+        currentLocation: body.ciudad_actual || null,
+        recipientName: body.entrega?.recibe || null,
+        signedBy: body.entrega?.recibe || null,
+        deliveredAt: parseCarrierDate(body.entrega?.fecha)
+    }),
+
+    quoteRequest: (origin, destination, weight) => ({ ciudad_origen: origin, ciudad_destino: destination, peso: weight }),
+
+    quoteResponse: body => ({
+        available: body.cobertura === true,
+        price: body.cobertura ? Number(body.flete_total) : 0,
+        currency: 'COP',
+        estimatedDays: body.cobertura ? Number(body.dias_entrega) : 0,
+        serviceName: body.cobertura ? body.producto : 'No disponible'
+    }),
+
+    errorMessage: body => body.error_message,
+
+    webhook: {
+        signature: { type: 'hmac', header: 'X-Coordinadora-Signature', algorithm: 'sha256', encoding: 'hex', prefix: 'sha256=' },
+        payload: body => ({
+            trackingNumber: String(body.codigo_remision ?? ''),
+            events: [{
+                timestamp: parseCarrierDate(body.novedad.fecha),
+                status: body.novedad.estado,
+                description: body.novedad.descripcion,
+                location: body.novedad.ciudad || '',
+                details: body.novedad.observaciones || null
+            }]
+        })
+    }
+};
@@ -0,0 +1,83 @@
+/**
+ * Deprisa API
+ * Bearer tokens; labels come base64-encoded; callbacks signed with
+ * HMAC-SHA256 in base64
+ */
+
+import { CarrierApi, parseCarrierDate } from '../CarrierApi';
+
+export const deprisaApi: CarrierApi = {
+    auth: { type: 'bearer' },
+    endpoints: {
+        createShipment: '/envios',
+        tracking: '/envios/:trackingNumber/tracking',
+        label: '/envios/:trackingNumber/etiqueta',
+        cancel: { method: 'post', path: '/envios/:trackingNumber/cancelar' },
+        quote: '/tarifas'
+    },
+    label: { format: 'base64', field: 'etiqueta' },
+
+    shipmentRequest: data => ({
+        referencia: data.reference,
+        origen: data.origin,
+        destino: data.destination,
+        peso: data.weight,
+        valorDeclarado: data.declaredValue ?? 0,
+        valorContraentrega: data.codAmount ?? 0,
+        destinatario: {
+            nombre: data.recipient.name,
+            telefono: data.recipient.phone,
+            direccion: data.recipient.address,
+            ciudad: data.recipient.city
+        }
+    }),
+
+    shipmentResponse: body => ({
+        trackingNumber: String(body.envio.guia),
+        labelUrl: body.envio.etiquetaUrl || undefined,
+        estimatedDelivery: parseCarrierDate(body.envio.fechaEstimada) ?? undefined
+    }),
+
+    trackingResponse: body => ({
+        status: body.estado,
+        statusDescription: body.descripcion,
+        estimatedDelivery: parseCarrierDate(body.fechaEstimada),
+        events: (body.eventos || []).map((e: any) => ({
+            timestamp: parseCarrierDate(e.fecha),
+            status: e.estado,
+            description: e.descripcion,
+            location: e.ubicacion || '',
+            details: e.detalle || null
+        })),
+        currentLocation: body.ubicacion || null,
+        recipientName: body.receptor || null,
+        signedBy: body.receptor || null,
+        deliveredAt: parseCarrierDate(body.fechaEntrega)
+    }),
+
+    quoteRequest: (origin, destination, weight) => ({ origen: origin, destino: destination, peso: weight }),
+
+    quoteResponse: body => ({
+        available: body.disponible === true,
+        price: body.disponible ? Number(body.total) : 0,
+        currency: 'COP',
+        estimatedDays: body.disponible ? Number(body.dias) : 0,
+        serviceName: body.disponible ? body.servicio : 'No disponible'
+    }),
+
+    errorMessage: body => body.mensaje,
+
+    webhook: {
+        signature: { type: 'hmac', header: 'X-Deprisa-Signature', algorithm: 'sha256', encoding: 'base64' },
+        payload: body => ({
+            trackingNumber: String(body.guia ?? ''),
+            events: [{
+                timestamp: parseCarrierDate(body.evento.fecha),
+                status: body.evento.estado,
+                description: body.evento.descripcion,
+                location: body.evento.ubicacion || '',
+                details: body.evento.detalle || null
+            }]
+        })
+    }
+};
@@ -0,0 +1,83 @@
+/**
+ * Envía (Colvanes) API
+ * Basic auth with the account's user and API key, PDF labels; callbacks
+ * signed with HMAC-SHA1 in base64
+ */
+
+import { CarrierApi, parseCarrierDate } from '../CarrierApi';
+
+export const enviaApi: CarrierApi = {
+    auth: { type: 'basic' },
+    endpoints: {
+        createShipment: '/guias/generar',
+        tracking: '/guias/:trackingNumber',
+        label: '/guias/:trackingNumber/rotulo',
+        cancel: { method: 'delete', path: '/guias/:trackingNumber' },
+        quote: '/tarifas'
+    },
+    label: { format: 'pdf' },
+
+    shipmentRequest: data => ({
+        orden: data.reference,
+        origen: data.origin,
+        destino: data.destination,
+        kilos: data.weight,
+        valorDeclarado: data.declaredValue ?? 0,
+        valorRecaudo: data.codAmount ?? 0,
+        destinatario: {
+            nombres: data.recipient.name,
+            telefono: data.recipient.phone,
+            direccion: data.recipient.address,
+            codigoDane: data.recipient.daneCode ?? null
+        }
+    }),
+
+    shipmentResponse: body => ({
+        trackingNumber: String(body.resultado.guia),
+        labelUrl: body.resultado.rotulo || undefined,
+        estimatedDelivery: parseCarrierDate(body.resultado.entregaEstimada) ?? undefined
+    }),
+
+    trackingResponse: body => ({
+        status: body.estado,
+        statusDescription: body.detalleEstado,
+        estimatedDelivery: parseCarrierDate(body.entregaEstimada),
+        events: (body.historial || []).map((h: any) => ({
+            timestamp: parseCarrierDate(h.fechaHora),
+            status: h.estado,
+            description: h.detalle,
+            location: h.ciudad || '',
+            details: null
+        })),
+        currentLocation: body.ubicacion || null,
+        recipientName: body.entregadoA || null,
+        signedBy: body.entregadoA || null,
+        deliveredAt: parseCarrierDate(body.fechaEntrega)
+    }),
+
+    quoteRequest: (origin, destination, weight) => ({ origen: origin, destino: destination, kilos: weight }),
+
+    quoteResponse: body => ({
+        available: body.cubre === true,
+        price: body.cubre ? Number(body.precio) : 0,
+        currency: 'COP',
+        estimatedDays: body.cubre ? Number(body.dias) : 0,
+        serviceName: body.cubre ? body.producto : 'No disponible'
+    }),
+
+    errorMessage: body => body.message,
+
+    webhook: {
+        signature: { type: 'hmac', header: 'X-Envia-Signature', algorithm: 'sha1', encoding: 'base64' },
+        payload: body => ({
+            trackingNumber: String(body.guia ?? ''),
+            events: [{
+                timestamp: parseCarrierDate(body.fechaHora),
+                status: body.estado,
+                description: body.detalle,
+                location: body.ciudad || '',
+                details: null
+            }]
+        })
+    }
+};
@@ -0,0 +1,20 @@
+/**
+ * HTTP API descriptions of the supported carriers, by carrier id
+ */
+
+import { CarrierApi } from '../CarrierApi';
+import { servientregaApi } from './servientrega';
+import { interRapidisimoApi } from './interrapidisimo';
+import { enviaApi } from './envia';
+import { coordinadoraApi } from './coordinadora';
+import { tccApi } from './tcc';
+import { deprisaApi } from './deprisa';
+
+export const CARRIER_APIS: Record<string, CarrierApi> = {
+    interrapidisimo: interRapidisimoApi,
+    servientrega: servientregaApi,
+    envia: enviaApi,
+    coordinadora: coordinadoraApi,
+    tcc: tccApi,
+    deprisa: deprisaApi
+};
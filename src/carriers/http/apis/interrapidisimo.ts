@@ -0,0 +1,84 @@
+/**
+ * Inter Rapidísimo API
+ * Versioned REST API with bearer tokens; labels come base64-encoded;
+ * callbacks carry the shared token in a header
+ */
+
+import { CarrierApi, parseCarrierDate } from '../CarrierApi';
+
+export const interRapidisimoApi: CarrierApi = {
+    auth: { type: 'bearer' },
+    endpoints: {
+        createShipment: '/api/v1/envios',
+        tracking: '/api/v1/envios/:trackingNumber/rastreo',
+        label: '/api/v1/envios/:trackingNumber/etiqueta',
+        cancel: { method: 'delete', path: '/api/v1/envios/:trackingNumber' },
+        quote: '/api/v1/cotizar'
+    },
+    label: { format: 'base64', field: 'etiquetaBase64' },
+
+    shipmentRequest: data => ({
+        numeroPedido: data.reference,
+        origen: { ciudad: data.origin },
+        destino: {
+            ciudad: data.destination,
+            codigoDane: data.recipient.daneCode ?? null,
+            direccion: data.recipient.address
+        },
+        peso: data.weight,
+        valorComercial: data.declaredValue ?? 0,
+        valorRecaudar: data.codAmount ?? 0,
+        destinatario: {
+            nombre: data.recipient.name,
+            celular: data.recipient.phone
+        }
+    }),
+
+    shipmentResponse: body => ({
+        trackingNumber: String(body.numeroGuia),
+        estimatedDelivery: parseCarrierDate(body.fechaEntregaEstimada) ?? undefined
+    }),
+
+    trackingResponse: body => ({
+        status: body.estado,
+        statusDescription: body.descripcionEstado,
+        estimatedDelivery: parseCarrierDate(body.fechaEntregaEstimada),
+        events: (body.movimientos || []).map((m: any) => ({
+            timestamp: parseCarrierDate(m.fecha),
+            status: m.estado,
+            description: m.descripcion,
+            location: m.ciudad || '',
+            details: m.novedad || null
+        })),
+        currentLocation: body.ciudadActual || null,
+        recipientName: body.recibidoPor || null,
+        signedBy: body.recibidoPor || null,
+        deliveredAt: parseCarrierDate(body.fechaEntrega)
+    }),
+
+    quoteRequest: (origin, destination, weight) => ({ ciudadOrigen: origin, ciudadDestino: destination, peso: weight }),
+
+    quoteResponse: body => ({
+        available: body.cobertura === true,
+        price: body.cobertura ? Number(body.tarifa) : 0,
+        currency: 'COP',
+        estimatedDays: body.cobertura ? Number(body.diasHabiles) : 0,
+        serviceName: body.cobertura ? body.servicio : 'No disponible'
+    }),
+
+    errorMessage: body => body.error?.descripcion,
+
+    webhook: {
+        signature: { type: 'secret', header: 'X-Webhook-Token' },
+        payload: body => ({
+            trackingNumber: String(body.numeroGuia ?? ''),
+            events: [{
+                timestamp: parseCarrierDate(body.movimiento.fecha),
+                status: body.movimiento.estado,
+                description: body.movimiento.descripcion,
+                location: body.movimiento.ciudad || '',
+                details: body.movimiento.novedad || null
+            }]
+        })
+    }
+};
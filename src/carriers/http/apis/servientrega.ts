@@ -0,0 +1,85 @@
+/**
+ * Servientrega API
+ * Guides under /guias, API key in the X-Api-Key header, PDF labels;
+ * callbacks signed with HMAC-SHA256
+ */
+
+import { CarrierApi, parseCarrierDate } from '../CarrierApi';
+
+export const servientregaApi: CarrierApi = {
+    auth: { type: 'header', header: 'X-Api-Key' },
+    endpoints: {
+        createShipment: '/guias',
+        tracking: '/guias/:trackingNumber/estados',
+        label: '/guias/:trackingNumber/rotulo',
+        cancel: { method: 'post', path: '/guias/:trackingNumber/anular' },
+        quote: '/cotizaciones'
+    },
+    label: { format: 'pdf' },
+
+    shipmentRequest: data => ({
+        referencia: data.reference,
+        ciudadOrigen: data.origin,
+        ciudadDestino: data.destination,
+        pesoKg: data.weight,
+        valorDeclarado: data.declaredValue ?? 0,
+        valorRecaudo: data.codAmount ?? 0,
+        destinatario: {
+            nombre: data.recipient.name,
+            telefono: data.recipient.phone,
+            direccion: data.recipient.address,
+            ciudad: data.recipient.city,
+            departamento: data.recipient.department ?? null,
+            codigoDane: data.recipient.daneCode ?? null
+        }
+    }),
+
+    shipmentResponse: body => ({
+        trackingNumber: String(body.guia.numero),
+        labelUrl: body.guia.urlRotulo || undefined,
+        estimatedDelivery: parseCarrierDate(body.guia.fechaEstimadaEntrega) ?? undefined
+    }),
+
+    trackingResponse: body => ({
+        status: body.estadoActual.codigo,
+        statusDescription: body.estadoActual.descripcion,
+        estimatedDelivery: parseCarrierDate(body.fechaEstimadaEntrega),
+        events: (body.estados || []).map((e: any) => ({
+            timestamp: parseCarrierDate(e.fecha),
+            status: e.codigo,
+            description: e.descripcion,
+            location: e.ciudad || '',
+            details: e.observacion || null
+        })),
+        currentLocation: body.estadoActual.ubicacion || null,
+        recipientName: body.receptor?.nombre || null,
+        signedBy: body.receptor?.nombre || null,
+        deliveredAt: parseCarrierDate(body.receptor?.fechaEntrega)
+    }),
+
+    quoteRequest: (origin, destination, weight) => ({ origen: origin, destino: destination, pesoKg: weight }),
+
+    quoteResponse: body => ({
+        available: body.disponible === true,
+        price: body.disponible ? Number(body.valorTotal) : 0,
+        currency: body.moneda || 'COP',
+        estimatedDays: body.disponible ? Number(body.diasEntrega) : 0,
+        serviceName: body.disponible ? body.servicio : 'No disponible'
+    }),
+
+    errorMessage: body => body.mensaje,
+
+    webhook: {
+        signature: { type: 'hmac', header: 'X-Servientrega-Firma', algorithm: 'sha256', encoding: 'hex' },
+        payload: body => ({
+            trackingNumber: String(body.guia ?? ''),
+            events: [{
+                timestamp: parseCarrierDate(body.estado.fecha),
+                status: body.estado.codigo,
+                description: body.estado.descripcion,
+                location: body.estado.ciudad || '',
+                details: body.estado.observacion || null
+            }]
+        })
+    }
+};
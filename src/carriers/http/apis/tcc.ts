@@ -0,0 +1,82 @@
+/**
+ * TCC API
+ * Remittances (remesas), access token in the accesstoken header, PDF labels;
+ * callbacks carry the shared token in a header, several events at a time
+ */
+
+import { CarrierApi, parseCarrierDate } from '../CarrierApi';
+
+export const tccApi: CarrierApi = {
+    auth: { type: 'header', header: 'accesstoken' },
+    endpoints: {
+        createShipment: '/remesas',
+        tracking: '/remesas/:trackingNumber/trazabilidad',
+        label: '/remesas/:trackingNumber/rotulo',
+        cancel: { method: 'delete', path: '/remesas/:trackingNumber' },
+        quote: '/liquidacion'
+    },
+    label: { format: 'pdf' },
+
+    shipmentRequest: data => ({
+        numeroReferencia: data.reference,
+        ciudadOrigen: data.origin,
+        ciudadDestino: data.destination,
+        unidades: [{ peso: data.weight, ...(data.dimensions ?? {}) }],
+        valorMercancia: data.declaredValue ?? 0,
+        valorRecaudo: data.codAmount ?? 0,
+        destinatario: {
+            nombre: data.recipient.name,
+            telefono: data.recipient.phone,
+            direccion: data.recipient.address,
+            codigoDane: data.recipient.daneCode ?? null
+        }
+    }),
+
+    shipmentResponse: body => ({
+        trackingNumber: String(body.remesa.numero),
+        estimatedDelivery: parseCarrierDate(body.remesa.fechaCompromiso) ?? undefined
+    }),
+
+    trackingResponse: body => ({
+        status: body.estado,
+        statusDescription: body.descripcion,
+        estimatedDelivery: parseCarrierDate(body.fechaCompromiso),
+        events: (body.eventos || []).map((e: any) => ({
+            timestamp: parseCarrierDate(e.fecha),
+            status: e.estado,
+            description: e.descripcion,
+            location: e.ciudad || '',
+            details: null
+        })),
+        currentLocation: body.ciudad || null,
+        recipientName: body.firmadoPor || null,
+        signedBy: body.firmadoPor || null,
+        deliveredAt: parseCarrierDate(body.fechaEntrega)
+    }),
+
+    quoteRequest: (origin, destination, weight) => ({ ciudadOrigen: origin, ciudadDestino: destination, peso: weight }),
+
+    quoteResponse: body => ({
+        available: body.disponible === true,
+        price: body.disponible ? Number(body.valorFlete) : 0,
+        currency: 'COP',
+        estimatedDays: body.disponible ? Number(body.tiempoEntregaDias) : 0,
+        serviceName: body.disponible ? body.servicio : 'No disponible'
+    }),
+
+    errorMessage: body => body.respuesta?.mensaje,
+
+    webhook: {
+        signature: { type: 'secret', header: 'X-TCC-Token' },
+        payload: body => ({
+            trackingNumber: String(body.remesa ?? ''),
+            events: (body.eventos || []).map((e: any) => ({
+                timestamp: parseCarrierDate(e.fecha),
+                status: e.estado,
+                description: e.descripcion,
+                location: e.ciudad || '',
+                details: null
+            }))
+        })
+    }
+};
@@ -36,7 +36,7 @@ export class CoordinadoraCarrier extends BaseCarrier {
         this.averageDeliveryDays.set('cartagena', 2);
     }
 
-    protected mapStatus(carrierStatus: string): ShipmentStatus {
+    mapStatus(carrierStatus: string): ShipmentStatus {
         const statusMap: Record<string, ShipmentStatus> = {
             'DOCUMENTADO': 'created',
             'RECOLECTADO': 'picked_up',
@@ -34,7 +34,7 @@ export class DeprisaCarrier extends BaseCarrier {
         this.averageDeliveryDays.set('cartagena', 3);
     }
 
-    protected mapStatus(carrierStatus: string): ShipmentStatus {
+    mapStatus(carrierStatus: string): ShipmentStatus {
         const statusMap: Record<string, ShipmentStatus> = {
             'CREADO': 'created',
             'RECOGIDO': 'picked_up',
@@ -35,7 +35,7 @@ export class EnviaCarrier extends BaseCarrier {
         this.averageDeliveryDays.set('cartagena', 3);
     }
 
-    protected mapStatus(carrierStatus: string): ShipmentStatus {
+    mapStatus(carrierStatus: string): ShipmentStatus {
         const statusMap: Record<string, ShipmentStatus> = {
             'GENERADO': 'created',
             'RECOGIDO': 'picked_up',
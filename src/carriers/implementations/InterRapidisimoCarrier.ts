@@ -37,7 +37,7 @@ export class InterRapidisimoCarrier extends BaseCarrier {
         this.averageDeliveryDays.set('cartagena', 3);
     }
 
-    protected mapStatus(carrierStatus: string): ShipmentStatus {
+    mapStatus(carrierStatus: string): ShipmentStatus {
         const statusMap: Record<string, ShipmentStatus> = {
             'RECIBIDO': 'created',
             'RECOLECTADO': 'picked_up',
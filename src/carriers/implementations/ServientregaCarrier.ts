@@ -38,7 +38,7 @@ export class ServientregaCarrier extends BaseCarrier {
         this.averageDeliveryDays.set('cartagena', 2);
     }
 
-    protected mapStatus(carrierStatus: string): ShipmentStatus {
+    mapStatus(carrierStatus: string): ShipmentStatus {
         const statusMap: Record<string, ShipmentStatus> = {
             'ADMITIDO': 'created',
             'RECOGIDO': 'picked_up',
@@ -36,7 +36,7 @@ export class TCCCarrier extends BaseCarrier {
         this.averageDeliveryDays.set('cartagena', 2);
     }
 
-    protected mapStatus(carrierStatus: string): ShipmentStatus {
+    mapStatus(carrierStatus: string): ShipmentStatus {
         const statusMap: Record<string, ShipmentStatus> = {
             'INGRESADO': 'created',
             'RECOGIDO': 'picked_up',
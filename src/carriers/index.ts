@@ -4,4 +4,5 @@
 
 export * from './types';
 export { BaseCarrier } from './BaseCarrier';
+export * from './trackingPatterns';
 export * from './implementations';
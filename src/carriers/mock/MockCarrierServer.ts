@@ -0,0 +1,209 @@
+/**
+ * Mock Carrier Server
+ * A local stand-in for the carriers' APIs, serving each carrier's endpoints
+ * (as described in carriers/http/apis) under /<carrierId> with the answers
+ * of its fixture in ./fixtures. Guides booked here are kept in memory, so the
+ * HTTP adapters can be exercised end to end offline: book, track, label and
+ * cancel. Run it with `npm run mock-carriers`.
+ */
+
+import express, { Application, Request, Response, NextFunction, Router } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { CarrierApi } from '../http/CarrierApi';
+import { CARRIER_APIS } from '../http/apis';
+import { createSimulatedCarriers } from '../createCarriers';
+import servientrega from './fixtures/servientrega.json';
+import interrapidisimo from './fixtures/interrapidisimo.json';
+import envia from './fixtures/envia.json';
+import coordinadora from './fixtures/coordinadora.json';
+import tcc from './fixtures/tcc.json';
+import deprisa from './fixtures/deprisa.json';
+
+/**
+ * A carrier's canned answers. Strings may hold placeholders: {{trackingNumber}},
+ * {{now}} or a moment around it ({{now-6h}}, {{now+2d}}), {{label}} (the
+ * label PDF in base64) and, in `error`, {{message}} and {{status}}. In
+ * tracking answers {{now}} is when the guide was booked, so its events keep
+ * their times from one lookup to the next.
+ */
+interface CarrierFixture {
+    trackingPrefix: string;
+    responses: {
+        createShipment: object;
+        tracking: object;
+        label?: object;
+        cancel: object;
+        quote: object;
+    };
+    error: object;
+}
+
+const FIXTURES: Record<string, CarrierFixture> = { servientrega, interrapidisimo, envia, coordinadora, tcc, deprisa };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type Placeholders = Record<string, string | number>;
+
+function placeholderValue(name: string, values: Placeholders, now: number): string | number | undefined {
+    const moment = name.match(/^now(?:([+-])(\d+)([hd]))?$/);
+    if (moment) {
+        const offset = moment[1] ? Number(moment[2]) * (moment[3] === 'd' ? 24 : 1) * HOUR_MS : 0;
+        return new Date(now + (moment[1] === '-' ? -offset : offset)).toISOString();
+    }
+    return values[name];
+}
+
+/**
+ * The fixture with its placeholders filled in. A string that is a single
+ * placeholder takes the value as is, so numbers stay numbers.
+ */
+function fill(template: unknown, values: Placeholders, now = Date.now()): unknown {
+    if (typeof template === 'string') {
+        const whole = template.match(/^\{\{([\w+-]+)\}\}$/);
+        if (whole) {
+            return placeholderValue(whole[1], values, now) ?? template;
+        }
+        return template.replace(/\{\{([\w+-]+)\}\}/g, (match, name) => String(placeholderValue(name, values, now) ?? match));
+    }
+    if (Array.isArray(template)) {
+        return template.map(item => fill(item, values, now));
+    }
+    if (template && typeof template === 'object') {
+        return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, fill(value, values, now)]));
+    }
+    return template;
+}
+
+/**
+ * Whether the request carries the credential the carrier's API expects; any
+ * non-empty key is accepted
+ */
+function authorized(req: Request, api: CarrierApi): boolean {
+    switch (api.auth.type) {
+        case 'header':
+            return !!req.get(api.auth.header)?.trim();
+        case 'bearer':
+            return /^Bearer \S+/.test(req.get('Authorization') || '');
+        case 'basic': {
+            const encoded = (req.get('Authorization') || '').match(/^Basic (\S+)/)?.[1];
+            const password = encoded ? Buffer.from(encoded, 'base64').toString('utf8').split(':').slice(1).join(':') : '';
+            return password !== '';
+        }
+    }
+}
+
+async function renderLabel(carrierName: string, trackingNumber: string): Promise<Buffer> {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([288, 432]); // 4x6 in
+    const font = await pdf.embedFont(StandardFonts.HelveticaBold);
+    page.drawText(carrierName.toUpperCase(), { x: 24, y: 390, size: 18, font });
+    page.drawText('Guía de prueba (mock)', { x: 24, y: 366, size: 10, font });
+    page.drawText(trackingNumber, { x: 24, y: 320, size: 16, font });
+    return Buffer.from(await pdf.save());
+}
+
+export class MockCarrierServer {
+    readonly app: Application;
+    private server: Server | null = null;
+    /** Guides booked here, by tracking number */
+    private guides = new Map<string, { carrierId: string; bookedAt: number; cancelled: boolean }>();
+    private sequence = 0;
+
+    constructor() {
+        this.app = express();
+        this.app.use(express.json());
+
+        for (const carrier of createSimulatedCarriers()) {
+            this.app.use(`/${carrier.id}`, this.carrierRouter(carrier.id, carrier.name, CARRIER_APIS[carrier.id], FIXTURES[carrier.id]));
+        }
+    }
+
+    /**
+     * Listens on the port (0 for any free one); answers the server's URL
+     */
+    start(port = 0): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const server = this.app.listen(port, () => {
+                this.server = server;
+                resolve(`http://localhost:${(server.address() as AddressInfo).port}`);
+            });
+            server.once('error', reject);
+        });
+    }
+
+    stop(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.server) return resolve();
+            this.server.close(error => error ? reject(error) : resolve());
+            this.server = null;
+        });
+    }
+
+    private carrierRouter(carrierId: string, carrierName: string, api: CarrierApi, fixture: CarrierFixture): Router {
+        const router = Router();
+
+        const fail = (res: Response, status: number, message: string) =>
+            res.status(status).json(fill(fixture.error, { status, message }));
+
+        // The booked guide of the request's :trackingNumber, or a 404 answer
+        const guide = (req: Request, res: Response) => {
+            const booked = this.guides.get(req.params.trackingNumber);
+            if (!booked || booked.carrierId !== carrierId) {
+                fail(res, 404, `Guía ${req.params.trackingNumber} no encontrada`);
+                return null;
+            }
+            return booked;
+        };
+
+        router.use((req: Request, res: Response, next: NextFunction) => {
+            if (!authorized(req, api)) {
+                return fail(res, 401, 'Credenciales inválidas');
+            }
+            next();
+        });
+
+        router.post(api.endpoints.createShipment, (req: Request, res: Response) => {
+            if (!req.body || Object.keys(req.body).length === 0) {
+                return fail(res, 400, 'Solicitud sin datos del envío');
+            }
+            this.sequence += 1;
+            const trackingNumber = `${fixture.trackingPrefix}${String(Date.now() % 1e7).padStart(7, '0')}${String(this.sequence % 1000).padStart(3, '0')}`;
+            this.guides.set(trackingNumber, { carrierId, bookedAt: Date.now(), cancelled: false });
+            res.status(201).json(fill(fixture.responses.createShipment, { trackingNumber }));
+        });
+
+        router.get(api.endpoints.tracking, (req: Request, res: Response) => {
+            const booked = guide(req, res);
+            if (!booked) return;
+            res.json(fill(fixture.responses.tracking, { trackingNumber: req.params.trackingNumber }, booked.bookedAt));
+        });
+
+        router.get(api.endpoints.label, async (req: Request, res: Response) => {
+            if (!guide(req, res)) return;
+            const trackingNumber = req.params.trackingNumber;
+            const label = await renderLabel(carrierName, trackingNumber);
+            if (api.label.format === 'pdf') {
+                return res.type('application/pdf').send(label);
+            }
+            res.json(fill(fixture.responses.label, { trackingNumber, label: label.toString('base64') }));
+        });
+
+        router[api.endpoints.cancel.method](api.endpoints.cancel.path, (req: Request, res: Response) => {
+            const booked = guide(req, res);
+            if (!booked) return;
+            if (booked.cancelled) {
+                return fail(res, 409, `La guía ${req.params.trackingNumber} ya fue anulada`);
+            }
+            booked.cancelled = true;
+            res.json(fill(fixture.responses.cancel, { trackingNumber: req.params.trackingNumber }));
+        });
+
+        router.post(api.endpoints.quote, (req: Request, res: Response) => {
+            res.json(fill(fixture.responses.quote, {}));
+        });
+
+        return router;
+    }
+}
@@ -0,0 +1,25 @@
+/**
+ * Tracking number patterns for carrier detection
+ * Shared by the tracking API and the guide parser's barcode cross-check
+ */
+
+export const TRACKING_PATTERNS: Array<{ pattern: RegExp; carrierId: string }> = [
+    { pattern: /^IR\d{8,}/i, carrierId: 'interrapidisimo' },
+    { pattern: /^SV\d{8,}/i, carrierId: 'servientrega' },
+    { pattern: /^ENV\d{8,}/i, carrierId: 'envia' },
+    { pattern: /^CD\d{8,}/i, carrierId: 'coordinadora' },
+    { pattern: /^TCC\d{8,}/i, carrierId: 'tcc' },
+    { pattern: /^DPR\d{8,}/i, carrierId: 'deprisa' },
+];
+
+/**
+ * Detect carrier from tracking number format
+ */
+export function detectCarrierByTrackingNumber(trackingNumber: string): string | null {
+    for (const { pattern, carrierId } of TRACKING_PATTERNS) {
+        if (pattern.test(trackingNumber)) {
+            return carrierId;
+        }
+    }
+    return null;
+}
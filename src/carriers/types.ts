@@ -3,10 +3,15 @@
  * Defines common interfaces for carrier integration
  */
 
+import { ColombianAddress } from '../types';
+
 /**
- * Unified shipment status across all carriers
+ * Unified shipment status across all carriers, and the lifecycle of the
+ * shipments this service keeps (see services/ShipmentLifecycle.ts).
+ * 'ready_for_shipping' is an order waiting for its guide, before any carrier has it.
  */
 export type ShipmentStatus =
+    | 'ready_for_shipping'
     | 'created'
     | 'picked_up'
     | 'in_transit'
@@ -53,6 +58,8 @@ export interface ShipmentData {
     recipient: RecipientData;
     reference: string;
     declaredValue?: number;
+    /** Amount to collect from the recipient on delivery (COP) */
+    codAmount?: number;
     dimensions?: {
         length: number;
         width: number;
@@ -67,8 +74,12 @@ export interface RecipientData {
     name: string;
     phone: string;
     address: string;
+    /** address parsed, when it is in Colombian nomenclature */
+    structuredAddress?: ColombianAddress;
     city: string;
     department?: string;
+    /** DANE code of the city, required by some carriers' APIs */
+    daneCode?: string;
     postalCode?: string;
     notes?: string;
 }
@@ -0,0 +1,70 @@
+/**
+ * Database migrations of the tables this service owns.
+ *
+ *   npm run migrate -- status        list migrations and whether they are applied
+ *   npm run migrate -- up [version]  apply pending migrations (up to a version)
+ *   npm run migrate -- down [steps]  revert the last applied migrations (1 by default)
+ *   npm run migrate -- check         exit 1 when migrations are pending or `orders` lacks columns
+ */
+
+import { config } from '../config/config';
+import { Migrator } from '../services/Migrator';
+
+const USAGE = 'Usage: migrate status | up [version] | down [steps] | check';
+
+/**
+ * Runs a migrate command; returns the process exit code
+ */
+export async function runMigrate(args: string[], migrator: Migrator, log: (line: string) => void = console.log): Promise<number> {
+    const [command = 'status', argument] = args;
+    const number = argument !== undefined ? parseInt(argument, 10) : undefined;
+    if (argument !== undefined && (number === undefined || isNaN(number) || number < 0)) {
+        log(USAGE);
+        return 2;
+    }
+
+    switch (command) {
+        case 'status':
+            for (const migration of await migrator.status()) {
+                log(`${migration.appliedAt ? 'applied' : 'pending'}  ${migration.version}  ${migration.name}${migration.appliedAt ? `  ${migration.appliedAt.toISOString()}` : ''}`);
+            }
+            return 0;
+        case 'up': {
+            const applied = await migrator.up(number);
+            log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'No pending migrations');
+            return 0;
+        }
+        case 'down': {
+            const reverted = await migrator.down(number ?? 1);
+            log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s)` : 'No applied migrations');
+            return 0;
+        }
+        case 'check': {
+            const { pending, missingOrderColumns } = await migrator.check();
+            pending.forEach(migration => log(`Pending migration ${migration.version} ${migration.name}`));
+            if (missingOrderColumns.length > 0) {
+                log(`The orders table lacks columns: ${missingOrderColumns.join(', ')}`);
+            }
+            if (pending.length === 0 && missingOrderColumns.length === 0) {
+                log('Schema up to date');
+            }
+            return pending.length > 0 || missingOrderColumns.length > 0 ? 1 : 0;
+        }
+        default:
+            log(USAGE);
+            return 2;
+    }
+}
+
+if (require.main === module) {
+    const migrator = new Migrator(config.techauraDb);
+    runMigrate(process.argv.slice(2), migrator)
+        .catch(error => {
+            console.error(`❌ ${(error as Error).message}`);
+            return 1;
+        })
+        .then(async code => {
+            await migrator.close();
+            process.exit(code);
+        });
+}
@@ -0,0 +1,18 @@
+/**
+ * Local mock carrier server, for running with CARRIER_MODE=mock.
+ *
+ *   npm run mock-carriers        listen on CARRIER_MOCK_PORT (3020 by default)
+ */
+
+import { config } from '../config/config';
+import { MockCarrierServer } from '../carriers/mock/MockCarrierServer';
+
+if (require.main === module) {
+    const server = new MockCarrierServer();
+    server.start(config.carriers.mockPort)
+        .then(url => console.log(`🚚 Mock carrier APIs listening on ${url}/<carrierId>`))
+        .catch(error => {
+            console.error(`❌ ${(error as Error).message}`);
+            process.exit(1);
+        });
+}
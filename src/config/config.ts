@@ -33,7 +33,147 @@ export const config = {
     // OCR configuration
     ocr: {
         language: 'spa', // Spanish
-        tesseractPath: process.env.TESSERACT_PATH
+        tesseractPath: process.env.TESSERACT_PATH,
+        // Image preprocessing steps run before OCR, per source (comma-separated, 'none' to disable)
+        preprocessing: {
+            guide: process.env.OCR_PREPROCESS_GUIDE || 'autorotate,grayscale,deskew,upscale,threshold',
+            whatsapp: process.env.OCR_PREPROCESS_WHATSAPP || 'grayscale,upscale'
+        },
+        // Images narrower than this (px) are upscaled before OCR
+        minWidth: parseInt(process.env.OCR_MIN_WIDTH || '1500'),
+        // When set, every intermediate preprocessing image is saved here
+        debugDir: process.env.OCR_DEBUG_DIR || '',
+        // Tesseract workers kept warm and shared by the guide and chat parsers
+        poolSize: parseInt(process.env.OCR_POOL_SIZE || '2'),
+        // An OCR job running longer than this (ms) fails and its worker is replaced
+        jobTimeoutMs: parseInt(process.env.OCR_JOB_TIMEOUT_MS || '60000'),
+        // OCR results cached by file content, so re-uploaded images skip the OCR
+        cache: {
+            enabled: process.env.OCR_CACHE_ENABLED !== 'false',
+            // Defaults to a folder in the OS temp directory
+            dir: process.env.OCR_CACHE_DIR || '',
+            ttlHours: parseInt(process.env.OCR_CACHE_TTL_HOURS || '168')
+        }
+    },
+
+    // Guide parsing configuration
+    parser: {
+        // Minimum field confidence (0-1) for the folder watcher to send a guide without review
+        minAutoSendConfidence: parseFloat(process.env.MIN_AUTO_SEND_CONFIDENCE || '0.6'),
+        // Read the guide's barcode/QR code before the text; set to 'false' to skip
+        barcodeDecoding: process.env.BARCODE_DECODING !== 'false'
+    },
+
+    // Where orders, shipments and guide jobs are kept: 'mysql' (the TechAura database) or 'memory'
+    storage: {
+        driver: (process.env.STORAGE_DRIVER === 'memory' ? 'memory' : 'mysql') as 'mysql' | 'memory',
+        // JSON array of `orders` rows loaded into the in-memory storage on startup
+        seedOrdersPath: process.env.STORAGE_SEED_ORDERS || undefined
+    },
+
+    // Migrations of the tables this service owns (see `npm run migrate`)
+    migrations: {
+        // Apply pending migrations on startup; set to 'false' to only warn about them
+        runOnStart: process.env.MIGRATE_ON_START !== 'false'
+    },
+
+    // Matching guides to orders: candidates are scored 0-100 on phone, name, city and address
+    matching: {
+        // Minimum score of the best candidate for a guide to be sent without review
+        autoSendScore: parseInt(process.env.MATCH_AUTO_SEND_SCORE || '80'),
+        // Points the best candidate must lead the runner-up by, so namesakes go to review
+        autoSendMargin: parseInt(process.env.MATCH_AUTO_SEND_MARGIN || '10'),
+        // Candidates scoring less are not proposed for review
+        minCandidateScore: parseInt(process.env.MATCH_MIN_CANDIDATE_SCORE || '40'),
+        // Candidates kept per guide; at least 2, so the best one's margin can be checked
+        maxCandidates: Math.max(2, parseInt(process.env.MATCH_MAX_CANDIDATES || '5')),
+        // Open orders placed within these days are compared by name, fuzzily
+        nameLookbackDays: parseInt(process.env.MATCH_NAME_LOOKBACK_DAYS || '60')
+    },
+
+    // Duplicate guide detection
+    duplicates: {
+        // Skip guides whose tracking number or file was already sent; set to 'false' to disable
+        enabled: process.env.DUPLICATE_DETECTION !== 'false',
+        // JSON file with the tracking numbers and file hashes already processed
+        registryPath: process.env.GUIDE_REGISTRY_PATH || './data/processed-guides.json'
+    },
+
+    // Guide job queue, kept in the guide_jobs table of the TechAura database
+    jobs: {
+        // Guide files processed at the same time
+        concurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),
+        // Runs of a failing job before it is marked failed
+        maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3'),
+        // Delay before the first retry (ms); doubles on every further retry
+        retryBackoffMs: parseInt(process.env.JOB_RETRY_BACKOFF_MS || '30000'),
+        // How often queued jobs and due retries are looked up (ms)
+        pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000')
+    },
+
+    // Carrier APIs used to book, track, label and cancel shipments
+    carriers: {
+        // 'simulated' (answers made up in process), 'mock' (the local mock carrier server,
+        // see `npm run mock-carriers`) or 'live' (the carriers' APIs, with the credentials below)
+        mode: (['mock', 'live'].includes(process.env.CARRIER_MODE || '') ? process.env.CARRIER_MODE : 'simulated') as 'simulated' | 'mock' | 'live',
+        mockUrl: process.env.CARRIER_MOCK_URL || 'http://localhost:3020',
+        // Port `npm run mock-carriers` listens on
+        mockPort: parseInt(process.env.CARRIER_MOCK_PORT || '3020'),
+        // A carrier API call taking longer than this (ms) fails
+        timeoutMs: parseInt(process.env.CARRIER_TIMEOUT_MS || '15000'),
+        // Live API access per carrier: <ID>_API_URL, <ID>_API_KEY and, for basic auth (Envía), <ID>_API_USER
+        credentials: Object.fromEntries(
+            ['interrapidisimo', 'servientrega', 'envia', 'coordinadora', 'tcc', 'deprisa'].map(id => [id, {
+                apiUrl: process.env[`${id.toUpperCase()}_API_URL`] || '',
+                apiKey: process.env[`${id.toUpperCase()}_API_KEY`] || '',
+                username: process.env[`${id.toUpperCase()}_API_USER`] || undefined
+            }])
+        ) as Record<string, { apiUrl: string; apiKey: string; username?: string }>,
+        // Secret shared with each carrier to check its tracking callbacks (POST /webhooks/carriers/<id>):
+        // <ID>_WEBHOOK_SECRET; a carrier without one has its callbacks refused
+        webhookSecrets: Object.fromEntries(
+            ['interrapidisimo', 'servientrega', 'envia', 'coordinadora', 'tcc', 'deprisa']
+                .map(id => [id, process.env[`${id.toUpperCase()}_WEBHOOK_SECRET`] || ''])
+        ) as Record<string, string>
+    },
+
+    // Shipping labels generated for stored shipments (see services/LabelGenerator.ts)
+    labels: {
+        // Printed in the labels' sender block
+        sender: {
+            name: process.env.LABEL_SENDER_NAME || 'TechAura',
+            phone: process.env.LABEL_SENDER_PHONE || '',
+            address: process.env.LABEL_SENDER_ADDRESS || '',
+            city: process.env.LABEL_SENDER_CITY || 'Bogotá'
+        },
+        // URL encoded in the labels' QR code; {trackingNumber} is replaced
+        trackingUrl: process.env.LABEL_TRACKING_URL || 'http://localhost:3010/api/tracking/{trackingNumber}'
+    },
+
+    // Tracking poller: asks the carriers of active shipments for new tracking events
+    tracking: {
+        // On by default with real or mock carriers (CARRIER_MODE=live|mock); the simulated ones make up their events
+        enabled: (process.env.TRACKING_POLL_ENABLED || String(['mock', 'live'].includes(process.env.CARRIER_MODE || ''))) === 'true',
+        // Time between the end of a polling round and the start of the next (ms)
+        intervalMs: parseInt(process.env.TRACKING_POLL_INTERVAL_MS || '1800000'),
+        // Tracking requests per minute to a carrier's API, and per carrier: TRACKING_RATE_LIMITS=servientrega=30,tcc=10
+        defaultRateLimit: parseInt(process.env.TRACKING_RATE_LIMIT || '60'),
+        rateLimits: Object.fromEntries(
+            (process.env.TRACKING_RATE_LIMITS || '').split(',')
+                .map(entry => entry.split('=').map(part => part.trim()))
+                .filter(([id, limit]) => id && parseInt(limit) > 0)
+                .map(([id, limit]) => [id, parseInt(limit)])
+        ) as Record<string, number>,
+        // Statuses the customer is told about on WhatsApp. TechAura's chatbot already messages them about
+        // the statuses it is sent (created, picked up, in transit, delivered, returned)
+        notifyStatuses: (process.env.TRACKING_NOTIFY_STATUSES || 'out_for_delivery,failed_delivery')
+            .split(',').map(status => status.trim()).filter(Boolean)
+    },
+
+    // Review queue of the guides that could not be sent automatically
+    review: {
+        // Folder with the unmatched guides' files (and their index.json with STORAGE_DRIVER=memory)
+        unmatchedDir: process.env.UNMATCHED_GUIDES_DIR || './data/unmatched-guides'
     }
 };
 
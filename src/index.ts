@@ -2,14 +2,30 @@ import express from 'express';
 import * as path from 'path';
 import { createServer } from 'http';
 import { config } from './config/config';
-import { FolderWatcher } from './watchers/FolderWatcher';
-import { GuideParser } from './services/GuideParser';
+import { FolderWatcher, FileOutcome, outcomeFolder } from './watchers/FolderWatcher';
+import { GuideParser, NonGuideDocumentError } from './services/GuideParser';
+import { getWeakFields, isConfidentEnoughToSend } from './services/GuideConfidence';
 import { CustomerMatcher } from './services/CustomerMatcher';
+import { autoSendMatch } from './services/MatchScorer';
 import { WhatsAppSender } from './services/WhatsAppSender';
+import { PdfPageExtractor } from './services/PdfPageExtractor';
+import { PaymentProofService } from './services/PaymentProofService';
+import { GuideRegistry, hashFile } from './services/GuideRegistry';
+import { JobQueue, JobStateSetter } from './services/JobQueue';
+import { getRepositories } from './services/Repositories';
+import { Migrator } from './services/Migrator';
+import { ShipmentService } from './services/ShipmentService';
+import { TrackingUpdater } from './services/TrackingUpdater';
+import { TrackingPoller } from './services/TrackingPoller';
+import { techAuraIntegration } from './services/TechAuraIntegration';
+import { UnmatchedGuideStore } from './services/UnmatchedGuideStore';
+import { SendLog } from './services/SendLog';
+import { ocrWorkerPool } from './services/OcrWorkerPool';
+import { ocrCache } from './services/OcrCache';
 import { setupRoutes, cleanupOldUploads, UPLOAD_MAX_AGE_MS } from './api/routes';
 import { createViewRouter } from './api/viewRoutes';
-import { setupWebSocket } from './websocket';
-import { ShippingGuideData, CustomerMatch, ICustomerMatcher } from './types';
+import { setupWebSocket, notifyStatusChange } from './websocket';
+import { ShippingGuideData, CustomerMatch, ICustomerMatcher, ProcessResult, UnmatchedGuide } from './types';
 
 // Global service state
 let serviceReady = false;
@@ -37,69 +53,275 @@ class MatcherProxy implements ICustomerMatcher {
         return this.matcher.findCustomer(guideData);
     }
 
+    async findCandidates(guideData: ShippingGuideData): Promise<CustomerMatch[]> {
+        if (!this.matcher) throw new Error('Database not connected');
+        return this.matcher.findCandidates(guideData);
+    }
+
+    async findOrder(orderNumber: string): Promise<CustomerMatch | null> {
+        if (!this.matcher) throw new Error('Database not connected');
+        return this.matcher.findOrder(orderNumber);
+    }
+
     async updateOrderTracking(orderNumber: string, trackingNumber: string, carrier: string): Promise<boolean> {
         if (!this.matcher) throw new Error('Database not connected');
         return this.matcher.updateOrderTracking(orderNumber, trackingNumber, carrier);
     }
 }
 
+interface ProcessGuideOptions {
+    force?: boolean;
+    /** Records the processing step in the file's job */
+    setState?: JobStateSetter;
+}
+
 class ShipmentTrackingApp {
     private app: express.Application;
     private watcher: FolderWatcher | null = null;
     private parser: GuideParser;
     private matcherProxy: MatcherProxy;
     private sender: WhatsAppSender;
+    private pageExtractor: PdfPageExtractor;
+    private paymentProofs: PaymentProofService;
+    private registry: GuideRegistry | null;
+    private jobs: JobQueue;
+    private unmatched: UnmatchedGuideStore;
+    private sendLog: SendLog;
+    private tracking: TrackingPoller | null = null;
 
     constructor() {
         this.app = express();
         this.parser = new GuideParser();
         this.matcherProxy = new MatcherProxy();
         this.sender = new WhatsAppSender(config.whatsapp);
+        this.pageExtractor = new PdfPageExtractor();
+        this.paymentProofs = new PaymentProofService(this.matcherProxy);
+        this.registry = config.duplicates.enabled ? new GuideRegistry(config.duplicates.registryPath) : null;
+        this.jobs = new JobQueue(getRepositories().jobs);
+        this.unmatched = getRepositories().unmatchedGuides;
+        this.sendLog = getRepositories().sendLog;
+        this.jobs.register('watcher', (job, setState) => this.processGuide(job.filePath, { force: job.options.force, setState }));
     }
 
-    async processGuide(filePath: string): Promise<void> {
+    /**
+     * Queues a file dropped in the watch folder and waits for its job, so the
+     * watcher moves it out only once it is processed: to the folder matching
+     * its results, or to `failed/` when the job failed for good.
+     */
+    private async queueWatchedFile(filePath: string): Promise<FileOutcome> {
+        const job = await this.jobs.enqueue('watcher', filePath);
+        try {
+            const results = await this.jobs.waitFor(job.id) as ProcessResult[];
+            return { folder: outcomeFolder(results), report: { jobId: job.id, results } };
+        } catch (error) {
+            console.error(`❌ Guide job ${job.id} failed for ${filePath}:`, (error as Error).message);
+            return { folder: 'failed', report: { jobId: job.id, error: (error as Error).message } };
+        }
+    }
+
+    /**
+     * Parses, matches and sends the guides in a file dropped in the watch folder.
+     * Files and tracking numbers already sent are skipped unless `force` is set.
+     * Unexpected errors (e.g. the database being down) are thrown so the job
+     * queue retries the file.
+     */
+    async processGuide(filePath: string, options: ProcessGuideOptions = {}): Promise<ProcessResult[]> {
         console.log(`📄 Processing guide: ${filePath}`);
         
         try {
-            // 1. Parse the guide
-            const guideData = await this.parser.parse(filePath);
-            if (!guideData) {
+            // A file whose guides were all sent is skipped before the OCR
+            const fileHash = this.registry ? hashFile(filePath) : '';
+            const previousFile = options.force ? null : this.registry?.findFile(fileHash);
+            if (previousFile) {
+                console.warn(`⚠️ Skipped ${filePath}: already processed (guide ${previousFile.trackingNumber} sent ${previousFile.processedAt})`);
+                return [{ success: false, duplicate: true, message: 'File already processed', trackingNumber: previousFile.trackingNumber, previous: previousFile }];
+            }
+
+            // 1. Parse the guide(s); a PDF may hold several
+            const guides = await this.parser.parseAll(filePath);
+            if (guides.length === 0) {
                 console.error(`❌ Could not parse guide: ${filePath}`);
-                return;
+                return [{ success: false, message: 'Could not parse guide' }];
             }
-            
-            console.log(`✅ Extracted data:`, guideData);
-            
-            // 2. Match customer in TechAura database
-            const customer = await this.matcherProxy.findCustomer(guideData);
-            if (!customer) {
-                console.warn(`⚠️ No customer match found for guide: ${guideData.trackingNumber}`);
-                await this.logUnmatched(guideData);
-                return;
+            if (guides.length > 1) {
+                console.log(`📑 Found ${guides.length} guides in ${filePath}`);
             }
-            
-            console.log(`✅ Matched customer: ${customer.name} (${customer.phone})`);
-            
-            // 3. Send guide via WhatsApp
-            const sent = await this.sender.sendGuide(customer.phone, guideData, filePath);
-            if (sent) {
-                console.log(`✅ Guide sent to ${customer.phone}`);
-                await this.updateOrderTracking(customer.orderNumber, guideData);
-            } else {
-                console.error(`❌ Failed to send guide to ${customer.phone}`);
+
+            const results: ProcessResult[] = [];
+            for (const guideData of guides) {
+                results.push(await this.deliverGuide(filePath, guideData, guides.length > 1, fileHash, options));
             }
+            if (results.every(result => result.success || result.duplicate)) {
+                this.registry?.recordFile(fileHash, guides.map(g => g.trackingNumber));
+            }
+            return results;
         } catch (error) {
+            if (error instanceof NonGuideDocumentError) {
+                return [await this.handleNonGuide(filePath, error)];
+            }
             console.error(`❌ Error processing guide:`, error);
+            throw error;
         }
     }
 
-    private async logUnmatched(guideData: any): Promise<void> {
-        // Log unmatched guides for manual review
-        console.log('📝 Unmatched guide logged:', {
-            tracking: guideData.trackingNumber,
-            customer: guideData.customerName,
-            phone: guideData.customerPhone
-        });
+    /**
+     * Payment receipts dropped in the watch folder are attached to the
+     * payer's order; other documents are only logged for review.
+     */
+    private async handleNonGuide(filePath: string, error: NonGuideDocumentError): Promise<ProcessResult> {
+        const { classification } = error;
+        const documentType = classification.type;
+        if (documentType !== 'payment_receipt') {
+            console.warn(`⚠️ Skipped ${filePath}: not a guide (${classification.reason})`);
+            return { success: false, message: `Not a guide: ${documentType}`, documentType };
+        }
+
+        try {
+            const proof = await this.paymentProofs.attach(filePath, path.basename(filePath), error.text);
+            if (proof.attached) {
+                console.log(`✅ Payment receipt attached to order ${proof.orderNumber}`);
+                return { success: true, message: `Payment receipt attached to order ${proof.orderNumber}`, documentType };
+            }
+            console.warn(`⚠️ Payment receipt ${filePath} not attached${proof.orderNumber ? ` to order ${proof.orderNumber}` : ': no matching order'}`, proof.receipt);
+            return proof.orderNumber
+                ? { success: false, message: `Payment receipt not attached to order ${proof.orderNumber}`, documentType }
+                : { success: false, unmatched: true, message: 'No order found for payment receipt', documentType };
+        } catch (attachError) {
+            console.error(`❌ Error attaching payment receipt:`, attachError);
+            return { success: false, message: 'Error attaching payment receipt', error: (attachError as Error).message, documentType };
+        }
+    }
+
+    /**
+     * Matches and sends one parsed guide. For multi-guide PDFs only the
+     * guide's own page is sent to the customer. The tracking number is
+     * claimed from the duplicate check until it is recorded, so concurrent
+     * jobs carrying the same guide send it once.
+     */
+    private async deliverGuide(
+        filePath: string,
+        guideData: ShippingGuideData,
+        multiGuide: boolean,
+        fileHash: string,
+        { force, setState }: ProcessGuideOptions
+    ): Promise<ProcessResult> {
+        console.log(`✅ Extracted data:`, guideData);
+        const trackingNumber = guideData.trackingNumber;
+
+        const previous = force ? null : this.registry?.findGuide(trackingNumber);
+        if (previous) {
+            console.warn(`⚠️ Guide ${trackingNumber} already sent to ${previous.sentTo} at ${previous.processedAt}, skipping`);
+            return { success: false, duplicate: true, message: 'Guide already sent', trackingNumber, previous, guide: guideData };
+        }
+        if (this.registry && !this.registry.claimGuide(trackingNumber)) {
+            console.warn(`⚠️ Guide ${trackingNumber} is being sent by another job, skipping`);
+            return { success: false, duplicate: true, message: 'Guide being sent by another job', trackingNumber, guide: guideData };
+        }
+
+        try {
+            return await this.matchAndSend(filePath, guideData, multiGuide, fileHash, { force, setState });
+        } finally {
+            this.registry?.releaseGuide(trackingNumber);
+        }
+    }
+
+    /**
+     * Sends a guide that is not a duplicate to its order's customer, or
+     * queues it for review when its fields or its match are not good enough
+     */
+    private async matchAndSend(
+        filePath: string,
+        guideData: ShippingGuideData,
+        multiGuide: boolean,
+        fileHash: string,
+        { force, setState }: ProcessGuideOptions
+    ): Promise<ProcessResult> {
+        const trackingNumber = guideData.trackingNumber;
+
+        // Low-confidence key fields need a human before anything is sent, unless forced
+        const threshold = config.parser.minAutoSendConfidence;
+        if (!force && !isConfidentEnoughToSend(guideData, threshold)) {
+            console.warn(`⚠️ Low-confidence fields in guide ${trackingNumber}, not sending automatically:`, getWeakFields(guideData, threshold));
+            // The orders it may go to, if they can be looked up, are proposed to the reviewer
+            const candidates = await this.matcherProxy.findCandidates(guideData).catch(() => []);
+            await this.queueForReview(filePath, guideData, 'low_confidence', candidates);
+            return { success: false, unmatched: true, message: 'Low-confidence fields, needs review', trackingNumber, guide: guideData, candidates };
+        }
+        
+        // 2. Match customer in TechAura database
+        await setState?.('matching');
+        const candidates = await this.matcherProxy.findCandidates(guideData);
+        const customer = autoSendMatch(candidates, config.matching.autoSendScore, config.matching.autoSendMargin);
+        if (!customer) {
+            if (candidates.length === 0) {
+                console.warn(`⚠️ No customer match found for guide: ${trackingNumber}`);
+                await this.queueForReview(filePath, guideData, 'no_match', []);
+                return { success: false, unmatched: true, message: 'No customer match found', trackingNumber, guide: guideData, candidates };
+            }
+            console.warn(`⚠️ Best match for guide ${trackingNumber} scored ${candidates[0].confidence}, below ${config.matching.autoSendScore}: needs review`);
+            await this.queueForReview(filePath, guideData, 'low_score', candidates);
+            return { success: false, unmatched: true, message: 'Customer match below the auto-send score, needs review', trackingNumber, guide: guideData, candidates };
+        }
+        
+        console.log(`✅ Matched customer: ${customer.name} (${customer.phone})`);
+        
+        // 3. Send guide via WhatsApp
+        await setState?.('sending');
+        const sendPath = multiGuide && guideData.page
+            ? await this.pageExtractor.extractPage(filePath, guideData.page)
+            : filePath;
+        try {
+            const sent = await this.sender.sendGuide(customer.phone, guideData, sendPath);
+            await this.logSend(guideData, fileHash, customer.orderNumber, customer.phone, sent);
+            if (!sent) {
+                console.error(`❌ Failed to send guide to ${customer.phone}`);
+                return { success: false, message: 'Failed to send guide', trackingNumber, guide: guideData, candidates };
+            }
+            console.log(`✅ Guide sent to ${customer.phone}`);
+            await this.updateOrderTracking(customer.orderNumber, guideData);
+            this.registry?.recordGuide({
+                trackingNumber,
+                carrier: guideData.carrier,
+                fileHash,
+                orderNumber: customer.orderNumber,
+                sentTo: customer.phone,
+                source: 'watcher',
+                processedAt: new Date().toISOString()
+            });
+            return { success: true, message: 'Guide sent', trackingNumber, sentTo: customer.phone, guide: guideData, candidates };
+        } finally {
+            if (sendPath !== filePath) this.pageExtractor.cleanup(sendPath);
+        }
+    }
+
+    /**
+     * Keeps a guide that was not sent for an operator to assign from the dashboard
+     */
+    private async queueForReview(filePath: string, guideData: ShippingGuideData, reason: UnmatchedGuide['reason'], candidates: CustomerMatch[]): Promise<void> {
+        const entry = await this.unmatched.add({ reason, source: 'watcher', guide: guideData, fileName: path.basename(filePath), candidates }, filePath);
+        console.log(`📝 Guide ${guideData.trackingNumber} queued for review (${reason}): ${entry.id}`);
+    }
+
+    /**
+     * Logs an attempt to send a guide. A logging failure is only reported, so
+     * the job is not retried and the guide sent again.
+     */
+    private async logSend(guideData: ShippingGuideData, fileHash: string, orderNumber: string, sentTo: string, success: boolean): Promise<void> {
+        try {
+            await this.sendLog.record({
+                trackingNumber: guideData.trackingNumber,
+                carrier: guideData.carrier || null,
+                orderNumber,
+                sentTo,
+                source: 'watcher',
+                fileHash: fileHash || null,
+                success,
+                error: success ? null : 'WhatsApp send failed',
+                sentAt: new Date()
+            });
+        } catch (error) {
+            console.error(`⚠️ Could not log the send of guide ${guideData.trackingNumber}:`, (error as Error).message);
+        }
     }
 
     private async updateOrderTracking(orderNumber: string, guideData: any): Promise<void> {
@@ -110,13 +332,30 @@ class ShipmentTrackingApp {
         );
     }
 
+    private async checkSchema(): Promise<void> {
+        const migrator = new Migrator(config.techauraDb);
+        try {
+            const { pending, missingOrderColumns } = await migrator.check();
+            if (pending.length > 0 && config.migrations.runOnStart) {
+                await migrator.up();
+            } else if (pending.length > 0) {
+                console.warn(`⚠️ ${pending.length} pending database migration(s): run "npm run migrate -- up"`);
+            }
+            if (missingOrderColumns.length > 0) {
+                console.error(`⚠️ The TechAura orders table lacks columns: ${missingOrderColumns.join(', ')}`);
+            }
+        } finally {
+            await migrator.close();
+        }
+    }
+
     private async initializeServices(): Promise<void> {
         // Connect to database
         try {
-            const matcher = new CustomerMatcher(config.techauraDb);
+            const matcher = new CustomerMatcher(getRepositories().orders);
             this.matcherProxy.setMatcher(matcher);
             dbConnected = true;
-            console.log('✅ Database pool created');
+            console.log(config.storage.driver === 'memory' ? '✅ In-memory storage ready (no database)' : '✅ Database pool created');
         } catch (error) {
             const errMsg = (error as Error).message;
             console.error(`⚠️ Database connection failed (host: ${config.techauraDb.host}, port: ${config.techauraDb.port}, user: ${config.techauraDb.user}):`, errMsg);
@@ -124,7 +363,7 @@ class ShipmentTrackingApp {
             const retryInterval = setInterval(() => {
                 if (!dbConnected) {
                     try {
-                        const matcher = new CustomerMatcher(config.techauraDb);
+                        const matcher = new CustomerMatcher(getRepositories().orders);
                         this.matcherProxy.setMatcher(matcher);
                         dbConnected = true;
                         serviceReady = true;
@@ -137,9 +376,27 @@ class ShipmentTrackingApp {
             }, 30000);
         }
 
+        // Migrate the tables this service owns and check TechAura's orders table (non-blocking)
+        if (config.storage.driver === 'mysql') {
+            this.checkSchema().catch(error => console.error('⚠️ Database schema check failed:', error.message));
+        }
+
+        // Load the OCR language data now rather than on the first guide (non-blocking)
+        ocrWorkerPool.warmUp()
+            .then(() => console.log(`✅ OCR workers ready (${config.ocr.poolSize})`))
+            .catch(error => console.error('⚠️ Failed to start OCR workers:', error.message));
+
+        // Run queued guide jobs, re-queueing those a restart interrupted (non-blocking)
+        this.jobs.start();
+
+        // Poll the carriers of active shipments for new tracking events
+        if (config.tracking.enabled) {
+            this.tracking?.start();
+        }
+
         // Start folder watcher (non-blocking: log error but don't crash)
         try {
-            this.watcher = new FolderWatcher(config.watchFolder, this.processGuide.bind(this));
+            this.watcher = new FolderWatcher(config.watchFolder, filePath => this.queueWatchedFile(filePath));
             this.watcher.start();
         } catch (error) {
             console.error('⚠️ Failed to start folder watcher:', error);
@@ -162,7 +419,7 @@ class ShipmentTrackingApp {
         console.log(`  Node: ${process.version}`);
         console.log(`  PID:  ${process.pid}`);
         console.log(`  ENV:  ${process.env.NODE_ENV || 'development'}`);
-        console.log(`  DB:   ${config.techauraDb.host}:${config.techauraDb.port}`);
+        console.log(`  DB:   ${config.storage.driver === 'memory' ? 'in-memory' : `${config.techauraDb.host}:${config.techauraDb.port}`}`);
         console.log('='.repeat(50));
 
         // 1. FIRST: Configure app and register routes
@@ -185,13 +442,28 @@ class ShipmentTrackingApp {
         });
         
         // Setup view routes (must be before API routes to avoid 404 handler)
-        this.app.use(createViewRouter());
+        const shipments = new ShipmentService(getRepositories().shipments);
+        this.app.use(createViewRouter(shipments));
+
+        // Carrier tracking updates, polled or pushed, are announced to dashboards, TechAura and the customer
+        const trackingUpdater = new TrackingUpdater(shipments, {
+            dashboard: notifyStatusChange,
+            techAura: techAuraIntegration,
+            whatsapp: this.sender
+        }, getRepositories().statusNotifications);
+        this.tracking = new TrackingPoller(shipments, trackingUpdater);
         
         // Setup Express API routes (matcher proxy handles DB not-ready state)
         setupRoutes(this.app, {
             parser: this.parser,
             matcher: this.matcherProxy,
-            sender: this.sender
+            sender: this.sender,
+            registry: this.registry,
+            jobs: this.jobs,
+            unmatched: this.unmatched,
+            sendLog: this.sendLog,
+            shipments,
+            tracking: trackingUpdater
         });
         
         // 2. SECOND: Create HTTP server and start listening
@@ -202,11 +474,15 @@ class ShipmentTrackingApp {
             console.log(`🚀 Shipment Tracking listening on port ${port}`);
             console.log(`✅ Health: http://localhost:${port}/health`);
 
-            // Cleanup old uploads at startup
+            // Cleanup old uploads and expired OCR results at startup
             cleanupOldUploads();
+            ocrCache.evictExpired();
 
             // Periodic cleanup every hour
-            setInterval(() => cleanupOldUploads(), UPLOAD_MAX_AGE_MS);
+            setInterval(() => {
+                cleanupOldUploads();
+                ocrCache.evictExpired();
+            }, UPLOAD_MAX_AGE_MS);
 
             // 3. THIRD: Initialize services in background (after port is open)
             this.initializeServices().then(() => {
@@ -0,0 +1,27 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * Shipments created for TechAura orders by the new-order webhook
+ */
+export const createShipments: Migration = {
+    version: 1,
+    name: 'create_shipments',
+    up: [`
+        CREATE TABLE IF NOT EXISTS shipments (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            order_number VARCHAR(64) NOT NULL,
+            tracking_number VARCHAR(64) NOT NULL,
+            customer_name VARCHAR(255) NULL,
+            customer_phone VARCHAR(32) NULL,
+            shipping_address VARCHAR(512) NULL,
+            shipping_phone VARCHAR(32) NULL,
+            product_description TEXT NULL,
+            status VARCHAR(32) NOT NULL,
+            created_at DATETIME NOT NULL,
+            updated_at DATETIME NOT NULL,
+            UNIQUE KEY uq_shipments_tracking (tracking_number),
+            INDEX idx_shipments_order (order_number)
+        )
+    `],
+    down: ['DROP TABLE IF EXISTS shipments']
+};
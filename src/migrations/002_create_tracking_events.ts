@@ -0,0 +1,23 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * Tracking events reported by the carriers for each guide
+ */
+export const createTrackingEvents: Migration = {
+    version: 2,
+    name: 'create_tracking_events',
+    up: [`
+        CREATE TABLE IF NOT EXISTS tracking_events (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            tracking_number VARCHAR(64) NOT NULL,
+            carrier VARCHAR(64) NOT NULL,
+            status VARCHAR(32) NOT NULL,
+            description VARCHAR(512) NULL,
+            location VARCHAR(255) NULL,
+            occurred_at DATETIME NOT NULL,
+            created_at DATETIME(3) NOT NULL,
+            INDEX idx_tracking_events_guide (tracking_number, occurred_at)
+        )
+    `],
+    down: ['DROP TABLE IF EXISTS tracking_events']
+};
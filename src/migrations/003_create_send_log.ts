@@ -0,0 +1,26 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * Every attempt to send a guide to a customer over WhatsApp
+ */
+export const createSendLog: Migration = {
+    version: 3,
+    name: 'create_send_log',
+    up: [`
+        CREATE TABLE IF NOT EXISTS send_log (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            tracking_number VARCHAR(64) NOT NULL,
+            carrier VARCHAR(64) NULL,
+            order_number VARCHAR(64) NULL,
+            sent_to VARCHAR(32) NOT NULL,
+            source VARCHAR(16) NOT NULL,
+            file_hash CHAR(64) NULL,
+            success TINYINT(1) NOT NULL,
+            error TEXT NULL,
+            sent_at DATETIME(3) NOT NULL,
+            INDEX idx_send_log_guide (tracking_number),
+            INDEX idx_send_log_order (order_number)
+        )
+    `],
+    down: ['DROP TABLE IF EXISTS send_log']
+};
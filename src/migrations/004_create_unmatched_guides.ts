@@ -0,0 +1,29 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * Guides waiting for an operator to assign them to an order
+ */
+export const createUnmatchedGuides: Migration = {
+    version: 4,
+    name: 'create_unmatched_guides',
+    up: [`
+        CREATE TABLE IF NOT EXISTS unmatched_guides (
+            id CHAR(36) PRIMARY KEY,
+            reason VARCHAR(16) NOT NULL,
+            source VARCHAR(16) NOT NULL,
+            tracking_number VARCHAR(64) NULL,
+            file_name VARCHAR(255) NOT NULL,
+            stored_file VARCHAR(255) NOT NULL,
+            guide MEDIUMTEXT NOT NULL,
+            candidates MEDIUMTEXT NOT NULL,
+            status VARCHAR(16) NOT NULL DEFAULT 'pending',
+            order_number VARCHAR(64) NULL,
+            sent_to VARCHAR(32) NULL,
+            created_at DATETIME(3) NOT NULL,
+            assigned_at DATETIME(3) NULL,
+            INDEX idx_unmatched_guides_status (status, created_at),
+            INDEX idx_unmatched_guides_tracking (tracking_number)
+        )
+    `],
+    down: ['DROP TABLE IF EXISTS unmatched_guides']
+};
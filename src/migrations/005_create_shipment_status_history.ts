@@ -0,0 +1,22 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * Every status change of a shipment, with what triggered it
+ */
+export const createShipmentStatusHistory: Migration = {
+    version: 5,
+    name: 'create_shipment_status_history',
+    up: [`
+        CREATE TABLE IF NOT EXISTS shipment_status_history (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            shipment_id INT NOT NULL,
+            from_status VARCHAR(32) NULL,
+            to_status VARCHAR(32) NOT NULL,
+            triggered_by VARCHAR(128) NOT NULL,
+            carrier_event TEXT NULL,
+            changed_at DATETIME(3) NOT NULL,
+            INDEX idx_status_history_shipment (shipment_id, changed_at)
+        )
+    `],
+    down: ['DROP TABLE IF EXISTS shipment_status_history']
+};
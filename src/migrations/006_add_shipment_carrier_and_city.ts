@@ -0,0 +1,24 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * Carrier and destination city of shipments, with the indexes the shipment
+ * listing filters and sorts on
+ */
+export const addShipmentCarrierAndCity: Migration = {
+    version: 6,
+    name: 'add_shipment_carrier_and_city',
+    up: [`
+        ALTER TABLE shipments
+            ADD COLUMN carrier VARCHAR(32) NULL AFTER tracking_number,
+            ADD COLUMN city VARCHAR(128) NULL AFTER shipping_address,
+            ADD INDEX idx_shipments_created (created_at, id),
+            ADD INDEX idx_shipments_status (status, created_at)
+    `],
+    down: [`
+        ALTER TABLE shipments
+            DROP INDEX idx_shipments_status,
+            DROP INDEX idx_shipments_created,
+            DROP COLUMN city,
+            DROP COLUMN carrier
+    `]
+};
@@ -0,0 +1,12 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * How shipments created through POST /api/shipments were booked with their
+ * carrier: quote, selection reason, label reference and recipient, as JSON
+ */
+export const addShipmentCarrierBooking: Migration = {
+    version: 7,
+    name: 'add_shipment_carrier_booking',
+    up: ['ALTER TABLE shipments ADD COLUMN carrier_booking TEXT NULL AFTER carrier'],
+    down: ['ALTER TABLE shipments DROP COLUMN carrier_booking']
+};
@@ -0,0 +1,16 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * A key per tracking event, unique within its guide, so an event the carrier
+ * reports again on a later poll is stored only once; and the event's details
+ */
+export const addTrackingEventKey: Migration = {
+    version: 8,
+    name: 'add_tracking_event_key',
+    up: [
+        'ALTER TABLE tracking_events ADD COLUMN event_key CHAR(40) NULL AFTER carrier, ADD COLUMN details VARCHAR(512) NULL AFTER location',
+        "UPDATE tracking_events SET event_key = SHA1(CONCAT(id, '|', tracking_number)) WHERE event_key IS NULL",
+        'ALTER TABLE tracking_events MODIFY event_key CHAR(40) NOT NULL, ADD UNIQUE INDEX uq_tracking_events_key (tracking_number, event_key)'
+    ],
+    down: ['ALTER TABLE tracking_events DROP INDEX uq_tracking_events_key, DROP COLUMN event_key, DROP COLUMN details']
+};
@@ -0,0 +1,28 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * The guide job queue. Earlier versions created it on startup, hence IF NOT EXISTS.
+ */
+export const createGuideJobs: Migration = {
+    version: 9,
+    name: 'create_guide_jobs',
+    up: [`
+        CREATE TABLE IF NOT EXISTS guide_jobs (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            source VARCHAR(16) NOT NULL,
+            file_path VARCHAR(1024) NOT NULL,
+            options TEXT NULL,
+            state VARCHAR(16) NOT NULL DEFAULT 'queued',
+            attempts INT NOT NULL DEFAULT 0,
+            max_attempts INT NOT NULL,
+            last_error TEXT NULL,
+            result MEDIUMTEXT NULL,
+            run_after DATETIME(3) NOT NULL,
+            created_at DATETIME(3) NOT NULL,
+            updated_at DATETIME(3) NOT NULL,
+            INDEX idx_guide_jobs_state (state, run_after),
+            INDEX idx_guide_jobs_file (file_path(255))
+        )
+    `],
+    down: ['DROP TABLE IF EXISTS guide_jobs']
+};
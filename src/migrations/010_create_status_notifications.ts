@@ -0,0 +1,26 @@
+import { Migration } from '../services/Migrator';
+
+/**
+ * Status change announcements to TechAura and customers not delivered yet,
+ * tried again until they are
+ */
+export const createStatusNotifications: Migration = {
+    version: 10,
+    name: 'create_status_notifications',
+    up: [`
+        CREATE TABLE IF NOT EXISTS status_notifications (
+            id INT AUTO_INCREMENT PRIMARY KEY,
+            shipment_id INT NOT NULL,
+            channel VARCHAR(16) NOT NULL,
+            status VARCHAR(32) NOT NULL,
+            recipient VARCHAR(32) NULL,
+            payload TEXT NOT NULL,
+            attempts INT NOT NULL DEFAULT 0,
+            last_error TEXT NULL,
+            created_at DATETIME(3) NOT NULL,
+            updated_at DATETIME(3) NOT NULL,
+            INDEX idx_status_notifications_shipment (shipment_id)
+        )
+    `],
+    down: ['DROP TABLE IF EXISTS status_notifications']
+};
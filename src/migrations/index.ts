@@ -0,0 +1,28 @@
+import { Migration } from '../services/Migrator';
+import { createShipments } from './001_create_shipments';
+import { createTrackingEvents } from './002_create_tracking_events';
+import { createSendLog } from './003_create_send_log';
+import { createUnmatchedGuides } from './004_create_unmatched_guides';
+import { createShipmentStatusHistory } from './005_create_shipment_status_history';
+import { addShipmentCarrierAndCity } from './006_add_shipment_carrier_and_city';
+import { addShipmentCarrierBooking } from './007_add_shipment_carrier_booking';
+import { addTrackingEventKey } from './008_add_tracking_event_key';
+import { createGuideJobs } from './009_create_guide_jobs';
+import { createStatusNotifications } from './010_create_status_notifications';
+
+/**
+ * Migrations of the tables this service owns, oldest first. Add new ones at
+ * the end with the next version; never edit one already applied.
+ */
+export const migrations: Migration[] = [
+    createShipments,
+    createTrackingEvents,
+    createSendLog,
+    createUnmatchedGuides,
+    createShipmentStatusHistory,
+    addShipmentCarrierAndCity,
+    addShipmentCarrierBooking,
+    addTrackingEventKey,
+    createGuideJobs,
+    createStatusNotifications
+];
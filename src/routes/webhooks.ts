@@ -1,6 +1,14 @@
 import { Router, Request, Response } from 'express';
+import { IncomingMessage } from 'http';
+import { config } from '../config/config';
 import { ShipmentService } from '../services/ShipmentService';
+import { TrackingUpdater } from '../services/TrackingUpdater';
+import { cityGazetteer } from '../services/CityGazetteer';
 import { addToOrderQueue, notifyNewOrder, OrderQueueItem } from '../websocket';
+import { createSimulatedCarriers } from '../carriers/createCarriers';
+import { CARRIER_APIS } from '../carriers/http/apis';
+import { detectCarrierByTrackingNumber } from '../carriers/trackingPatterns';
+import { CarrierWebhookPayload, verifyWebhookSignature } from '../carriers/http/CarrierApi';
 
 const router = Router();
 const shipmentService = new ShipmentService();
@@ -118,10 +126,12 @@ router.post('/order-completed', async (req: Request, res: Response) => {
             customerName: customer_name || '',
             customerPhone: customer_phone,
             shippingAddress: shipping_address,
+            // The chatbot writes the city into the address, e.g. 'Calle 45 # 23-67, Bogotá'
+            city: cityGazetteer.findInText(shipping_address)?.municipality.name,
             shippingPhone: shipping_phone || customer_phone,
             productDescription,
             status: 'ready_for_shipping'
-        });
+        }, 'webhook');
 
         console.log(`📦 Shipment created for order ${order_number}: ${shipment.trackingNumber}`);
 
@@ -138,3 +148,109 @@ router.post('/order-completed', async (req: Request, res: Response) => {
 });
 
 export default router;
+
+/**
+ * A request whose body was kept as sent, for checking signatures over it
+ */
+interface RawBodyRequest extends Request {
+    rawBody?: Buffer;
+}
+
+/**
+ * `verify` hook of the JSON body parser that keeps the body as sent
+ */
+export function keepRawBody(req: IncomingMessage, _res: unknown, body: Buffer): void {
+    (req as RawBodyRequest).rawBody = body;
+}
+
+export interface CarrierWebhookOptions {
+    /** Secret shared with each carrier, by carrier id */
+    secrets: Record<string, string>;
+}
+
+/**
+ * Tracking callbacks the carriers push, at POST /webhooks/carriers/:carrierId.
+ * Each is checked against the carrier's signature with the secret shared
+ * with it, its statuses mapped to ours, and applied like a polled tracking
+ * lookup. A callback delivered again adds nothing, and one delivered late
+ * is stored without moving the shipment back.
+ *
+ * @param shipments - Shipments the callbacks' guides are looked up in
+ * @param tracking - Applies the callbacks; without it (or the shipments) they answer 503
+ */
+export function createCarrierWebhookRouter(
+    shipments: ShipmentService | null,
+    tracking: TrackingUpdater | null,
+    options: CarrierWebhookOptions = { secrets: config.carriers.webhookSecrets }
+): Router {
+    const carrierRouter = Router();
+    // The carriers' status vocabulary, whatever the carrier mode
+    const carriers = new Map(createSimulatedCarriers().map(carrier => [carrier.id, carrier]));
+
+    carrierRouter.post('/carriers/:carrierId', async (req: RawBodyRequest, res: Response) => {
+        const carrier = carriers.get(req.params.carrierId);
+        const api = carrier ? CARRIER_APIS[carrier.id] : undefined;
+        if (!carrier || !api) {
+            return res.status(404).json({ success: false, error: `Transportadora no encontrada: ${req.params.carrierId}` });
+        }
+        const secret = options.secrets[carrier.id];
+        if (!secret) {
+            return res.status(404).json({ success: false, error: `Notificaciones de ${carrier.name} no configuradas` });
+        }
+        if (!shipments || !tracking) {
+            return res.status(503).json({ success: false, error: 'Seguimiento de envíos no configurado' });
+        }
+        if (!req.rawBody || !verifyWebhookSignature(api.webhook.signature, secret, req.rawBody, req.get(api.webhook.signature.header))) {
+            return res.status(401).json({ success: false, error: 'Firma inválida' });
+        }
+
+        let payload: CarrierWebhookPayload;
+        try {
+            payload = api.webhook.payload(req.body);
+        } catch {
+            return res.status(400).json({ success: false, error: `Notificación de ${carrier.name} no reconocida` });
+        }
+        if (!payload.trackingNumber || payload.events.length === 0) {
+            return res.status(400).json({ success: false, error: `Notificación de ${carrier.name} sin guía o sin eventos` });
+        }
+        if (payload.events.some(event => !event.timestamp)) {
+            return res.status(400).json({ success: false, error: 'Evento sin fecha válida' });
+        }
+        // The carrier's payload is not checked against its type; an event without status cannot be mapped
+        if (payload.events.some(event => typeof event.status !== 'string' || !event.status.trim())) {
+            return res.status(400).json({ success: false, error: 'Evento sin estado' });
+        }
+
+        try {
+            const shipment = await shipments.getShipmentByTrackingNumber(payload.trackingNumber);
+            // Shipments stored without a carrier belong to the one their tracking number's format points to
+            const shipmentCarrier = shipment && (shipment.carrier || detectCarrierByTrackingNumber(shipment.trackingNumber));
+            if (!shipment || shipmentCarrier !== carrier.id) {
+                return res.status(404).json({ success: false, error: `Guía ${payload.trackingNumber} no registrada con ${carrier.name}` });
+            }
+
+            const update = await tracking.apply(shipment, {
+                carrierId: carrier.id,
+                carrierName: carrier.name,
+                events: payload.events.map(event => ({ ...event, timestamp: event.timestamp!, status: carrier.mapStatus(event.status) }))
+            });
+
+            if (update.previousStatus) {
+                console.log(`📬 ${carrier.name} reported ${payload.trackingNumber}: ${update.previousStatus} → ${update.shipment.status}`);
+            }
+            return res.json({
+                success: true,
+                trackingNumber: payload.trackingNumber,
+                status: update.shipment.status,
+                newEvents: update.newEvents.length,
+                statusChanged: update.previousStatus !== null
+            });
+        } catch (error) {
+            console.error(`Error processing ${carrier.name} tracking webhook:`, error);
+            return res.status(500).json({ success: false, error: 'Error al procesar la notificación' });
+        }
+    });
+
+    return carrierRouter;
+}
+
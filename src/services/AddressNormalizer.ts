@@ -0,0 +1,138 @@
+import { ColombianAddress, ViaType } from '../types';
+
+/**
+ * Spellings of each via type: full names, the usual abbreviations and the
+ * OCR misreadings seen on guides. Avenida Calle/Carrera come before Avenida
+ * so "Av. Cra 68" keeps its cross type.
+ */
+const VIA_TYPES: Array<[ViaType, string]> = [
+    ['Avenida Calle', 'a(?:venida|vda|v)\\.?\\s*(?:calle|cll?)|ac'],
+    ['Avenida Carrera', 'a(?:venida|vda|v)\\.?\\s*(?:carrera|cra|kra?|cr)|ak'],
+    ['Autopista', 'autopista|autop'],
+    ['Avenida', 'avenida|avda|av'],
+    ['Calle', 'ca[l1i]{1,2}e|cl+e|cll|cl'],
+    ['Carrera', 'car+er+a|carr?|crr?a?|kra?'],
+    ['Transversal', 'transversal|transv|trans|tv|tr'],
+    ['Diagonal', 'diagonal|diag|dg'],
+    ['Circular', 'circular|circ|cq']
+];
+
+const COMPLEMENTS: Array<[string, string]> = [
+    ['Apto', 'apartamento|apto?'],
+    ['Torre', 'torre|to|t'],
+    ['Interior', 'interior|int'],
+    ['Bloque', 'bloque|bloq|bl'],
+    ['Casa', 'casa|cs'],
+    ['Local', 'local|lc'],
+    ['Piso', 'piso'],
+    ['Oficina', 'oficina|of'],
+    ['Etapa', 'etapa'],
+    ['Manzana', 'manzana|mz']
+];
+
+// A via or cross number: 45, 45A, 45 Bis, 45A Bis B
+const NUMBER = '\\d{1,3}(?:\\s?[a-h](?![a-zñ]))?(?:\\s?bis(?:\\s?[a-h](?![a-zñ]))?)?';
+
+const ADDRESS_PATTERN = new RegExp(
+    `\\b(${VIA_TYPES.map(([, pattern]) => pattern).join('|')})\\.?\\s*(${NUMBER})(?:\\s+(sur|este)\\b)?` +
+    // '#', 'No.', 'Nro', 'N°' or just a space before the cross number
+    `(?:\\s*(?:#|n[oº°]\\.?|nro\\.?|n[uú]m(?:ero)?\\.?|n\\b)\\s*|\\s+)(${NUMBER})` +
+    `(?:\\s*[-–—]\\s*|\\s+)(\\d{1,3})(?!\\d)(?:\\s+(sur|este)\\b)?`,
+    'i'
+);
+
+const COMPLEMENT_PATTERN = new RegExp(
+    `\\b(${COMPLEMENTS.map(([, pattern]) => pattern).join('|')})\\.?\\s*(\\d+[a-z]?|[a-z])\\b`,
+    'gi'
+);
+
+const NEIGHBORHOOD_PATTERN = /\b(?:barrio|brr|b\/)\.?\s*:?\s*([a-záéíóúñü0-9][a-záéíóúñü0-9 .]*?)\s*(?=[,;\n()]|\b(?:ciudad|municipio|tel|cel|dpto|departamento)\b|$)/i;
+
+/**
+ * OCR reads 0 and 1 as O and l/I inside numbers ("Cra 1O # 4l-2O");
+ * fixes them in tokens that already contain a digit
+ */
+function fixOcrDigits(text: string): string {
+    return text.replace(/\b[0-9OoIl]*[0-9][0-9OoIl]*(?=[A-Ha-h]?\b)/g, token =>
+        token.replace(/[Oo]/g, '0').replace(/[Il]/g, '1')
+    );
+}
+
+function formatNumber(value: string): string {
+    return value.toUpperCase().replace(/\s+/g, '').replace('BIS', ' BIS ').trim();
+}
+
+function formatQuadrant(value: string | undefined): 'Sur' | 'Este' | null {
+    if (!value) return null;
+    return value.toLowerCase() === 'sur' ? 'Sur' : 'Este';
+}
+
+/**
+ * Parses an address in Colombian nomenclature (via type, via number, cross
+ * number and plate, plus complement and barrio) out of free text. Handles
+ * abbreviations (Cl, Cra, Kr, Av, Tv, Dg...), the '#'/No./Nro separators and
+ * OCR misreadings. Returns null when the text holds no such address, e.g.
+ * rural "Vereda..." or "Mz 4 Casa 12" addresses.
+ */
+export function parseColombianAddress(text: string): ColombianAddress | null {
+    const cleaned = fixOcrDigits(text);
+    const match = cleaned.match(ADDRESS_PATTERN);
+    if (!match) return null;
+
+    const [full, keyword, viaNumber, viaQuadrant, crossNumber, plate, plateQuadrant] = match;
+    const viaType = VIA_TYPES.find(([, pattern]) => new RegExp(`^(?:${pattern})$`, 'i').test(keyword))![0];
+
+    // The complement follows the plate on the same line, before the barrio
+    const rest = cleaned.slice((match.index ?? 0) + full.length).split('\n')[0];
+    const restEnd = rest.search(/\b(?:barrio|brr|b\/)/i);
+    const complement = Array.from((restEnd >= 0 ? rest.slice(0, restEnd) : rest).matchAll(COMPLEMENT_PATTERN), ([, word, value]) => {
+        const label = COMPLEMENTS.find(([, pattern]) => new RegExp(`^(?:${pattern})$`, 'i').test(word))![0];
+        return `${label} ${value.toUpperCase()}`;
+    }).join(' ') || null;
+
+    const neighborhood = text.match(NEIGHBORHOOD_PATTERN)?.[1].trim().substring(0, 40).trim() || null;
+
+    const address = {
+        viaType,
+        viaNumber: formatNumber(viaNumber),
+        crossNumber: formatNumber(crossNumber),
+        plate,
+        quadrant: formatQuadrant(viaQuadrant || plateQuadrant),
+        complement,
+        neighborhood
+    };
+
+    return { ...address, raw: text.trim(), normalized: formatAddress(address) };
+}
+
+/**
+ * Canonical single-line form, e.g. "Calle 45A BIS # 23-67 Sur, Torre 2 Apto 301"
+ */
+export function formatAddress(address: Pick<ColombianAddress, 'viaType' | 'viaNumber' | 'crossNumber' | 'plate' | 'quadrant' | 'complement'>): string {
+    const street = `${address.viaType} ${address.viaNumber} # ${address.crossNumber}-${address.plate}`;
+    const quadrant = address.quadrant ? ` ${address.quadrant}` : '';
+    return `${street}${quadrant}${address.complement ? `, ${address.complement}` : ''}`;
+}
+
+/**
+ * The canonical form of an address, or the text with its whitespace
+ * collapsed when it is not in Colombian nomenclature
+ */
+export function normalizeAddress(text: string): string {
+    return parseColombianAddress(text)?.normalized ?? text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether two addresses point at the same door. Complement and barrio are
+ * ignored; the quadrant only counts when both addresses give one, since
+ * customers often leave out "Sur". The Avenida types are interchangeable, as
+ * "Av 68" is usually written for "Avenida Carrera 68".
+ */
+export function isSameAddress(a: ColombianAddress, b: ColombianAddress): boolean {
+    const viaFamily = (type: ViaType) => type.startsWith('Avenida') ? 'Avenida' : type;
+    return viaFamily(a.viaType) === viaFamily(b.viaType)
+        && a.viaNumber === b.viaNumber
+        && a.crossNumber === b.crossNumber
+        && parseInt(a.plate, 10) === parseInt(b.plate, 10)
+        && (!a.quadrant || !b.quadrant || a.quadrant === b.quadrant);
+}
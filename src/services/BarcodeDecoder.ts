@@ -0,0 +1,204 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { PDFDocument, PDFDict, PDFName, PDFArray, PDFNumber, PDFRawStream } from 'pdf-lib';
+
+/**
+ * A barcode or QR code read from a guide image
+ */
+export interface DecodedBarcode {
+    text: string;
+    format: string;
+}
+
+/**
+ * Grayscale pixels, one luminance byte per pixel
+ */
+interface LuminanceImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+/**
+ * Larger images are scaled down before decoding; guide barcodes stay readable
+ * at this size and decoding a full-resolution phone photo is slow.
+ */
+const MAX_DECODE_SIZE = 2000;
+
+/**
+ * Reads the Code128 barcode and QR code printed on carrier guides.
+ * Pure JS: images are decoded with jimp and barcodes with zxing, and for PDFs
+ * the page images embedded by scanners are decoded (vector PDFs already
+ * carry the tracking number as text).
+ */
+export class BarcodeDecoder {
+    private jimp: any = null;
+    private zxing: any = null;
+
+    /**
+     * Decodes the barcodes in an image file or buffer.
+     * Unreadable images yield no barcodes rather than an error.
+     */
+    async decodeImage(source: string | Buffer): Promise<DecodedBarcode[]> {
+        try {
+            return await this.decodeLuminance(await this.readImage(source));
+        } catch (error) {
+            console.warn('Barcode decoding skipped:', (error as Error).message);
+            return [];
+        }
+    }
+
+    /**
+     * Decodes the barcodes in the images embedded in each page of a PDF.
+     * Returns one list per page, in page order.
+     */
+    async decodePdfPages(filePath: string): Promise<DecodedBarcode[][]> {
+        let pdf: PDFDocument;
+        try {
+            pdf = await PDFDocument.load(fs.readFileSync(filePath));
+        } catch (error) {
+            console.warn('Barcode decoding skipped:', (error as Error).message);
+            return [];
+        }
+
+        const pages: DecodedBarcode[][] = [];
+        for (const page of pdf.getPages()) {
+            const found: DecodedBarcode[] = [];
+            for (const image of this.pageImages(page.node.Resources())) {
+                try {
+                    const luminance = image.kind === 'jpeg'
+                        ? await this.readImage(image.data)
+                        : image.luminance;
+                    found.push(...await this.decodeLuminance(luminance));
+                } catch {
+                    // Images in unsupported encodings are skipped
+                }
+            }
+            pages.push(dedupe(found));
+        }
+        return pages;
+    }
+
+    private async readImage(source: string | Buffer): Promise<LuminanceImage> {
+        if (!this.jimp) {
+            const jimpModule: any = await import('jimp');
+            this.jimp = jimpModule.default || jimpModule;
+        }
+
+        const image = await this.jimp.read(source);
+        if (image.bitmap.width > MAX_DECODE_SIZE || image.bitmap.height > MAX_DECODE_SIZE) {
+            image.scaleToFit(MAX_DECODE_SIZE, MAX_DECODE_SIZE);
+        }
+
+        const { data, width, height } = image.bitmap;
+        const luminance = new Uint8ClampedArray(width * height);
+        for (let i = 0; i < luminance.length; i++) {
+            luminance[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+        }
+        return { data: luminance, width, height };
+    }
+
+    /**
+     * Runs the 1D and QR readers separately, since each read returns a single
+     * code and guides usually carry one of each. The 1D reader also tries the
+     * image turned 90° for barcodes printed vertically.
+     */
+    private async decodeLuminance(image: LuminanceImage): Promise<DecodedBarcode[]> {
+        if (!this.zxing) {
+            this.zxing = await import('@zxing/library');
+        }
+        const { BarcodeFormat } = this.zxing;
+
+        const linear = [BarcodeFormat.CODE_128, BarcodeFormat.CODE_39, BarcodeFormat.ITF, BarcodeFormat.EAN_13];
+        const found = [
+            this.read(image, linear) || this.read(rotate90(image), linear),
+            this.read(image, [BarcodeFormat.QR_CODE])
+        ];
+        return dedupe(found.filter((code): code is DecodedBarcode => code !== null));
+    }
+
+    private read(image: LuminanceImage, formats: number[]): DecodedBarcode | null {
+        const { BarcodeFormat, BinaryBitmap, DecodeHintType, HybridBinarizer, MultiFormatReader, RGBLuminanceSource } = this.zxing;
+
+        const hints = new Map<any, any>([
+            [DecodeHintType.TRY_HARDER, true],
+            [DecodeHintType.POSSIBLE_FORMATS, formats]
+        ]);
+        const reader = new MultiFormatReader();
+        reader.setHints(hints);
+
+        try {
+            const source = new RGBLuminanceSource(image.data, image.width, image.height);
+            const result = reader.decode(new BinaryBitmap(new HybridBinarizer(source)), hints);
+            return { text: result.getText(), format: BarcodeFormat[result.getBarcodeFormat()] };
+        } catch {
+            // zxing throws NotFoundException when there is no code to read
+            return null;
+        }
+    }
+
+    /**
+     * Collects the image XObjects of a page: JPEG streams as-is, and 8-bit
+     * Flate-compressed gray/RGB pixels converted to luminance.
+     */
+    private pageImages(resources: PDFDict | undefined): Array<{ kind: 'jpeg'; data: Buffer } | { kind: 'raw'; luminance: LuminanceImage }> {
+        const images: Array<{ kind: 'jpeg'; data: Buffer } | { kind: 'raw'; luminance: LuminanceImage }> = [];
+        const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+        if (!xObjects) return images;
+
+        for (const [name] of xObjects.entries()) {
+            const stream = xObjects.lookup(name);
+            if (!(stream instanceof PDFRawStream)) continue;
+            const dict = stream.dict;
+            if (dict.get(PDFName.of('Subtype')) !== PDFName.of('Image')) continue;
+
+            const filterEntry = dict.lookup(PDFName.of('Filter'));
+            const filters = filterEntry instanceof PDFArray ? filterEntry.asArray() : [filterEntry];
+            if (filters.length !== 1) continue;
+
+            if (filters[0] === PDFName.of('DCTDecode')) {
+                images.push({ kind: 'jpeg', data: Buffer.from(stream.contents) });
+            } else if (filters[0] === PDFName.of('FlateDecode') && !dict.has(PDFName.of('DecodeParms'))) {
+                const luminance = flateToLuminance(stream);
+                if (luminance) images.push({ kind: 'raw', luminance });
+            }
+        }
+        return images;
+    }
+}
+
+function flateToLuminance(stream: PDFRawStream): LuminanceImage | null {
+    const dict = stream.dict;
+    const width = (dict.lookup(PDFName.of('Width')) as PDFNumber | undefined)?.asNumber();
+    const height = (dict.lookup(PDFName.of('Height')) as PDFNumber | undefined)?.asNumber();
+    const bits = (dict.lookup(PDFName.of('BitsPerComponent')) as PDFNumber | undefined)?.asNumber();
+    const colorSpace = dict.get(PDFName.of('ColorSpace'));
+    const channels = colorSpace === PDFName.of('DeviceGray') ? 1 : colorSpace === PDFName.of('DeviceRGB') ? 3 : 0;
+    if (!width || !height || bits !== 8 || channels === 0) return null;
+
+    const pixels = zlib.inflateSync(Buffer.from(stream.contents));
+    if (pixels.length < width * height * channels) return null;
+
+    const data = new Uint8ClampedArray(width * height);
+    for (let i = 0; i < data.length; i++) {
+        data[i] = channels === 1
+            ? pixels[i]
+            : (pixels[i * 3] * 299 + pixels[i * 3 + 1] * 587 + pixels[i * 3 + 2] * 114) / 1000;
+    }
+    return { data, width, height };
+}
+
+function rotate90(image: LuminanceImage): LuminanceImage {
+    const { data, width, height } = image;
+    const rotated = new Uint8ClampedArray(data.length);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            rotated[x * height + (height - 1 - y)] = data[y * width + x];
+        }
+    }
+    return { data: rotated, width: height, height: width };
+}
+
+function dedupe(codes: DecodedBarcode[]): DecodedBarcode[] {
+    return codes.filter((code, i) => codes.findIndex(c => c.text === code.text) === i);
+}
@@ -9,14 +9,7 @@ import {
     SelectionPriority,
     CarrierSelectionResult
 } from '../carriers/types';
-import {
-    InterRapidisimoCarrier,
-    ServientregaCarrier,
-    EnviaCarrier,
-    CoordinadoraCarrier,
-    TCCCarrier,
-    DeprisaCarrier
-} from '../carriers/implementations';
+import { createCarriers } from '../carriers/createCarriers';
 
 interface QuoteWithCarrier {
     carrier: Carrier;
@@ -29,24 +22,11 @@ interface QuoteWithCarrier {
 export class CarrierSelector {
     private carriers: Map<string, Carrier>;
 
-    constructor() {
-        this.carriers = new Map();
-        this.initializeCarriers();
-    }
-
     /**
-     * Initialize all available carriers
+     * @param carrierInstances - Carriers to choose from; by default those of the configured mode
      */
-    private initializeCarriers(): void {
-        const carrierInstances: Carrier[] = [
-            new InterRapidisimoCarrier(),
-            new ServientregaCarrier(),
-            new EnviaCarrier(),
-            new CoordinadoraCarrier(),
-            new TCCCarrier(),
-            new DeprisaCarrier()
-        ];
-
+    constructor(carrierInstances: Carrier[] = createCarriers()) {
+        this.carriers = new Map();
         for (const carrier of carrierInstances) {
             this.carriers.set(carrier.id, carrier);
         }
@@ -79,7 +59,7 @@ export class CarrierSelector {
         const quotes = await Promise.all(
             Array.from(this.carriers.values()).map(async carrier => ({
                 carrier,
-                quote: await carrier.getQuote(origin, destination, weight)
+                quote: await this.quote(carrier, origin, destination, weight)
             }))
         );
 
@@ -194,12 +174,32 @@ export class CarrierSelector {
             Array.from(this.carriers.values()).map(async carrier => ({
                 carrier: carrier.id,
                 name: carrier.name,
-                quote: await carrier.getQuote(origin, destination, weight)
+                quote: await this.quote(carrier, origin, destination, weight)
             }))
         );
 
         return quotes.filter(q => q.quote.available);
     }
+
+    /**
+     * The carrier's quote; a carrier whose API fails is left out of the
+     * selection rather than failing it
+     */
+    private async quote(carrier: Carrier, origin: string, destination: string, weight: number): Promise<Quote> {
+        try {
+            return await carrier.getQuote(origin, destination, weight);
+        } catch (error) {
+            console.warn(`⚠️ No quote from ${carrier.name}: ${(error as Error).message}`);
+            return {
+                available: false,
+                price: 0,
+                currency: 'COP',
+                estimatedDays: 0,
+                serviceName: 'No disponible',
+                carrierNotes: (error as Error).message
+            };
+        }
+    }
 }
 
 // Export singleton instance
@@ -0,0 +1,188 @@
+import daneData from '../data/dane-municipalities.json';
+import { Municipality } from '../types';
+
+interface Department {
+    code: string;
+    name: string;
+    aliases: string[];
+}
+
+/**
+ * A municipality name found in a text
+ */
+export interface CityMention {
+    municipality: Municipality;
+    /** Offset and length of the name in the searched text */
+    index: number;
+    length: number;
+    /** The department is written right after the name, e.g. "Bello, Antioquia" */
+    departmentConfirmed: boolean;
+}
+
+/**
+ * Lines holding a person's name; surnames such as González or Restrepo are
+ * also municipalities, so free-text city mentions on these lines are skipped
+ */
+const NAME_LINE = /^[^\S\n]*(?:nombre|destinatario|cliente|remitente|para)\b.*$/gim;
+
+/**
+ * Lowercases the text and strips its accents, keeping for every normalized
+ * character the offset of the original character it came from
+ */
+export function normalizeWithOffsets(text: string): { normalized: string; offsets: number[] } {
+    let normalized = '';
+    const offsets: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const chars = text[i].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+        for (const char of chars) {
+            normalized += char;
+            offsets.push(i);
+        }
+    }
+    return { normalized, offsets };
+}
+
+function plain(text: string): string {
+    return normalizeWithOffsets(text.trim().replace(/\s+/g, ' ')).normalized;
+}
+
+function isWordChar(char: string | undefined): boolean {
+    return char !== undefined && /[a-z0-9]/.test(char);
+}
+
+/**
+ * The DANE (DIVIPOLA) municipalities of Colombia, looked up by name or alias
+ * regardless of accents and case. Homonyms (there are three Argelias and four
+ * La Uniones) are told apart by their department; without one, the
+ * department capital wins, then the lowest DANE code.
+ */
+export class CityGazetteer {
+    private readonly byName = new Map<string, Municipality[]>();
+    /** Plain department names and aliases, longest first, to their canonical name */
+    private readonly departmentNames: Array<[string, string]>;
+
+    constructor(
+        readonly municipalities: Municipality[] = daneData.municipalities,
+        departments: Department[] = daneData.departments
+    ) {
+        for (const municipality of municipalities) {
+            for (const name of new Set([municipality.name, ...municipality.aliases].map(plain))) {
+                this.byName.set(name, [...(this.byName.get(name) || []), municipality]);
+            }
+        }
+        this.departmentNames = departments
+            .flatMap(d => [d.name, ...d.aliases].map((name): [string, string] => [plain(name), d.name]))
+            .sort((a, b) => b[0].length - a[0].length);
+    }
+
+    /**
+     * The municipality written exactly as `name` (or one of its aliases)
+     * @param department - Any spelling of its department, to tell homonyms apart
+     */
+    lookup(name: string, department?: string | null): Municipality | null {
+        const candidates = this.byName.get(plain(name).replace(/[,;:\s]+$/, ''));
+        if (!candidates) return null;
+        return this.pick(candidates, department ? this.resolveDepartment(department) : null);
+    }
+
+    findByCode(code: string): Municipality | null {
+        return this.municipalities.find(m => m.code === code) || null;
+    }
+
+    /**
+     * Canonical name of a department given in any spelling, e.g. 'valle' -> 'Valle del Cauca'
+     */
+    resolveDepartment(department: string): string | null {
+        const name = plain(department);
+        return this.departmentNames.find(([alias]) => alias === name)?.[1] || null;
+    }
+
+    /**
+     * Every municipality name in the text, matched on word boundaries (so
+     * "Calidad" is not Cali) and in text order. Overlapping names keep the
+     * longest ("Santa Rosa de Osos" over "Santa Rosa"), and a department
+     * written after a name picks the municipality of that department and is
+     * not reported itself ("Manizales, Caldas" holds no Caldas municipality).
+     */
+    findAll(text: string): CityMention[] {
+        const { normalized, offsets } = normalizeWithOffsets(text);
+
+        const found: Array<{ start: number; end: number; candidates: Municipality[] }> = [];
+        for (const [name, candidates] of this.byName) {
+            for (let index = normalized.indexOf(name); index >= 0; index = normalized.indexOf(name, index + 1)) {
+                const end = index + name.length;
+                if (!isWordChar(normalized[index - 1]) && !isWordChar(normalized[end])) {
+                    found.push({ start: index, end, candidates });
+                }
+            }
+        }
+
+        const kept: typeof found = [];
+        found
+            .sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start)
+            .forEach(f => {
+                if (!kept.some(k => f.start < k.end && k.start < f.end)) kept.push(f);
+            });
+        kept.sort((a, b) => a.start - b.start);
+
+        const mentions: CityMention[] = [];
+        let qualifierEnd = -1;
+        for (const f of kept) {
+            if (f.start < qualifierEnd) continue;
+            const qualifier = this.departmentAfter(normalized, f.end);
+            const municipality = this.pick(f.candidates, qualifier?.department ?? null);
+            const departmentConfirmed = qualifier !== null && municipality.department === qualifier.department;
+            if (departmentConfirmed) qualifierEnd = qualifier.end;
+            mentions.push({
+                municipality,
+                index: offsets[f.start],
+                length: offsets[f.end - 1] + 1 - offsets[f.start],
+                departmentConfirmed
+            });
+        }
+        return mentions;
+    }
+
+    /**
+     * The most likely destination city in free text: a name followed by its
+     * department wins, otherwise the first plausible mention. Mentions on
+     * name lines, names of under four letters ("Une", "Iza"), lowercase words,
+     * "Colombia" and department names that are not the capital ("Caldas")
+     * only count when their department follows.
+     */
+    findInText(text: string): CityMention | null {
+        const nameLines = Array.from(text.matchAll(NAME_LINE), m => [m.index ?? 0, (m.index ?? 0) + m[0].length]);
+        const plausible = this.findAll(text).filter(mention => {
+            if (mention.departmentConfirmed) return true;
+            const written = text.substr(mention.index, mention.length);
+            const onNameLine = nameLines.some(([start, end]) => mention.index >= start && mention.index < end);
+            const isDepartmentName = this.resolveDepartment(written) !== null && !mention.municipality.code.endsWith('001');
+            // Colombia (Huila) mostly stands for the country
+            const isCountry = plain(written) === 'colombia';
+            return !onNameLine && !isDepartmentName && !isCountry && written.length >= 4 && /^[A-ZÁÉÍÓÚÑ]/.test(written);
+        });
+        return plausible.find(m => m.departmentConfirmed) || plausible[0] || null;
+    }
+
+    private pick(candidates: Municipality[], department: string | null): Municipality {
+        return (department && candidates.find(c => c.department === department))
+            || candidates.find(c => c.code.endsWith('001'))
+            || candidates[0];
+    }
+
+    /**
+     * A department written right after position `from`, e.g. ", Antioquia" or " (Valle)"
+     */
+    private departmentAfter(normalized: string, from: number): { department: string; end: number } | null {
+        const after = normalized.slice(from, from + 60);
+        const separator = after.match(/^\s*[,\-–(/]?\s*/)![0].length;
+        for (const [alias, department] of this.departmentNames) {
+            if (after.startsWith(alias, separator) && !isWordChar(after[separator + alias.length])) {
+                return { department, end: from + separator + alias.length };
+            }
+        }
+        return null;
+    }
+}
+
+export const cityGazetteer = new CityGazetteer();
@@ -1,158 +1,107 @@
-import mysql from 'mysql2/promise';
+import { config } from '../config/config';
 import { ShippingGuideData, CustomerMatch } from '../types';
+import { parseColombianAddress } from './AddressNormalizer';
+import { nameFragments } from './NameMatcher';
+import { scoreOrder, sanitizePhone, autoSendMatch } from './MatchScorer';
+import { OrderRecord, OrderRepository } from './OrderRepository';
+
+export interface MatchingOptions {
+    /** Minimum score of the best candidate to send without review */
+    autoSendScore: number;
+    /** Points the best candidate must lead the runner-up by to send without review */
+    autoSendMargin: number;
+    /** Candidates scoring less are dropped */
+    minCandidateScore: number;
+    maxCandidates: number;
+    /** Open orders placed within these days are compared by name */
+    nameLookbackDays: number;
+}
 
-export class CustomerMatcher {
-    private pool: mysql.Pool;
+// Open orders sharing part of the guide's name compared per guide, most recent first
+const NAME_CANDIDATE_LIMIT = 500;
 
-    constructor(dbConfig: any) {
-        this.pool = mysql.createPool({
-            host: dbConfig.host,
-            port: dbConfig.port,
-            user: dbConfig.user,
-            password: dbConfig.password,
-            database: dbConfig.database,
-            waitForConnections: true,
-            connectionLimit: 5
-        });
-    }
+export class CustomerMatcher {
+    constructor(private readonly orders: OrderRepository, private readonly options: MatchingOptions = config.matching) {}
 
+    /**
+     * The best candidate, when it can be sent the guide without review (see autoSendMatch)
+     */
     async findCustomer(guideData: ShippingGuideData): Promise<CustomerMatch | null> {
-        // Try matching by phone first (highest confidence)
-        if (guideData.customerPhone) {
-            const byPhone = await this.matchByPhone(guideData.customerPhone);
-            if (byPhone) return byPhone;
-        }
-
-        // Try matching by name + city
-        if (guideData.customerName) {
-            const byName = await this.matchByName(guideData.customerName, guideData.city);
-            if (byName) return byName;
-        }
-
-        // Try matching by address
-        if (guideData.shippingAddress) {
-            const byAddress = await this.matchByAddress(guideData.shippingAddress);
-            if (byAddress) return byAddress;
-        }
-
-        return null;
+        return autoSendMatch(await this.findCandidates(guideData), this.options.autoSendScore, this.options.autoSendMargin);
     }
 
-    private async matchByPhone(phone: string): Promise<CustomerMatch | null> {
-        // Handle Colombian phone format: remove country code 57 if present, get last 10 digits
-        let sanitized = phone.replace(/\D/g, '');
-        if (sanitized.startsWith('57') && sanitized.length > 10) {
-            sanitized = sanitized.substring(2); // Remove '57' prefix
-        }
-        sanitized = sanitized.slice(-10); // Get last 10 digits
-        
-        const [rows] = await this.pool.execute(`
-            SELECT 
-                o.id,
-                o.order_number,
-                o.phone_number,
-                o.customer_name,
-                o.shipping_address,
-                o.processing_status
-            FROM orders o
-            WHERE (o.phone_number LIKE ? OR o.shipping_phone LIKE ?)
-            AND o.processing_status IN ('confirmed', 'processing')
-            AND o.tracking_number IS NULL
-            ORDER BY o.created_at DESC
-            LIMIT 1
-        `, [`%${sanitized}%`, `%${sanitized}%`]) as any;
-
-        if (rows.length > 0) {
-            const order = rows[0];
-            return {
-                id: order.id,
-                orderNumber: order.order_number,
-                phone: order.phone_number,
-                name: order.customer_name,
-                address: order.shipping_address,
-                confidence: 100,
-                matchedBy: 'phone'
-            };
-        }
-
-        return null;
+    /**
+     * Gathers open orders by phone, by name and by address,
+     * scores each on all the signals together and returns the best ones
+     * (at least `minCandidateScore`), most recent first on equal scores.
+     */
+    async findCandidates(guideData: ShippingGuideData): Promise<CustomerMatch[]> {
+        const rows = new Map<number, OrderRecord>();
+        const gathered = [
+            guideData.customerPhone ? await this.ordersByPhone(guideData.customerPhone) : [],
+            guideData.customerName ? await this.ordersByName(guideData.customerName) : [],
+            guideData.shippingAddress ? await this.ordersByAddress(guideData.shippingAddress) : []
+        ];
+        gathered.flat().forEach(row => rows.set(row.id, row));
+
+        const created = (id: number) => new Date(rows.get(id)?.created_at || 0).getTime();
+        return [...rows.values()]
+            .map(row => scoreOrder(guideData, row))
+            .filter(match => match.confidence >= this.options.minCandidateScore)
+            .sort((a, b) => b.confidence - a.confidence || created(b.id) - created(a.id))
+            .slice(0, this.options.maxCandidates);
     }
 
-    private async matchByName(name: string, city?: string): Promise<CustomerMatch | null> {
-        const nameParts = name.toLowerCase().split(/\s+/);
-        
-        let sql = `
-            SELECT * FROM orders 
-            WHERE LOWER(customer_name) LIKE ?
-            AND processing_status IN ('confirmed', 'processing')
-            AND tracking_number IS NULL
-        `;
-        const params: string[] = [`%${nameParts[0]}%`];
-
-        if (city) {
-            sql += ` AND LOWER(shipping_address) LIKE ?`;
-            params.push(`%${city.toLowerCase()}%`);
-        }
-
-        sql += ` ORDER BY created_at DESC LIMIT 1`;
-
-        const [rows] = await this.pool.execute(sql, params) as any;
-
-        if (rows.length > 0) {
-            const order = rows[0];
-            return {
-                id: order.id,
-                orderNumber: order.order_number,
-                phone: order.phone_number,
-                name: order.customer_name,
-                address: order.shipping_address,
-                confidence: 80,
-                matchedBy: 'name'
-            };
-        }
-
-        return null;
+    private async ordersByPhone(phone: string): Promise<OrderRecord[]> {
+        const sanitized = sanitizePhone(phone);
+        if (!sanitized) return [];
+        return this.orders.findOpenByPhone(sanitized, 10);
     }
 
-    private async matchByAddress(address: string): Promise<CustomerMatch | null> {
-        const [rows] = await this.pool.execute(`
-            SELECT * FROM orders 
-            WHERE LOWER(shipping_address) LIKE ?
-            AND processing_status IN ('confirmed', 'processing')
-            AND tracking_number IS NULL
-            ORDER BY created_at DESC
-            LIMIT 1
-        `, [`%${address.toLowerCase().substring(0, 30)}%`]) as any;
+    /**
+     * Recent open orders whose name shares the start or the end of one of
+     * the guide's name words. OCR garbles names beyond what a LIKE on the
+     * whole name can find ('JHON FREDY GOMEZ' for 'John Freddy Gómez'), so
+     * these are then compared with the fuzzy name matcher when scored.
+     */
+    private async ordersByName(name: string): Promise<OrderRecord[]> {
+        const fragments = nameFragments(name);
+        if (fragments.length === 0) return [];
+        const since = new Date(Date.now() - this.options.nameLookbackDays * 24 * 60 * 60 * 1000);
+        return this.orders.findOpenByNameFragments(fragments, since, NAME_CANDIDATE_LIMIT);
+    }
 
-        if (rows.length > 0) {
-            const order = rows[0];
-            return {
-                id: order.id,
-                orderNumber: order.order_number,
-                phone: order.phone_number,
-                name: order.customer_name,
-                address: order.shipping_address,
-                confidence: 60,
-                matchedBy: 'address'
-            };
-        }
+    /**
+     * Addresses in Colombian nomenclature are looked up by their numbers, so
+     * "CL 45 NO 23 - 67" finds an order placed for "Calle 45 # 23-67, Bogotá";
+     * the scorer then compares them part by part.
+     * Other addresses fall back to a LIKE on their first 30 characters.
+     */
+    private async ordersByAddress(address: string): Promise<OrderRecord[]> {
+        const parsed = parseColombianAddress(address);
+        const pattern = parsed
+            ? `%${parsed.viaNumber.replace(/\D/g, '')}%${parsed.crossNumber.replace(/\D/g, '')}%${parseInt(parsed.plate, 10)}%`
+            : `%${address.toLowerCase().substring(0, 30)}%`;
+        return this.orders.findOpenByAddress(pattern, 20);
+    }
 
-        return null;
+    async findOrder(orderNumber: string): Promise<CustomerMatch | null> {
+        const order = await this.orders.findByOrderNumber(orderNumber);
+        if (!order) return null;
+        return {
+            id: order.id,
+            orderNumber: order.order_number,
+            phone: order.phone_number || order.shipping_phone || '',
+            name: order.customer_name || '',
+            address: order.shipping_address || '',
+            confidence: 100,
+            matchedBy: 'order'
+        };
     }
 
     async updateOrderTracking(orderNumber: string, trackingNumber: string, carrier: string): Promise<boolean> {
         try {
-            const [result] = await this.pool.execute(`
-                UPDATE orders SET
-                    tracking_number = ?,
-                    carrier = ?,
-                    shipping_status = 'shipped',
-                    shipped_at = NOW(),
-                    updated_at = NOW()
-                WHERE order_number = ?
-            `, [trackingNumber, carrier, orderNumber]) as any;
-
-            return result.affectedRows > 0;
+            return await this.orders.setTracking(orderNumber, trackingNumber, carrier);
         } catch (error) {
             console.error('Error updating order tracking:', error);
             return false;
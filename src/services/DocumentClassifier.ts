@@ -0,0 +1,133 @@
+import { DocumentClassification, DocumentType } from '../types';
+
+type ClassifiedType = Exclude<DocumentType, 'unknown'>;
+
+interface Signal {
+    id: string;
+    pattern: RegExp;
+    weight: number;
+}
+
+interface ClassRule {
+    signals: Signal[];
+    /**
+     * Minimum score for the class to be chosen
+     */
+    minScore: number;
+}
+
+// 472 is a Colombian postal/courier carrier. Whole words only: "Enviaste" is not Envía
+const CARRIER_NAME = /\b(?:servientrega|coordinadora|inter\s*r[aá]pid[ií]simo|env[ií]a|colvanes|tcc|472|deprisa)\b/i;
+
+/**
+ * Signal weights add up to 1 per class
+ */
+const RULES: Record<ClassifiedType, ClassRule> = {
+    carrier_guide: {
+        minScore: 1,
+        signals: [
+            { id: 'carrier-name', pattern: CARRIER_NAME, weight: 0.5 },
+            // A bare number counts unless it is a mobile number (3xx xxx xxxx), which any receipt or chat may show
+            { id: 'tracking-number', pattern: /(?:gu[íi]a|tracking|numero|guia)\s*[:#]?\s*[A-Z0-9]{6,}|\b(?!3\d{9}\b)\d{10,15}\b|[A-Z]{2,3}\d{9,12}/, weight: 0.5 }
+        ]
+    },
+    whatsapp_chat: {
+        minScore: 0.4,
+        signals: [
+            { id: 'message-time', pattern: /\d{1,2}:\d{2}\s*[ap]\.?m\.?/i, weight: 0.2 },
+            { id: 'chat-words', pattern: /buenos\s*d[íi]as|buenas\s*tardes|buenas\s*noches|por\s*supuesto|ok\s*gracias/i, weight: 0.2 },
+            { id: 'address-words', pattern: /\bbarrio\b|tel\.|cel\.|avenida|calle\b|carrera\b/i, weight: 0.2 },
+            { id: 'contact-header', pattern: /\+57\s*3\d{9}/, weight: 0.2 },
+            { id: 'read-ticks', pattern: /✓✓|✓/, weight: 0.2 }
+        ]
+    },
+    payment_receipt: {
+        minScore: 0.5,
+        signals: [
+            { id: 'provider', pattern: /\bnequi\b|daviplata|bancolombia|transfiya|\bpse\b|movii/i, weight: 0.35 },
+            { id: 'confirmation', pattern: /comprobante|transferencia\s+exitosa|env[ií]o\s+exitoso|pago\s+exitoso|enviaste|recibiste|pagaste|transacci[oó]n\s+exitosa/i, weight: 0.3 },
+            { id: 'amount', pattern: /\$\s?\d{1,3}(?:[.,]\d{3})+/, weight: 0.15 },
+            { id: 'reference', pattern: /referencia|\bref\b\.?|n[uú]mero\s+de\s+aprobaci[oó]n|\bcus\b/i, weight: 0.2 }
+        ]
+    },
+    invoice: {
+        minScore: 0.5,
+        signals: [
+            { id: 'invoice-title', pattern: /factura(?:\s+electr[oó]nica)?(?:\s+de\s+venta)?|cuenta\s+de\s+cobro/i, weight: 0.35 },
+            { id: 'nit', pattern: /\bnit\b\s*[:.]?\s*\d{3}\.?\d{3}\.?\d{3}/i, weight: 0.2 },
+            { id: 'subtotal', pattern: /sub\s*-?total/i, weight: 0.15 },
+            { id: 'tax', pattern: /\biva\b|impuesto/i, weight: 0.15 },
+            { id: 'dian', pattern: /\bcufe\b|resoluci[oó]n\s+(?:dian|de\s+facturaci[oó]n)/i, weight: 0.15 }
+        ]
+    },
+    id_document: {
+        minScore: 0.5,
+        signals: [
+            { id: 'country', pattern: /rep[uú]blica\s+de\s+colombia/i, weight: 0.25 },
+            { id: 'id-title', pattern: /c[eé]dula\s+de\s+(?:ciudadan[ií]a|extranjer[ií]a)|tarjeta\s+de\s+identidad|identificaci[oó]n\s+personal/i, weight: 0.35 },
+            { id: 'registry', pattern: /registradur[ií]a/i, weight: 0.15 },
+            { id: 'birth-or-issue', pattern: /fecha\s+(?:y\s+lugar\s+)?de\s+(?:nacimiento|expedici[oó]n)|lugar\s+de\s+nacimiento/i, weight: 0.15 },
+            { id: 'name-labels', pattern: /\bapellidos\b|\bnombres\b/i, weight: 0.1 }
+        ]
+    }
+};
+
+/**
+ * Tells carrier guides apart from the other documents people upload by
+ * mistake: chat screenshots, payment receipts, invoices and ID photos.
+ * Each class scores the weight of its text signals that fired.
+ */
+export class DocumentClassifier {
+    classify(text: string): DocumentClassification {
+        const scores = {} as Record<ClassifiedType, number>;
+        const signals: string[] = [];
+
+        for (const [type, rule] of Object.entries(RULES) as Array<[ClassifiedType, ClassRule]>) {
+            let score = 0;
+            for (const signal of rule.signals) {
+                if (signal.pattern.test(text)) {
+                    score += signal.weight;
+                    signals.push(`${type}.${signal.id}`);
+                }
+            }
+            scores[type] = Math.round(score * 100) / 100;
+        }
+
+        const type = this.pickType(scores, signals);
+        return { type, scores, signals, reason: this.describe(type, scores, signals) };
+    }
+
+    /**
+     * A carrier guide wins, so a guide quoting an invoice or a phone number is
+     * still processed, unless a payment receipt scores at least as high (a
+     * receipt for paying a carrier names it and shows a reference number).
+     * Otherwise the highest-scoring class above its minimum is chosen; chats
+     * that name a carrier stay unknown.
+     */
+    private pickType(scores: Record<ClassifiedType, number>, signals: string[]): DocumentType {
+        const receipt = scores.payment_receipt >= RULES.payment_receipt.minScore && scores.payment_receipt >= scores.carrier_guide;
+        if (scores.carrier_guide >= RULES.carrier_guide.minScore && !receipt) {
+            return 'carrier_guide';
+        }
+
+        const candidates = (Object.keys(RULES) as ClassifiedType[])
+            .filter(type => type !== 'carrier_guide' && scores[type] >= RULES[type].minScore)
+            .filter(type => type !== 'whatsapp_chat' || !signals.includes('carrier_guide.carrier-name'))
+            .sort((a, b) => scores[b] - scores[a]);
+
+        return candidates[0] || 'unknown';
+    }
+
+    private describe(type: DocumentType, scores: Record<ClassifiedType, number>, signals: string[]): string {
+        if (type !== 'unknown') {
+            const fired = signals.filter(signal => signal.startsWith(`${type}.`)).map(signal => signal.slice(type.length + 1));
+            return `${type} (score ${scores[type]}): ${fired.join(', ')}`;
+        }
+
+        const [closest] = (Object.keys(scores) as ClassifiedType[]).sort((a, b) => scores[b] - scores[a]);
+        if (!closest || scores[closest] === 0) {
+            return 'no document signals found';
+        }
+        return `no class reached its minimum score; closest is ${closest} (score ${scores[closest]}, needs ${RULES[closest].minScore})`;
+    }
+}
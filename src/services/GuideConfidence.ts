@@ -0,0 +1,22 @@
+import { ShippingGuideData, GuideFieldName } from '../types';
+
+/**
+ * Returns the fields whose confidence is below the threshold.
+ * Guides without provenance (built by hand, e.g. /api/test-match) have no weak fields.
+ */
+export function getWeakFields(guideData: ShippingGuideData, threshold: number): GuideFieldName[] {
+    if (!guideData.fields) return [];
+    return (Object.keys(guideData.fields) as GuideFieldName[])
+        .filter(name => guideData.fields![name].confidence < threshold);
+}
+
+/**
+ * Whether a parsed guide is trustworthy enough to send without review:
+ * the tracking number and at least one way to identify the customer
+ * (phone or name) must reach the threshold.
+ */
+export function isConfidentEnoughToSend(guideData: ShippingGuideData, threshold: number): boolean {
+    const weak = getWeakFields(guideData, threshold);
+    if (weak.includes('trackingNumber')) return false;
+    return !(weak.includes('customerPhone') && weak.includes('customerName'));
+}
@@ -1,52 +1,84 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { ShippingGuideData } from '../types';
-import colombianCities from '../data/colombian-cities.json';
+import { ShippingGuideData, ExtractedField, GuideFieldName, DocumentClassification, DocumentType } from '../types';
+import { GuideExtractor, GenericGuideExtractor, createDefaultExtractors } from './extractors';
+import { BarcodeDecoder, DecodedBarcode } from './BarcodeDecoder';
+import { ImagePreprocessor, createPreprocessor } from './ImagePreprocessor';
+import { OcrWorkerPool, ocrWorkerPool } from './OcrWorkerPool';
+import { OcrCache, ocrCache } from './OcrCache';
+import { DocumentClassifier } from './DocumentClassifier';
+import { parseColombianAddress } from './AddressNormalizer';
+import { cityGazetteer } from './CityGazetteer';
+import { detectCarrierByTrackingNumber } from '../carriers/trackingPatterns';
+import { config } from '../config/config';
 
-export class WhatsAppChatDetectedError extends Error {
-    constructor() {
-        super('WHATSAPP_CHAT_DETECTED');
+/**
+ * The file is a document other than a carrier guide (receipt, invoice, ID...).
+ * Carries the classification and the parsed text so callers can route it.
+ */
+export class NonGuideDocumentError extends Error {
+    constructor(
+        public readonly classification: DocumentClassification,
+        public readonly text: string,
+        message: string = 'NON_GUIDE_DOCUMENT'
+    ) {
+        super(message);
+        this.name = 'NonGuideDocumentError';
+    }
+}
+
+export class WhatsAppChatDetectedError extends NonGuideDocumentError {
+    constructor(classification: DocumentClassification, text: string) {
+        super(classification, text, 'WHATSAPP_CHAT_DETECTED');
         this.name = 'WhatsAppChatDetectedError';
     }
 }
 
 export class GuideParser {
     private pdfParse: any = null;
-    private tesseract: any = null;
+    private readonly extractors: GuideExtractor[];
+    private readonly fallbackExtractor: GuideExtractor = new GenericGuideExtractor();
+    private readonly barcodeDecoder: BarcodeDecoder | null;
+    private readonly preprocessor: ImagePreprocessor;
+    private readonly ocrPool: OcrWorkerPool;
+    private readonly ocrCache: OcrCache | null;
+    private readonly classifier = new DocumentClassifier();
 
     /**
-     * Detects whether the OCR text comes from a WhatsApp chat screenshot,
-     * a carrier shipping guide, or an unknown image type.
+     * @param extractors - Carrier layout extractors, tried in order (defaults to all supported carriers)
+     * @param barcodeDecoder - Barcode/QR reader run before the text pass; null disables it
+     * @param preprocessor - Image cleanup run before OCR (defaults to the 'guide' source settings)
+     * @param ocrPool - Tesseract workers that run the OCR (defaults to the shared pool)
+     * @param cache - OCR results by file content; null disables it
      */
-    detectImageType(text: string): 'carrier_guide' | 'whatsapp_chat' | 'unknown' {
-        const lower = text.toLowerCase();
-
-        // Carrier patterns
-        const carrierPattern = /servientrega|coordinadora|inter\s*r[aá]pidisimo|env[ií]a|colvanes|\btcc\b|\b472\b/i; // 472 is a Colombian postal/courier carrier
-        const trackingPattern = /(?:gu[íi]a|tracking|numero|guia)\s*[:#]?\s*[A-Z0-9]{6,}|\b\d{10,15}\b|[A-Z]{2,3}\d{9,12}/;
-
-        const hasCarrier = carrierPattern.test(text);
-        const hasTracking = trackingPattern.test(text);
-
-        if (hasCarrier && hasTracking) {
-            return 'carrier_guide';
-        }
-
-        // WhatsApp chat patterns
-        const hasTimestamp = /\d{1,2}:\d{2}\s*[ap]\.?m\.?/i.test(text);
-        const hasChatWords = /buenos\s*d[íi]as|buenas\s*tardes|buenas\s*noches|por\s*supuesto|ok\s*gracias/i.test(lower);
-        const hasAddressIndicators = /\bbarrio\b|tel\.|cel\.|avenida|calle\b|carrera\b/i.test(text);
-        const hasWhatsAppHeader = /\+57\s*3\d{9}/.test(text);
-        const hasWhatsAppTicks = /✓✓|✓/.test(text);
-
-        const whatsappScore = [hasTimestamp, hasChatWords, hasAddressIndicators, hasWhatsAppHeader, hasWhatsAppTicks]
-            .filter(Boolean).length;
+    constructor(
+        extractors: GuideExtractor[] = createDefaultExtractors(),
+        barcodeDecoder: BarcodeDecoder | null = config.parser.barcodeDecoding ? new BarcodeDecoder() : null,
+        preprocessor: ImagePreprocessor = createPreprocessor('guide'),
+        ocrPool: OcrWorkerPool = ocrWorkerPool,
+        cache: OcrCache | null = config.ocr.cache.enabled ? ocrCache : null
+    ) {
+        this.extractors = extractors;
+        this.barcodeDecoder = barcodeDecoder;
+        this.preprocessor = preprocessor;
+        this.ocrPool = ocrPool;
+        this.ocrCache = cache;
+    }
 
-        if (whatsappScore >= 2 && !hasCarrier) {
-            return 'whatsapp_chat';
-        }
+    /**
+     * Detects what kind of document the text comes from: a carrier guide,
+     * a WhatsApp chat screenshot, a payment receipt, an invoice, an ID
+     * document, or an unknown type.
+     */
+    detectImageType(text: string): DocumentType {
+        return this.classify(text).type;
+    }
 
-        return 'unknown';
+    /**
+     * Classifies the text, with the signals that fired and a score per class
+     */
+    classify(text: string): DocumentClassification {
+        return this.classifier.classify(text);
     }
 
     /**
@@ -57,147 +89,279 @@ export class GuideParser {
     }
 
     async parse(filePath: string): Promise<ShippingGuideData | null> {
+        const guides = await this.parseAll(filePath);
+        return guides[0] || null;
+    }
+
+    /**
+     * Parses every guide in the file. A PDF may hold one guide per page or
+     * several guides on the same page; each PDF guide keeps its page number.
+     */
+    async parseAll(filePath: string): Promise<ShippingGuideData[]> {
         const ext = path.extname(filePath).toLowerCase();
-        let text: string;
 
         try {
             if (ext === '.pdf') {
-                text = await this.parsePDF(filePath);
+                const codes = this.barcodeDecoder ? await this.barcodeDecoder.decodePdfPages(filePath) : [];
+                const pages = await this.parsePDF(filePath);
+                return this.extractPages(pages, codes);
             } else if (['.png', '.jpg', '.jpeg', '.webp', '.bmp'].includes(ext)) {
-                text = await this.parseImage(filePath);
+                const codes = this.barcodeDecoder ? await this.barcodeDecoder.decodeImage(filePath) : [];
+                const guide = this.extractData(await this.parseImage(filePath), codes);
+                return guide ? [guide] : [];
             } else {
                 console.warn(`Unsupported file type: ${ext}`);
-                return null;
+                return [];
             }
-
-            return this.extractData(text);
         } catch (error) {
-            if (error instanceof WhatsAppChatDetectedError) {
+            if (error instanceof NonGuideDocumentError) {
                 throw error;
             }
             console.error(`Error parsing ${filePath}:`, error);
-            return null;
+            return [];
         }
     }
 
-    private async parsePDF(filePath: string): Promise<string> {
+    /**
+     * Returns the text of each page of the PDF
+     */
+    private async parsePDF(filePath: string): Promise<string[]> {
         if (!this.pdfParse) {
             this.pdfParse = (await import('pdf-parse')).default;
         }
         
         const buffer = fs.readFileSync(filePath);
-        const data = await this.pdfParse(buffer);
-        return data.text || '';
+        const pages: string[] = [];
+        const data = await this.pdfParse(buffer, {
+            pagerender: async (pageData: any) => {
+                const text = await renderPageText(pageData);
+                pages[pageData.pageIndex] = text;
+                return text;
+            }
+        });
+
+        // Without per-page output (e.g. the renderer was not called) the whole text is one page
+        return pages.length > 0 ? Array.from(pages, page => page || '') : [data.text || ''];
     }
 
     private async parseImage(filePath: string): Promise<string> {
-        if (!this.tesseract) {
-            const tesseractModule = await import('tesseract.js');
-            this.tesseract = tesseractModule.default || tesseractModule;
+        const recognize = async () => {
+            const image = await this.preprocessor.process(filePath);
+            return this.ocrPool.recognize(image, { source: 'guide', label: path.basename(filePath) });
+        };
+        // The text of an ID document (name, ID number, birth date) is never kept on disk
+        const result = this.ocrCache
+            ? await this.ocrCache.resolve(filePath, 'guide', recognize, ({ text }) => this.classify(text).type !== 'id_document')
+            : await recognize();
+        return result.text;
+    }
+
+    private extractData(text: string, codes: DecodedBarcode[] = []): ShippingGuideData | null {
+        const classification = this.rejectNonGuides(text);
+        const guide = this.buildGuide(text, codes);
+        if (!guide) {
+            console.warn(`No guide found (${classification.reason})`);
         }
+        return guide;
+    }
 
-        const result = await this.tesseract.recognize(filePath, 'spa', {
-            logger: (m: any) => {
-                if (m.status === 'recognizing text') {
-                    process.stdout.write(`\rOCR: ${Math.round(m.progress * 100)}%`);
-                }
+    /**
+     * @param codes - Barcodes decoded from each page, in page order
+     */
+    private extractPages(pages: string[], codes: DecodedBarcode[][] = []): ShippingGuideData[] {
+        // A chat or receipt exported to PDF is rejected as a whole
+        const classification = this.rejectNonGuides(pages.join('\n\n'));
+
+        const guides: ShippingGuideData[] = [];
+        pages.forEach((text, index) => {
+            for (const guide of this.splitPage(text, codes[index] || [])) {
+                guides.push({ ...guide, page: index + 1 });
             }
         });
-
-        console.log(''); // New line after progress
-        return result.data.text || '';
+        if (guides.length === 0) {
+            console.warn(`No guide found (${classification.reason})`);
+        }
+        return guides;
     }
 
-    private extractData(text: string): ShippingGuideData | null {
-        if (this.isWhatsAppChat(text)) {
-            throw new WhatsAppChatDetectedError();
+    /**
+     * Throws for documents recognised as something other than a guide.
+     * Carrier guides and unknown documents go on to field extraction.
+     */
+    private rejectNonGuides(text: string): DocumentClassification {
+        const classification = this.classify(text);
+        if (classification.type === 'whatsapp_chat') {
+            throw new WhatsAppChatDetectedError(classification, text);
         }
-
-        const data: Partial<ShippingGuideData> = { rawText: text };
-
-        // Carrier detection
-        const carriers: Record<string, RegExp> = {
-            'Servientrega': /servientrega/i,
-            'Coordinadora': /coordinadora/i,
-            'InterRapidisimo': /inter\s*r[aá]pidisimo/i,
-            'Envia': /env[ií]a|colvanes/i,
-            'TCC': /\btcc\b/i,
-            '472': /\b472\b/i
-        };
-
-        for (const [name, pattern] of Object.entries(carriers)) {
-            if (pattern.test(text)) {
-                data.carrier = name;
-                break;
-            }
+        if (classification.type !== 'carrier_guide' && classification.type !== 'unknown') {
+            throw new NonGuideDocumentError(classification, text);
         }
+        return classification;
+    }
 
-        // Tracking number patterns
-        const trackingPatterns = [
-            /(?:gu[íi]a|tracking|numero|guia)\s*[:#]?\s*([A-Z0-9]{8,20})/i,
-            /\b(\d{10,15})\b/,
-            /([A-Z]{2,3}\d{9,12})/
-        ];
+    /**
+     * Splits a page into guides at each repeated carrier header.
+     * Segments without their own tracking number (footers, duplicated branding)
+     * are merged into the previous guide; the split is only kept when it yields
+     * at least two different tracking numbers, so the sender and recipient
+     * copies of one guide printed on the same sheet stay a single guide.
+     * Field spans of split guides are relative to their own segment, and the
+     * page's barcodes can only confirm their tracking numbers, since it is not
+     * known which guide each barcode belongs to.
+     */
+    private splitPage(text: string, codes: DecodedBarcode[]): ShippingGuideData[] {
+        const whole = this.buildGuide(text, codes);
+        const starts = this.selectExtractor(text).locate(text).filter(start => start > 0);
+        if (starts.length === 0) {
+            return whole ? [whole] : [];
+        }
 
-        for (const pattern of trackingPatterns) {
-            const match = text.match(pattern);
-            if (match) {
-                data.trackingNumber = (match[1] || match[0]).trim();
-                break;
+        const bounds = [0, ...starts, text.length];
+        const segments: string[] = [];
+        let carry = '';
+        for (let i = 0; i < bounds.length - 1; i++) {
+            const segment = text.substring(bounds[i], bounds[i + 1]);
+            if (this.selectExtractor(segment).extract(segment).trackingNumber) {
+                segments.push(carry + segment);
+                carry = '';
+            } else if (segments.length > 0) {
+                segments[segments.length - 1] += segment;
+            } else {
+                carry += segment;
             }
         }
 
-        // Customer name
-        const namePatterns = [
-            /(?:destinatario|nombre|cliente|para)\s*[:#]?\s*([A-ZÁÉÍÓÚÑ][a-záéíóúñ]+(?:\s+[A-ZÁÉÍÓÚÑ][a-záéíóúñ]+){1,3})/i
-        ];
-
-        for (const pattern of namePatterns) {
-            const match = text.match(pattern);
-            if (match) {
-                data.customerName = match[1].trim();
-                break;
+        const guides: ShippingGuideData[] = [];
+        for (const segment of segments) {
+            const guide = this.buildGuide(segment, codes, true);
+            if (guide && !guides.some(g => g.trackingNumber === guide.trackingNumber)) {
+                guides.push(guide);
             }
         }
 
-        // Phone number (Colombian)
-        const phoneMatch = text.match(/(\+?57\s?)?([3][0-9]{2}[\s.-]?[0-9]{3}[\s.-]?[0-9]{4})/);
-        if (phoneMatch) {
-            data.customerPhone = '57' + phoneMatch[2].replace(/[\s.-]/g, '');
+        if (guides.length >= 2) {
+            return guides;
         }
+        return whole ? [whole] : [];
+    }
 
-        // Address
-        const addressMatch = text.match(/((?:calle|carrera|cra|cll|av|avenida|transversal|diagonal)\s*#?\s*\d+[^,\n]{0,50})/i);
-        if (addressMatch) {
-            data.shippingAddress = addressMatch[1].trim();
-        }
+    /**
+     * Picks the carrier's layout extractor, falling back to the generic one
+     */
+    private selectExtractor(text: string): GuideExtractor {
+        return this.extractors.find(e => e.detect(text)) || this.fallbackExtractor;
+    }
 
-        // City (Colombian cities) - with accent normalization
-        const normalizeText = (str: string) => str.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
-        const textNormalized = normalizeText(text);
-        for (const entry of colombianCities) {
-            const cityNormalized = normalizeText(entry.city);
-            if (textNormalized.includes(cityNormalized)) {
-                data.city = entry.city;
-                data.department = entry.department;
-                break;
-            }
+    private buildGuide(text: string, codes: DecodedBarcode[] = [], confirmOnly = false): ShippingGuideData | null {
+        const extractor = this.selectExtractor(text);
+        const extraction = extractor.extract(text);
+
+        const decoded = this.pickDecodedTracking(codes, extractor, extraction.trackingNumber?.value, confirmOnly);
+        if (decoded) {
+            extraction.trackingNumber = decoded;
         }
 
         // Validate minimum data
-        if (data.trackingNumber && (data.customerName || data.customerPhone)) {
+        if (extraction.trackingNumber && (extraction.customerName || extraction.customerPhone)) {
+            // Missing fields get their old defaults, but their provenance says so
+            const field = (name: GuideFieldName, fallback: string): ExtractedField =>
+                extraction[name] || { value: fallback, confidence: 0, rule: 'default', span: null };
+
+            const fields: Record<GuideFieldName, ExtractedField> = {
+                trackingNumber: field('trackingNumber', 'UNKNOWN'),
+                customerName: field('customerName', 'Unknown'),
+                customerPhone: field('customerPhone', ''),
+                shippingAddress: field('shippingAddress', ''),
+                city: field('city', ''),
+                department: field('department', ''),
+                carrier: field('carrier', 'Unknown')
+            };
+
             return {
-                trackingNumber: data.trackingNumber || 'UNKNOWN',
-                customerName: data.customerName || 'Unknown',
-                customerPhone: data.customerPhone,
-                shippingAddress: data.shippingAddress || '',
-                city: data.city || '',
-                department: data.department || '',
-                carrier: data.carrier || 'Unknown',
-                rawText: text.substring(0, 1000)
-            } as ShippingGuideData;
+                trackingNumber: fields.trackingNumber.value,
+                customerName: fields.customerName.value,
+                customerPhone: extraction.customerPhone?.value,
+                shippingAddress: fields.shippingAddress.value,
+                structuredAddress: parseColombianAddress(fields.shippingAddress.value) ?? undefined,
+                city: fields.city.value,
+                department: fields.department.value,
+                daneCode: fields.city.value ? cityGazetteer.lookup(fields.city.value, fields.department.value)?.code : undefined,
+                carrier: fields.carrier.value,
+                rawText: text.substring(0, 1000),
+                fields
+            };
         }
 
         return null;
     }
+
+    /**
+     * Picks the tracking number from the decoded barcodes. A decoded value wins
+     * over the OCR text once it is cross-checked against the carrier's
+     * TRACKING_PATTERNS: it must agree with the text, match the carrier's
+     * pattern, or (when it matches no pattern at all) fit the carrier's
+     * tracking format. Values matching another carrier's pattern are ignored.
+     * @param confirmOnly - Only accept a value that agrees with the text
+     */
+    private pickDecodedTracking(
+        codes: DecodedBarcode[],
+        extractor: GuideExtractor,
+        textValue: string | undefined,
+        confirmOnly: boolean
+    ): ExtractedField | undefined {
+        const candidates = codes.flatMap(code => trackingCandidates(code.text));
+        const isUnknownCarrier = extractor === this.fallbackExtractor;
+
+        const checks: Array<{ kind: string; confidence: number; accept: (value: string) => boolean }> = [
+            { kind: 'barcode+text', confidence: 0.99, accept: value => value === textValue?.toUpperCase() }
+        ];
+        if (!confirmOnly) {
+            checks.push(
+                {
+                    kind: 'barcode+pattern',
+                    confidence: 0.97,
+                    accept: value => {
+                        const carrierId = detectCarrierByTrackingNumber(value);
+                        return carrierId !== null && (isUnknownCarrier || carrierId === extractor.id);
+                    }
+                },
+                {
+                    kind: 'barcode+format',
+                    confidence: 0.9,
+                    accept: value => detectCarrierByTrackingNumber(value) === null && extractor.isTrackingFormat(value)
+                }
+            );
+        }
+
+        for (const check of checks) {
+            const value = candidates.find(check.accept);
+            if (value) {
+                return { value, confidence: check.confidence, rule: `${extractor.id}.trackingNumber.${check.kind}`, span: null };
+            }
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Tracking-number-like tokens in a decoded barcode. QR codes often hold a
+ * tracking URL or several lines rather than the bare number.
+ */
+function trackingCandidates(decoded: string): string[] {
+    return (decoded.toUpperCase().match(/[A-Z0-9]{8,20}/g) || []).filter(token => /\d/.test(token));
+}
+
+/**
+ * Same text layout as pdf-parse's default page renderer: items on the same
+ * baseline are joined, a change of baseline starts a new line.
+ */
+async function renderPageText(pageData: any): Promise<string> {
+    const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+        text += lastY === undefined || lastY === item.transform[5] ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+    }
+    return text;
 }
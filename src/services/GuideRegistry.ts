@@ -0,0 +1,105 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProcessedGuideRecord } from '../types';
+
+interface ProcessedFileRecord {
+    trackingNumbers: string[];
+    processedAt: string;
+}
+
+interface RegistryData {
+    guides: Record<string, ProcessedGuideRecord>;
+    files: Record<string, ProcessedFileRecord>;
+}
+
+/**
+ * SHA-256 of a file's bytes
+ */
+export function hashFile(filePath: string): string {
+    return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Persistent record of the guides already sent to customers, by tracking
+ * number, and of the files whose guides were all sent, by content hash.
+ * Kept in a JSON file so duplicates are caught across restarts and between
+ * the folder watcher and manual uploads.
+ */
+export class GuideRegistry {
+    private data: RegistryData;
+    /** Tracking numbers a job is sending right now, not yet recorded */
+    private readonly sending = new Set<string>();
+
+    constructor(private readonly filePath: string) {
+        this.data = this.load();
+    }
+
+    /**
+     * The earlier delivery of this tracking number, if any
+     */
+    findGuide(trackingNumber: string): ProcessedGuideRecord | null {
+        return this.data.guides[trackingNumber.toUpperCase()] || null;
+    }
+
+    /**
+     * The earlier delivery of a guide from a file with this hash, when every
+     * guide in that file was sent
+     */
+    findFile(fileHash: string): ProcessedGuideRecord | null {
+        const file = this.data.files[fileHash];
+        if (!file) return null;
+        return file.trackingNumbers.map(tracking => this.findGuide(tracking)).find(Boolean) || null;
+    }
+
+    /**
+     * Claims a tracking number for sending, so two jobs carrying the same
+     * guide do not both send it. Returns false while another job holds it;
+     * the holder records the guide (if sent) and then releases it.
+     */
+    claimGuide(trackingNumber: string): boolean {
+        const key = trackingNumber.toUpperCase();
+        if (this.sending.has(key)) return false;
+        this.sending.add(key);
+        return true;
+    }
+
+    releaseGuide(trackingNumber: string): void {
+        this.sending.delete(trackingNumber.toUpperCase());
+    }
+
+    recordGuide(record: ProcessedGuideRecord): void {
+        this.data.guides[record.trackingNumber.toUpperCase()] = record;
+        this.save();
+    }
+
+    /**
+     * Marks a file as fully processed, so re-dropping it is skipped before parsing
+     */
+    recordFile(fileHash: string, trackingNumbers: string[]): void {
+        this.data.files[fileHash] = { trackingNumbers, processedAt: new Date().toISOString() };
+        this.save();
+    }
+
+    private load(): RegistryData {
+        try {
+            const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            return { guides: data.guides || {}, files: data.files || {} };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`⚠️ Could not read guide registry ${this.filePath}, starting empty:`, (error as Error).message);
+            }
+            return { guides: {}, files: {} };
+        }
+    }
+
+    /**
+     * Writes through a temp file so a crash mid-write cannot corrupt the registry
+     */
+    private save(): void {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify(this.data, null, 2));
+        fs.renameSync(tmpPath, this.filePath);
+    }
+}
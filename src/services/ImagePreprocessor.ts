@@ -0,0 +1,370 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config/config';
+
+/**
+ * A preprocessing step, applied in this order whatever order it is configured in
+ */
+export type PreprocessStep = 'autorotate' | 'grayscale' | 'deskew' | 'upscale' | 'threshold';
+
+export const PREPROCESS_STEPS: PreprocessStep[] = ['autorotate', 'grayscale', 'deskew', 'upscale', 'threshold'];
+
+export interface PreprocessOptions {
+    steps: PreprocessStep[];
+    /**
+     * Images narrower than this are upscaled (at most 4x) by the upscale step
+     */
+    minWidth: number;
+    /**
+     * When set, every intermediate image is saved here for debugging
+     */
+    debugDir?: string;
+}
+
+/**
+ * Ink mask of a downscaled copy of the image, used to measure orientation and skew
+ */
+interface InkMask {
+    ink: Uint8Array;
+    width: number;
+    height: number;
+}
+
+const ANALYSIS_SIZE = 800;
+const MAX_SKEW_DEGREES = 10;
+const MAX_UPSCALE = 4;
+
+/**
+ * Cleans up phone photos of guides before OCR: turns sideways or upside-down
+ * photos upright, converts to grayscale, straightens skewed text, upscales
+ * small images and binarizes with an adaptive threshold so uneven lighting
+ * does not wash out parts of the page.
+ */
+export class ImagePreprocessor {
+    private jimp: any = null;
+
+    constructor(private readonly options: PreprocessOptions) {}
+
+    /**
+     * Returns the preprocessed image as a PNG buffer, ready for Tesseract.
+     * With no steps configured, or when the image cannot be read, the original
+     * path is returned so OCR still runs on the untouched file.
+     */
+    async process(imagePath: string): Promise<string | Buffer> {
+        const steps = PREPROCESS_STEPS.filter(step => this.options.steps.includes(step));
+        if (steps.length === 0) {
+            return imagePath;
+        }
+
+        let image: any;
+        try {
+            if (!this.jimp) {
+                const jimpModule: any = await import('jimp');
+                this.jimp = jimpModule.default || jimpModule;
+            }
+            image = await this.jimp.read(imagePath);
+        } catch (error) {
+            console.warn(`Image preprocessing skipped for ${imagePath}:`, (error as Error).message);
+            return imagePath;
+        }
+
+        // Unfiltered PNG rows encode far faster, and the output is only read once by Tesseract
+        image.background(0xffffffff).filterType(this.jimp.PNG_FILTER_NONE);
+        await this.saveDebug(image, imagePath, 0, 'original');
+
+        for (const [index, step] of steps.entries()) {
+            this.apply(step, image);
+            await this.saveDebug(image, imagePath, index + 1, step);
+        }
+
+        return image.getBufferAsync(this.jimp.MIME_PNG);
+    }
+
+    private apply(step: PreprocessStep, image: any): void {
+        switch (step) {
+            case 'autorotate': {
+                const degrees = detectOrientation(this.inkMask(image));
+                if (degrees !== 0) image.rotate(degrees);
+                break;
+            }
+            case 'grayscale':
+                image.greyscale();
+                break;
+            case 'deskew': {
+                const angle = detectSkew(this.inkMask(image));
+                if (Math.abs(angle) >= 0.5) image.rotate(angle);
+                break;
+            }
+            case 'upscale':
+                if (image.bitmap.width < this.options.minWidth) {
+                    const factor = Math.min(MAX_UPSCALE, this.options.minWidth / image.bitmap.width);
+                    image.scale(factor, this.jimp.RESIZE_BICUBIC);
+                }
+                break;
+            case 'threshold':
+                adaptiveThreshold(image.bitmap);
+                break;
+        }
+    }
+
+    private inkMask(image: any): InkMask {
+        const copy = image.clone();
+        if (copy.bitmap.width > ANALYSIS_SIZE || copy.bitmap.height > ANALYSIS_SIZE) {
+            copy.scaleToFit(ANALYSIS_SIZE, ANALYSIS_SIZE);
+        }
+        const { width, height } = copy.bitmap;
+        const luminance = toLuminance(copy.bitmap);
+        const level = otsuLevel(luminance);
+        const ink = new Uint8Array(width * height);
+        for (let i = 0; i < ink.length; i++) {
+            ink[i] = luminance[i] < level ? 1 : 0;
+        }
+        return { ink, width, height };
+    }
+
+    private async saveDebug(image: any, imagePath: string, index: number, label: string): Promise<void> {
+        if (!this.options.debugDir) return;
+        if (!fs.existsSync(this.options.debugDir)) {
+            fs.mkdirSync(this.options.debugDir, { recursive: true });
+        }
+        const base = path.basename(imagePath, path.extname(imagePath));
+        await image.writeAsync(path.join(this.options.debugDir, `${base}-${index}-${label}.png`));
+    }
+}
+
+/**
+ * Builds the preprocessor configured for an OCR source
+ */
+export function createPreprocessor(source: keyof typeof config.ocr.preprocessing): ImagePreprocessor {
+    return new ImagePreprocessor({
+        steps: parsePreprocessSteps(config.ocr.preprocessing[source]),
+        minWidth: config.ocr.minWidth,
+        debugDir: config.ocr.debugDir ? path.join(config.ocr.debugDir, source) : undefined
+    });
+}
+
+/**
+ * Parses a comma-separated step list from configuration ('none' disables preprocessing)
+ */
+export function parsePreprocessSteps(value: string): PreprocessStep[] {
+    return value
+        .split(',')
+        .map(step => step.trim().toLowerCase())
+        .filter((step): step is PreprocessStep => (PREPROCESS_STEPS as string[]).includes(step));
+}
+
+/**
+ * Counter-clockwise rotation (0, 90, 180 or 270) that makes the text upright.
+ * Horizontal text lines give a much spikier row profile than column profile;
+ * upside-down text is told apart by Latin script having more ascenders than
+ * descenders, so more ink sits above each line's x-height band than below it.
+ */
+export function detectOrientation(mask: InkMask): number {
+    // Compare both orientations with their lines levelled, so skew does not hide the text lines
+    const upright = levelled(mask);
+    const turned = levelled(rotateMask90(mask));
+
+    let rotation = 0;
+    let current = upright;
+    if (turned.score > upright.score * 1.5) {
+        rotation = 90;
+        current = turned;
+    }
+    if (isUpsideDown(current.mask)) {
+        rotation += 180;
+    }
+    return rotation % 360;
+}
+
+/**
+ * Skew angle in degrees (counter-clockwise rotation that straightens the text),
+ * found by shearing the ink rows and keeping the angle whose row profile is spikiest
+ */
+export function detectSkew(mask: InkMask): number {
+    const score = (degrees: number) => {
+        const sheared = shearMask(mask, degrees);
+        const rows = new Float64Array(sheared.height);
+        for (let i = 0; i < sheared.ink.length; i++) {
+            if (sheared.ink[i]) rows[Math.floor(i / sheared.width)]++;
+        }
+        return variance(rows);
+    };
+
+    let best = 0;
+    let bestScore = score(0);
+    for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += 1) {
+        const s = score(degrees);
+        if (s > bestScore) {
+            best = degrees;
+            bestScore = s;
+        }
+    }
+    for (let degrees = best - 0.75; degrees <= best + 0.75; degrees += 0.25) {
+        const s = score(degrees);
+        if (s > bestScore) {
+            best = degrees;
+            bestScore = s;
+        }
+    }
+    return best;
+}
+
+/**
+ * Bradley-Roth adaptive threshold: a pixel becomes black when it is darker
+ * than the mean of its neighbourhood by more than 15%
+ */
+function adaptiveThreshold(bitmap: { data: Buffer; width: number; height: number }): void {
+    const { width, height, data } = bitmap;
+    const luminance = toLuminance(bitmap);
+    const radius = Math.max(7, Math.round(width / 32));
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += luminance[y * width + x];
+            integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+        }
+    }
+
+    for (let y = 0; y < height; y++) {
+        const y1 = Math.max(0, y - radius);
+        const y2 = Math.min(height, y + radius + 1);
+        for (let x = 0; x < width; x++) {
+            const x1 = Math.max(0, x - radius);
+            const x2 = Math.min(width, x + radius + 1);
+            const sum = integral[y2 * (width + 1) + x2] - integral[y1 * (width + 1) + x2]
+                - integral[y2 * (width + 1) + x1] + integral[y1 * (width + 1) + x1];
+            const mean = sum / ((x2 - x1) * (y2 - y1));
+            const value = luminance[y * width + x] < mean * 0.85 ? 0 : 255;
+            const i = (y * width + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = value;
+            data[i + 3] = 255;
+        }
+    }
+}
+
+/**
+ * Per-pixel luminance, with transparent pixels composited onto white
+ */
+function toLuminance(bitmap: { data: Buffer; width: number; height: number }): Uint8Array {
+    const { data, width, height } = bitmap;
+    const luminance = new Uint8Array(width * height);
+    for (let i = 0; i < luminance.length; i++) {
+        const gray = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+        const alpha = data[i * 4 + 3] / 255;
+        luminance[i] = Math.round(gray * alpha + 255 * (1 - alpha));
+    }
+    return luminance;
+}
+
+function otsuLevel(luminance: Uint8Array): number {
+    const histogram = new Array(256).fill(0);
+    for (const value of luminance) histogram[value]++;
+
+    const total = luminance.length;
+    let sum = 0;
+    for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+    let sumBackground = 0;
+    let weightBackground = 0;
+    let best = 0;
+    let level = 128;
+    for (let i = 0; i < 256; i++) {
+        weightBackground += histogram[i];
+        if (weightBackground === 0) continue;
+        const weightForeground = total - weightBackground;
+        if (weightForeground === 0) break;
+        sumBackground += i * histogram[i];
+        const meanBackground = sumBackground / weightBackground;
+        const meanForeground = (sum - sumBackground) / weightForeground;
+        const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+        if (between > best) {
+            best = between;
+            level = i + 1;
+        }
+    }
+    return level;
+}
+
+/**
+ * Deskews the mask and scores how clearly it shows horizontal text lines
+ */
+function levelled(mask: InkMask): { mask: InkMask; score: number } {
+    const sheared = shearMask(mask, detectSkew(mask));
+    const rows = new Float64Array(sheared.height);
+    for (let i = 0; i < sheared.ink.length; i++) {
+        if (sheared.ink[i]) rows[Math.floor(i / sheared.width)]++;
+    }
+    // Normalise by the row length so wide and tall images compare fairly
+    return { mask: sheared, score: variance(rows.map(count => count / sheared.width)) };
+}
+
+function isUpsideDown(mask: InkMask): boolean {
+    const rows = new Float64Array(mask.height);
+    for (let y = 0; y < mask.height; y++) {
+        for (let x = 0; x < mask.width; x++) rows[y] += mask.ink[y * mask.width + x];
+    }
+
+    // Text lines are runs of rows holding some ink
+    const minInk = mask.width * 0.01;
+    let above = 0;
+    let below = 0;
+    let lines = 0;
+    for (let y = 0; y < mask.height;) {
+        if (rows[y] <= minInk) { y++; continue; }
+        const start = y;
+        while (y < mask.height && rows[y] > minInk) y++;
+        const end = y;
+        if (end - start < 6) continue;
+
+        // The x-height band is where the line's ink is densest
+        const peak = Math.max(...rows.slice(start, end));
+        let coreStart = start;
+        while (rows[coreStart] < peak * 0.5) coreStart++;
+        let coreEnd = end - 1;
+        while (rows[coreEnd] < peak * 0.5) coreEnd--;
+
+        for (let r = start; r < coreStart; r++) above += rows[r];
+        for (let r = coreEnd + 1; r < end; r++) below += rows[r];
+        lines++;
+    }
+    return lines >= 3 && below > above * 1.25;
+}
+
+/**
+ * Shifts each column vertically so text skewed by the given angle lies level
+ */
+function shearMask(mask: InkMask, degrees: number): InkMask {
+    const slope = Math.tan(degrees * Math.PI / 180);
+    const offset = Math.ceil(Math.abs(slope) * mask.width);
+    const height = mask.height + 2 * offset;
+    const ink = new Uint8Array(mask.width * height);
+    for (let y = 0; y < mask.height; y++) {
+        for (let x = 0; x < mask.width; x++) {
+            if (mask.ink[y * mask.width + x]) {
+                ink[(Math.round(y - x * slope) + offset) * mask.width + x] = 1;
+            }
+        }
+    }
+    return { ink, width: mask.width, height };
+}
+
+function rotateMask90(mask: InkMask): InkMask {
+    // Counter-clockwise, matching Jimp's rotate(90)
+    const ink = new Uint8Array(mask.ink.length);
+    for (let y = 0; y < mask.height; y++) {
+        for (let x = 0; x < mask.width; x++) {
+            ink[(mask.width - 1 - x) * mask.height + y] = mask.ink[y * mask.width + x];
+        }
+    }
+    return { ink, width: mask.height, height: mask.width };
+}
+
+function variance(values: ArrayLike<number>): number {
+    let mean = 0;
+    for (let i = 0; i < values.length; i++) mean += values[i];
+    mean /= values.length || 1;
+    let total = 0;
+    for (let i = 0; i < values.length; i++) total += (values[i] - mean) ** 2;
+    return total / (values.length || 1);
+}
@@ -0,0 +1,192 @@
+import { config } from '../config/config';
+import { GuideJob, GuideJobOptions, GuideJobState } from '../types';
+import { JobStore } from './JobStore';
+
+export interface JobQueueOptions {
+    concurrency: number;
+    maxAttempts: number;
+    retryBackoffMs: number;
+    pollIntervalMs: number;
+}
+
+/**
+ * Records the step a running job is in; jobs start in 'parsing'
+ */
+export type JobStateSetter = (state: Extract<GuideJobState, 'matching' | 'sending'>) => Promise<void>;
+
+/**
+ * Processes a job's file; whatever is returned is kept as the job's result.
+ * Throwing retries the job with backoff until it runs out of attempts.
+ */
+export type JobHandler = (job: GuideJob, setState: JobStateSetter) => Promise<unknown>;
+
+interface Waiter {
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Persistent queue of guide files to process, fed by the folder watcher and
+ * `/api/process-guide`. Runs up to `concurrency` jobs at a time, retries
+ * failed ones after an exponential backoff, and on start queues again the
+ * jobs a crash or restart left running.
+ */
+export class JobQueue {
+    private readonly handlers = new Map<GuideJob['source'], JobHandler>();
+    private readonly running = new Set<number>();
+    private readonly waiters = new Map<number, Waiter[]>();
+    private timer: NodeJS.Timeout | null = null;
+    private started = false;
+    private recovered = false;
+    private filling = false;
+    private fillAgain = false;
+
+    constructor(
+        private readonly store: JobStore,
+        private readonly options: JobQueueOptions = config.jobs
+    ) {}
+
+    /**
+     * Sets how jobs from a source are processed
+     */
+    register(source: GuideJob['source'], handler: JobHandler): void {
+        this.handlers.set(source, handler);
+    }
+
+    /**
+     * Starts running jobs. Recovery is retried on every poll until the store
+     * is reachable, so the queue can start before the database.
+     */
+    start(): void {
+        if (this.started) return;
+        this.started = true;
+        void this.poll();
+    }
+
+    stop(): void {
+        this.started = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Queues a file, unless it already has a queued or running job, which is
+     * returned instead
+     */
+    async enqueue(source: GuideJob['source'], filePath: string, options: GuideJobOptions = {}): Promise<GuideJob> {
+        const active = await this.store.findActive(filePath);
+        if (active) return active;
+
+        const job = await this.store.insert({ source, filePath, options, maxAttempts: this.options.maxAttempts });
+        // Deferred so the caller can waitFor() the job before it can finish
+        setImmediate(() => void this.fill());
+        return job;
+    }
+
+    /**
+     * Resolves with the job's result once it is done, or rejects with its
+     * last error once it failed. Only jobs run by this process settle.
+     */
+    waitFor(id: number): Promise<unknown> {
+        return new Promise((resolve, reject) => {
+            this.waiters.set(id, [...(this.waiters.get(id) || []), { resolve, reject }]);
+        });
+    }
+
+    private async poll(): Promise<void> {
+        if (!this.started) return;
+        if (!this.recovered) {
+            try {
+                await this.store.init();
+                const requeued = await this.store.requeueRunning();
+                this.recovered = true;
+                if (requeued > 0) {
+                    console.log(`🔁 Re-queued ${requeued} guide job(s) interrupted by a restart`);
+                }
+            } catch (error) {
+                console.error('⚠️ Job queue not ready:', (error as Error).message);
+            }
+        }
+        await this.fill();
+        if (this.started) {
+            this.timer = setTimeout(() => void this.poll(), this.options.pollIntervalMs);
+            this.timer.unref();
+        }
+    }
+
+    /**
+     * Claims due jobs until every worker slot is busy
+     */
+    private async fill(): Promise<void> {
+        if (!this.started || !this.recovered) return;
+        if (this.filling) {
+            this.fillAgain = true;
+            return;
+        }
+        this.filling = true;
+        try {
+            do {
+                this.fillAgain = false;
+                const free = this.options.concurrency - this.running.size;
+                if (free <= 0) break;
+                const due = await this.store.findDue(new Date(), free);
+                for (const job of due) {
+                    if (this.running.size >= this.options.concurrency) break;
+                    if (!this.handlers.has(job.source) || !(await this.store.claim(job.id))) continue;
+                    this.running.add(job.id);
+                    void this.execute({ ...job, state: 'parsing', attempts: job.attempts + 1 });
+                }
+            } while (this.fillAgain);
+        } catch (error) {
+            console.error('⚠️ Error reading the job queue:', (error as Error).message);
+        } finally {
+            this.filling = false;
+        }
+    }
+
+    private async execute(job: GuideJob): Promise<void> {
+        const handler = this.handlers.get(job.source)!;
+        try {
+            let result: unknown;
+            try {
+                result = await handler(job, state => this.store.update(job.id, { state }));
+            } catch (error) {
+                await this.fail(job, error as Error);
+                return;
+            }
+            try {
+                await this.store.update(job.id, { state: 'done', result, lastError: null });
+            } catch (storeError) {
+                console.error(`❌ Could not record the completion of guide job ${job.id}:`, (storeError as Error).message);
+            }
+            this.settle(job.id, waiter => waiter.resolve(result));
+        } finally {
+            this.running.delete(job.id);
+            void this.fill();
+        }
+    }
+
+    private async fail(job: GuideJob, error: Error): Promise<void> {
+        try {
+            if (job.attempts < job.maxAttempts) {
+                const delay = this.options.retryBackoffMs * 2 ** (job.attempts - 1);
+                console.warn(`⚠️ Guide job ${job.id} (${job.filePath}) failed on attempt ${job.attempts}/${job.maxAttempts}, retrying in ${delay}ms:`, error.message);
+                await this.store.update(job.id, { state: 'queued', lastError: error.message, runAfter: new Date(Date.now() + delay) });
+                return;
+            }
+            console.error(`❌ Guide job ${job.id} (${job.filePath}) failed after ${job.attempts} attempt(s):`, error.message);
+            await this.store.update(job.id, { state: 'failed', lastError: error.message });
+        } catch (storeError) {
+            // The job stays running in the store and runs again after a restart
+            console.error(`❌ Could not record the failure of guide job ${job.id}:`, (storeError as Error).message);
+        }
+        this.settle(job.id, waiter => waiter.reject(error));
+    }
+
+    private settle(id: number, notify: (waiter: Waiter) => void): void {
+        (this.waiters.get(id) || []).forEach(notify);
+        this.waiters.delete(id);
+    }
+}
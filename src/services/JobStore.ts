@@ -0,0 +1,243 @@
+import mysql from 'mysql2/promise';
+import { GuideJob, GuideJobOptions, GuideJobState } from '../types';
+
+export type NewGuideJob = Pick<GuideJob, 'source' | 'filePath' | 'options' | 'maxAttempts'>;
+
+export type GuideJobChanges = Partial<Pick<GuideJob, 'state' | 'lastError' | 'result' | 'runAfter'>>;
+
+/**
+ * Persistence of the guide job queue
+ */
+export interface JobStore {
+    /** Checks the storage is ready */
+    init(): Promise<void>;
+    insert(job: NewGuideJob): Promise<GuideJob>;
+    get(id: number): Promise<GuideJob | null>;
+    /** The queued or running job of a file, if any */
+    findActive(filePath: string): Promise<GuideJob | null>;
+    /** Queued jobs whose runAfter has passed, oldest first */
+    findDue(now: Date, limit: number): Promise<GuideJob[]>;
+    /**
+     * Moves a queued job to 'parsing' and counts the attempt; false when
+     * another run claimed it first
+     */
+    claim(id: number): Promise<boolean>;
+    update(id: number, changes: GuideJobChanges): Promise<void>;
+    /**
+     * Queues again the jobs left running by a crash or restart; those out of
+     * attempts (e.g. a file that crashes the process) fail instead.
+     * Returns how many jobs were queued again.
+     */
+    requeueRunning(): Promise<number>;
+}
+
+const RUNNING_STATES: GuideJobState[] = ['parsing', 'matching', 'sending'];
+
+const INTERRUPTED = 'Interrupted by a restart';
+
+const COLUMNS: Record<keyof GuideJobChanges, string> = {
+    state: 'state',
+    lastError: 'last_error',
+    result: 'result',
+    runAfter: 'run_after'
+};
+
+function toJob(row: any): GuideJob {
+    return {
+        id: row.id,
+        source: row.source,
+        filePath: row.file_path,
+        options: row.options ? JSON.parse(row.options) as GuideJobOptions : {},
+        state: row.state,
+        attempts: row.attempts,
+        maxAttempts: row.max_attempts,
+        lastError: row.last_error,
+        result: row.result ? JSON.parse(row.result) : null,
+        runAfter: new Date(row.run_after),
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+    };
+}
+
+/**
+ * Guide jobs kept in the `guide_jobs` table, so queued and interrupted work
+ * survives crashes and restarts
+ */
+export class MySqlJobStore implements JobStore {
+    private pool: mysql.Pool;
+
+    constructor(dbConfig: any) {
+        this.pool = mysql.createPool({
+            host: dbConfig.host,
+            port: dbConfig.port,
+            user: dbConfig.user,
+            password: dbConfig.password,
+            database: dbConfig.database,
+            waitForConnections: true,
+            connectionLimit: 5
+        });
+    }
+
+    /**
+     * The table is created by its migration; until it is applied the queue
+     * reports itself not ready and tries again
+     */
+    async init(): Promise<void> {
+        await this.pool.execute('SELECT 1 FROM guide_jobs LIMIT 1');
+    }
+
+    async insert(job: NewGuideJob): Promise<GuideJob> {
+        const now = new Date();
+        const [result] = await this.pool.execute(`
+            INSERT INTO guide_jobs (source, file_path, options, state, attempts, max_attempts, run_after, created_at, updated_at)
+            VALUES (?, ?, ?, 'queued', 0, ?, ?, ?, ?)
+        `, [job.source, job.filePath, JSON.stringify(job.options), job.maxAttempts, now, now, now]) as any;
+
+        return {
+            ...job,
+            id: result.insertId,
+            state: 'queued',
+            attempts: 0,
+            lastError: null,
+            result: null,
+            runAfter: now,
+            createdAt: now,
+            updatedAt: now
+        };
+    }
+
+    async get(id: number): Promise<GuideJob | null> {
+        const [rows] = await this.pool.execute('SELECT * FROM guide_jobs WHERE id = ?', [id]) as any;
+        return rows.length > 0 ? toJob(rows[0]) : null;
+    }
+
+    async findActive(filePath: string): Promise<GuideJob | null> {
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM guide_jobs
+            WHERE file_path = ? AND state NOT IN ('done', 'failed')
+            ORDER BY id DESC
+            LIMIT 1
+        `, [filePath]) as any;
+        return rows.length > 0 ? toJob(rows[0]) : null;
+    }
+
+    async findDue(now: Date, limit: number): Promise<GuideJob[]> {
+        // LIMIT is not a placeholder: prepared statements reject numeric LIMIT parameters on some servers
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM guide_jobs
+            WHERE state = 'queued' AND run_after <= ?
+            ORDER BY id
+            LIMIT ${Math.max(1, Math.floor(limit))}
+        `, [now]) as any;
+        return rows.map(toJob);
+    }
+
+    async claim(id: number): Promise<boolean> {
+        const [result] = await this.pool.execute(`
+            UPDATE guide_jobs
+            SET state = 'parsing', attempts = attempts + 1, updated_at = ?
+            WHERE id = ? AND state = 'queued'
+        `, [new Date(), id]) as any;
+        return result.affectedRows > 0;
+    }
+
+    async update(id: number, changes: GuideJobChanges): Promise<void> {
+        const keys = (Object.keys(changes) as Array<keyof GuideJobChanges>).filter(key => changes[key] !== undefined);
+        const values: any[] = keys.map(key => key === 'result' ? JSON.stringify(changes.result) : changes[key]);
+        const assignments = keys.map(key => `${COLUMNS[key]} = ?`);
+
+        await this.pool.execute(
+            `UPDATE guide_jobs SET ${[...assignments, 'updated_at = ?'].join(', ')} WHERE id = ?`,
+            [...values, new Date(), id]
+        );
+    }
+
+    async requeueRunning(): Promise<number> {
+        const running = RUNNING_STATES.map(() => '?').join(', ');
+        await this.pool.execute(`
+            UPDATE guide_jobs
+            SET state = 'failed', last_error = ?, updated_at = ?
+            WHERE state IN (${running}) AND attempts >= max_attempts
+        `, [INTERRUPTED, new Date(), ...RUNNING_STATES]);
+        const [result] = await this.pool.execute(`
+            UPDATE guide_jobs
+            SET state = 'queued', last_error = ?, updated_at = ?
+            WHERE state IN (${running})
+        `, [INTERRUPTED, new Date(), ...RUNNING_STATES]) as any;
+        return result.affectedRows;
+    }
+}
+
+/**
+ * Guide jobs kept in memory, for running without MySQL; they do not survive
+ * a restart
+ */
+export class InMemoryJobStore implements JobStore {
+    readonly jobs: GuideJob[] = [];
+
+    async init(): Promise<void> {}
+
+    async insert(job: NewGuideJob): Promise<GuideJob> {
+        const now = new Date();
+        const stored: GuideJob = {
+            ...job,
+            id: this.jobs.length + 1,
+            state: 'queued',
+            attempts: 0,
+            lastError: null,
+            result: null,
+            runAfter: now,
+            createdAt: now,
+            updatedAt: now
+        };
+        this.jobs.push(stored);
+        return { ...stored };
+    }
+
+    async get(id: number): Promise<GuideJob | null> {
+        const job = this.jobs.find(j => j.id === id);
+        return job ? { ...job } : null;
+    }
+
+    async findActive(filePath: string): Promise<GuideJob | null> {
+        const job = [...this.jobs].reverse().find(j => j.filePath === filePath && j.state !== 'done' && j.state !== 'failed');
+        return job ? { ...job } : null;
+    }
+
+    async findDue(now: Date, limit: number): Promise<GuideJob[]> {
+        return this.jobs
+            .filter(j => j.state === 'queued' && j.runAfter <= now)
+            .slice(0, limit)
+            .map(j => ({ ...j }));
+    }
+
+    async claim(id: number): Promise<boolean> {
+        const job = this.jobs.find(j => j.id === id);
+        if (!job || job.state !== 'queued') return false;
+        job.attempts++;
+        this.setState(job, 'parsing');
+        return true;
+    }
+
+    async update(id: number, changes: GuideJobChanges): Promise<void> {
+        const job = this.jobs.find(j => j.id === id);
+        if (!job) return;
+        const { state, ...rest } = changes;
+        Object.assign(job, Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined)), { updatedAt: new Date() });
+        if (state) this.setState(job, state);
+    }
+
+    async requeueRunning(): Promise<number> {
+        const running = this.jobs.filter(j => RUNNING_STATES.includes(j.state));
+        running.forEach(job => {
+            job.lastError = INTERRUPTED;
+            this.setState(job, job.attempts >= job.maxAttempts ? 'failed' : 'queued');
+        });
+        return running.filter(job => job.state === 'queued').length;
+    }
+
+    protected setState(job: GuideJob, state: GuideJobState): void {
+        job.state = state;
+        job.updatedAt = new Date();
+    }
+}
@@ -0,0 +1,351 @@
+/**
+ * Label Generator
+ * Renders shipping labels of stored shipments as PDF: carrier header, sender
+ * and recipient blocks, the cash-on-delivery amount, a Code128 barcode of the
+ * tracking number and a QR code with its tracking URL. Labels are 4x6 in
+ * (thermal printers) or A4 (office printers), one per page, so many shipments
+ * can be printed from a single PDF.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import bwipjs from 'bwip-js';
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { config } from '../config/config';
+import { createSimulatedCarriers } from '../carriers/createCarriers';
+import { Shipment } from '../types';
+
+export type LabelSize = '4x6' | 'a4';
+
+export const LABEL_SIZES: LabelSize[] = ['4x6', 'a4'];
+
+/**
+ * Who the shipments are sent by, printed in the sender block
+ */
+export interface LabelSender {
+    name: string;
+    phone: string;
+    address: string;
+    city: string;
+}
+
+export interface LabelGeneratorOptions {
+    sender: LabelSender;
+    /** URL of a shipment's tracking, with a {trackingNumber} placeholder */
+    trackingUrl: string;
+    /** Folder the carriers' logo paths are relative to */
+    publicDir?: string;
+}
+
+// Page sizes in points; labels are laid out on a 4x6 in grid and scaled to fit A4
+const PAGE_SIZES: Record<LabelSize, [number, number]> = {
+    '4x6': [288, 432],
+    a4: [595.28, 841.89]
+};
+const LABEL_WIDTH = 288;
+const LABEL_HEIGHT = 432;
+const A4_MARGIN = 36;
+const MARGIN = 12;
+
+const BLACK = rgb(0, 0, 0);
+const WHITE = rgb(1, 1, 1);
+
+/**
+ * A label drawn on a page: positions are in 4x6 points from the label's top
+ * left corner, scaled and placed on the page
+ */
+interface Canvas {
+    page: PDFPage;
+    font: PDFFont;
+    bold: PDFFont;
+    left: number;
+    top: number;
+    scale: number;
+}
+
+/**
+ * Text the standard PDF fonts can encode (WinAnsi); other characters become '?'
+ */
+function printable(text: string): string {
+    return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function drawText(canvas: Canvas, text: string, x: number, y: number, size: number, bold = false, color = BLACK): void {
+    canvas.page.drawText(printable(text), {
+        x: canvas.left + x * canvas.scale,
+        y: canvas.top - (y + size) * canvas.scale,
+        size: size * canvas.scale,
+        font: bold ? canvas.bold : canvas.font,
+        color
+    });
+}
+
+function drawLine(canvas: Canvas, y: number): void {
+    canvas.page.drawLine({
+        start: { x: canvas.left + MARGIN * canvas.scale, y: canvas.top - y * canvas.scale },
+        end: { x: canvas.left + (LABEL_WIDTH - MARGIN) * canvas.scale, y: canvas.top - y * canvas.scale },
+        thickness: canvas.scale,
+        color: BLACK
+    });
+}
+
+function drawImage(canvas: Canvas, image: PDFImage, x: number, y: number, width: number, height: number): void {
+    canvas.page.drawImage(image, {
+        x: canvas.left + x * canvas.scale,
+        y: canvas.top - (y + height) * canvas.scale,
+        width: width * canvas.scale,
+        height: height * canvas.scale
+    });
+}
+
+/**
+ * The text's lines within the width, the last one cut short with '...'
+ * when it does not fit in maxLines
+ */
+function wrap(text: string, font: PDFFont, size: number, width: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of printable(text).split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (font.widthOfTextAtSize(candidate, size) <= width || !line) {
+            line = candidate;
+        } else {
+            lines.push(line);
+            line = word;
+        }
+    }
+    if (line) lines.push(line);
+
+    if (lines.length > maxLines) {
+        lines.length = maxLines;
+        let last = lines[maxLines - 1];
+        while (last && font.widthOfTextAtSize(`${last}...`, size) > width) {
+            last = last.slice(0, -1);
+        }
+        lines[maxLines - 1] = `${last}...`;
+    }
+    return lines;
+}
+
+/**
+ * Text without spaces (a URL) cut into lines of the width, at any character
+ */
+function breakAnywhere(text: string, font: PDFFont, size: number, width: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const char of printable(text)) {
+        if (line && font.widthOfTextAtSize(line + char, size) > width) {
+            lines.push(line);
+            line = '';
+        }
+        line += char;
+    }
+    if (line) lines.push(line);
+    return lines.slice(0, maxLines);
+}
+
+function formatMoney(amount: number): string {
+    return `$ ${Math.round(amount).toLocaleString('es-CO')}`;
+}
+
+function formatDate(date: Date): string {
+    return date.toLocaleDateString('es-CO', { day: '2-digit', month: '2-digit', year: 'numeric' });
+}
+
+export class LabelGenerator {
+    private carriers = new Map(createSimulatedCarriers().map(carrier => [carrier.id, carrier]));
+    private publicDir: string;
+
+    constructor(private readonly options: LabelGeneratorOptions = config.labels) {
+        this.publicDir = options.publicDir ?? path.join(__dirname, '..', '..', 'public');
+    }
+
+    trackingUrl(trackingNumber: string): string {
+        return this.options.trackingUrl.replace('{trackingNumber}', encodeURIComponent(trackingNumber));
+    }
+
+    /**
+     * A PDF with one label page per shipment, in the given order
+     */
+    async render(shipments: Shipment[], size: LabelSize = '4x6'): Promise<Buffer> {
+        const pdf = await PDFDocument.create();
+        pdf.setTitle(shipments.length === 1 ? `Guía ${shipments[0].trackingNumber}` : `Guías (${shipments.length})`);
+        const font = await pdf.embedFont(StandardFonts.Helvetica);
+        const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+        const logos = new Map<string, PDFImage | null>();
+
+        for (const shipment of shipments) {
+            const [pageWidth, pageHeight] = PAGE_SIZES[size];
+            const page = pdf.addPage([pageWidth, pageHeight]);
+            const scale = size === '4x6'
+                ? 1
+                : Math.min((pageWidth - 2 * A4_MARGIN) / LABEL_WIDTH, (pageHeight - 2 * A4_MARGIN) / LABEL_HEIGHT);
+            const canvas: Canvas = {
+                page,
+                font,
+                bold,
+                scale,
+                left: (pageWidth - LABEL_WIDTH * scale) / 2,
+                top: pageHeight - (pageHeight - LABEL_HEIGHT * scale) / 2
+            };
+
+            const carrierId = shipment.carrier || '';
+            if (!logos.has(carrierId)) {
+                logos.set(carrierId, await this.embedLogo(pdf, carrierId));
+            }
+            await this.drawLabel(pdf, canvas, shipment, logos.get(carrierId) ?? null);
+        }
+
+        return Buffer.from(await pdf.save());
+    }
+
+    private async drawLabel(pdf: PDFDocument, canvas: Canvas, shipment: Shipment, logo: PDFImage | null): Promise<void> {
+        const { font, bold } = canvas;
+        const booking = shipment.booking;
+        const width = LABEL_WIDTH - 2 * MARGIN;
+
+        // Border, for A4 labels to be cut out
+        if (canvas.scale !== 1) {
+            canvas.page.drawRectangle({
+                x: canvas.left,
+                y: canvas.top - LABEL_HEIGHT * canvas.scale,
+                width: LABEL_WIDTH * canvas.scale,
+                height: LABEL_HEIGHT * canvas.scale,
+                borderColor: BLACK,
+                borderWidth: canvas.scale
+            });
+        }
+
+        // Header: carrier logo (or name), service and date
+        const carrierName = this.carriers.get(shipment.carrier || '')?.name || (shipment.carrier || '').toUpperCase();
+        if (logo) {
+            const logoWidth = Math.min(120, logo.width * 36 / logo.height);
+            drawImage(canvas, logo, MARGIN, 12, logoWidth, logoWidth * logo.height / logo.width);
+        } else if (carrierName) {
+            drawText(canvas, carrierName.toUpperCase(), MARGIN, 20, 16, true);
+        }
+        const service = booking?.quote.serviceName || '';
+        drawText(canvas, service, LABEL_WIDTH - MARGIN - bold.widthOfTextAtSize(printable(service), 9), 16, 9, true);
+        const created = formatDate(shipment.createdAt);
+        drawText(canvas, created, LABEL_WIDTH - MARGIN - font.widthOfTextAtSize(created, 8), 30, 8);
+        drawLine(canvas, 52);
+
+        // Sender
+        const sender = this.options.sender;
+        let y = 58;
+        drawText(canvas, 'REMITENTE', MARGIN, y, 7, true);
+        y += 10;
+        for (const line of [sender.name, sender.address, [sender.city, sender.phone && `Tel. ${sender.phone}`].filter(Boolean).join(' - ')]) {
+            if (!line) continue;
+            for (const wrapped of wrap(line, font, 8, width, 1)) {
+                drawText(canvas, wrapped, MARGIN, y, 8);
+                y += 11;
+            }
+        }
+        drawLine(canvas, 122);
+
+        // Recipient
+        const recipient = booking?.recipient;
+        const city = [recipient?.city || shipment.city, recipient?.department].filter(Boolean).join(', ');
+        y = 128;
+        drawText(canvas, 'DESTINATARIO', MARGIN, y, 8, true);
+        y += 12;
+        for (const line of wrap(recipient?.name || shipment.customerName, bold, 12, width, 1)) {
+            drawText(canvas, line, MARGIN, y, 12, true);
+            y += 15;
+        }
+        for (const line of wrap(recipient?.address || shipment.shippingAddress, font, 10, width, 2)) {
+            drawText(canvas, line, MARGIN, y, 10);
+            y += 12;
+        }
+        if (city) {
+            drawText(canvas, city.toUpperCase(), MARGIN, y, 10, true);
+            y += 12;
+        }
+        const phone = recipient?.phone || shipment.shippingPhone || shipment.customerPhone;
+        if (phone) {
+            drawText(canvas, `Tel. ${phone}`, MARGIN, y, 10);
+        }
+        drawLine(canvas, 210);
+
+        // Cash on delivery, in a black band so it is not missed
+        y = 216;
+        if (booking?.codAmount) {
+            canvas.page.drawRectangle({
+                x: canvas.left + MARGIN * canvas.scale,
+                y: canvas.top - (y + 20) * canvas.scale,
+                width: width * canvas.scale,
+                height: 20 * canvas.scale,
+                color: BLACK
+            });
+            drawText(canvas, `CONTRAENTREGA: ${formatMoney(booking.codAmount)}`, MARGIN + 6, y + 5, 11, true, WHITE);
+            y += 24;
+        }
+
+        const details = [
+            `Pedido ${shipment.orderNumber}`,
+            booking?.weight ? `${booking.weight} kg` : '',
+            shipment.productDescription
+        ].filter(Boolean).join(' - ');
+        for (const line of wrap(details, font, 8, width, 2)) {
+            drawText(canvas, line, MARGIN, y, 8);
+            y += 10;
+        }
+
+        // Tracking number barcode
+        const barcode = await pdf.embedPng(await renderCode128(shipment.trackingNumber));
+        drawImage(canvas, barcode, MARGIN + 12, 262, width - 24, 56);
+        const tracking = printable(shipment.trackingNumber);
+        drawText(canvas, tracking, (LABEL_WIDTH - bold.widthOfTextAtSize(tracking, 12)) / 2, 322, 12, true);
+        drawLine(canvas, 342);
+
+        // Tracking QR code and URL
+        const url = this.trackingUrl(shipment.trackingNumber);
+        const qr = await pdf.embedPng(await renderQrCode(url));
+        drawImage(canvas, qr, MARGIN, 348, 72, 72);
+        y = 352;
+        drawText(canvas, 'Rastrea tu envío', MARGIN + 82, y, 9, true);
+        y += 12;
+        for (const line of breakAnywhere(url, font, 7, width - 82, 3)) {
+            drawText(canvas, line, MARGIN + 82, y, 7);
+            y += 9;
+        }
+        if (booking?.estimatedDelivery) {
+            drawText(canvas, `Entrega estimada: ${formatDate(booking.estimatedDelivery)}`, MARGIN + 82, 408, 8);
+        }
+    }
+
+    /**
+     * The carrier's logo (Carrier.logo, under the public folder), or null
+     * when it has none or it is not a readable PNG/JPEG file
+     */
+    private async embedLogo(pdf: PDFDocument, carrierId: string): Promise<PDFImage | null> {
+        const logo = this.carriers.get(carrierId)?.logo;
+        if (!logo) return null;
+
+        const file = path.join(this.publicDir, logo);
+        try {
+            const data = await fs.promises.readFile(file);
+            return /\.jpe?g$/i.test(file) ? await pdf.embedJpg(data) : await pdf.embedPng(data);
+        } catch (error: any) {
+            console.warn(`⚠️ Logo of ${carrierId} not embedded, printing its name instead: ${error.message}`);
+            return null;
+        }
+    }
+}
+
+/**
+ * A Code128 barcode of the text, as PNG
+ */
+export function renderCode128(text: string): Promise<Buffer> {
+    return bwipjs.toBuffer({ bcid: 'code128', text, scale: 3, height: 15, paddingwidth: 10, backgroundcolor: 'FFFFFF' });
+}
+
+/**
+ * A QR code of the text, as PNG
+ */
+export function renderQrCode(text: string): Promise<Buffer> {
+    return bwipjs.toBuffer({ bcid: 'qrcode', text, scale: 4, paddingwidth: 4, paddingheight: 4, backgroundcolor: 'FFFFFF' });
+}
+
+export const labelGenerator = new LabelGenerator();
@@ -0,0 +1,153 @@
+import { ShippingGuideData, CustomerMatch, MatchSignals } from '../types';
+import { parseColombianAddress, isSameAddress } from './AddressNormalizer';
+import { nameSimilarity } from './NameMatcher';
+
+/**
+ * An `orders` row, as far as scoring goes
+ */
+export interface OrderRow {
+    id: number;
+    order_number: string;
+    phone_number: string | null;
+    shipping_phone: string | null;
+    customer_name: string | null;
+    shipping_address: string | null;
+}
+
+/**
+ * How much a full match of each signal alone says the order is the guide's.
+ * Signals add up like independent evidence: a phone match is almost
+ * conclusive, a full name with the city is enough to send, a name alone
+ * is not.
+ */
+export const SIGNAL_WEIGHTS: Record<keyof MatchSignals, number> = {
+    phone: 0.95,
+    name: 0.75,
+    address: 0.7,
+    city: 0.3
+};
+
+/**
+ * Lowercase words without accents or punctuation, e.g. 'Pérez-Gómez' → ['perez', 'gomez']
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+}
+
+/**
+ * Last 10 digits of a Colombian phone number, without the 57 country code
+ */
+export function sanitizePhone(phone: string): string {
+    let digits = phone.replace(/\D/g, '');
+    if (digits.startsWith('57') && digits.length > 10) {
+        digits = digits.substring(2);
+    }
+    return digits.slice(-10);
+}
+
+/**
+ * Dice coefficient of the two texts' words: 1 for the same words in any order
+ */
+function wordOverlap(a: string, b: string): number {
+    const wordsA = tokenize(a).filter(word => word.length > 1);
+    const wordsB = tokenize(b).filter(word => word.length > 1);
+    if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+    const remaining = [...wordsB];
+    let common = 0;
+    for (const word of wordsA) {
+        const index = remaining.indexOf(word);
+        if (index >= 0) {
+            remaining.splice(index, 1);
+            common++;
+        }
+    }
+    return (2 * common) / (wordsA.length + wordsB.length);
+}
+
+/**
+ * Addresses in Colombian nomenclature are compared part by part: 1 for the
+ * same door, 0.5 for the same via and cross street. Other addresses are
+ * compared by their words.
+ */
+export function addressSimilarity(a: string, b: string): number {
+    const parsedA = parseColombianAddress(a);
+    const parsedB = parseColombianAddress(b);
+    if (parsedA && parsedB) {
+        if (isSameAddress(parsedA, parsedB)) return 1;
+        return isSameAddress(parsedA, { ...parsedB, plate: parsedA.plate }) ? 0.5 : 0;
+    }
+    return wordOverlap(a, b);
+}
+
+/**
+ * 1 when the city's words appear together in the address, e.g. 'Bogotá' in 'Calle 45 # 23-67, Bogota D.C.'
+ */
+export function cityInAddress(city: string, address: string): number {
+    const cityWords = tokenize(city).join(' ');
+    if (!cityWords) return 0;
+    return ` ${tokenize(address).join(' ')} `.includes(` ${cityWords} `) ? 1 : 0;
+}
+
+/**
+ * Compares each guide field to the order's; a signal is null when either side lacks it
+ */
+export function scoreSignals(guide: ShippingGuideData, order: OrderRow): MatchSignals {
+    const guidePhone = guide.customerPhone ? sanitizePhone(guide.customerPhone) : '';
+    const orderPhones = [order.phone_number, order.shipping_phone].filter((phone): phone is string => !!phone).map(sanitizePhone);
+    return {
+        phone: guidePhone.length >= 7 && orderPhones.length > 0 ? (orderPhones.includes(guidePhone) ? 1 : 0) : null,
+        name: guide.customerName && order.customer_name ? nameSimilarity(guide.customerName, order.customer_name) : null,
+        city: guide.city && order.shipping_address ? cityInAddress(guide.city, order.shipping_address) : null,
+        address: guide.shippingAddress && order.shipping_address ? addressSimilarity(guide.shippingAddress, order.shipping_address) : null
+    };
+}
+
+/**
+ * Combined score (0-100) of the signals: 1 - Π(1 - weight × similarity)
+ */
+export function combineSignals(signals: MatchSignals): number {
+    let missProbability = 1;
+    for (const signal of Object.keys(SIGNAL_WEIGHTS) as Array<keyof MatchSignals>) {
+        missProbability *= 1 - SIGNAL_WEIGHTS[signal] * (signals[signal] ?? 0);
+    }
+    return Math.round((1 - missProbability) * 100);
+}
+
+/**
+ * Scores an order as the guide's customer. `matchedBy` is the signal that
+ * contributed the most.
+ */
+export function scoreOrder(guide: ShippingGuideData, order: OrderRow): CustomerMatch {
+    const signals = scoreSignals(guide, order);
+    const strongest = (['phone', 'name', 'address'] as const)
+        .reduce((best, signal) => SIGNAL_WEIGHTS[signal] * (signals[signal] ?? 0) > SIGNAL_WEIGHTS[best] * (signals[best] ?? 0) ? signal : best);
+    return {
+        id: order.id,
+        orderNumber: order.order_number,
+        phone: order.phone_number || order.shipping_phone || '',
+        name: order.customer_name || '',
+        address: order.shipping_address || '',
+        confidence: combineSignals(signals),
+        matchedBy: strongest,
+        signals
+    };
+}
+
+/**
+ * The best of the ranked candidates, when it is safe to send the guide
+ * without review: it scores at least `autoSendScore`, beats the runner-up by
+ * at least `margin` (two namesakes in the same city tie), and the guide's
+ * phone, when both sides have one, is the order's.
+ */
+export function autoSendMatch(candidates: CustomerMatch[], autoSendScore: number, margin: number): CustomerMatch | null {
+    const [best, runnerUp] = candidates;
+    if (!best || best.confidence < autoSendScore) return null;
+    if (runnerUp && best.confidence - runnerUp.confidence < margin) return null;
+    return best.signals?.phone === 0 ? null : best;
+}
@@ -0,0 +1,172 @@
+import mysql from 'mysql2/promise';
+import { migrations as allMigrations } from '../migrations';
+
+/**
+ * A versioned change to the tables this service owns. `up` and `down` are
+ * run statement by statement; `down` undoes `up`.
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: string[];
+    down: string[];
+}
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    /** null while pending */
+    appliedAt: Date | null;
+}
+
+export interface SchemaCheck {
+    pending: Migration[];
+    /** Columns this service uses that TechAura's `orders` table lacks */
+    missingOrderColumns: string[];
+}
+
+/**
+ * Columns of TechAura's `orders` table read or written by the matcher and
+ * the order repository. The table belongs to TechAura, so it is checked,
+ * never migrated.
+ */
+export const REQUIRED_ORDER_COLUMNS = [
+    'id',
+    'order_number',
+    'phone_number',
+    'shipping_phone',
+    'customer_name',
+    'shipping_address',
+    'processing_status',
+    'tracking_number',
+    'carrier',
+    'shipping_status',
+    'shipped_at',
+    'created_at',
+    'updated_at'
+];
+
+/**
+ * Applies and reverts the migrations of the tables this service owns in the
+ * TechAura database, recording the applied ones in the `migrations` table
+ */
+export class Migrator {
+    private pool: mysql.Pool;
+    private readonly migrations: Migration[];
+
+    constructor(dbConfig: any, migrations: Migration[] = allMigrations) {
+        migrations.forEach((migration, index) => {
+            if (index > 0 && migration.version <= migrations[index - 1].version) {
+                throw new Error(`Migration ${migration.version} (${migration.name}) is out of order`);
+            }
+        });
+        this.migrations = migrations;
+        this.pool = mysql.createPool({
+            host: dbConfig.host,
+            port: dbConfig.port,
+            user: dbConfig.user,
+            password: dbConfig.password,
+            database: dbConfig.database,
+            waitForConnections: true,
+            connectionLimit: 1
+        });
+    }
+
+    /**
+     * Every known migration, with when it was applied
+     */
+    async status(): Promise<MigrationStatus[]> {
+        const applied = await this.applied();
+        return this.migrations.map(migration => ({
+            version: migration.version,
+            name: migration.name,
+            appliedAt: applied.get(migration.version) ?? null
+        }));
+    }
+
+    async pending(): Promise<Migration[]> {
+        const applied = await this.applied();
+        return this.migrations.filter(migration => !applied.has(migration.version));
+    }
+
+    /**
+     * Applies the pending migrations in order, up to `toVersion` when given.
+     * Stops at the first failing one, which stays pending.
+     */
+    async up(toVersion?: number): Promise<Migration[]> {
+        const pending = (await this.pending()).filter(migration => toVersion === undefined || migration.version <= toVersion);
+        for (const migration of pending) {
+            await this.run(migration, migration.up);
+            await this.pool.execute('INSERT INTO migrations (version, name, applied_at) VALUES (?, ?, ?)', [migration.version, migration.name, new Date()]);
+            console.log(`🗄️ Applied migration ${migration.version} ${migration.name}`);
+        }
+        return pending;
+    }
+
+    /**
+     * Reverts the last `steps` applied migrations, most recent first
+     */
+    async down(steps = 1): Promise<Migration[]> {
+        const applied = await this.applied();
+        const reverted = this.migrations
+            .filter(migration => applied.has(migration.version))
+            .reverse()
+            .slice(0, Math.max(0, steps));
+        for (const migration of reverted) {
+            await this.run(migration, migration.down);
+            await this.pool.execute('DELETE FROM migrations WHERE version = ?', [migration.version]);
+            console.log(`🗄️ Reverted migration ${migration.version} ${migration.name}`);
+        }
+        return reverted;
+    }
+
+    /**
+     * Columns of REQUIRED_ORDER_COLUMNS missing from TechAura's `orders` table
+     * (all of them when the table does not exist)
+     */
+    async missingOrderColumns(): Promise<string[]> {
+        const [rows] = await this.pool.execute(`
+            SELECT COLUMN_NAME AS column_name
+            FROM information_schema.COLUMNS
+            WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'orders'
+        `) as any;
+        const present = new Set((rows as any[]).map(row => String(row.column_name).toLowerCase()));
+        return REQUIRED_ORDER_COLUMNS.filter(column => !present.has(column));
+    }
+
+    async check(): Promise<SchemaCheck> {
+        return {
+            pending: await this.pending(),
+            missingOrderColumns: await this.missingOrderColumns()
+        };
+    }
+
+    async close(): Promise<void> {
+        await this.pool.end();
+    }
+
+    private async run(migration: Migration, statements: string[]): Promise<void> {
+        for (const statement of statements) {
+            try {
+                await this.pool.execute(statement);
+            } catch (error) {
+                throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`);
+            }
+        }
+    }
+
+    /**
+     * When each applied migration was applied, by version
+     */
+    private async applied(): Promise<Map<number, Date>> {
+        await this.pool.execute(`
+            CREATE TABLE IF NOT EXISTS migrations (
+                version INT PRIMARY KEY,
+                name VARCHAR(128) NOT NULL,
+                applied_at DATETIME(3) NOT NULL
+            )
+        `);
+        const [rows] = await this.pool.execute('SELECT version, applied_at FROM migrations ORDER BY version') as any;
+        return new Map((rows as any[]).map(row => [Number(row.version), new Date(row.applied_at)]));
+    }
+}
@@ -0,0 +1,193 @@
+/**
+ * Fuzzy comparison of person names as read by OCR from shipping guides,
+ * e.g. 'JHON FREDY GOMEZ' against 'John Freddy Gómez' or 'LOPEZ HERNANDEZ
+ * CAROLINA' against 'Carolina López Hernández'.
+ */
+
+// Letters OCR reads as digits; names never hold digits
+const OCR_DIGITS: Record<string, string> = { '0': 'o', '1': 'l', '2': 'z', '5': 's', '6': 'g', '8': 'b' };
+
+// Words of compound surnames and names, e.g. 'De la Hoz', 'María del Pilar'
+const PARTICLES = new Set(['de', 'del', 'la', 'las', 'los', 'y', 'e', 'da', 'do', 'dos', 'van', 'von']);
+
+// Two words are taken as the same below this similarity only when they sound the same
+const MIN_WORD_SIMILARITY = 0.85;
+
+/**
+ * Lowercase words of a name, without accents, punctuation or OCR digits
+ */
+export function nameWords(name: string): string[] {
+    return name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[0125689]/g, digit => OCR_DIGITS[digit] || '')
+        .split(/[^a-z]+/)
+        .filter(word => word.length > 1 || PARTICLES.has(word));
+}
+
+/**
+ * Pieces of a name that orders are pre-filtered on before the fuzzy
+ * comparison: the first and the last four letters of each word (the whole
+ * word when shorter), so a word OCR misread at one end is still found by the
+ * other, e.g. 'ZEBALLOS' by 'llos' in 'Ceballos'. Particles and one- or
+ * two-letter words are left out.
+ */
+export function nameFragments(name: string): string[] {
+    const fragments = nameWords(name)
+        .filter(word => word.length > 2 && !PARTICLES.has(word))
+        .flatMap(word => word.length <= 4 ? [word] : [word.slice(0, 4), word.slice(-4)]);
+    return [...new Set(fragments)];
+}
+
+/**
+ * Key of how a word sounds in Colombian Spanish, so spellings OCR and
+ * customers mix up share it: 'Jhon'/'John', 'Ceballos'/'Zeballos',
+ * 'Vásquez'/'Vazquez', 'Yuly'/'Yuli', 'Freddy'/'Fredy'
+ */
+export function phoneticKey(word: string): string {
+    return nameWords(word).join('')
+        .replace(/ph/g, 'f')
+        .replace(/ch/g, 'X')
+        .replace(/h/g, '')
+        .replace(/ll/g, 'y')
+        .replace(/qu/g, 'k')
+        .replace(/gu(?=[ei])/g, 'g')
+        .replace(/g(?=[ei])/g, 'j')
+        .replace(/c(?=[ei])/g, 's')
+        .replace(/[ck]/g, 'k')
+        .replace(/z/g, 's')
+        .replace(/v/g, 'b')
+        .replace(/w/g, 'u')
+        .replace(/y(?![aeiou])/g, 'i')
+        .replace(/(.)\1+/g, '$1');
+}
+
+/**
+ * Jaro-Winkler similarity of two words, 0 to 1
+ */
+export function jaroWinkler(a: string, b: string): number {
+    if (a === b) return 1;
+    if (!a || !b) return 0;
+
+    const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+    const matchedA = new Array<boolean>(a.length).fill(false);
+    const matchedB = new Array<boolean>(b.length).fill(false);
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) {
+        for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+            if (!matchedB[j] && a[i] === b[j]) {
+                matchedA[i] = matchedB[j] = true;
+                matches++;
+                break;
+            }
+        }
+    }
+    if (matches === 0) return 0;
+
+    let transpositions = 0;
+    for (let i = 0, j = 0; i < a.length; i++) {
+        if (!matchedA[i]) continue;
+        while (!matchedB[j]) j++;
+        if (a[i] !== b[j]) transpositions++;
+        j++;
+    }
+    const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+    let prefix = 0;
+    while (prefix < 4 && prefix < Math.min(a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+    return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Similarity of two words: 1 when they sound the same, their Jaro-Winkler
+ * similarity when close enough, 0 otherwise
+ */
+export function wordSimilarity(a: string, b: string): number {
+    if (phoneticKey(a) === phoneticKey(b)) return 1;
+    const similarity = jaroWinkler(a, b);
+    return similarity >= MIN_WORD_SIMILARITY ? similarity : 0;
+}
+
+/**
+ * The ways of splitting a name into words to compare: without the particles
+ * of compound surnames ('Camilo de la Hoz' → camilo hoz) and with them joined
+ * to the next word (camilo delahoz), as OCR and customers write them either way
+ */
+function nameVariants(name: string): string[][] {
+    const words = nameWords(name);
+    const withoutParticles = words.filter(word => !PARTICLES.has(word));
+
+    const joined: string[] = [];
+    let pending = '';
+    for (const word of words) {
+        if (PARTICLES.has(word)) {
+            pending += word;
+        } else {
+            joined.push(pending + word);
+            pending = '';
+        }
+    }
+    return joined.join(' ') === withoutParticles.join(' ') ? [withoutParticles] : [withoutParticles, joined];
+}
+
+/**
+ * Joins two adjacent words of `words` that OCR split, or that a customer
+ * wrote apart, when they match a word of `other` together, e.g.
+ * ['maria', 'jose'] against ['mariajose']
+ */
+function mergeSplitWords(words: string[], other: string[]): string[] {
+    const merged = [...words];
+    for (let i = 0; i < merged.length - 1; i++) {
+        const pair = merged[i] + merged[i + 1];
+        const matchesPair = other.some(word => Math.abs(word.length - pair.length) <= 1 && wordSimilarity(word, pair) > 0);
+        if (matchesPair) {
+            merged.splice(i, 2, pair);
+        }
+    }
+    return merged;
+}
+
+/**
+ * Pairs the words of two names one to one, best pairs first, in any order
+ * (so swapped surnames still match), and scores the pairs like a Dice
+ * coefficient: 1 for the same words, 0.8 for 'Juan Pérez' against
+ * 'Juan Carlos Pérez'
+ */
+function alignWords(a: string[], b: string[]): number {
+    const wordsA = mergeSplitWords(a, b);
+    const wordsB = mergeSplitWords(b, wordsA);
+    if (wordsA.length === 0 || wordsB.length === 0) return 0;
+
+    const pairs: Array<{ i: number; j: number; similarity: number }> = [];
+    wordsA.forEach((wordA, i) => wordsB.forEach((wordB, j) => {
+        const similarity = wordSimilarity(wordA, wordB);
+        if (similarity > 0) pairs.push({ i, j, similarity });
+    }));
+    pairs.sort((x, y) => y.similarity - x.similarity);
+
+    const usedA = new Set<number>();
+    const usedB = new Set<number>();
+    let total = 0;
+    for (const { i, j, similarity } of pairs) {
+        if (usedA.has(i) || usedB.has(j)) continue;
+        usedA.add(i);
+        usedB.add(j);
+        total += similarity;
+    }
+    return (2 * total) / (wordsA.length + wordsB.length);
+}
+
+/**
+ * Similarity of two person names, 0 to 1, tolerant of OCR errors, missing
+ * accents, spelling variants, swapped surnames and compound surnames
+ */
+export function nameSimilarity(a: string, b: string): number {
+    let best = 0;
+    for (const variantA of nameVariants(a)) {
+        for (const variantB of nameVariants(b)) {
+            best = Math.max(best, alignWords(variantA, variantB));
+        }
+    }
+    return Math.round(best * 1000) / 1000;
+}
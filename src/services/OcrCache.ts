@@ -0,0 +1,178 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { config } from '../config/config';
+import { OcrResult } from './OcrWorkerPool';
+
+/**
+ * Version of the OCR pipeline whose output is cached. Bump it whenever a change
+ * to preprocessing or recognition makes previously cached text stale.
+ */
+export const OCR_PARSER_VERSION = '1';
+
+export type OcrSource = keyof typeof config.ocr.preprocessing;
+
+export interface OcrCacheOptions {
+    dir: string;
+    /**
+     * Entries older than this are treated as missing and removed
+     */
+    ttlMs: number;
+}
+
+export interface OcrCacheStats {
+    entries: number;
+    hits: number;
+    misses: number;
+}
+
+interface OcrCacheEntry {
+    hash: string;
+    source: OcrSource;
+    version: string;
+    createdAt: number;
+    result: OcrResult;
+}
+
+/**
+ * Content-addressed cache of OCR results, one JSON file per image.
+ * Entries are keyed by the SHA-256 of the file bytes, so the same guide
+ * uploaded twice or re-dropped in the watch folder is only read once.
+ */
+export class OcrCache {
+    private hits = 0;
+    private misses = 0;
+
+    constructor(private readonly options: OcrCacheOptions) {}
+
+    /**
+     * Returns the cached OCR result for the file, or runs `recognize` and caches its result.
+     * Cache read/write failures fall back to running the OCR.
+     * @param accept - Whether a result may be kept on disk; one it refuses
+     *   (e.g. the text of an ID document) is not cached, and removed if it was
+     */
+    async resolve(
+        filePath: string,
+        source: OcrSource,
+        recognize: () => Promise<OcrResult>,
+        accept: (result: OcrResult) => boolean = () => true
+    ): Promise<OcrResult> {
+        let hash: string;
+        try {
+            hash = crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+        } catch {
+            return recognize();
+        }
+
+        const cached = this.get(hash, source);
+        if (cached) {
+            this.hits++;
+            if (!accept(cached)) {
+                fs.rmSync(this.entryPath(hash, source), { force: true });
+            }
+            return cached;
+        }
+
+        this.misses++;
+        const result = await recognize();
+        if (accept(result)) {
+            this.set(hash, source, result);
+        }
+        return result;
+    }
+
+    /**
+     * Removes entries past their TTL and returns how many were removed
+     */
+    evictExpired(): number {
+        const now = Date.now();
+        return this.removeEntries(file => {
+            const entry = this.readEntry(file);
+            return !entry || now - entry.createdAt > this.options.ttlMs;
+        });
+    }
+
+    /**
+     * Removes every entry and returns how many were removed
+     */
+    clear(): number {
+        return this.removeEntries(() => true);
+    }
+
+    getStats(): OcrCacheStats {
+        return { entries: this.listEntries().length, hits: this.hits, misses: this.misses };
+    }
+
+    private get(hash: string, source: OcrSource): OcrResult | null {
+        const file = this.entryPath(hash, source);
+        const entry = this.readEntry(file);
+        if (!entry || entry.version !== this.version(source)) {
+            return null;
+        }
+        if (Date.now() - entry.createdAt > this.options.ttlMs) {
+            fs.rmSync(file, { force: true });
+            return null;
+        }
+        return entry.result;
+    }
+
+    private set(hash: string, source: OcrSource, result: OcrResult): void {
+        const entry: OcrCacheEntry = { hash, source, version: this.version(source), createdAt: Date.now(), result };
+        try {
+            fs.mkdirSync(this.options.dir, { recursive: true });
+            fs.writeFileSync(this.entryPath(hash, source), JSON.stringify(entry));
+        } catch (error) {
+            console.warn('OCR cache write failed:', (error as Error).message);
+        }
+    }
+
+    /**
+     * The preprocessing steps change the OCR text, so they are part of the version
+     */
+    private version(source: OcrSource): string {
+        return `${OCR_PARSER_VERSION}:${config.ocr.preprocessing[source]}`;
+    }
+
+    private entryPath(hash: string, source: OcrSource): string {
+        return path.join(this.options.dir, `${hash}.${source}.json`);
+    }
+
+    private readEntry(file: string): OcrCacheEntry | null {
+        try {
+            return JSON.parse(fs.readFileSync(file, 'utf8'));
+        } catch {
+            return null;
+        }
+    }
+
+    private listEntries(): string[] {
+        try {
+            return fs.readdirSync(this.options.dir)
+                .filter(name => name.endsWith('.json'))
+                .map(name => path.join(this.options.dir, name));
+        } catch {
+            // The directory is created on the first write
+            return [];
+        }
+    }
+
+    private removeEntries(shouldRemove: (file: string) => boolean): number {
+        let removed = 0;
+        for (const file of this.listEntries()) {
+            if (shouldRemove(file)) {
+                fs.rmSync(file, { force: true });
+                removed++;
+            }
+        }
+        return removed;
+    }
+}
+
+/**
+ * Cache shared by GuideParser and WhatsAppChatParser
+ */
+export const ocrCache = new OcrCache({
+    dir: config.ocr.cache.dir || path.join(os.tmpdir(), 'shipment-tracking-ocr-cache'),
+    ttlMs: config.ocr.cache.ttlHours * 60 * 60 * 1000
+});
@@ -0,0 +1,290 @@
+import { config } from '../config/config';
+import { StructuredLog } from './WhatsAppSender';
+
+export class OcrTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`OCR job timed out after ${timeoutMs}ms`);
+        this.name = 'OcrTimeoutError';
+    }
+}
+
+export interface OcrPoolOptions {
+    /**
+     * Number of Tesseract workers kept alive
+     */
+    size: number;
+    language: string;
+    /**
+     * A job running longer than this is rejected and its worker replaced
+     */
+    jobTimeoutMs: number;
+}
+
+export interface OcrJobOptions {
+    /**
+     * Who asked for the OCR (e.g. 'guide', 'whatsapp'), for logs and metrics
+     */
+    source: string;
+    /**
+     * File name or other label shown in the logs
+     */
+    label?: string;
+}
+
+export interface OcrResult {
+    text: string;
+    confidence: number;
+}
+
+export interface OcrPoolMetrics {
+    size: number;
+    workers: number;
+    busy: number;
+    queued: number;
+    completed: number;
+    failed: number;
+    timedOut: number;
+    averageWaitMs: number;
+    averageRunMs: number;
+}
+
+interface OcrJob {
+    id: number;
+    image: string | Buffer;
+    options: OcrJobOptions;
+    enqueuedAt: number;
+    resolve: (result: OcrResult) => void;
+    reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+    tesseract: any;
+    job: OcrJob | null;
+    lastProgressStep: number;
+}
+
+/**
+ * Shared pool of warm Tesseract workers.
+ * Loading the language data is the slow part of OCR, so workers are created
+ * once and reused; jobs beyond the pool size wait in a FIFO queue.
+ */
+export class OcrWorkerPool {
+    private tesseract: any = null;
+    private readonly workers: PoolWorker[] = [];
+    private readonly queue: OcrJob[] = [];
+    private starting = 0;
+    private nextJobId = 1;
+    private completed = 0;
+    private failed = 0;
+    private timedOut = 0;
+    private totalWaitMs = 0;
+    private totalRunMs = 0;
+
+    constructor(private readonly options: OcrPoolOptions) {}
+
+    /**
+     * Starts every worker ahead of the first job
+     */
+    async warmUp(): Promise<void> {
+        const missing = this.options.size - this.workers.length - this.starting;
+        await Promise.all(Array.from({ length: Math.max(0, missing) }, () => this.startWorker()));
+        this.log({
+            level: 'INFO',
+            action: 'pool_warm',
+            message: 'OCR workers ready',
+            metadata: { workers: this.workers.length }
+        });
+        this.dispatch();
+    }
+
+    /**
+     * Queues an image for OCR and resolves with its text once a worker has read it
+     */
+    recognize(image: string | Buffer, options: OcrJobOptions): Promise<OcrResult> {
+        return new Promise((resolve, reject) => {
+            const job: OcrJob = { id: this.nextJobId++, image, options, enqueuedAt: Date.now(), resolve, reject };
+            this.queue.push(job);
+            this.log({
+                level: 'DEBUG',
+                action: 'job_queued',
+                message: 'OCR job queued',
+                metadata: { jobId: job.id, source: options.source, label: options.label, queued: this.queue.length }
+            });
+            this.dispatch();
+        });
+    }
+
+    getMetrics(): OcrPoolMetrics {
+        const finished = this.completed + this.failed + this.timedOut;
+        return {
+            size: this.options.size,
+            workers: this.workers.length,
+            busy: this.workers.filter(w => w.job).length,
+            queued: this.queue.length,
+            completed: this.completed,
+            failed: this.failed,
+            timedOut: this.timedOut,
+            averageWaitMs: finished ? Math.round(this.totalWaitMs / finished) : 0,
+            averageRunMs: finished ? Math.round(this.totalRunMs / finished) : 0
+        };
+    }
+
+    /**
+     * Stops all workers; queued jobs are rejected
+     */
+    async terminate(): Promise<void> {
+        for (const job of this.queue.splice(0)) {
+            job.reject(new Error('OCR pool terminated'));
+        }
+        const workers = this.workers.splice(0);
+        await Promise.all(workers.map(w => w.tesseract.terminate().catch(() => undefined)));
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0) {
+            const idle = this.workers.find(w => !w.job);
+            if (idle) {
+                this.run(idle, this.queue.shift()!);
+                continue;
+            }
+            if (this.workers.length + this.starting < this.options.size) {
+                this.startWorker()
+                    .then(() => this.dispatch())
+                    .catch(error => this.failQueue(error));
+            }
+            return;
+        }
+    }
+
+    private async startWorker(): Promise<void> {
+        this.starting++;
+        try {
+            if (!this.tesseract) {
+                const tesseractModule = await import('tesseract.js');
+                this.tesseract = tesseractModule.default || tesseractModule;
+            }
+            const worker: PoolWorker = { tesseract: null, job: null, lastProgressStep: 0 };
+            worker.tesseract = await this.tesseract.createWorker(this.options.language, 1, {
+                logger: (m: any) => this.onProgress(worker, m)
+            });
+            this.workers.push(worker);
+        } finally {
+            this.starting--;
+        }
+    }
+
+    private async run(worker: PoolWorker, job: OcrJob): Promise<void> {
+        worker.job = job;
+        worker.lastProgressStep = 0;
+        const startedAt = Date.now();
+        this.totalWaitMs += startedAt - job.enqueuedAt;
+        const metadata = { jobId: job.id, source: job.options.source, label: job.options.label };
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_resolve, reject) => {
+            timer = setTimeout(() => reject(new OcrTimeoutError(this.options.jobTimeoutMs)), this.options.jobTimeoutMs);
+        });
+
+        try {
+            const result = await Promise.race([worker.tesseract.recognize(job.image), timeout]);
+            this.completed++;
+            this.log({
+                level: 'INFO',
+                action: 'job_done',
+                message: 'OCR job finished',
+                metadata: { ...metadata, durationMs: Date.now() - startedAt, confidence: result.data.confidence }
+            });
+            job.resolve({ text: result.data.text || '', confidence: result.data.confidence ?? 0 });
+            worker.job = null;
+        } catch (error) {
+            if (error instanceof OcrTimeoutError) {
+                this.timedOut++;
+                // A Tesseract job cannot be cancelled, so the stuck worker is replaced
+                // (unless terminate() already dropped it)
+                const index = this.workers.indexOf(worker);
+                if (index !== -1) this.workers.splice(index, 1);
+                worker.tesseract.terminate().catch(() => undefined);
+            } else {
+                this.failed++;
+                worker.job = null;
+            }
+            this.log({
+                level: 'ERROR',
+                action: error instanceof OcrTimeoutError ? 'job_timeout' : 'job_failed',
+                message: (error as Error).message,
+                metadata: { ...metadata, durationMs: Date.now() - startedAt }
+            });
+            job.reject(error as Error);
+        } finally {
+            clearTimeout(timer);
+            this.totalRunMs += Date.now() - startedAt;
+            this.dispatch();
+        }
+    }
+
+    /**
+     * Logs recognition progress in 25% steps instead of every Tesseract tick
+     */
+    private onProgress(worker: PoolWorker, m: any): void {
+        if (!worker.job || m.status !== 'recognizing text') return;
+        const step = Math.floor(m.progress * 4);
+        if (step <= worker.lastProgressStep) return;
+        worker.lastProgressStep = step;
+        this.log({
+            level: 'DEBUG',
+            action: 'job_progress',
+            message: 'OCR progress',
+            metadata: { jobId: worker.job.id, source: worker.job.options.source, progress: step * 25 }
+        });
+    }
+
+    /**
+     * No worker could be started, so nothing in the queue can run
+     */
+    private failQueue(error: Error): void {
+        this.log({
+            level: 'ERROR',
+            action: 'worker_start_failed',
+            message: error.message,
+            metadata: { queued: this.queue.length }
+        });
+        if (this.workers.length > 0 || this.starting > 0) return;
+        for (const job of this.queue.splice(0)) {
+            this.failed++;
+            job.reject(error);
+        }
+    }
+
+    private log(log: Omit<StructuredLog, 'timestamp' | 'service'>): void {
+        const structuredLog: StructuredLog = {
+            timestamp: new Date().toISOString(),
+            service: 'OcrWorkerPool',
+            ...log
+        };
+
+        const logString = JSON.stringify(structuredLog);
+
+        switch (log.level) {
+            case 'ERROR':
+                console.error(logString);
+                break;
+            case 'WARN':
+                console.warn(logString);
+                break;
+            case 'DEBUG':
+                console.debug(logString);
+                break;
+            default:
+                console.log(logString);
+        }
+    }
+}
+
+/**
+ * Pool shared by GuideParser and WhatsAppChatParser
+ */
+export const ocrWorkerPool = new OcrWorkerPool({
+    size: config.ocr.poolSize,
+    language: config.ocr.language,
+    jobTimeoutMs: config.ocr.jobTimeoutMs
+});
@@ -0,0 +1,194 @@
+import mysql from 'mysql2/promise';
+import { OrderRow } from './MatchScorer';
+import { nameWords } from './NameMatcher';
+
+/**
+ * A row of the TechAura `orders` table
+ */
+export interface OrderRecord extends OrderRow {
+    processing_status: string;
+    tracking_number: string | null;
+    carrier: string | null;
+    shipping_status: string | null;
+    shipped_at: Date | null;
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * Access to TechAura orders. The `findOpen*` lookups only return orders
+ * still waiting for their guide (confirmed or processing, without a tracking
+ * number), newest first.
+ */
+export interface OrderRepository {
+    /** Open orders whose phone or shipping phone contains the digits */
+    findOpenByPhone(digits: string, limit: number): Promise<OrderRecord[]>;
+    /**
+     * Open orders placed since the date whose customer name contains any of
+     * the lowercase fragments, ignoring case and accents
+     */
+    findOpenByNameFragments(fragments: string[], since: Date, limit: number): Promise<OrderRecord[]>;
+    /** Open orders whose lowercase shipping address matches a LIKE pattern, e.g. '%45%23%67%' */
+    findOpenByAddress(pattern: string, limit: number): Promise<OrderRecord[]>;
+    /** An order by number, whatever its status */
+    findByOrderNumber(orderNumber: string): Promise<OrderRecord | null>;
+    /** Records the guide of a shipped order; false when there is no such order */
+    setTracking(orderNumber: string, trackingNumber: string, carrier: string): Promise<boolean>;
+}
+
+// Orders still waiting for their guide
+const OPEN_ORDER = `processing_status IN ('confirmed', 'processing') AND tracking_number IS NULL`;
+
+// LIMIT is not a placeholder: prepared statements reject numeric LIMIT parameters on some servers
+function limitClause(limit: number): string {
+    return `LIMIT ${Math.max(1, Math.floor(limit))}`;
+}
+
+/**
+ * Orders in the TechAura MySQL database
+ */
+export class MySqlOrderRepository implements OrderRepository {
+    private pool: mysql.Pool;
+
+    constructor(dbConfig: any) {
+        this.pool = mysql.createPool({
+            host: dbConfig.host,
+            port: dbConfig.port,
+            user: dbConfig.user,
+            password: dbConfig.password,
+            database: dbConfig.database,
+            waitForConnections: true,
+            connectionLimit: 5
+        });
+    }
+
+    async findOpenByPhone(digits: string, limit: number): Promise<OrderRecord[]> {
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM orders o
+            WHERE (o.phone_number LIKE ? OR o.shipping_phone LIKE ?)
+            AND ${OPEN_ORDER}
+            ORDER BY o.created_at DESC
+            ${limitClause(limit)}
+        `, [`%${digits}%`, `%${digits}%`]) as any;
+        return rows;
+    }
+
+    /**
+     * Case and accents are ignored by the column's collation (utf8mb4's
+     * default `_ai_ci` ones), so 'gome' finds 'Gómez'
+     */
+    async findOpenByNameFragments(fragments: string[], since: Date, limit: number): Promise<OrderRecord[]> {
+        if (fragments.length === 0) return [];
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM orders
+            WHERE (${fragments.map(() => 'customer_name LIKE ?').join(' OR ')})
+            AND created_at >= ?
+            AND ${OPEN_ORDER}
+            ORDER BY created_at DESC
+            ${limitClause(limit)}
+        `, [...fragments.map(fragment => `%${fragment}%`), since]) as any;
+        return rows;
+    }
+
+    async findOpenByAddress(pattern: string, limit: number): Promise<OrderRecord[]> {
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM orders
+            WHERE LOWER(shipping_address) LIKE ?
+            AND ${OPEN_ORDER}
+            ORDER BY created_at DESC
+            ${limitClause(limit)}
+        `, [pattern]) as any;
+        return rows;
+    }
+
+    async findByOrderNumber(orderNumber: string): Promise<OrderRecord | null> {
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM orders
+            WHERE order_number = ?
+            LIMIT 1
+        `, [orderNumber]) as any;
+        return rows.length > 0 ? rows[0] : null;
+    }
+
+    async setTracking(orderNumber: string, trackingNumber: string, carrier: string): Promise<boolean> {
+        const [result] = await this.pool.execute(`
+            UPDATE orders SET
+                tracking_number = ?,
+                carrier = ?,
+                shipping_status = 'shipped',
+                shipped_at = NOW(),
+                updated_at = NOW()
+            WHERE order_number = ?
+        `, [trackingNumber, carrier, orderNumber]) as any;
+        return result.affectedRows > 0;
+    }
+}
+
+/**
+ * Matches a value like SQL LIKE: `%` for any text, `_` for one character
+ */
+function like(value: string, pattern: string): boolean {
+    const regex = pattern
+        .split('')
+        .map(char => char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+        .join('');
+    return new RegExp(`^${regex}$`, 's').test(value);
+}
+
+/**
+ * Orders kept in memory, for running the pipeline and tests without MySQL
+ */
+export class InMemoryOrderRepository implements OrderRepository {
+    private readonly orders: OrderRecord[];
+
+    constructor(orders: OrderRecord[] = []) {
+        this.orders = orders.map(order => ({ ...order }));
+    }
+
+    /** Adds or replaces (by order number) an order */
+    add(order: OrderRecord): void {
+        const index = this.orders.findIndex(o => o.order_number === order.order_number);
+        if (index >= 0) {
+            this.orders[index] = { ...order };
+        } else {
+            this.orders.push({ ...order });
+        }
+    }
+
+    async findOpenByPhone(digits: string, limit: number): Promise<OrderRecord[]> {
+        return this.findOpen(order => [order.phone_number, order.shipping_phone].some(phone => !!phone && phone.includes(digits)), limit);
+    }
+
+    async findOpenByNameFragments(fragments: string[], since: Date, limit: number): Promise<OrderRecord[]> {
+        return this.findOpen(order => {
+            if (!order.customer_name || new Date(order.created_at) < since) return false;
+            const name = nameWords(order.customer_name).join(' ');
+            return fragments.some(fragment => name.includes(fragment));
+        }, limit);
+    }
+
+    async findOpenByAddress(pattern: string, limit: number): Promise<OrderRecord[]> {
+        return this.findOpen(order => !!order.shipping_address && like(order.shipping_address.toLowerCase(), pattern), limit);
+    }
+
+    async findByOrderNumber(orderNumber: string): Promise<OrderRecord | null> {
+        const order = this.orders.find(o => o.order_number === orderNumber);
+        return order ? { ...order } : null;
+    }
+
+    async setTracking(orderNumber: string, trackingNumber: string, carrier: string): Promise<boolean> {
+        const order = this.orders.find(o => o.order_number === orderNumber);
+        if (!order) return false;
+        const now = new Date();
+        Object.assign(order, { tracking_number: trackingNumber, carrier, shipping_status: 'shipped', shipped_at: now, updated_at: now });
+        return true;
+    }
+
+    private findOpen(predicate: (order: OrderRecord) => boolean, limit: number): OrderRecord[] {
+        return this.orders
+            .filter(order => ['confirmed', 'processing'].includes(order.processing_status) && !order.tracking_number && predicate(order))
+            .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+            .slice(0, limit)
+            .map(order => ({ ...order }));
+    }
+}
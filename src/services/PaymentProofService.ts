@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import { ICustomerMatcher, PaymentReceiptData } from '../types';
+import { TechAuraIntegration, techAuraIntegration } from './TechAuraIntegration';
+
+const PROVIDERS: Array<[RegExp, string]> = [
+    [/\bnequi\b/i, 'Nequi'],
+    [/daviplata/i, 'Daviplata'],
+    [/bancolombia/i, 'Bancolombia'],
+    [/transfiya/i, 'Transfiya'],
+    [/movii/i, 'MOVii'],
+    [/\bpse\b/i, 'PSE']
+];
+
+export interface PaymentProofResult {
+    attached: boolean;
+    /** Order the receipt belongs to; null when it could not be identified */
+    orderNumber: string | null;
+    receipt: PaymentReceiptData;
+}
+
+/**
+ * Reads the provider, amount, reference, date and payer from the OCR text of
+ * a Nequi/Daviplata/bank transfer receipt. Missing values are null.
+ */
+export function extractPaymentReceipt(text: string): PaymentReceiptData {
+    const provider = PROVIDERS.find(([pattern]) => pattern.test(text))?.[1] || null;
+
+    // Colombian amounts use '.' for thousands ($ 50.000 or $ 50.000,00); cents are dropped
+    const amountMatch = text.match(/\$\s?(\d{1,3}(?:[.,]\d{3})+)(?![.,]?\d{3})/);
+    const amount = amountMatch ? parseInt(amountMatch[1].replace(/[.,]/g, ''), 10) : null;
+
+    const referenceMatch = text.match(/(?:referencia|\bref\b\.?|n[uú]mero\s+de\s+aprobaci[oó]n|\bcus\b)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})/i);
+    const dateMatch = text.match(/\d{1,2}\s+de\s+[a-záéíóú]+\s+de\s+\d{4}(?:,?\s*(?:a\s+las\s+)?\d{1,2}:\d{2}\s*(?:[ap]\.?\s?m\.?)?)?|\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/i);
+    const payerMatch = text.match(/(?:^|\n)\s*(?:de|desde|pagador|ordenante)\s*:\s*([A-Za-zÁÉÍÓÚÑáéíóúñ ]{3,60})/i);
+
+    return {
+        provider,
+        amount,
+        reference: referenceMatch ? referenceMatch[1] : null,
+        paidAt: dateMatch ? dateMatch[0].trim() : null,
+        payerName: payerMatch ? payerMatch[1].trim() : null
+    };
+}
+
+/**
+ * Attaches payment receipts uploaded in place of guides to their order.
+ */
+export class PaymentProofService {
+    constructor(
+        private readonly matcher: ICustomerMatcher,
+        private readonly techAura: TechAuraIntegration = techAuraIntegration
+    ) {}
+
+    /**
+     * @param filePath - The receipt file, sent along as the proof
+     * @param text - OCR text of the receipt
+     * @param orderNumber - Order given by the uploader; otherwise the payer's name is matched to an
+     *   order, and the uploader is asked for one when several orders match it
+     */
+    async attach(filePath: string, fileName: string, text: string, orderNumber?: string): Promise<PaymentProofResult> {
+        const receipt = extractPaymentReceipt(text);
+
+        let targetOrder = orderNumber || null;
+        if (!targetOrder && receipt.payerName) {
+            const candidates = await this.matcher.findCandidates({
+                trackingNumber: '',
+                customerName: receipt.payerName,
+                shippingAddress: '',
+                city: '',
+                carrier: '',
+                rawText: text
+            });
+            // A name alone never scores enough to send a guide, but its full match is enough for a receipt,
+            // as long as no other order (a namesake, or another order of the same customer) matches it fully
+            const fullMatches = candidates.filter(candidate => candidate.signals?.name === 1);
+            targetOrder = fullMatches.length === 1 ? fullMatches[0].orderNumber : null;
+        }
+
+        if (!targetOrder) {
+            return { attached: false, orderNumber: null, receipt };
+        }
+
+        const attached = await this.techAura.attachPaymentProof({
+            orderNumber: targetOrder,
+            provider: receipt.provider,
+            amount: receipt.amount,
+            reference: receipt.reference,
+            paidAt: receipt.paidAt,
+            fileName,
+            fileBase64: fs.readFileSync(filePath).toString('base64')
+        });
+        return { attached, orderNumber: targetOrder, receipt };
+    }
+}
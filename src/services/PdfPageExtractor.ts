@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PDFDocument } from 'pdf-lib';
+
+/**
+ * Copies single pages out of a multi-guide PDF so each customer
+ * receives only the page with their own guide.
+ */
+export class PdfPageExtractor {
+    /**
+     * @param outputDir - Where page files are written (defaults to the OS temp directory,
+     * never the watch folder, so the watcher does not pick them up)
+     */
+    constructor(private readonly outputDir: string = path.join(os.tmpdir(), 'shipment-tracking-pages')) {}
+
+    /**
+     * Writes the given 1-based page to its own PDF and returns the new file's path.
+     * The caller removes the file with `cleanup` once it has been sent.
+     */
+    async extractPage(filePath: string, page: number): Promise<string> {
+        const source = await PDFDocument.load(fs.readFileSync(filePath));
+        if (page < 1 || page > source.getPageCount()) {
+            throw new Error(`Page ${page} out of range (1-${source.getPageCount()})`);
+        }
+
+        const output = await PDFDocument.create();
+        const [copied] = await output.copyPages(source, [page - 1]);
+        output.addPage(copied);
+
+        if (!fs.existsSync(this.outputDir)) {
+            fs.mkdirSync(this.outputDir, { recursive: true });
+        }
+        const base = path.basename(filePath, path.extname(filePath));
+        const pagePath = path.join(this.outputDir, `${base}-p${page}-${Date.now()}.pdf`);
+        fs.writeFileSync(pagePath, await output.save());
+        return pagePath;
+    }
+
+    /**
+     * Removes a page file written by `extractPage`
+     */
+    cleanup(pagePath: string): void {
+        if (fs.existsSync(pagePath)) {
+            fs.unlinkSync(pagePath);
+        }
+    }
+}
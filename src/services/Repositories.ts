@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import { config } from '../config/config';
+import { JobStore, MySqlJobStore, InMemoryJobStore } from './JobStore';
+import { OrderRecord, OrderRepository, MySqlOrderRepository, InMemoryOrderRepository } from './OrderRepository';
+import { ShipmentRepository, MySqlShipmentRepository, InMemoryShipmentRepository } from './ShipmentRepository';
+import { SendLog, MySqlSendLog, InMemorySendLog } from './SendLog';
+import { StatusNotificationStore, MySqlStatusNotificationStore, InMemoryStatusNotificationStore } from './StatusNotificationStore';
+import { UnmatchedGuideStore, MySqlUnmatchedGuideStore, FileUnmatchedGuideStore } from './UnmatchedGuideStore';
+
+export type StorageDriver = 'mysql' | 'memory';
+
+export interface StorageOptions {
+    driver: StorageDriver;
+    /** JSON file with the `orders` rows the in-memory storage starts with */
+    seedOrdersPath?: string;
+}
+
+/**
+ * Where orders, shipments, guide jobs, send attempts, guides waiting for
+ * review and undelivered status notifications are kept
+ */
+export interface Repositories {
+    orders: OrderRepository;
+    shipments: ShipmentRepository;
+    jobs: JobStore;
+    sendLog: SendLog;
+    unmatchedGuides: UnmatchedGuideStore;
+    statusNotifications: StatusNotificationStore;
+}
+
+/**
+ * Orders of the seed file, with their dates parsed
+ */
+function loadSeedOrders(filePath: string): OrderRecord[] {
+    const orders = JSON.parse(fs.readFileSync(filePath, 'utf8')) as OrderRecord[];
+    return orders.map(order => ({
+        ...order,
+        shipped_at: order.shipped_at ? new Date(order.shipped_at) : null,
+        created_at: new Date(order.created_at),
+        updated_at: new Date(order.updated_at)
+    }));
+}
+
+/**
+ * Creates the repositories of the storage driver: the TechAura MySQL
+ * database, or memory so the pipeline runs locally and in tests without it
+ */
+export function createRepositories(options: StorageOptions = config.storage, dbConfig: any = config.techauraDb): Repositories {
+    if (options.driver === 'memory') {
+        return {
+            orders: new InMemoryOrderRepository(options.seedOrdersPath ? loadSeedOrders(options.seedOrdersPath) : []),
+            shipments: new InMemoryShipmentRepository(),
+            jobs: new InMemoryJobStore(),
+            sendLog: new InMemorySendLog(),
+            // Without MySQL the review queue's entries are kept in its folder's index.json
+            unmatchedGuides: new FileUnmatchedGuideStore(config.review.unmatchedDir),
+            statusNotifications: new InMemoryStatusNotificationStore()
+        };
+    }
+    return {
+        orders: new MySqlOrderRepository(dbConfig),
+        shipments: new MySqlShipmentRepository(dbConfig),
+        jobs: new MySqlJobStore(dbConfig),
+        sendLog: new MySqlSendLog(dbConfig),
+        unmatchedGuides: new MySqlUnmatchedGuideStore(dbConfig, config.review.unmatchedDir),
+        statusNotifications: new MySqlStatusNotificationStore(dbConfig)
+    };
+}
+
+let shared: Repositories | null = null;
+
+/**
+ * Repositories shared by the app, created from config on first use
+ */
+export function getRepositories(): Repositories {
+    if (!shared) shared = createRepositories();
+    return shared;
+}
@@ -0,0 +1,66 @@
+import mysql from 'mysql2/promise';
+import { ProcessedGuideRecord } from '../types';
+
+/**
+ * One attempt to send a guide to a customer over WhatsApp
+ */
+export interface SendAttempt {
+    trackingNumber: string;
+    carrier: string | null;
+    orderNumber: string | null;
+    sentTo: string;
+    source: ProcessedGuideRecord['source'];
+    /** SHA-256 of the file the guide was read from, when it was hashed */
+    fileHash: string | null;
+    success: boolean;
+    error: string | null;
+    sentAt: Date;
+}
+
+/**
+ * Audit trail of every guide sent or failed to send, kept apart from the
+ * duplicate registry, which only holds the last successful delivery
+ */
+export interface SendLog {
+    record(attempt: SendAttempt): Promise<void>;
+}
+
+/**
+ * Send attempts kept in the `send_log` table
+ */
+export class MySqlSendLog implements SendLog {
+    private pool: mysql.Pool;
+
+    constructor(dbConfig: any) {
+        this.pool = mysql.createPool({
+            host: dbConfig.host,
+            port: dbConfig.port,
+            user: dbConfig.user,
+            password: dbConfig.password,
+            database: dbConfig.database,
+            waitForConnections: true,
+            connectionLimit: 2
+        });
+    }
+
+    async record(attempt: SendAttempt): Promise<void> {
+        await this.pool.execute(`
+            INSERT INTO send_log (tracking_number, carrier, order_number, sent_to, source, file_hash, success, error, sent_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+            attempt.trackingNumber.toUpperCase(), attempt.carrier, attempt.orderNumber, attempt.sentTo, attempt.source,
+            attempt.fileHash, attempt.success ? 1 : 0, attempt.error, attempt.sentAt
+        ]);
+    }
+}
+
+/**
+ * Send attempts kept in memory, for running without MySQL
+ */
+export class InMemorySendLog implements SendLog {
+    readonly attempts: SendAttempt[] = [];
+
+    async record(attempt: SendAttempt): Promise<void> {
+        this.attempts.push({ ...attempt, trackingNumber: attempt.trackingNumber.toUpperCase() });
+    }
+}
@@ -0,0 +1,63 @@
+import { ShipmentStatus } from '../carriers/types';
+
+/**
+ * Statuses each status may move to. Carriers are polled, so a shipment may
+ * skip ahead (e.g. 'created' straight to 'delivered'); it never moves back,
+ * except from a failed delivery to another attempt. 'delivered', 'returned'
+ * and 'cancelled' are final.
+ */
+export const SHIPMENT_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+    ready_for_shipping: ['created', 'cancelled'],
+    created: ['picked_up', 'in_transit', 'out_for_delivery', 'delivered', 'failed_delivery', 'returned', 'cancelled'],
+    picked_up: ['in_transit', 'out_for_delivery', 'delivered', 'failed_delivery', 'returned'],
+    in_transit: ['out_for_delivery', 'delivered', 'failed_delivery', 'returned'],
+    out_for_delivery: ['delivered', 'failed_delivery', 'returned'],
+    failed_delivery: ['in_transit', 'out_for_delivery', 'delivered', 'returned'],
+    delivered: [],
+    returned: [],
+    cancelled: []
+};
+
+/**
+ * The names TechAura's status-update API uses for the lifecycle statuses it
+ * tracks; the others are not reported to it
+ */
+export const TECHAURA_STATUS = {
+    created: 'label_created',
+    picked_up: 'picked_up',
+    in_transit: 'in_transit',
+    delivered: 'delivered',
+    returned: 'returned'
+} as const satisfies Partial<Record<ShipmentStatus, string>>;
+
+export type TechAuraShippingStatus = typeof TECHAURA_STATUS[keyof typeof TECHAURA_STATUS];
+
+/**
+ * A status change the lifecycle does not allow
+ */
+export class InvalidStatusTransitionError extends Error {
+    constructor(
+        public readonly from: ShipmentStatus,
+        public readonly to: ShipmentStatus
+    ) {
+        super(`Cannot change shipment status from '${from}' to '${to}'`);
+        this.name = 'InvalidStatusTransitionError';
+    }
+}
+
+export function isShipmentStatus(value: unknown): value is ShipmentStatus {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SHIPMENT_TRANSITIONS, value);
+}
+
+export function canTransition(from: ShipmentStatus, to: ShipmentStatus): boolean {
+    return SHIPMENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Throws InvalidStatusTransitionError unless `from` may move to `to`
+ */
+export function assertTransition(from: ShipmentStatus, to: ShipmentStatus): void {
+    if (!canTransition(from, to)) {
+        throw new InvalidStatusTransitionError(from, to);
+    }
+}
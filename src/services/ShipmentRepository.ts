@@ -0,0 +1,493 @@
+import mysql from 'mysql2/promise';
+import { CarrierBooking, Shipment, ShipmentStatusChange, StoredTrackingEvent } from '../types';
+import { ShipmentStatus, TrackingEvent } from '../carriers/types';
+
+export type NewShipment = Omit<Shipment, 'id'>;
+
+export type NewStatusChange = Omit<ShipmentStatusChange, 'id' | 'fromStatus'> & { fromStatus: Shipment['status'] };
+
+export type NewTrackingEvent = Omit<StoredTrackingEvent, 'id'>;
+
+/**
+ * The carrier guide booked for a shipment that was waiting for one
+ */
+export type ShipmentBooking = Required<Pick<Shipment, 'trackingNumber' | 'carrier' | 'booking'>>;
+
+/**
+ * Which shipments a listing returns; every given condition must hold
+ */
+export interface ShipmentFilter {
+    statuses?: ShipmentStatus[];
+    carrier?: string;
+    city?: string;
+    /** Created at or after */
+    createdFrom?: Date;
+    /** Created before */
+    createdBefore?: Date;
+    /** Digits contained in the customer or shipping phone */
+    phone?: string;
+    /** Text contained in the order or tracking number, customer name, address or product */
+    search?: string;
+}
+
+export type ShipmentSortField = 'createdAt' | 'updatedAt' | 'orderNumber' | 'trackingNumber' | 'status';
+
+/**
+ * One page of a listing, in `sort` order with ties broken by id. Pages after
+ * the first start after the sort value and id of the previous page's last
+ * shipment, so shipments added meanwhile never shift them.
+ */
+export interface ShipmentPageQuery {
+    filter: ShipmentFilter;
+    sort: ShipmentSortField;
+    order: 'asc' | 'desc';
+    limit: number;
+    after?: { value: string | Date; id: number };
+}
+
+/**
+ * Persistence of the shipments created for TechAura orders, of their status
+ * history and of their carriers' tracking events
+ */
+export interface ShipmentRepository {
+    /** Stores the shipment and its initial status in the history */
+    insert(shipment: NewShipment, triggeredBy: string): Promise<Shipment>;
+    findById(id: number): Promise<Shipment | null>;
+    findByTrackingNumber(trackingNumber: string): Promise<Shipment | null>;
+    /** The order's newest shipment */
+    findByOrderNumber(orderNumber: string): Promise<Shipment | null>;
+    /**
+     * Stores the carrier guide of a shipment waiting in 'ready_for_shipping'
+     * and moves it to 'created', recording the change; false when it is no
+     * longer waiting (or there is no such shipment)
+     */
+    book(shipmentId: number, booking: ShipmentBooking, triggeredBy: string, changedAt: Date): Promise<boolean>;
+    /**
+     * Moves the shipment to `toStatus` and records the change, only while it
+     * is still in `fromStatus`; false otherwise (or when there is no such shipment)
+     */
+    changeStatus(change: NewStatusChange): Promise<boolean>;
+    /** Status changes of a shipment, oldest first */
+    findStatusHistory(shipmentId: number): Promise<ShipmentStatusChange[]>;
+    list(query: ShipmentPageQuery): Promise<Shipment[]>;
+    /** Tracking events of a guide, oldest first */
+    findTrackingEvents(trackingNumber: string): Promise<StoredTrackingEvent[]>;
+    /**
+     * Stores the events whose key their guide does not have yet; returns
+     * those stored
+     */
+    addTrackingEvents(events: NewTrackingEvent[]): Promise<NewTrackingEvent[]>;
+}
+
+const SORT_COLUMNS: Record<ShipmentSortField, string> = {
+    createdAt: 'created_at',
+    updatedAt: 'updated_at',
+    orderNumber: 'order_number',
+    trackingNumber: 'tracking_number',
+    status: 'status'
+};
+
+// LIMIT is not a placeholder: prepared statements reject numeric LIMIT parameters on some servers
+function limitClause(limit: number): string {
+    return `LIMIT ${Math.max(1, Math.floor(limit))}`;
+}
+
+function toShipment(row: any): Shipment {
+    return {
+        id: row.id,
+        orderNumber: row.order_number,
+        trackingNumber: row.tracking_number,
+        carrier: row.carrier || undefined,
+        booking: row.carrier_booking ? toBooking(JSON.parse(row.carrier_booking)) : undefined,
+        customerName: row.customer_name,
+        customerPhone: row.customer_phone,
+        shippingAddress: row.shipping_address,
+        city: row.city || undefined,
+        shippingPhone: row.shipping_phone,
+        productDescription: row.product_description,
+        status: row.status,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at
+    };
+}
+
+function toBooking(booking: any): CarrierBooking {
+    return { ...booking, estimatedDelivery: booking.estimatedDelivery ? new Date(booking.estimatedDelivery) : null };
+}
+
+function toCarrierEvent(event: any): TrackingEvent {
+    return { ...event, timestamp: new Date(event.timestamp) };
+}
+
+function toStatusChange(row: any): ShipmentStatusChange {
+    return {
+        id: row.id,
+        shipmentId: row.shipment_id,
+        fromStatus: row.from_status,
+        toStatus: row.to_status,
+        triggeredBy: row.triggered_by,
+        carrierEvent: row.carrier_event ? toCarrierEvent(JSON.parse(row.carrier_event)) : null,
+        changedAt: new Date(row.changed_at)
+    };
+}
+
+function toTrackingEvent(row: any): StoredTrackingEvent {
+    return {
+        id: row.id,
+        trackingNumber: row.tracking_number,
+        carrier: row.carrier,
+        key: row.event_key,
+        timestamp: new Date(row.occurred_at),
+        status: row.status,
+        description: row.description ?? '',
+        location: row.location ?? '',
+        details: row.details ?? null,
+        createdAt: new Date(row.created_at)
+    };
+}
+
+const INSERT_STATUS_CHANGE = `
+    INSERT INTO shipment_status_history (shipment_id, from_status, to_status, triggered_by, carrier_event, changed_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+`;
+
+/**
+ * Shipments in the `shipments` table of the TechAura database
+ */
+export class MySqlShipmentRepository implements ShipmentRepository {
+    private pool: mysql.Pool;
+
+    constructor(dbConfig: any) {
+        this.pool = mysql.createPool({
+            host: dbConfig.host,
+            port: dbConfig.port,
+            user: dbConfig.user,
+            password: dbConfig.password,
+            database: dbConfig.database,
+            waitForConnections: true,
+            connectionLimit: 5
+        });
+    }
+
+    async insert(shipment: NewShipment, triggeredBy: string): Promise<Shipment> {
+        return this.transaction(async connection => {
+            const [result] = await connection.execute(`
+                INSERT INTO shipments (
+                    order_number,
+                    tracking_number,
+                    carrier,
+                    carrier_booking,
+                    customer_name,
+                    customer_phone,
+                    shipping_address,
+                    city,
+                    shipping_phone,
+                    product_description,
+                    status,
+                    created_at,
+                    updated_at
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `, [
+                shipment.orderNumber,
+                shipment.trackingNumber,
+                shipment.carrier ?? null,
+                shipment.booking ? JSON.stringify(shipment.booking) : null,
+                shipment.customerName,
+                shipment.customerPhone,
+                shipment.shippingAddress,
+                shipment.city ?? null,
+                shipment.shippingPhone,
+                shipment.productDescription,
+                shipment.status,
+                shipment.createdAt,
+                shipment.updatedAt
+            ]) as any;
+            await connection.execute(INSERT_STATUS_CHANGE, [result.insertId, null, shipment.status, triggeredBy, null, shipment.createdAt]);
+
+            return { id: result.insertId, ...shipment };
+        });
+    }
+
+    async findById(id: number): Promise<Shipment | null> {
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM shipments WHERE id = ?
+        `, [id]) as any;
+        return rows.length > 0 ? toShipment(rows[0]) : null;
+    }
+
+    async findByTrackingNumber(trackingNumber: string): Promise<Shipment | null> {
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM shipments WHERE tracking_number = ?
+        `, [trackingNumber]) as any;
+        return rows.length > 0 ? toShipment(rows[0]) : null;
+    }
+
+    async findByOrderNumber(orderNumber: string): Promise<Shipment | null> {
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM shipments WHERE order_number = ? ORDER BY created_at DESC, id DESC LIMIT 1
+        `, [orderNumber]) as any;
+        return rows.length > 0 ? toShipment(rows[0]) : null;
+    }
+
+    async book(shipmentId: number, booking: ShipmentBooking, triggeredBy: string, changedAt: Date): Promise<boolean> {
+        return this.transaction(async connection => {
+            const [result] = await connection.execute(`
+                UPDATE shipments
+                SET tracking_number = ?, carrier = ?, carrier_booking = ?, status = 'created', updated_at = ?
+                WHERE id = ? AND status = 'ready_for_shipping'
+            `, [booking.trackingNumber, booking.carrier, JSON.stringify(booking.booking), changedAt, shipmentId]) as any;
+            if (result.affectedRows === 0) return false;
+
+            await connection.execute(INSERT_STATUS_CHANGE, [shipmentId, 'ready_for_shipping', 'created', triggeredBy, null, changedAt]);
+            return true;
+        });
+    }
+
+    async changeStatus(change: NewStatusChange): Promise<boolean> {
+        return this.transaction(async connection => {
+            const [result] = await connection.execute(`
+                UPDATE shipments SET status = ?, updated_at = ? WHERE id = ? AND status = ?
+            `, [change.toStatus, change.changedAt, change.shipmentId, change.fromStatus]) as any;
+            if (result.affectedRows === 0) return false;
+
+            await connection.execute(INSERT_STATUS_CHANGE, [
+                change.shipmentId,
+                change.fromStatus,
+                change.toStatus,
+                change.triggeredBy,
+                change.carrierEvent ? JSON.stringify(change.carrierEvent) : null,
+                change.changedAt
+            ]);
+            return true;
+        });
+    }
+
+    async findStatusHistory(shipmentId: number): Promise<ShipmentStatusChange[]> {
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM shipment_status_history WHERE shipment_id = ? ORDER BY changed_at, id
+        `, [shipmentId]) as any;
+        return rows.map(toStatusChange);
+    }
+
+    async list(query: ShipmentPageQuery): Promise<Shipment[]> {
+        const { filter } = query;
+        const conditions: string[] = [];
+        const params: any[] = [];
+        if (filter.statuses && filter.statuses.length > 0) {
+            conditions.push(`status IN (${filter.statuses.map(() => '?').join(', ')})`);
+            params.push(...filter.statuses);
+        }
+        if (filter.carrier) {
+            conditions.push('carrier = ?');
+            params.push(filter.carrier);
+        }
+        if (filter.city) {
+            conditions.push('city = ?');
+            params.push(filter.city);
+        }
+        if (filter.createdFrom) {
+            conditions.push('created_at >= ?');
+            params.push(filter.createdFrom);
+        }
+        if (filter.createdBefore) {
+            conditions.push('created_at < ?');
+            params.push(filter.createdBefore);
+        }
+        if (filter.phone) {
+            conditions.push('(customer_phone LIKE ? OR shipping_phone LIKE ?)');
+            params.push(`%${filter.phone}%`, `%${filter.phone}%`);
+        }
+        if (filter.search) {
+            const columns = ['order_number', 'tracking_number', 'customer_name', 'shipping_address', 'product_description'];
+            conditions.push(`(${columns.map(column => `${column} LIKE ?`).join(' OR ')})`);
+            params.push(...columns.map(() => `%${filter.search}%`));
+        }
+
+        const column = SORT_COLUMNS[query.sort];
+        const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+        if (query.after) {
+            const comparison = query.order === 'asc' ? '>' : '<';
+            conditions.push(`(${column} ${comparison} ? OR (${column} = ? AND id ${comparison} ?))`);
+            params.push(query.after.value, query.after.value, query.after.id);
+        }
+
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM shipments
+            ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+            ORDER BY ${column} ${direction}, id ${direction}
+            ${limitClause(query.limit)}
+        `, params) as any;
+        return rows.map(toShipment);
+    }
+
+    async findTrackingEvents(trackingNumber: string): Promise<StoredTrackingEvent[]> {
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM tracking_events WHERE tracking_number = ? ORDER BY occurred_at, id
+        `, [trackingNumber]) as any;
+        return rows.map(toTrackingEvent);
+    }
+
+    async addTrackingEvents(events: NewTrackingEvent[]): Promise<NewTrackingEvent[]> {
+        const added: NewTrackingEvent[] = [];
+        for (const event of events) {
+            // The unique (tracking_number, event_key) index skips events stored before
+            const [result] = await this.pool.execute(`
+                INSERT IGNORE INTO tracking_events (
+                    tracking_number,
+                    carrier,
+                    event_key,
+                    status,
+                    description,
+                    location,
+                    details,
+                    occurred_at,
+                    created_at
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `, [
+                event.trackingNumber,
+                event.carrier,
+                event.key,
+                event.status,
+                event.description || null,
+                event.location || null,
+                event.details ?? null,
+                event.timestamp,
+                event.createdAt
+            ]) as any;
+            if (result.affectedRows > 0) added.push(event);
+        }
+        return added;
+    }
+
+    /**
+     * Runs the statements on one connection, committed together or not at all
+     */
+    private async transaction<T>(work: (connection: mysql.PoolConnection) => Promise<T>): Promise<T> {
+        const connection = await this.pool.getConnection();
+        try {
+            await connection.beginTransaction();
+            const result = await work(connection);
+            await connection.commit();
+            return result;
+        } catch (error) {
+            await connection.rollback();
+            throw error;
+        } finally {
+            connection.release();
+        }
+    }
+}
+
+/**
+ * Lowercase text without accents, for the case and accent insensitive
+ * comparisons MySQL's collation makes
+ */
+function plain(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function compareValues(a: string | Date, b: string | Date): number {
+    if (a instanceof Date || b instanceof Date) {
+        return new Date(a).getTime() - new Date(b).getTime();
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Shipments kept in memory, for running without MySQL
+ */
+export class InMemoryShipmentRepository implements ShipmentRepository {
+    private readonly shipments: Shipment[] = [];
+    private readonly history: ShipmentStatusChange[] = [];
+    private readonly trackingEvents: StoredTrackingEvent[] = [];
+
+    async insert(shipment: NewShipment, triggeredBy: string): Promise<Shipment> {
+        const stored = { id: this.shipments.length + 1, ...shipment };
+        this.shipments.push(stored);
+        this.record({ shipmentId: stored.id, fromStatus: null, toStatus: stored.status, triggeredBy, carrierEvent: null, changedAt: stored.createdAt });
+        return { ...stored };
+    }
+
+    async findById(id: number): Promise<Shipment | null> {
+        const shipment = this.shipments.find(s => s.id === id);
+        return shipment ? { ...shipment } : null;
+    }
+
+    async findByTrackingNumber(trackingNumber: string): Promise<Shipment | null> {
+        const shipment = this.shipments.find(s => s.trackingNumber === trackingNumber);
+        return shipment ? { ...shipment } : null;
+    }
+
+    async findByOrderNumber(orderNumber: string): Promise<Shipment | null> {
+        const shipment = [...this.shipments].reverse().find(s => s.orderNumber === orderNumber);
+        return shipment ? { ...shipment } : null;
+    }
+
+    async book(shipmentId: number, booking: ShipmentBooking, triggeredBy: string, changedAt: Date): Promise<boolean> {
+        const shipment = this.shipments.find(s => s.id === shipmentId);
+        if (!shipment || shipment.status !== 'ready_for_shipping') return false;
+        Object.assign(shipment, booking, { status: 'created', updatedAt: changedAt });
+        this.record({ shipmentId, fromStatus: 'ready_for_shipping', toStatus: 'created', triggeredBy, carrierEvent: null, changedAt });
+        return true;
+    }
+
+    async changeStatus(change: NewStatusChange): Promise<boolean> {
+        const shipment = this.shipments.find(s => s.id === change.shipmentId);
+        if (!shipment || shipment.status !== change.fromStatus) return false;
+        Object.assign(shipment, { status: change.toStatus, updatedAt: change.changedAt });
+        this.record(change);
+        return true;
+    }
+
+    async findStatusHistory(shipmentId: number): Promise<ShipmentStatusChange[]> {
+        return this.history.filter(change => change.shipmentId === shipmentId).map(change => ({ ...change }));
+    }
+
+    async list(query: ShipmentPageQuery): Promise<Shipment[]> {
+        const { filter } = query;
+        const search = filter.search && plain(filter.search);
+        const city = filter.city && plain(filter.city);
+        const matches = (shipment: Shipment) =>
+            (!filter.statuses || filter.statuses.length === 0 || filter.statuses.includes(shipment.status))
+            && (!filter.carrier || shipment.carrier === filter.carrier)
+            && (!city || (!!shipment.city && plain(shipment.city) === city))
+            && (!filter.createdFrom || shipment.createdAt >= filter.createdFrom)
+            && (!filter.createdBefore || shipment.createdAt < filter.createdBefore)
+            && (!filter.phone || [shipment.customerPhone, shipment.shippingPhone].some(phone => !!phone && phone.includes(filter.phone!)))
+            && (!search || [shipment.orderNumber, shipment.trackingNumber, shipment.customerName, shipment.shippingAddress, shipment.productDescription]
+                .some(text => !!text && plain(text).includes(search)));
+
+        const direction = query.order === 'asc' ? 1 : -1;
+        const compare = (value: string | Date, id: number, other: Shipment) =>
+            compareValues(value, other[query.sort]) || id - other.id;
+        const after = query.after;
+
+        return this.shipments
+            .filter(matches)
+            .sort((a, b) => direction * compare(a[query.sort], a.id, b))
+            .filter(shipment => !after || direction * compare(after.value, after.id, shipment) < 0)
+            .slice(0, query.limit)
+            .map(shipment => ({ ...shipment }));
+    }
+
+    async findTrackingEvents(trackingNumber: string): Promise<StoredTrackingEvent[]> {
+        return this.trackingEvents
+            .filter(event => event.trackingNumber === trackingNumber)
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || a.id - b.id)
+            .map(event => ({ ...event }));
+    }
+
+    async addTrackingEvents(events: NewTrackingEvent[]): Promise<NewTrackingEvent[]> {
+        const added: NewTrackingEvent[] = [];
+        for (const event of events) {
+            if (this.trackingEvents.some(stored => stored.trackingNumber === event.trackingNumber && stored.key === event.key)) continue;
+            this.trackingEvents.push({ id: this.trackingEvents.length + 1, ...event });
+            added.push(event);
+        }
+        return added;
+    }
+
+    private record(change: Omit<ShipmentStatusChange, 'id'>): void {
+        this.history.push({ id: this.history.length + 1, ...change });
+    }
+}
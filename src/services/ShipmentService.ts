@@ -1,21 +1,96 @@
-import mysql from 'mysql2/promise';
-import { config } from '../config/config';
-import { CreateShipmentRequest, Shipment } from '../types';
+import { createHash } from 'crypto';
+import { CreateShipmentRequest, Shipment, ShipmentStatusChange, StoredTrackingEvent } from '../types';
+import { ShipmentStatus, TrackingEvent } from '../carriers/types';
+import { ShipmentBooking, ShipmentFilter, ShipmentPageQuery, ShipmentRepository, ShipmentSortField } from './ShipmentRepository';
+import { getRepositories } from './Repositories';
+import { assertTransition } from './ShipmentLifecycle';
 
-export class ShipmentService {
-    private pool: mysql.Pool;
+/**
+ * Who or what changes a shipment's status, recorded in its history
+ */
+export interface StatusTrigger {
+    /** e.g. 'webhook', 'carrier:servientrega', 'operator' */
+    triggeredBy: string;
+    /** The carrier tracking event behind the change */
+    carrierEvent?: TrackingEvent;
+}
+
+// Attempts to apply a status change while other changes keep landing first
+const MAX_STATUS_ATTEMPTS = 3;
+
+export const SHIPMENT_SORT_FIELDS: ShipmentSortField[] = ['createdAt', 'updatedAt', 'orderNumber', 'trackingNumber', 'status'];
 
+const DATE_SORT_FIELDS: ShipmentSortField[] = ['createdAt', 'updatedAt'];
+
+export interface ShipmentListOptions {
+    filter?: ShipmentFilter;
+    /** 'createdAt' by default */
+    sort?: ShipmentSortField;
+    /** 'desc' by default */
+    order?: 'asc' | 'desc';
+    limit?: number;
+    /** `nextCursor` of the previous page, listed with the same sort and order */
+    cursor?: string;
+}
+
+export interface ShipmentPage {
+    shipments: Shipment[];
+    /** Where the next page starts; null on the last page */
+    nextCursor: string | null;
+}
+
+/**
+ * A cursor that is not one of this listing's `nextCursor`s
+ */
+export class InvalidCursorError extends Error {
     constructor() {
-        this.pool = mysql.createPool({
-            host: config.techauraDb.host,
-            port: config.techauraDb.port,
-            user: config.techauraDb.user,
-            password: config.techauraDb.password,
-            database: config.techauraDb.database,
-            waitForConnections: true,
-            connectionLimit: 5
-        });
+        super('Invalid shipment listing cursor');
+        this.name = 'InvalidCursorError';
+    }
+}
+
+// Position after a listed shipment: its sort value and id, with the sort the cursor is only valid for
+interface CursorPosition {
+    sort: ShipmentSortField;
+    order: 'asc' | 'desc';
+    value: string;
+    id: number;
+}
+
+function encodeCursor(position: CursorPosition): string {
+    return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: ShipmentSortField, order: 'asc' | 'desc'): NonNullable<ShipmentPageQuery['after']> {
+    let position: CursorPosition;
+    try {
+        position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new InvalidCursorError();
+    }
+    if (!position || position.sort !== sort || position.order !== order || typeof position.value !== 'string' || !Number.isInteger(position.id)) {
+        throw new InvalidCursorError();
     }
+    if (!DATE_SORT_FIELDS.includes(sort)) {
+        return { value: position.value, id: position.id };
+    }
+    const value = new Date(position.value);
+    if (isNaN(value.getTime())) throw new InvalidCursorError();
+    return { value, id: position.id };
+}
+
+/**
+ * Identifies a tracking event within its guide: the same moment, status,
+ * description and place is one event however often the carrier reports it
+ */
+export function trackingEventKey(event: TrackingEvent): string {
+    return createHash('sha1')
+        .update([event.timestamp.toISOString(), event.status, event.description, event.location].join('|'))
+        .digest('hex');
+}
+
+export class ShipmentService {
+    constructor(private readonly shipments: ShipmentRepository = getRepositories().shipments) {}
 
     /**
      * Generates a unique tracking number
@@ -28,117 +103,153 @@ export class ShipmentService {
     }
 
     /**
-     * Creates a new shipment record
+     * Creates a new shipment record, its status the first of its history
      */
-    async createShipment(data: CreateShipmentRequest): Promise<Shipment> {
-        const trackingNumber = this.generateTrackingNumber();
+    async createShipment(data: CreateShipmentRequest, triggeredBy = 'system'): Promise<Shipment> {
         const now = new Date();
-
-        const [result] = await this.pool.execute(`
-            INSERT INTO shipments (
-                order_number,
-                tracking_number,
-                customer_name,
-                customer_phone,
-                shipping_address,
-                shipping_phone,
-                product_description,
-                status,
-                created_at,
-                updated_at
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [
-            data.orderNumber,
-            trackingNumber,
-            data.customerName,
-            data.customerPhone,
-            data.shippingAddress,
-            data.shippingPhone,
-            data.productDescription,
-            data.status,
-            now,
-            now
-        ]) as any;
-
-        return {
-            id: result.insertId,
+        return this.shipments.insert({
             orderNumber: data.orderNumber,
-            trackingNumber,
+            trackingNumber: data.trackingNumber || this.generateTrackingNumber(),
+            carrier: data.carrier,
+            booking: data.booking,
             customerName: data.customerName,
             customerPhone: data.customerPhone,
             shippingAddress: data.shippingAddress,
+            city: data.city,
             shippingPhone: data.shippingPhone,
             productDescription: data.productDescription,
             status: data.status,
             createdAt: now,
             updatedAt: now
-        };
+        }, triggeredBy);
+    }
+
+    /**
+     * Gets a shipment by id
+     */
+    async getShipmentById(id: number): Promise<Shipment | null> {
+        return this.shipments.findById(id);
     }
 
     /**
      * Gets a shipment by tracking number
      */
     async getShipmentByTrackingNumber(trackingNumber: string): Promise<Shipment | null> {
-        const [rows] = await this.pool.execute(`
-            SELECT * FROM shipments WHERE tracking_number = ?
-        `, [trackingNumber]) as any;
+        return this.shipments.findByTrackingNumber(trackingNumber);
+    }
 
-        if (rows.length === 0) {
-            return null;
+    /**
+     * Gets the newest shipment of an order
+     */
+    async getShipmentByOrderNumber(orderNumber: string): Promise<Shipment | null> {
+        return this.shipments.findByOrderNumber(orderNumber);
+    }
+
+    /**
+     * A page of the shipments matching the filter; pass its `nextCursor`
+     * back, with the same sort and order, for the next page. Throws
+     * InvalidCursorError for a cursor of another listing.
+     */
+    async listShipments(options: ShipmentListOptions = {}): Promise<ShipmentPage> {
+        const sort = options.sort ?? 'createdAt';
+        const order = options.order ?? 'desc';
+        const limit = Math.max(1, Math.floor(options.limit ?? 50));
+        const after = options.cursor ? decodeCursor(options.cursor, sort, order) : undefined;
+
+        // One more than the page tells whether there is a next one
+        const shipments = await this.shipments.list({ filter: options.filter ?? {}, sort, order, limit: limit + 1, after });
+        if (shipments.length <= limit) {
+            return { shipments, nextCursor: null };
         }
 
-        const row = rows[0];
+        const page = shipments.slice(0, limit);
+        const last = page[page.length - 1];
+        const value = last[sort];
         return {
-            id: row.id,
-            orderNumber: row.order_number,
-            trackingNumber: row.tracking_number,
-            customerName: row.customer_name,
-            customerPhone: row.customer_phone,
-            shippingAddress: row.shipping_address,
-            shippingPhone: row.shipping_phone,
-            productDescription: row.product_description,
-            status: row.status,
-            createdAt: row.created_at,
-            updatedAt: row.updated_at
+            shipments: page,
+            nextCursor: encodeCursor({ sort, order, value: value instanceof Date ? value.toISOString() : value, id: last.id })
         };
     }
 
     /**
-     * Gets a shipment by order number
+     * Moves a shipment to another status of its lifecycle and records the
+     * change. Returns null when there is no such shipment, and the shipment
+     * unchanged when it already has the status; throws
+     * InvalidStatusTransitionError when the lifecycle does not allow the change.
      */
-    async getShipmentByOrderNumber(orderNumber: string): Promise<Shipment | null> {
-        const [rows] = await this.pool.execute(`
-            SELECT * FROM shipments WHERE order_number = ?
-        `, [orderNumber]) as any;
+    async updateShipmentStatus(id: number, status: ShipmentStatus, trigger: StatusTrigger): Promise<Shipment | null> {
+        for (let attempt = 1; attempt <= MAX_STATUS_ATTEMPTS; attempt++) {
+            const shipment = await this.shipments.findById(id);
+            if (!shipment) return null;
+            if (shipment.status === status) return shipment;
+            assertTransition(shipment.status, status);
 
-        if (rows.length === 0) {
-            return null;
+            const changedAt = new Date();
+            const changed = await this.shipments.changeStatus({
+                shipmentId: id,
+                fromStatus: shipment.status,
+                toStatus: status,
+                triggeredBy: trigger.triggeredBy,
+                carrierEvent: trigger.carrierEvent ?? null,
+                changedAt
+            });
+            if (changed) return { ...shipment, status, updatedAt: changedAt };
         }
+        throw new Error(`Shipment ${id} status keeps changing, try again`);
+    }
 
-        const row = rows[0];
-        return {
-            id: row.id,
-            orderNumber: row.order_number,
-            trackingNumber: row.tracking_number,
-            customerName: row.customer_name,
-            customerPhone: row.customer_phone,
-            shippingAddress: row.shipping_address,
-            shippingPhone: row.shipping_phone,
-            productDescription: row.product_description,
-            status: row.status,
-            createdAt: row.created_at,
-            updatedAt: row.updated_at
-        };
+    /**
+     * Stores the carrier guide booked for a shipment waiting in
+     * 'ready_for_shipping' and moves it to 'created'. Returns null when it is
+     * not waiting any more (e.g. another request booked it meanwhile).
+     */
+    async bookShipment(id: number, booking: ShipmentBooking, triggeredBy = 'system'): Promise<Shipment | null> {
+        const shipment = await this.shipments.findById(id);
+        if (!shipment || shipment.status !== 'ready_for_shipping') return null;
+
+        const changedAt = new Date();
+        const booked = await this.shipments.book(id, booking, triggeredBy, changedAt);
+        return booked ? { ...shipment, ...booking, status: 'created', updatedAt: changedAt } : null;
+    }
+
+    /**
+     * Status changes of a shipment, oldest first
+     */
+    async getStatusHistory(id: number): Promise<ShipmentStatusChange[]> {
+        return this.shipments.findStatusHistory(id);
     }
 
     /**
-     * Updates shipment status
+     * Tracking events the carrier reported for a guide, oldest first
      */
-    async updateShipmentStatus(id: number, status: string): Promise<boolean> {
-        const [result] = await this.pool.execute(`
-            UPDATE shipments SET status = ?, updated_at = NOW() WHERE id = ?
-        `, [status, id]) as any;
+    async getTrackingEvents(trackingNumber: string): Promise<StoredTrackingEvent[]> {
+        return this.shipments.findTrackingEvents(trackingNumber);
+    }
 
-        return result.affectedRows > 0;
+    /**
+     * Stores the guide's tracking events that are not stored yet, and returns
+     * them oldest first. Events without a valid timestamp are left out.
+     */
+    async recordTrackingEvents(trackingNumber: string, carrier: string, events: TrackingEvent[]): Promise<TrackingEvent[]> {
+        const stored = new Set((await this.shipments.findTrackingEvents(trackingNumber)).map(event => event.key));
+        const createdAt = new Date();
+        const fresh = new Map<string, TrackingEvent>();
+        for (const event of events) {
+            if (isNaN(event.timestamp.getTime())) continue;
+            const key = trackingEventKey(event);
+            if (!stored.has(key) && !fresh.has(key)) fresh.set(key, event);
+        }
+        if (fresh.size === 0) return [];
+
+        const added = await this.shipments.addTrackingEvents([...fresh].map(([key, event]) => ({
+            ...event,
+            trackingNumber,
+            carrier,
+            key,
+            createdAt
+        })));
+        return added
+            .map(({ timestamp, status, description, location, details }) => ({ timestamp, status, description, location, details }))
+            .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
     }
 }
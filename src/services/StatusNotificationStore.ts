@@ -0,0 +1,150 @@
+import mysql from 'mysql2/promise';
+import { ShipmentStatus } from '../carriers/types';
+import { ShippingStatusUpdate } from './TechAuraIntegration';
+import { ShipmentStatusUpdate } from './WhatsAppSender';
+
+/**
+ * What announces a status change: TechAura's status update, or the
+ * customer's WhatsApp message
+ */
+export type StatusNotificationMessage =
+    | { channel: 'techaura'; update: ShippingStatusUpdate }
+    | { channel: 'whatsapp'; phone: string; update: ShipmentStatusUpdate };
+
+export type NewStatusNotification = StatusNotificationMessage & {
+    shipmentId: number;
+    /** The shipment status it announces */
+    status: ShipmentStatus;
+};
+
+export type StatusNotification = NewStatusNotification & {
+    id: number;
+    /** Deliveries that failed so far */
+    attempts: number;
+    lastError: string | null;
+    createdAt: Date;
+};
+
+/**
+ * Status change announcements not delivered yet, kept until TechAura or
+ * WhatsApp accepts them so they can be tried again
+ */
+export interface StatusNotificationStore {
+    add(notification: NewStatusNotification): Promise<StatusNotification>;
+    /** Notifications still to deliver, oldest first */
+    pending(limit: number): Promise<StatusNotification[]>;
+    /** Counts a failed delivery */
+    markFailed(id: number, error: string): Promise<void>;
+    /** Forgets a notification, once delivered or given up */
+    remove(id: number): Promise<void>;
+}
+
+function toMessage(channel: string, recipient: string | null, payload: string): StatusNotificationMessage {
+    const update = JSON.parse(payload);
+    if (channel === 'whatsapp') {
+        return { channel, phone: recipient || '', update };
+    }
+    return {
+        channel: 'techaura',
+        update: { ...update, estimatedDelivery: update.estimatedDelivery ? new Date(update.estimatedDelivery) : undefined }
+    };
+}
+
+function toNotification(row: any): StatusNotification {
+    return {
+        ...toMessage(row.channel, row.recipient, row.payload),
+        id: row.id,
+        shipmentId: row.shipment_id,
+        status: row.status,
+        attempts: row.attempts,
+        lastError: row.last_error,
+        createdAt: new Date(row.created_at)
+    };
+}
+
+/**
+ * Notifications kept in the `status_notifications` table, so those TechAura
+ * or WhatsApp missed survive restarts
+ */
+export class MySqlStatusNotificationStore implements StatusNotificationStore {
+    private pool: mysql.Pool;
+
+    constructor(dbConfig: any) {
+        this.pool = mysql.createPool({
+            host: dbConfig.host,
+            port: dbConfig.port,
+            user: dbConfig.user,
+            password: dbConfig.password,
+            database: dbConfig.database,
+            waitForConnections: true,
+            connectionLimit: 2
+        });
+    }
+
+    async add(notification: NewStatusNotification): Promise<StatusNotification> {
+        const now = new Date();
+        const recipient = notification.channel === 'whatsapp' ? notification.phone : null;
+        const [result] = await this.pool.execute(`
+            INSERT INTO status_notifications (shipment_id, channel, status, recipient, payload, attempts, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, 0, ?, ?)
+        `, [
+            notification.shipmentId, notification.channel, notification.status, recipient,
+            JSON.stringify(notification.update), now, now
+        ]) as any;
+
+        return { ...notification, id: result.insertId, attempts: 0, lastError: null, createdAt: now };
+    }
+
+    async pending(limit: number): Promise<StatusNotification[]> {
+        // LIMIT is not a placeholder: prepared statements reject numeric LIMIT parameters on some servers
+        const [rows] = await this.pool.execute(`
+            SELECT * FROM status_notifications
+            ORDER BY id
+            LIMIT ${Math.max(1, Math.floor(limit))}
+        `) as any;
+        return rows.map(toNotification);
+    }
+
+    async markFailed(id: number, error: string): Promise<void> {
+        await this.pool.execute(`
+            UPDATE status_notifications
+            SET attempts = attempts + 1, last_error = ?, updated_at = ?
+            WHERE id = ?
+        `, [error, new Date(), id]);
+    }
+
+    async remove(id: number): Promise<void> {
+        await this.pool.execute('DELETE FROM status_notifications WHERE id = ?', [id]);
+    }
+}
+
+/**
+ * Notifications kept in memory, for running without MySQL; they do not
+ * survive a restart
+ */
+export class InMemoryStatusNotificationStore implements StatusNotificationStore {
+    readonly notifications: StatusNotification[] = [];
+    private nextId = 1;
+
+    async add(notification: NewStatusNotification): Promise<StatusNotification> {
+        const stored: StatusNotification = { ...notification, id: this.nextId++, attempts: 0, lastError: null, createdAt: new Date() };
+        this.notifications.push(stored);
+        return { ...stored };
+    }
+
+    async pending(limit: number): Promise<StatusNotification[]> {
+        return this.notifications.slice(0, limit).map(notification => ({ ...notification }));
+    }
+
+    async markFailed(id: number, error: string): Promise<void> {
+        const notification = this.notifications.find(n => n.id === id);
+        if (!notification) return;
+        notification.attempts++;
+        notification.lastError = error;
+    }
+
+    async remove(id: number): Promise<void> {
+        const index = this.notifications.findIndex(n => n.id === id);
+        if (index >= 0) this.notifications.splice(index, 1);
+    }
+}
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { TechAuraShippingStatus } from './ShipmentLifecycle';
 
 const TECHAURA_API_URL = process.env.TECHAURA_API_URL || 'http://127.0.0.1:3009';
 const TECHAURA_API_KEY = process.env.TECHAURA_API_KEY || '';
@@ -73,13 +74,28 @@ export interface MissingDataRequest {
  */
 export interface ShippingStatusUpdate {
     orderNumber: string;
-    status: 'label_created' | 'picked_up' | 'in_transit' | 'delivered' | 'returned';
+    /** TechAura's name of the lifecycle status, see TECHAURA_STATUS */
+    status: TechAuraShippingStatus;
     trackingNumber?: string;
     carrier?: string;
     estimatedDelivery?: Date;
     notes?: string;
 }
 
+/**
+ * Interface for a payment receipt attached to an order as payment proof
+ */
+export interface PaymentProofNotification {
+    orderNumber: string;
+    provider: string | null;
+    amount: number | null;
+    reference: string | null;
+    paidAt: string | null;
+    fileName: string;
+    /** The receipt image or PDF, base64-encoded */
+    fileBase64: string;
+}
+
 /**
  * Service for integrating with the TechAura chatbot API
  * Handles communication for order retrieval and shipping notifications
@@ -268,6 +284,40 @@ export class TechAuraIntegration {
             return false;
         }
     }
+
+    /**
+     * Attach a payment receipt to an order as proof of payment
+     * @param proof - Receipt data and file
+     * @returns true if the receipt was attached
+     */
+    async attachPaymentProof(proof: PaymentProofNotification): Promise<boolean> {
+        try {
+            const response = await axios.post(
+                `${this.apiUrl}/api/shipping/payment-proof`,
+                {
+                    order_number: proof.orderNumber,
+                    provider: proof.provider,
+                    amount: proof.amount,
+                    reference: proof.reference,
+                    paid_at: proof.paidAt,
+                    file_name: proof.fileName,
+                    file_base64: proof.fileBase64
+                },
+                {
+                    headers: {
+                        'X-API-Key': this.apiKey,
+                        'Content-Type': 'application/json'
+                    },
+                    timeout: 5000
+                }
+            );
+
+            return response.data.success;
+        } catch (error) {
+            console.error('Error attaching payment proof:', error);
+            return false;
+        }
+    }
 }
 
 /**
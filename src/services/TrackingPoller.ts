@@ -0,0 +1,189 @@
+import { config } from '../config/config';
+import { sleep } from '../config/retry';
+import { Shipment } from '../types';
+import { Carrier, ShipmentStatus } from '../carriers/types';
+import { detectCarrierByTrackingNumber } from '../carriers/trackingPatterns';
+import { CarrierSelector, carrierSelector } from './CarrierSelector';
+import { ShipmentService } from './ShipmentService';
+import { TrackingUpdater } from './TrackingUpdater';
+
+export interface TrackingPollerOptions {
+    /** Time between the end of a round and the start of the next (ms) */
+    intervalMs: number;
+    /** Tracking requests per minute to a carrier without its own limit */
+    defaultRateLimit: number;
+    /** Tracking requests per minute, by carrier id */
+    rateLimits: Record<string, number>;
+}
+
+/**
+ * What a polling round did
+ */
+export interface TrackingPollSummary {
+    /** Shipments whose carrier was asked */
+    polled: number;
+    newEvents: number;
+    statusChanges: number;
+    /** Lookups that failed; they are tried again next round */
+    failed: number;
+}
+
+/**
+ * Statuses of the shipments a carrier is still moving
+ */
+export const TRACKED_STATUSES: ShipmentStatus[] = ['created', 'picked_up', 'in_transit', 'out_for_delivery', 'failed_delivery'];
+
+const PAGE_SIZE = 100;
+
+/**
+ * Asks the carriers for the tracking of every active shipment, once per
+ * round, and hands what they report to the TrackingUpdater. Each carrier's
+ * lookups are spaced to its rate limit; different carriers are asked at the
+ * same time. A failed lookup is logged and tried again next round, and
+ * so are the status notifications that could not be delivered.
+ */
+export class TrackingPoller {
+    private timer: NodeJS.Timeout | null = null;
+    private started = false;
+    private polling = false;
+    /** When each carrier may be asked next (ms since epoch) */
+    private readonly nextRequestAt = new Map<string, number>();
+
+    constructor(
+        private readonly shipments: ShipmentService,
+        private readonly updater: TrackingUpdater,
+        private readonly carriers: Pick<CarrierSelector, 'getCarrier'> = carrierSelector,
+        private readonly options: TrackingPollerOptions = config.tracking
+    ) {}
+
+    /**
+     * Polls now and then every `intervalMs` after each round ends
+     */
+    start(): void {
+        if (this.started) return;
+        this.started = true;
+        void this.poll();
+    }
+
+    /**
+     * Stops polling; a round under way still finishes
+     */
+    stop(): void {
+        this.started = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Runs one round over the active shipments. A round already under way is
+     * not overlapped: this one is skipped and reports nothing polled.
+     */
+    async pollOnce(): Promise<TrackingPollSummary> {
+        const summary: TrackingPollSummary = { polled: 0, newEvents: 0, statusChanges: 0, failed: 0 };
+        if (this.polling) return summary;
+        this.polling = true;
+        try {
+            await this.retryNotifications();
+
+            const byCarrier = new Map<string, { carrier: Carrier; shipments: Shipment[] }>();
+            for (const shipment of await this.activeShipments()) {
+                const carrierId = shipment.carrier || detectCarrierByTrackingNumber(shipment.trackingNumber);
+                const carrier = carrierId ? this.carriers.getCarrier(carrierId) : undefined;
+                if (!carrier) continue;
+                const group = byCarrier.get(carrier.id) ?? { carrier, shipments: [] };
+                group.shipments.push(shipment);
+                byCarrier.set(carrier.id, group);
+            }
+
+            await Promise.all([...byCarrier.values()].map(async ({ carrier, shipments }) => {
+                for (const shipment of shipments) {
+                    await this.throttle(carrier.id);
+                    await this.track(carrier, shipment, summary);
+                }
+            }));
+        } finally {
+            this.polling = false;
+        }
+        return summary;
+    }
+
+    private async poll(): Promise<void> {
+        if (!this.started) return;
+        try {
+            const summary = await this.pollOnce();
+            if (summary.newEvents > 0 || summary.failed > 0) {
+                console.log(`📡 Tracking polled for ${summary.polled} shipment(s): ${summary.newEvents} new event(s), ${summary.statusChanges} status change(s), ${summary.failed} failed`);
+            }
+        } catch (error) {
+            console.error('⚠️ Tracking poll failed:', (error as Error).message);
+        }
+        if (this.started) {
+            this.timer = setTimeout(() => void this.poll(), this.options.intervalMs);
+            this.timer.unref();
+        }
+    }
+
+    /**
+     * Sends again the status notifications TechAura or WhatsApp did not
+     * accept; a failure here does not hold up the lookups
+     */
+    private async retryNotifications(): Promise<void> {
+        try {
+            const retried = await this.updater.retryNotifications();
+            if (retried.sent + retried.failed + retried.dropped > 0) {
+                console.log(`📣 Status notifications retried: ${retried.sent} sent, ${retried.failed} failed, ${retried.dropped} dropped`);
+            }
+        } catch (error) {
+            console.warn('⚠️ Retrying status notifications failed:', (error as Error).message);
+        }
+    }
+
+    private async activeShipments(): Promise<Shipment[]> {
+        const active: Shipment[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await this.shipments.listShipments({
+                filter: { statuses: TRACKED_STATUSES },
+                sort: 'updatedAt',
+                order: 'asc',
+                limit: PAGE_SIZE,
+                cursor
+            });
+            active.push(...page.shipments);
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+        return active;
+    }
+
+    private async track(carrier: Carrier, shipment: Shipment, summary: TrackingPollSummary): Promise<void> {
+        summary.polled++;
+        try {
+            const info = await carrier.getTrackingInfo(shipment.trackingNumber);
+            const update = await this.updater.apply(shipment, {
+                carrierId: carrier.id,
+                carrierName: carrier.name,
+                events: info.events,
+                status: info.status,
+                estimatedDelivery: info.estimatedDelivery
+            });
+            summary.newEvents += update.newEvents.length;
+            if (update.previousStatus) summary.statusChanges++;
+        } catch (error) {
+            summary.failed++;
+            console.warn(`⚠️ Tracking of ${shipment.trackingNumber} (${carrier.name}) failed:`, (error as Error).message);
+        }
+    }
+
+    /**
+     * Waits for the carrier's next request slot and takes it
+     */
+    private async throttle(carrierId: string): Promise<void> {
+        const spacingMs = 60000 / (this.options.rateLimits[carrierId] || this.options.defaultRateLimit);
+        const now = Date.now();
+        const at = Math.max(now, this.nextRequestAt.get(carrierId) ?? 0);
+        this.nextRequestAt.set(carrierId, at + spacingMs);
+        if (at > now) await sleep(at - now);
+    }
+}
@@ -0,0 +1,197 @@
+import { config } from '../config/config';
+import { Shipment } from '../types';
+import { ShipmentStatus, TrackingEvent } from '../carriers/types';
+import { ShipmentService } from './ShipmentService';
+import { StatusNotification, StatusNotificationMessage, StatusNotificationStore } from './StatusNotificationStore';
+import { canTransition, InvalidStatusTransitionError, TECHAURA_STATUS } from './ShipmentLifecycle';
+import { TechAuraIntegration } from './TechAuraIntegration';
+import { WhatsAppSender } from './WhatsAppSender';
+
+/**
+ * What a carrier reported about one of its guides, from a tracking lookup or
+ * a callback
+ */
+export interface CarrierTrackingReport {
+    carrierId: string;
+    /** Carrier name, as shown to the customer */
+    carrierName: string;
+    /** Events in any order; those already stored are ignored */
+    events: TrackingEvent[];
+    /** The guide's current status, when the carrier states it besides the events */
+    status?: ShipmentStatus;
+    estimatedDelivery?: Date | null;
+}
+
+export interface TrackingUpdate {
+    /** The shipment after the update */
+    shipment: Shipment;
+    /** Events not stored before, oldest first */
+    newEvents: TrackingEvent[];
+    /** The status the shipment had, when the update changed it */
+    previousStatus: ShipmentStatus | null;
+}
+
+/**
+ * Where a shipment's status changes are announced
+ */
+export interface StatusChangeNotifiers {
+    /** Connected dashboards, as a WebSocket `status-change` */
+    dashboard: (orderNumber: string, status: string) => void;
+    techAura: Pick<TechAuraIntegration, 'updateShippingStatus'>;
+    /** The customer; null to not message them */
+    whatsapp: Pick<WhatsAppSender, 'sendStatusUpdate'> | null;
+}
+
+/**
+ * What a round of retried notifications did
+ */
+export interface NotificationRetrySummary {
+    sent: number;
+    failed: number;
+    /** Dropped: out of attempts, or the shipment's status changed since */
+    dropped: number;
+}
+
+/** Deliveries of a notification before it is given up */
+export const MAX_NOTIFICATION_ATTEMPTS = 10;
+
+/**
+ * Applies what carriers report about their guides: stores the events not seen
+ * before, moves the shipment through the statuses they show, oldest first
+ * and as far as its lifecycle allows, and announces the new status. Events
+ * older than one already stored are kept as history but change nothing, so
+ * a report arriving twice or late is harmless. TechAura updates and
+ * WhatsApp messages not accepted are kept and tried again by
+ * retryNotifications.
+ */
+export class TrackingUpdater {
+    constructor(
+        private readonly shipments: ShipmentService,
+        private readonly notifiers: StatusChangeNotifiers,
+        private readonly notifications: StatusNotificationStore,
+        private readonly notifyStatuses: string[] = config.tracking.notifyStatuses
+    ) {}
+
+    async apply(shipment: Shipment, report: CarrierTrackingReport): Promise<TrackingUpdate> {
+        const stored = await this.shipments.getTrackingEvents(shipment.trackingNumber);
+        const latest = stored.length > 0 ? stored[stored.length - 1].timestamp.getTime() : -Infinity;
+        const newEvents = await this.shipments.recordTrackingEvents(shipment.trackingNumber, report.carrierId, report.events);
+        const triggeredBy = `carrier:${report.carrierId}`;
+
+        let current = shipment;
+        let cause: TrackingEvent | undefined;
+        const moveTo = async (status: ShipmentStatus, carrierEvent?: TrackingEvent) => {
+            if (status === current.status || !canTransition(current.status, status)) return;
+            current = await this.shipments.updateShipmentStatus(current.id, status, { triggeredBy, carrierEvent }) ?? current;
+            cause = carrierEvent ?? cause;
+        };
+
+        try {
+            for (const event of newEvents) {
+                if (event.timestamp.getTime() < latest) continue;
+                await moveTo(event.status, event);
+            }
+            if (report.status) {
+                await moveTo(report.status);
+            }
+        } catch (error) {
+            // Someone else changed the status meanwhile; theirs stands
+            if (!(error instanceof InvalidStatusTransitionError)) throw error;
+        }
+
+        if (current.status === shipment.status) {
+            return { shipment: current, newEvents, previousStatus: null };
+        }
+        await this.notify(current, report, cause);
+        return { shipment: current, newEvents, previousStatus: shipment.status };
+    }
+
+    /**
+     * Delivers again the notifications that failed, oldest first. Those of a
+     * shipment whose status changed since, or out of attempts, are dropped.
+     */
+    async retryNotifications(limit = 100): Promise<NotificationRetrySummary> {
+        const summary: NotificationRetrySummary = { sent: 0, failed: 0, dropped: 0 };
+        for (const notification of await this.notifications.pending(limit)) {
+            const shipment = await this.shipments.getShipmentById(notification.shipmentId);
+            if (shipment?.status !== notification.status) {
+                await this.notifications.remove(notification.id);
+                summary.dropped++;
+            } else if (await this.deliver(notification)) {
+                summary.sent++;
+            } else if (notification.attempts + 1 >= MAX_NOTIFICATION_ATTEMPTS) {
+                await this.notifications.remove(notification.id);
+                console.error(`❌ Gave up notifying ${notification.channel} of ${shipment.trackingNumber} ${notification.status} after ${MAX_NOTIFICATION_ATTEMPTS} attempts`);
+                summary.dropped++;
+            } else {
+                summary.failed++;
+            }
+        }
+        return summary;
+    }
+
+    /**
+     * Announces the shipment's new status. TechAura and WhatsApp
+     * notifications are stored first and forgotten once delivered, so one
+     * that fails is tried again.
+     */
+    private async notify(shipment: Shipment, report: CarrierTrackingReport, cause?: TrackingEvent): Promise<void> {
+        this.notifiers.dashboard(shipment.orderNumber, shipment.status);
+
+        const messages: StatusNotificationMessage[] = [];
+        const techAuraStatus = TECHAURA_STATUS[shipment.status as keyof typeof TECHAURA_STATUS];
+        if (techAuraStatus) {
+            messages.push({
+                channel: 'techaura',
+                update: {
+                    orderNumber: shipment.orderNumber,
+                    status: techAuraStatus,
+                    trackingNumber: shipment.trackingNumber,
+                    carrier: report.carrierName,
+                    estimatedDelivery: report.estimatedDelivery ?? undefined,
+                    notes: cause?.description || undefined
+                }
+            });
+        }
+
+        const phone = shipment.shippingPhone || shipment.customerPhone;
+        if (this.notifiers.whatsapp && phone && this.notifyStatuses.includes(shipment.status)) {
+            messages.push({
+                channel: 'whatsapp',
+                phone,
+                update: {
+                    trackingNumber: shipment.trackingNumber,
+                    carrier: report.carrierName,
+                    status: shipment.status,
+                    description: cause?.description || undefined
+                }
+            });
+        }
+
+        for (const message of messages) {
+            await this.deliver(await this.notifications.add({ ...message, shipmentId: shipment.id, status: shipment.status }));
+        }
+    }
+
+    /**
+     * Sends the notification and forgets it once accepted; otherwise counts
+     * the failed attempt. True when it was delivered.
+     */
+    private async deliver(notification: StatusNotification): Promise<boolean> {
+        let error: string;
+        try {
+            const delivered = notification.channel === 'techaura'
+                ? await this.notifiers.techAura.updateShippingStatus(notification.update)
+                : await this.notifiers.whatsapp?.sendStatusUpdate(notification.phone, notification.update) ?? false;
+            if (delivered) {
+                await this.notifications.remove(notification.id);
+                return true;
+            }
+            error = notification.channel === 'techaura' ? 'TechAura did not accept the update' : 'WhatsApp send failed';
+        } catch (e) {
+            error = (e as Error).message;
+        }
+        await this.notifications.markFailed(notification.id, error);
+        return false;
+    }
+}
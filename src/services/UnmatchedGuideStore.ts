@@ -0,0 +1,232 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import mysql from 'mysql2/promise';
+import { UnmatchedGuide } from '../types';
+
+export type NewUnmatchedGuide = Pick<UnmatchedGuide, 'reason' | 'source' | 'guide' | 'fileName' | 'candidates'>;
+
+export interface UnmatchedGuideFilter {
+    status?: UnmatchedGuide['status'];
+    /** Matched against the tracking number, customer name and phone, city and file name */
+    query?: string;
+}
+
+/**
+ * Persistent review queue of the guides that could not be sent
+ * automatically. Each entry keeps a copy of its guide file, since the
+ * original is moved or deleted once processed; the copies live in the
+ * store's folder.
+ */
+export interface UnmatchedGuideStore {
+    /**
+     * Adds a guide and copies its file. A pending entry for the same tracking
+     * number (e.g. a file dropped again) is replaced rather than repeated.
+     */
+    add(entry: NewUnmatchedGuide, filePath: string): Promise<UnmatchedGuide>;
+    get(id: string): Promise<UnmatchedGuide | null>;
+    /** Entries newest first, optionally filtered by status and free text */
+    list(filter?: UnmatchedGuideFilter): Promise<UnmatchedGuide[]>;
+    /** Absolute path of the entry's copy of its guide file */
+    filePath(guide: UnmatchedGuide): string;
+    markAssigned(id: string, orderNumber: string, sentTo: string): Promise<UnmatchedGuide>;
+}
+
+function plain(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function matchesQuery(guide: UnmatchedGuide, query: string): boolean {
+    return [guide.guide.trackingNumber, guide.guide.customerName, guide.guide.customerPhone, guide.guide.city, guide.fileName]
+        .some(value => value && plain(value).includes(query));
+}
+
+/**
+ * A new pending entry, its file copied into the store's folder
+ */
+function storeEntry(dir: string, entry: NewUnmatchedGuide, filePath: string): UnmatchedGuide {
+    const id = crypto.randomUUID();
+    const storedFile = `${id}${path.extname(filePath).toLowerCase()}`;
+    fs.mkdirSync(dir, { recursive: true });
+    fs.copyFileSync(filePath, path.join(dir, storedFile));
+
+    return {
+        ...entry,
+        // The OCR text is only useful in the watch folder's sidecar report
+        guide: { ...entry.guide, rawText: '' },
+        id,
+        storedFile,
+        status: 'pending',
+        createdAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Review queue kept in a folder, with the entries in its `index.json`; used
+ * when running without MySQL
+ */
+export class FileUnmatchedGuideStore implements UnmatchedGuideStore {
+    private guides: UnmatchedGuide[];
+    private readonly indexPath: string;
+
+    constructor(private readonly dir: string) {
+        this.indexPath = path.join(dir, 'index.json');
+        this.guides = this.load();
+    }
+
+    async add(entry: NewUnmatchedGuide, filePath: string): Promise<UnmatchedGuide> {
+        const tracking = entry.guide.trackingNumber.toUpperCase();
+        const previous = tracking
+            ? this.guides.find(g => g.status === 'pending' && g.guide.trackingNumber.toUpperCase() === tracking)
+            : undefined;
+        if (previous) this.remove(previous);
+
+        const guide = storeEntry(this.dir, entry, filePath);
+        this.guides.push(guide);
+        this.save();
+        return guide;
+    }
+
+    async get(id: string): Promise<UnmatchedGuide | null> {
+        return this.guides.find(g => g.id === id) || null;
+    }
+
+    async list(filter: UnmatchedGuideFilter = {}): Promise<UnmatchedGuide[]> {
+        const query = filter.query ? plain(filter.query.trim()) : '';
+        return this.guides
+            .filter(g => !filter.status || g.status === filter.status)
+            .filter(g => !query || matchesQuery(g, query))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    filePath(guide: UnmatchedGuide): string {
+        return path.resolve(this.dir, guide.storedFile);
+    }
+
+    async markAssigned(id: string, orderNumber: string, sentTo: string): Promise<UnmatchedGuide> {
+        const guide = await this.get(id);
+        if (!guide) throw new Error(`Unmatched guide ${id} not found`);
+        Object.assign(guide, { status: 'assigned', orderNumber, sentTo, assignedAt: new Date().toISOString() });
+        this.save();
+        return guide;
+    }
+
+    private remove(guide: UnmatchedGuide): void {
+        this.guides = this.guides.filter(g => g !== guide);
+        fs.rmSync(this.filePath(guide), { force: true });
+    }
+
+    private load(): UnmatchedGuide[] {
+        try {
+            return JSON.parse(fs.readFileSync(this.indexPath, 'utf8')).guides || [];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error(`⚠️ Could not read unmatched guides ${this.indexPath}, starting empty:`, (error as Error).message);
+            }
+            return [];
+        }
+    }
+
+    /**
+     * Writes through a temp file so a crash mid-write cannot corrupt the index
+     */
+    private save(): void {
+        fs.mkdirSync(this.dir, { recursive: true });
+        const tmpPath = `${this.indexPath}.tmp`;
+        fs.writeFileSync(tmpPath, JSON.stringify({ guides: this.guides }, null, 2));
+        fs.renameSync(tmpPath, this.indexPath);
+    }
+}
+
+function toGuide(row: any): UnmatchedGuide {
+    return {
+        id: row.id,
+        reason: row.reason,
+        source: row.source,
+        guide: JSON.parse(row.guide),
+        fileName: row.file_name,
+        storedFile: row.stored_file,
+        candidates: JSON.parse(row.candidates),
+        status: row.status,
+        createdAt: new Date(row.created_at).toISOString(),
+        ...(row.assigned_at ? { assignedAt: new Date(row.assigned_at).toISOString() } : {}),
+        ...(row.order_number ? { orderNumber: row.order_number } : {}),
+        ...(row.sent_to ? { sentTo: row.sent_to } : {})
+    };
+}
+
+/**
+ * Review queue kept in the `unmatched_guides` table, with the guide files in
+ * a folder
+ */
+export class MySqlUnmatchedGuideStore implements UnmatchedGuideStore {
+    private pool: mysql.Pool;
+
+    constructor(dbConfig: any, private readonly dir: string) {
+        this.pool = mysql.createPool({
+            host: dbConfig.host,
+            port: dbConfig.port,
+            user: dbConfig.user,
+            password: dbConfig.password,
+            database: dbConfig.database,
+            waitForConnections: true,
+            connectionLimit: 5
+        });
+    }
+
+    async add(entry: NewUnmatchedGuide, filePath: string): Promise<UnmatchedGuide> {
+        const tracking = entry.guide.trackingNumber.toUpperCase();
+        if (tracking) {
+            const [rows] = await this.pool.execute(
+                "SELECT id, stored_file FROM unmatched_guides WHERE tracking_number = ? AND status = 'pending'",
+                [tracking]
+            ) as any;
+            for (const previous of rows as any[]) {
+                await this.pool.execute('DELETE FROM unmatched_guides WHERE id = ?', [previous.id]);
+                fs.rmSync(path.resolve(this.dir, previous.stored_file), { force: true });
+            }
+        }
+
+        const guide = storeEntry(this.dir, entry, filePath);
+        await this.pool.execute(`
+            INSERT INTO unmatched_guides (id, reason, source, tracking_number, file_name, stored_file, guide, candidates, status, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [
+            guide.id, guide.reason, guide.source, tracking || null, guide.fileName, guide.storedFile,
+            JSON.stringify(guide.guide), JSON.stringify(guide.candidates), guide.status, new Date(guide.createdAt)
+        ]);
+        return guide;
+    }
+
+    async get(id: string): Promise<UnmatchedGuide | null> {
+        const [rows] = await this.pool.execute('SELECT * FROM unmatched_guides WHERE id = ?', [id]) as any;
+        return rows.length > 0 ? toGuide(rows[0]) : null;
+    }
+
+    /**
+     * The status is filtered in SQL; the free text is matched here, since it
+     * searches fields of the stored guide accent-insensitively
+     */
+    async list(filter: UnmatchedGuideFilter = {}): Promise<UnmatchedGuide[]> {
+        const [rows] = filter.status
+            ? await this.pool.execute('SELECT * FROM unmatched_guides WHERE status = ? ORDER BY created_at DESC', [filter.status]) as any
+            : await this.pool.execute('SELECT * FROM unmatched_guides ORDER BY created_at DESC') as any;
+        const query = filter.query ? plain(filter.query.trim()) : '';
+        return (rows as any[]).map(toGuide).filter(g => !query || matchesQuery(g, query));
+    }
+
+    filePath(guide: UnmatchedGuide): string {
+        return path.resolve(this.dir, guide.storedFile);
+    }
+
+    async markAssigned(id: string, orderNumber: string, sentTo: string): Promise<UnmatchedGuide> {
+        const [result] = await this.pool.execute(`
+            UPDATE unmatched_guides
+            SET status = 'assigned', order_number = ?, sent_to = ?, assigned_at = ?
+            WHERE id = ?
+        `, [orderNumber, sentTo, new Date(), id]) as any;
+        const guide = result.affectedRows > 0 ? await this.get(id) : null;
+        if (!guide) throw new Error(`Unmatched guide ${id} not found`);
+        return guide;
+    }
+}
@@ -1,15 +1,26 @@
 import * as fs from 'fs';
-import { ExtractedOrderData } from '../types';
-import colombianCities from '../data/colombian-cities.json';
-
-interface CityEntry {
-    city: string;
-    department: string;
-}
+import * as path from 'path';
+import { ExtractedOrderData, Municipality } from '../types';
+import { ImagePreprocessor, createPreprocessor } from './ImagePreprocessor';
+import { OcrWorkerPool, ocrWorkerPool } from './OcrWorkerPool';
+import { OcrCache, ocrCache } from './OcrCache';
+import { parseColombianAddress } from './AddressNormalizer';
+import { CityGazetteer, cityGazetteer } from './CityGazetteer';
+import { config } from '../config/config';
 
 export class WhatsAppChatParser {
-    private tesseract: any = null;
-    private readonly cities: CityEntry[] = colombianCities as CityEntry[];
+    /**
+     * @param preprocessor - Image cleanup run before OCR (defaults to the 'whatsapp' source settings)
+     * @param ocrPool - Tesseract workers that run the OCR (defaults to the shared pool)
+     * @param ocrCache - OCR results by file content; null disables it
+     * @param gazetteer - Municipalities the city is looked up in
+     */
+    constructor(
+        private readonly preprocessor: ImagePreprocessor = createPreprocessor('whatsapp'),
+        private readonly ocrPool: OcrWorkerPool = ocrWorkerPool,
+        private readonly ocrCache: OcrCache | null = config.ocr.cache.enabled ? ocrCache : null,
+        private readonly gazetteer: CityGazetteer = cityGazetteer
+    ) {}
 
     /**
      * Parse a single WhatsApp screenshot image and extract order data.
@@ -21,40 +32,42 @@ export class WhatsAppChatParser {
 
     /**
      * Parse multiple WhatsApp screenshot images in batch.
+     * Images are read in parallel, but only as many as the OCR pool has
+     * workers are decoded and preprocessed at a time, so a large chat
+     * export is not held in memory all at once.
      */
     async parseImages(imagePaths: string[]): Promise<ExtractedOrderData[]> {
-        const results: ExtractedOrderData[] = [];
-        for (const imagePath of imagePaths) {
-            const result = await this.parseImage(imagePath);
-            results.push(result);
-        }
+        const results: ExtractedOrderData[] = new Array(imagePaths.length);
+        let next = 0;
+        const parseNext = async (): Promise<void> => {
+            while (next < imagePaths.length) {
+                const index = next++;
+                results[index] = await this.parseImage(imagePaths[index]);
+            }
+        };
+        const lanes = Math.min(imagePaths.length, Math.max(1, this.ocrPool.getMetrics().size));
+        await Promise.all(Array.from({ length: lanes }, parseNext));
         return results;
     }
 
     private async performOCR(imagePath: string): Promise<string> {
-        if (!this.tesseract) {
-            const tesseractModule = await import('tesseract.js');
-            this.tesseract = tesseractModule.default || tesseractModule;
-        }
-
-        const result = await this.tesseract.recognize(imagePath, 'spa', {
-            logger: (m: any) => {
-                if (m.status === 'recognizing text') {
-                    process.stdout.write(`\rOCR: ${Math.round(m.progress * 100)}%`);
-                }
-            }
-        });
-
-        console.log('');
-        return result.data.text || '';
+        const recognize = async () => {
+            const image = await this.preprocessor.process(imagePath);
+            return this.ocrPool.recognize(image, { source: 'whatsapp', label: path.basename(imagePath) });
+        };
+        const result = this.ocrCache
+            ? await this.ocrCache.resolve(imagePath, 'whatsapp', recognize)
+            : await recognize();
+        return result.text;
     }
 
     private extractOrderData(rawText: string, imageSource?: string): ExtractedOrderData {
         const customerName = this.extractName(rawText);
         const phone = this.extractPhone(rawText);
         const address = this.extractAddress(rawText);
-        const { city, department } = this.extractCityAndDepartment(rawText);
-        const neighborhood = this.extractNeighborhood(rawText);
+        const structuredAddress = address ? parseColombianAddress(address) ?? undefined : undefined;
+        const { city, department, daneCode } = this.extractCityAndDepartment(rawText);
+        const neighborhood = this.extractNeighborhood(rawText) ?? structuredAddress?.neighborhood ?? null;
         const cedula = this.extractCedula(rawText);
         const references = this.extractReferences(rawText);
 
@@ -75,9 +88,11 @@ export class WhatsAppChatParser {
             customerName,
             phone,
             address,
+            structuredAddress,
             city,
             neighborhood,
             department,
+            daneCode,
             cedula,
             references,
             product: null,
@@ -195,11 +210,10 @@ export class WhatsAppChatParser {
                 result = result.replace(/(?:tel\.?|cel\.?)?\s*\+?(?:57)?\s*3\d[\s\d\-]{8,}/gi, '').trim();
                 // Remove timestamps (e.g. "3:45 am", "10:30 p.m.")
                 result = result.replace(/\d{1,2}:\d{2}\s*[ap]\.?m\.?/gi, '').trim();
-                // Remove known Colombian city names at the end of the result
-                for (const entry of this.cities) {
-                    const escaped = entry.city.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-                    const cityRegex = new RegExp(`\\s*\\b${escaped}\\b\\s*$`, 'i');
-                    result = result.replace(cityRegex, '').trim();
+                // Remove a known Colombian city name at the end of the result
+                const trailingCity = this.gazetteer.findAll(result).pop();
+                if (trailingCity && /^[\s,.\-]*$/.test(result.substring(trailingCity.index + trailingCity.length))) {
+                    result = result.substring(0, trailingCity.index).trim();
                 }
                 // Remove trailing separators / punctuation
                 result = result.replace(/[,\-\s]+$/, '').trim();
@@ -217,9 +231,7 @@ export class WhatsAppChatParser {
         return this.extractCityAndDepartment(text).city;
     }
 
-    private extractCityAndDepartment(text: string): { city: string | null; department: string | null } {
-        const lowerText = text.toLowerCase();
-
+    private extractCityAndDepartment(text: string): { city: string | null; department: string | null; daneCode?: string } {
         // Try labeled city patterns first (require colon separator to avoid false positives)
         const cityPatterns = [
             /ciudad\s*:\s*([^\n,]+)/i,
@@ -231,28 +243,23 @@ export class WhatsAppChatParser {
             const match = text.match(pattern);
             if (match?.[1]) {
                 const cityName = match[1].trim();
-                // Try to find in known cities
-                const found = this.cities.find(
-                    c => c.city.toLowerCase() === cityName.toLowerCase()
-                );
-                if (found) {
-                    return { city: found.city, department: found.department };
+                // Try to find in known cities, reading on past the comma for its department
+                const valueStart = (match.index ?? 0) + match[0].lastIndexOf(match[1]);
+                const found = this.gazetteer.findAll(text.substring(valueStart, valueStart + match[1].length + 60))[0];
+                if (found && found.index < match[1].length) {
+                    return this.fromMunicipality(found.municipality);
                 }
                 return { city: cityName, department: null };
             }
         }
 
         // Scan text for known Colombian cities
-        for (const entry of this.cities) {
-            const cityLower = entry.city.toLowerCase();
-            // Use word boundary to avoid partial matches
-            const regex = new RegExp(`\\b${cityLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`);
-            if (regex.test(lowerText)) {
-                return { city: entry.city, department: entry.department };
-            }
-        }
+        const found = this.gazetteer.findInText(text);
+        return found ? this.fromMunicipality(found.municipality) : { city: null, department: null };
+    }
 
-        return { city: null, department: null };
+    private fromMunicipality(municipality: Municipality): { city: string; department: string; daneCode: string } {
+        return { city: municipality.name, department: municipality.department, daneCode: municipality.code };
     }
 
     extractNeighborhood(text: string): string | null {
@@ -275,13 +282,14 @@ export class WhatsAppChatParser {
                     return null;
                 }
 
-                // If it contains a known city name, keep only the part before that city
-                for (const entry of this.cities) {
-                    const cityLower = entry.city.toLowerCase();
-                    const idx = neighborhood.toLowerCase().indexOf(cityLower);
-                    if (idx > 0) {
-                        neighborhood = neighborhood.substring(0, idx).replace(/[-,\s]+$/, '').trim();
-                        break;
+                // If it ends with a known city name (and maybe its department), keep only the part before that city.
+                // A lone article before it is part of the barrio's own name ("La Candelaria")
+                const city = this.gazetteer.findAll(neighborhood).filter(mention => mention.index > 0).pop();
+                if (city) {
+                    const before = neighborhood.substring(0, city.index).replace(/[-,\s]+$/, '').trim();
+                    const afterCity = neighborhood.substring(city.index + city.length);
+                    if ((city.departmentConfirmed || /^[\s,.\-]*$/.test(afterCity)) && /[A-Za-zÁÉÍÓÚÑáéíóúñ]{4,}/.test(before)) {
+                        neighborhood = before;
                     }
                 }
 
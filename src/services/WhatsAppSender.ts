@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import FormData from 'form-data';
 import { ShippingGuideData } from '../types';
+import { ShipmentStatus } from '../carriers/types';
 import { 
     RetryConfig, 
     CircuitBreakerConfig, 
@@ -34,6 +35,18 @@ export interface StructuredLog {
     metadata?: Record<string, unknown>;
 }
 
+/**
+ * A change of a shipment's status to tell the customer about
+ */
+export interface ShipmentStatusUpdate {
+    trackingNumber: string;
+    /** Carrier name, as shown to the customer */
+    carrier: string;
+    status: ShipmentStatus;
+    /** The carrier's description of the event, e.g. why a delivery failed */
+    description?: string;
+}
+
 export interface HealthCheckResult {
     healthy: boolean;
     message: string;
@@ -411,6 +424,45 @@ export class WhatsAppSender {
         }
     }
 
+    /**
+     * Tells the customer their shipment changed status, e.g. it is out for
+     * delivery or was delivered
+     */
+    async sendStatusUpdate(phone: string, update: ShipmentStatusUpdate): Promise<boolean> {
+        try {
+            await this.sendText(this.formatPhone(phone), this.formatStatusMessage(update));
+
+            this.log({
+                level: 'INFO',
+                action: 'send_status_update_success',
+                message: 'Successfully sent shipment status update',
+                metadata: {
+                    phone: this.maskPhone(phone),
+                    trackingNumber: update.trackingNumber,
+                    status: update.status
+                }
+            });
+
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+
+            this.log({
+                level: 'ERROR',
+                action: 'send_status_update_failed',
+                message: 'Failed to send shipment status update',
+                metadata: {
+                    phone: this.maskPhone(phone),
+                    trackingNumber: update.trackingNumber,
+                    status: update.status,
+                    error: errorMessage
+                }
+            });
+
+            return false;
+        }
+    }
+
     /**
      * Mask phone number for logging (privacy)
      */
@@ -477,4 +529,42 @@ Puedes rastrear tu envío en la página de la transportadora.
 
 _Escribe "rastrear" para ver el estado de tu envío._`;
     }
+
+    private formatStatusMessage(update: ShipmentStatusUpdate): string {
+        const guide = `📦 *Número de guía:* ${update.trackingNumber}
+🏢 *Transportadora:* ${update.carrier}`;
+
+        switch (update.status) {
+            case 'out_for_delivery':
+                return `🛵 *¡Tu pedido va en camino a tu dirección!*
+
+${guide}
+
+Hoy lo recibirás; ten a mano tu documento y, si es contraentrega, el valor a pagar.`;
+            case 'delivered':
+                return `✅ *¡Tu pedido fue entregado!*
+
+${guide}
+
+¡Gracias por tu compra en TechAura! 🎉`;
+            case 'failed_delivery':
+                return `⚠️ *No pudimos entregar tu pedido*
+
+${guide}${update.description ? `\n📝 *Motivo:* ${update.description}` : ''}
+
+La transportadora intentará de nuevo. Si necesitas cambiar la dirección o el horario, escríbenos.`;
+            case 'returned':
+                return `↩️ *Tu pedido fue devuelto a TechAura*
+
+${guide}
+
+Escríbenos para coordinar un nuevo envío.`;
+            default:
+                return `🚚 *Tu envío tiene novedades*
+
+${guide}${update.description ? `\n📝 ${update.description}` : ''}
+
+_Escribe "rastrear" para ver el estado de tu envío._`;
+        }
+    }
 }
@@ -0,0 +1,300 @@
+/**
+ * Base Guide Extractor
+ * Provides the shared extraction logic for all guide layout extractors
+ */
+
+import { ExtractedField, GuideFieldName } from '../../types';
+import { GuideBlocks, GuideExtraction, GuideExtractor, TextSegment } from './types';
+import { cityGazetteer } from '../CityGazetteer';
+
+/**
+ * Labels that precede a phone or ID number; bare tracking-number candidates
+ * right after them are skipped.
+ */
+const NON_TRACKING_LABEL = /(?:tel[eé]fono|tel|cel(?:ular)?|nit|c\.?\s?c|c[eé]dula|documento)\.?\s*[:#]?\s*$/i;
+
+const NAME_WORD = '[A-ZÁÉÍÓÚÑ][a-záéíóúñ]+';
+
+/**
+ * A value found inside a segment, before it is turned into an ExtractedField
+ */
+interface SegmentMatch {
+    value: string;
+    index: number;
+    length: number;
+    kind: string;
+}
+
+/**
+ * Abstract base class for guide extractors.
+ * Subclasses describe a carrier's layout (field labels, block labels and
+ * tracking-number formats); the extraction itself is shared.
+ */
+export abstract class BaseGuideExtractor implements GuideExtractor {
+    abstract id: string;
+    abstract carrier: string;
+
+    /**
+     * Pattern that identifies the carrier in the guide text
+     */
+    protected abstract detectPattern: RegExp;
+
+    /**
+     * Labels printed right before the tracking number (regex sources, longest first)
+     */
+    protected trackingLabels: string[] = ['n[uú]mero\\s+de\\s+gu[ií]a', 'gu[ií]a', 'tracking', 'n[uú]mero'];
+
+    /**
+     * Bare tracking-number formats, tried in order when no labelled number is found.
+     * The first capture group is the tracking number.
+     */
+    protected trackingFormats: RegExp[] = [/\b(\d{10,15})\b/, /([A-Z]{2,3}\d{9,12})/];
+
+    /**
+     * Labels that open the destinatario (recipient) block
+     */
+    protected recipientLabels: string[] = ['destinatario', 'consignatario', 'entregar\\s+a', 'para\\s*:'];
+
+    /**
+     * Labels that open the remitente (sender) block
+     */
+    protected senderLabels: string[] = ['remitente', 'remite\\b', 'origen\\s*:'];
+
+    /**
+     * Labels printed right before the recipient's name
+     */
+    protected nameLabels: string[] = ['destinatario', 'nombre', 'cliente', 'para'];
+
+    /**
+     * Labels printed right before the recipient's city
+     */
+    protected cityLabels: string[] = ['ciudad\\s+(?:de\\s+)?destino', 'destino', 'ciudad'];
+
+    /**
+     * Confidence per field and match kind. Values found in the recipient block
+     * or next to a label score higher than free-text matches elsewhere.
+     */
+    protected confidence: Record<string, number> = {
+        'trackingNumber.labelled+format': 0.95,
+        'trackingNumber.labelled': 0.85,
+        'trackingNumber.format': 0.6,
+        'customerName.recipient-block': 0.9,
+        'customerName.labelled': 0.7,
+        'customerPhone.recipient-block': 0.9,
+        'customerPhone.text': 0.6,
+        'shippingAddress.recipient-block': 0.85,
+        'shippingAddress.text': 0.6,
+        'city.labelled': 0.9,
+        'city.recipient-block': 0.75,
+        'city.text': 0.5
+    };
+
+    detect(text: string): boolean {
+        return this.detectPattern.test(text);
+    }
+
+    locate(text: string): number[] {
+        const flags = this.detectPattern.flags.includes('g') ? this.detectPattern.flags : this.detectPattern.flags + 'g';
+        return Array.from(text.matchAll(new RegExp(this.detectPattern.source, flags)), m => m.index ?? 0);
+    }
+
+    isTrackingFormat(value: string): boolean {
+        return this.trackingFormats.some(f => new RegExp(`^(?:${f.source})$`, f.flags).test(value));
+    }
+
+    extract(text: string): GuideExtraction {
+        const blocks = this.splitBlocks(text);
+
+        const customerPhone = this.findInBlocks(blocks, 'customerPhone', s => this.extractPhone(s));
+        const customerName = this.findInBlocks(blocks, 'customerName', s => this.extractName(s));
+        const shippingAddress = this.findInBlocks(blocks, 'shippingAddress', s => this.extractAddress(s));
+        const city = this.findInBlocks(blocks, 'city', s => this.extractCity(s));
+
+        const result: GuideExtraction = {
+            carrier: this.extractCarrier(text),
+            trackingNumber: this.extractTrackingNumber(text, customerPhone?.value),
+            customerName,
+            customerPhone,
+            shippingAddress,
+            city
+        };
+
+        if (city?.span) {
+            // Re-read the mention with what follows it, so "Argelia, Cauca" keeps its department
+            const mention = cityGazetteer.findAll(text.substring(city.span[0], city.span[1] + 60))[0];
+            if (mention) {
+                result.department = { ...city, value: mention.municipality.department, rule: `${this.id}.department.city-lookup` };
+            }
+        }
+
+        return result;
+    }
+
+    protected extractCarrier(text: string): ExtractedField | undefined {
+        const match = text.match(this.detectPattern);
+        if (!match) return undefined;
+        const start = match.index ?? 0;
+        return {
+            value: this.carrier,
+            confidence: 0.95,
+            rule: `${this.id}.carrier.detect`,
+            span: [start, start + match[0].length]
+        };
+    }
+
+    /**
+     * Split the text into remitente/destinatario blocks.
+     * Each block runs from its label to the next block label.
+     */
+    protected splitBlocks(text: string): GuideBlocks {
+        const markers: Array<{ index: number; kind: 'recipient' | 'sender' }> = [];
+        const recipientRegex = new RegExp(`(?:${this.recipientLabels.join('|')})`, 'gi');
+        const senderRegex = new RegExp(`(?:${this.senderLabels.join('|')})`, 'gi');
+
+        for (const match of text.matchAll(recipientRegex)) {
+            markers.push({ index: match.index ?? 0, kind: 'recipient' });
+        }
+        for (const match of text.matchAll(senderRegex)) {
+            markers.push({ index: match.index ?? 0, kind: 'sender' });
+        }
+        markers.sort((a, b) => a.index - b.index);
+
+        const headerEnd = markers.length > 0 ? markers[0].index : text.length;
+        const blocks: GuideBlocks = {
+            recipient: [],
+            sender: [],
+            other: [{ start: 0, text: text.substring(0, headerEnd) }]
+        };
+
+        markers.forEach((marker, i) => {
+            const end = i + 1 < markers.length ? markers[i + 1].index : text.length;
+            blocks[marker.kind].push({ start: marker.index, text: text.substring(marker.index, end) });
+        });
+
+        return blocks;
+    }
+
+    protected extractTrackingNumber(text: string, phone?: string): ExtractedField | undefined {
+        const labelled = new RegExp(
+            `(?:${this.trackingLabels.join('|')})\\s*(?:no\\.?|#)?\\s*[:#]?\\s*((?=[A-Z0-9]*\\d)[A-Z0-9]{8,20})\\b`,
+            'i'
+        );
+        const labelledMatch = text.match(labelled);
+        if (labelledMatch && this.isPlausibleTracking(labelledMatch[1], phone)) {
+            const value = labelledMatch[1];
+            const start = (labelledMatch.index ?? 0) + labelledMatch[0].lastIndexOf(value);
+            const kind = this.isTrackingFormat(value) ? 'labelled+format' : 'labelled';
+            return this.toField('trackingNumber', { value, index: start, length: value.length, kind }, 0);
+        }
+
+        for (const format of this.trackingFormats) {
+            const flags = format.flags.includes('g') ? format.flags : format.flags + 'g';
+            for (const match of text.matchAll(new RegExp(format.source, flags))) {
+                const candidate = match[1] || match[0];
+                const index = (match.index ?? 0) + match[0].indexOf(candidate);
+                const before = text.substring(Math.max(0, index - 20), index);
+                if (NON_TRACKING_LABEL.test(before)) continue;
+                if (/^3\d{9}$/.test(candidate)) continue; // Colombian mobile number
+                if (this.isPlausibleTracking(candidate, phone)) {
+                    return this.toField('trackingNumber', { value: candidate, index, length: candidate.length, kind: 'format' }, 0);
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Rejects candidates that are really the recipient's phone number
+     */
+    protected isPlausibleTracking(candidate: string, phone?: string): boolean {
+        if (!phone) return true;
+        const digits = candidate.replace(/\D/g, '');
+        return !(digits.length >= 10 && phone.endsWith(digits.slice(-10)));
+    }
+
+    protected extractName(scope: string): SegmentMatch | undefined {
+        const pattern = new RegExp(
+            `(?:${this.nameLabels.join('|')})\\s*[:#]?\\s*(${NAME_WORD}(?:[^\\S\\n]+${NAME_WORD}){1,3})`,
+            'i'
+        );
+        const match = scope.match(pattern);
+        return match ? this.groupMatch(match, 'labelled') : undefined;
+    }
+
+    protected extractPhone(scope: string): SegmentMatch | undefined {
+        const match = scope.match(/(\+?57\s?)?([3][0-9]{2}[\s.-]?[0-9]{3}[\s.-]?[0-9]{4})/);
+        if (!match) return undefined;
+        return {
+            value: '57' + match[2].replace(/[\s.-]/g, ''),
+            index: match.index ?? 0,
+            length: match[0].length,
+            kind: 'text'
+        };
+    }
+
+    protected extractAddress(scope: string): SegmentMatch | undefined {
+        const match = scope.match(/\b((?:calle|carrera|cra|cll|av|avenida|transversal|diagonal)\.?\s*#?\s*\d+[^,\n]{0,50})/i);
+        return match ? this.groupMatch(match, 'text') : undefined;
+    }
+
+    protected extractCity(scope: string): SegmentMatch | undefined {
+        // A labelled city ("Ciudad destino: X") wins over a free-text mention
+        const labelled = scope.match(new RegExp(`(?:${this.cityLabels.join('|')})\\s*:\\s*([^\\n,]+)`, 'i'));
+        if (labelled) {
+            const offset = (labelled.index ?? 0) + labelled[0].lastIndexOf(labelled[1]);
+            const found = cityGazetteer.findAll(labelled[1])[0];
+            if (found) {
+                return { value: found.municipality.name, index: offset + found.index, length: found.length, kind: 'labelled' };
+            }
+        }
+
+        const found = cityGazetteer.findInText(scope);
+        return found ? { value: found.municipality.name, index: found.index, length: found.length, kind: 'text' } : undefined;
+    }
+
+    /**
+     * Searches the recipient block first, then the text outside the sender block.
+     * The sender block is never searched.
+     */
+    private findInBlocks(
+        blocks: GuideBlocks,
+        field: GuideFieldName,
+        fn: (scope: string) => SegmentMatch | undefined
+    ): ExtractedField | undefined {
+        const search = (segments: TextSegment[], inRecipientBlock: boolean) => {
+            for (const segment of segments) {
+                const found = fn(segment.text);
+                if (found) {
+                    // A labelled city keeps its kind; anything else is ranked by where it was found
+                    const keepKind = field === 'city' && found.kind === 'labelled';
+                    const kind = inRecipientBlock && !keepKind ? 'recipient-block' : found.kind;
+                    return this.toField(field, { ...found, kind }, segment.start);
+                }
+            }
+            return undefined;
+        };
+
+        return search(blocks.recipient, true) || search(blocks.other, false);
+    }
+
+    private toField(field: GuideFieldName, found: SegmentMatch, offset: number): ExtractedField {
+        const start = offset + found.index;
+        return {
+            value: found.value,
+            confidence: this.confidence[`${field}.${found.kind}`] ?? 0.5,
+            rule: `${this.id}.${field}.${found.kind}`,
+            span: [start, start + found.length]
+        };
+    }
+
+    private groupMatch(match: RegExpMatchArray, kind: string): SegmentMatch {
+        const value = match[1].trim();
+        return {
+            value,
+            index: (match.index ?? 0) + match[0].lastIndexOf(match[1]),
+            length: value.length,
+            kind
+        };
+    }
+}
@@ -0,0 +1,23 @@
+/**
+ * Generic Guide Extractor
+ * Fallback used when no carrier-specific extractor recognises the guide
+ */
+
+import { BaseGuideExtractor } from './BaseGuideExtractor';
+import { ExtractedField } from '../../types';
+
+export class GenericGuideExtractor extends BaseGuideExtractor {
+    id = 'generic';
+    carrier = 'Unknown';
+    protected detectPattern = /[\s\S]*/;
+
+    locate(): number[] {
+        // No branding to split on; the whole text is one guide
+        return [0];
+    }
+
+    protected extractCarrier(): ExtractedField | undefined {
+        // The generic layout cannot tell which carrier printed the guide
+        return undefined;
+    }
+}
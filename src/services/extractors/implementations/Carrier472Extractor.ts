@@ -0,0 +1,19 @@
+/**
+ * 472 (Servicios Postales Nacionales) Guide Extractor
+ * International items use UPU S10 numbers (e.g. RN123456789CO);
+ * domestic guides print a 12 digit "número de envío"
+ */
+
+import { BaseGuideExtractor } from '../BaseGuideExtractor';
+
+export class Carrier472Extractor extends BaseGuideExtractor {
+    id = '472';
+    carrier = '472';
+    protected detectPattern = /\b472\b/i;
+
+    protected trackingLabels = ['n[uú]mero\\s+de\\s+env[ií]o', 'gu[ií]a', 'n[uú]mero'];
+    protected trackingFormats = [/\b([A-Z]{2}\d{9}CO)\b/, /\b(\d{12})\b/];
+    protected recipientLabels = ['destinatario', 'para\\s*:'];
+    protected senderLabels = ['remitente', 'origen\\s*:'];
+    protected nameLabels = ['destinatario', 'cliente', 'nombre'];
+}
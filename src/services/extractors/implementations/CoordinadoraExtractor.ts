@@ -0,0 +1,18 @@
+/**
+ * Coordinadora Guide Extractor
+ * Guides print "Guía No." followed by an 11 digit number
+ */
+
+import { BaseGuideExtractor } from '../BaseGuideExtractor';
+
+export class CoordinadoraExtractor extends BaseGuideExtractor {
+    id = 'coordinadora';
+    carrier = 'Coordinadora';
+    protected detectPattern = /coordinadora/i;
+
+    protected trackingLabels = ['gu[ií]a\\s+no\\.?', 'gu[ií]a', 'n[uú]mero'];
+    protected trackingFormats = [/\b(CD\d{8,})\b/i, /\b(\d{11})\b/];
+    protected recipientLabels = ['destinatario', 'cliente\\s*:', 'para\\s*:'];
+    protected senderLabels = ['remitente', 'origen\\s*:'];
+    protected nameLabels = ['destinatario', 'cliente', 'nombre'];
+}
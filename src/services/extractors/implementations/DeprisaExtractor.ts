@@ -0,0 +1,18 @@
+/**
+ * Deprisa Guide Extractor
+ * Guides print "Guía" followed by a 12 digit number
+ */
+
+import { BaseGuideExtractor } from '../BaseGuideExtractor';
+
+export class DeprisaExtractor extends BaseGuideExtractor {
+    id = 'deprisa';
+    carrier = 'Deprisa';
+    protected detectPattern = /deprisa/i;
+
+    protected trackingLabels = ['n[uú]mero\\s+de\\s+gu[ií]a', 'gu[ií]a', 'n[uú]mero'];
+    protected trackingFormats = [/\b(DPR\d{8,})\b/i, /\b(\d{12})\b/];
+    protected recipientLabels = ['destinatario', 'para\\s*:'];
+    protected senderLabels = ['remitente', 'origen\\s*:'];
+    protected nameLabels = ['destinatario', 'nombre'];
+}
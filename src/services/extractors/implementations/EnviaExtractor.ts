@@ -0,0 +1,19 @@
+/**
+ * Envía (Colvanes) Guide Extractor
+ * Guides print "Número guía" followed by a 12 digit number.
+ * Other carriers' guides label the sender "Envía:", which is not the brand.
+ */
+
+import { BaseGuideExtractor } from '../BaseGuideExtractor';
+
+export class EnviaExtractor extends BaseGuideExtractor {
+    id = 'envia';
+    carrier = 'Envia';
+    protected detectPattern = /\benv[ií]a\b(?!\s*:)|\bcolvanes\b/i;
+
+    protected trackingLabels = ['n[uú]mero\\s+(?:de\\s+)?gu[ií]a', 'gu[ií]a', 'n[uú]mero'];
+    protected trackingFormats = [/\b(ENV\d{8,})\b/i, /\b(\d{12})\b/];
+    protected recipientLabels = ['destinatario', 'consignatario', 'para\\s*:'];
+    protected senderLabels = ['remitente', 'origen\\s*:'];
+    protected nameLabels = ['destinatario', 'consignatario', 'nombre'];
+}
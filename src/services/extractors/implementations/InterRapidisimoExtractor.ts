@@ -0,0 +1,18 @@
+/**
+ * InterRapidísimo Guide Extractor
+ * Guides print a 12 digit number, usually starting with 7
+ */
+
+import { BaseGuideExtractor } from '../BaseGuideExtractor';
+
+export class InterRapidisimoExtractor extends BaseGuideExtractor {
+    id = 'interrapidisimo';
+    carrier = 'InterRapidisimo';
+    protected detectPattern = /inter\s*r[aá]pid[ií]simo/i;
+
+    protected trackingLabels = ['n[uú]mero\\s+de\\s+gu[ií]a', 'gu[ií]a', 'tracking', 'n[uú]mero'];
+    protected trackingFormats = [/\b(IR\d{8,})\b/i, /\b(7\d{11})\b/, /\b(\d{12})\b/];
+    protected recipientLabels = ['destinatario', 'para\\s*:', 'entregar\\s+a'];
+    protected senderLabels = ['remitente', 'env[ií]a\\s*:'];
+    protected nameLabels = ['destinatario', 'para', 'nombre'];
+}
@@ -0,0 +1,18 @@
+/**
+ * Servientrega Guide Extractor
+ * Guides print "No. Guía" followed by a 9-10 digit number
+ */
+
+import { BaseGuideExtractor } from '../BaseGuideExtractor';
+
+export class ServientregaExtractor extends BaseGuideExtractor {
+    id = 'servientrega';
+    carrier = 'Servientrega';
+    protected detectPattern = /servientrega/i;
+
+    protected trackingLabels = ['n[uú]mero\\s+de\\s+gu[ií]a', 'no\\.?\\s*gu[ií]a', 'gu[ií]a', 'n[uú]mero'];
+    protected trackingFormats = [/\b(SV\d{8,})\b/i, /\b(\d{9,10})\b/];
+    protected recipientLabels = ['datos\\s+del\\s+destinatario', 'destinatario', 'para\\s*:'];
+    protected senderLabels = ['datos\\s+del\\s+remitente', 'remitente'];
+    protected nameLabels = ['nombre\\s+destinatario', 'destinatario', 'nombre', 'se[ñn]or(?:\\(a\\))?'];
+}
@@ -0,0 +1,18 @@
+/**
+ * TCC Guide Extractor
+ * TCC calls the tracking number "remesa"; it is 9-10 digits long
+ */
+
+import { BaseGuideExtractor } from '../BaseGuideExtractor';
+
+export class TCCExtractor extends BaseGuideExtractor {
+    id = 'tcc';
+    carrier = 'TCC';
+    protected detectPattern = /\btcc\b/i;
+
+    protected trackingLabels = ['n[uú]mero\\s+de\\s+remesa', 'remesa', 'gu[ií]a', 'n[uú]mero'];
+    protected trackingFormats = [/\b(TCC\d{8,})\b/i, /\b(\d{9,10})\b/];
+    protected recipientLabels = ['destinatario', 'para\\s*:'];
+    protected senderLabels = ['remitente', 'origen\\s*:'];
+    protected nameLabels = ['destinatario', 'nombre'];
+}
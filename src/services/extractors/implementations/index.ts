@@ -0,0 +1,11 @@
+/**
+ * Guide extractor implementations index
+ */
+
+export { ServientregaExtractor } from './ServientregaExtractor';
+export { CoordinadoraExtractor } from './CoordinadoraExtractor';
+export { InterRapidisimoExtractor } from './InterRapidisimoExtractor';
+export { EnviaExtractor } from './EnviaExtractor';
+export { TCCExtractor } from './TCCExtractor';
+export { Carrier472Extractor } from './Carrier472Extractor';
+export { DeprisaExtractor } from './DeprisaExtractor';
@@ -0,0 +1,35 @@
+/**
+ * Guide extractors module index
+ */
+
+import { GuideExtractor } from './types';
+import {
+    ServientregaExtractor,
+    CoordinadoraExtractor,
+    InterRapidisimoExtractor,
+    EnviaExtractor,
+    TCCExtractor,
+    Carrier472Extractor,
+    DeprisaExtractor
+} from './implementations';
+
+export * from './types';
+export { BaseGuideExtractor } from './BaseGuideExtractor';
+export { GenericGuideExtractor } from './GenericGuideExtractor';
+export * from './implementations';
+
+/**
+ * Carrier extractors in detection order.
+ * Order matters: the first extractor whose carrier is detected wins.
+ */
+export function createDefaultExtractors(): GuideExtractor[] {
+    return [
+        new ServientregaExtractor(),
+        new CoordinadoraExtractor(),
+        new InterRapidisimoExtractor(),
+        new EnviaExtractor(),
+        new TCCExtractor(),
+        new Carrier472Extractor(),
+        new DeprisaExtractor()
+    ];
+}
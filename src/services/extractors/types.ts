@@ -0,0 +1,67 @@
+/**
+ * Guide Extractor Types
+ * Defines the contract for per-carrier shipping guide layout extractors
+ */
+
+import { ExtractedField, GuideFieldName } from '../../types';
+
+/**
+ * Fields an extractor pulls out of a guide's text, with their provenance.
+ * Missing fields are left undefined; defaults are applied by GuideParser.
+ */
+export type GuideExtraction = Partial<Record<GuideFieldName, ExtractedField>>;
+
+/**
+ * A slice of the guide text and its offset in the full text
+ */
+export interface TextSegment {
+    start: number;
+    text: string;
+}
+
+/**
+ * Text of a guide split into its remitente (sender) and destinatario
+ * (recipient) blocks. `other` holds everything outside both blocks,
+ * such as the header with the tracking number.
+ */
+export interface GuideBlocks {
+    recipient: TextSegment[];
+    sender: TextSegment[];
+    other: TextSegment[];
+}
+
+/**
+ * Extractor interface that all guide layout extractors must follow
+ */
+export interface GuideExtractor {
+    /**
+     * Extractor identifier, used as the prefix of field rules (e.g. 'servientrega')
+     */
+    id: string;
+
+    /**
+     * Carrier name reported on ShippingGuideData (e.g. 'Servientrega')
+     */
+    carrier: string;
+
+    /**
+     * Whether the guide text belongs to this extractor's carrier
+     */
+    detect(text: string): boolean;
+
+    /**
+     * Offsets where this carrier's branding appears in the text; used to
+     * split a page that holds several guides
+     */
+    locate(text: string): number[];
+
+    /**
+     * Whether a value has the shape of this carrier's tracking numbers
+     */
+    isTrackingFormat(value: string): boolean;
+
+    /**
+     * Extract the guide fields from the text
+     */
+    extract(text: string): GuideExtraction;
+}
@@ -1,13 +1,138 @@
+import { Quote, RecipientData, ShipmentStatus, TrackingEvent } from '../carriers/types';
+
+export type GuideFieldName =
+    | 'trackingNumber'
+    | 'customerName'
+    | 'customerPhone'
+    | 'shippingAddress'
+    | 'city'
+    | 'department'
+    | 'carrier';
+
+/**
+ * Provenance of a single extracted guide field
+ */
+export interface ExtractedField {
+    value: string;
+    /** 0 (guessed/missing) to 1 (certain) */
+    confidence: number;
+    /** Rule that produced the value, e.g. 'servientrega.trackingNumber.labelled'; 'default' when filled in */
+    rule: string;
+    /** [start, end) character offsets in the parsed text (rawText is its prefix); null when not found */
+    span: [number, number] | null;
+}
+
+/**
+ * Street type of a Colombian address, as written out in full
+ */
+export type ViaType =
+    | 'Calle'
+    | 'Carrera'
+    | 'Avenida'
+    | 'Avenida Calle'
+    | 'Avenida Carrera'
+    | 'Transversal'
+    | 'Diagonal'
+    | 'Circular'
+    | 'Autopista';
+
+/**
+ * An address in Colombian nomenclature, e.g. "Calle 45A Bis # 23-67 Sur, Torre 2 Apto 301":
+ * the door sits on the via (Calle 45A Bis), 67 m from the corner with the cross via (23)
+ */
+export interface ColombianAddress {
+    viaType: ViaType;
+    /** Via number with its letter and BIS suffixes, e.g. '45A BIS' */
+    viaNumber: string;
+    crossNumber: string;
+    plate: string;
+    /** 'Sur' or 'Este' for addresses south or east of the city's zero axes */
+    quadrant: 'Sur' | 'Este' | null;
+    /** Apartment, tower, interior, block..., e.g. 'Torre 2 Apto 301' */
+    complement: string | null;
+    neighborhood: string | null;
+    /** Text the address was parsed from */
+    raw: string;
+    /** Canonical single-line form, without the neighborhood */
+    normalized: string;
+}
+
+/**
+ * A municipality of the DANE DIVIPOLA gazetteer
+ */
+export interface Municipality {
+    /** 5-digit DANE code; its first two digits are the department's */
+    code: string;
+    name: string;
+    department: string;
+    /** Other ways it is written, e.g. 'Santiago de Cali' */
+    aliases: string[];
+}
+
 export interface ShippingGuideData {
     trackingNumber: string;
     customerName: string;
     customerPhone?: string;
     shippingAddress: string;
+    /** shippingAddress parsed, when it is in Colombian nomenclature */
+    structuredAddress?: ColombianAddress;
     city: string;
     department?: string;
+    /** DANE code of the city, when it is a known municipality */
+    daneCode?: string;
     carrier: string;
     estimatedDelivery?: Date;
     rawText: string;
+    fields?: Record<GuideFieldName, ExtractedField>;
+    /**
+     * 1-based page of the source PDF the guide was read from
+     */
+    page?: number;
+}
+
+/**
+ * What kind of document an uploaded file is
+ */
+export type DocumentType =
+    | 'carrier_guide'
+    | 'whatsapp_chat'
+    | 'payment_receipt'
+    | 'invoice'
+    | 'id_document'
+    | 'unknown';
+
+export interface DocumentClassification {
+    type: DocumentType;
+    /** 0 to 1 per class: the weight of the class signals that fired */
+    scores: Record<Exclude<DocumentType, 'unknown'>, number>;
+    /** Signals that fired, as '<class>.<signal>', e.g. 'payment_receipt.provider' */
+    signals: string[];
+    /** Why the type was chosen, for reviewing misclassified uploads */
+    reason: string;
+}
+
+/**
+ * Data read from a Nequi/Daviplata/bank transfer screenshot
+ */
+export interface PaymentReceiptData {
+    provider: string | null;
+    /** Amount in COP */
+    amount: number | null;
+    reference: string | null;
+    /** Date as printed on the receipt */
+    paidAt: string | null;
+    payerName: string | null;
+}
+
+/**
+ * Similarity (0 to 1) of each guide field to the order's; null when the guide or the order lacks it
+ */
+export interface MatchSignals {
+    phone: number | null;
+    name: number | null;
+    /** Whether the guide's city appears in the order's shipping address */
+    city: number | null;
+    address: number | null;
 }
 
 export interface CustomerMatch {
@@ -16,30 +141,130 @@ export interface CustomerMatch {
     phone: string;
     name: string;
     address: string;
+    /** 0 to 100, combining the signals */
     confidence: number;
-    matchedBy: 'phone' | 'name' | 'address';
+    /** Signal that weighed the most; 'order' when looked up by order number, e.g. on a manual assignment */
+    matchedBy: 'phone' | 'name' | 'address' | 'order';
+    signals?: MatchSignals;
 }
 
 export interface ICustomerMatcher {
+    /** The best candidate order, when it scores enough to send the guide without review */
     findCustomer(guideData: ShippingGuideData): Promise<CustomerMatch | null>;
+    /** Orders the guide may belong to, best first */
+    findCandidates(guideData: ShippingGuideData): Promise<CustomerMatch[]>;
+    /** The order with this number, whatever its status */
+    findOrder(orderNumber: string): Promise<CustomerMatch | null>;
     updateOrderTracking(orderNumber: string, trackingNumber: string, carrier: string): Promise<boolean>;
 }
 
+/**
+ * A guide that was sent to a customer, as kept by the duplicate registry
+ */
+export interface ProcessedGuideRecord {
+    trackingNumber: string;
+    carrier: string;
+    /** SHA-256 of the file the guide was read from */
+    fileHash: string;
+    orderNumber: string;
+    sentTo: string;
+    /** 'review' when an operator assigned it from the unmatched guides queue */
+    source: 'watcher' | 'upload' | 'review';
+    processedAt: string;
+}
+
 export interface ProcessResult {
     success: boolean;
     message: string;
     trackingNumber?: string;
     sentTo?: string;
     error?: string;
+    /** The guide or file was already sent and was skipped */
+    duplicate?: boolean;
+    /** The earlier delivery of a duplicate */
+    previous?: ProcessedGuideRecord;
+    /** No order was found for the guide or receipt, or it needs review before sending */
+    unmatched?: boolean;
+    /** Type of a file that is not a guide */
+    documentType?: DocumentType;
+    /** The guide as parsed */
+    guide?: ShippingGuideData;
+    /** Orders the guide was matched against, best first */
+    candidates?: CustomerMatch[];
+}
+
+/**
+ * Where a guide job is: waiting (or waiting for a retry), in one of the
+ * processing steps, or finished
+ */
+export type GuideJobState = 'queued' | 'parsing' | 'matching' | 'sending' | 'done' | 'failed';
+
+export interface GuideJobOptions {
+    /** Re-send guides already sent */
+    force?: boolean;
+    /** Name of the uploaded file, as sent by the browser */
+    originalName?: string;
+    /** Order a payment receipt upload belongs to */
+    orderNumber?: string;
+}
+
+/**
+ * A file waiting for or going through guide processing, as kept by the job queue
+ */
+export interface GuideJob {
+    id: number;
+    source: 'watcher' | 'upload';
+    filePath: string;
+    options: GuideJobOptions;
+    state: GuideJobState;
+    /** Runs started so far, including the current one */
+    attempts: number;
+    maxAttempts: number;
+    lastError: string | null;
+    /** What the job's handler returned, once done */
+    result: unknown;
+    /** A queued job is not started before this time (retry backoff) */
+    runAfter: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * A guide that could not be sent automatically, kept for an operator to assign
+ */
+export interface UnmatchedGuide {
+    id: string;
+    /**
+     * Why it was not sent: no candidate order, no candidate scoring enough to
+     * send automatically, or key fields read with low confidence
+     */
+    reason: 'no_match' | 'low_score' | 'low_confidence';
+    source: GuideJob['source'];
+    guide: ShippingGuideData;
+    /** Name of the file the guide was read from */
+    fileName: string;
+    /** Copy of that file, in the store's folder */
+    storedFile: string;
+    /** Orders proposed for the guide, best first */
+    candidates: CustomerMatch[];
+    status: 'pending' | 'assigned';
+    createdAt: string;
+    assignedAt?: string;
+    orderNumber?: string;
+    sentTo?: string;
 }
 
 export interface ExtractedOrderData {
     customerName: string | null;
     phone: string | null;
     address: string | null;
+    /** address parsed, when it is in Colombian nomenclature */
+    structuredAddress?: ColombianAddress;
     city: string | null;
     neighborhood: string | null;
     department: string | null;
+    /** DANE code of the city, when it is a known municipality */
+    daneCode?: string;
     cedula: string | null;
     references: string | null;
     product: string | null;
@@ -72,19 +297,74 @@ export interface CreateShipmentRequest {
     shippingAddress: string;
     shippingPhone: string;
     productDescription: string;
-    status: string;
+    status: ShipmentStatus;
+    /** Carrier id, e.g. 'servientrega', once one is chosen */
+    carrier?: string;
+    /** Destination municipality, e.g. 'Medellín' */
+    city?: string;
+    /** The carrier's guide number; one is generated when there is no carrier guide yet */
+    trackingNumber?: string;
+    booking?: CarrierBooking;
+}
+
+/**
+ * How a shipment created through POST /api/shipments was booked with its carrier
+ */
+export interface CarrierBooking {
+    quote: Pick<Quote, 'price' | 'currency' | 'estimatedDays' | 'serviceName'>;
+    /** Why the carrier was selected, e.g. 'Seleccionado por ser el más rápido (2 días)' */
+    selectionReason: string;
+    /** The label URL the carrier answered with, if any */
+    labelReference: string | null;
+    estimatedDelivery: Date | null;
+    recipient: RecipientData;
+    /** Weight booked, in kg */
+    weight?: number;
+    /** Amount the carrier collects from the recipient on delivery, in COP */
+    codAmount?: number;
 }
 
 export interface Shipment {
     id: number;
     orderNumber: string;
     trackingNumber: string;
+    carrier?: string;
+    booking?: CarrierBooking;
     customerName: string;
     customerPhone: string;
     shippingAddress: string;
+    city?: string;
     shippingPhone: string;
     productDescription: string;
-    status: string;
+    status: ShipmentStatus;
     createdAt: Date;
     updatedAt: Date;
 }
+
+/**
+ * A change of a shipment's status, kept in `shipment_status_history`
+ */
+export interface ShipmentStatusChange {
+    id: number;
+    shipmentId: number;
+    /** null for the status the shipment was created with */
+    fromStatus: ShipmentStatus | null;
+    toStatus: ShipmentStatus;
+    /** Who or what made the change, e.g. 'webhook', 'carrier:servientrega', 'operator' */
+    triggeredBy: string;
+    /** The carrier tracking event behind the change, when a carrier reported it */
+    carrierEvent: TrackingEvent | null;
+    changedAt: Date;
+}
+
+/**
+ * A carrier tracking event of a guide, kept in `tracking_events`
+ */
+export interface StoredTrackingEvent extends TrackingEvent {
+    id: number;
+    trackingNumber: string;
+    carrier: string;
+    /** Identifies the event within its guide, so a reported event is stored once */
+    key: string;
+    createdAt: Date;
+}
@@ -1,14 +1,50 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import chokidar from 'chokidar';
+import { ProcessResult } from '../types';
+
+/**
+ * Subfolder of the watch folder a file is moved to once processed
+ */
+export type OutcomeFolder = 'processed' | 'unmatched' | 'failed' | 'whatsapp-chats';
+
+export const OUTCOME_FOLDERS: OutcomeFolder[] = ['processed', 'unmatched', 'failed', 'whatsapp-chats'];
+
+/**
+ * Where a processed file goes and what its sidecar report holds
+ */
+export interface FileOutcome {
+    folder: OutcomeFolder;
+    /** Written next to the file as `<file name>.json` */
+    report: Record<string, unknown>;
+}
+
+/**
+ * Outcome folder for the results of processing one file: `processed/` when
+ * everything in it was sent (or had been), `whatsapp-chats/` for chat
+ * screenshots, `failed/` when anything failed and `unmatched/` when
+ * something only lacks an order or a review.
+ */
+export function outcomeFolder(results: ProcessResult[]): OutcomeFolder {
+    if (results.some(result => result.documentType === 'whatsapp_chat')) return 'whatsapp-chats';
+    if (results.length > 0 && results.every(result => result.success || result.duplicate)) return 'processed';
+    if (results.length === 0 || results.some(result => !result.success && !result.duplicate && !result.unmatched)) return 'failed';
+    return 'unmatched';
+}
 
 export class FolderWatcher {
     private watchPath: string;
-    private onFile: (filePath: string) => Promise<void>;
+    private onFile: (filePath: string) => Promise<FileOutcome | void>;
     private watcher: chokidar.FSWatcher | null = null;
-    private processedFiles: Set<string> = new Set();
 
-    constructor(watchPath: string, onFile: (filePath: string) => Promise<void>) {
+    /**
+     * @param onFile - Processes a new file, resolving once it is done with the
+     * folder to move it to and its report (`processed/` without a report when
+     * nothing is returned). When it rejects the file is left in place and
+     * picked up again on the next start. Dropping a file from an outcome
+     * folder back into the watch folder processes it again.
+     */
+    constructor(watchPath: string, onFile: (filePath: string) => Promise<FileOutcome | void>) {
         this.watchPath = watchPath;
         this.onFile = onFile;
     }
@@ -20,8 +56,10 @@ export class FolderWatcher {
         }
 
         // Start watching
+        const outcomeDirs = OUTCOME_FOLDERS.map(folder => path.resolve(this.watchPath, folder));
+        const isOutcome = (filePath: string) => outcomeDirs.some(dir => path.resolve(filePath) === dir || path.resolve(filePath).startsWith(dir + path.sep));
         this.watcher = chokidar.watch(this.watchPath, {
-            ignored: /(^|[\/\\])\../, // Ignore hidden files
+            ignored: [/(^|[\/\\])\../, isOutcome], // Ignore hidden and already processed files
             persistent: true,
             awaitWriteFinish: {
                 stabilityThreshold: 2000,
@@ -31,13 +69,17 @@ export class FolderWatcher {
 
         this.watcher
             .on('add', async (filePath) => {
-                if (this.isValidFile(filePath) && !this.processedFiles.has(filePath)) {
-                    this.processedFiles.add(filePath);
-                    await this.onFile(filePath);
-                    
-                    // Move to processed folder after processing completes
-                    await this.moveToProcessed(filePath);
+                if (!this.isValidFile(filePath)) return;
+                let outcome: FileOutcome | void;
+                try {
+                    outcome = await this.onFile(filePath);
+                } catch (error) {
+                    console.error(`⚠️ Could not process ${filePath}, leaving it in the watch folder:`, (error as Error).message);
+                    return;
                 }
+
+                // Move to its outcome folder after processing completes
+                await this.moveToOutcome(filePath, outcome || { folder: 'processed', report: {} });
             })
             .on('error', (error) => {
                 console.error('Watcher error:', error);
@@ -58,19 +100,40 @@ export class FolderWatcher {
         return ['.pdf', '.png', '.jpg', '.jpeg', '.webp', '.bmp'].includes(ext);
     }
 
-    private async moveToProcessed(filePath: string): Promise<void> {
+    /**
+     * Moves the file to its outcome folder with its sidecar report, dropping
+     * the copy and report an earlier run of the same file left in another
+     * outcome folder (a different file with the same name is kept)
+     */
+    private async moveToOutcome(filePath: string, { folder, report }: FileOutcome): Promise<void> {
+        const fileName = path.basename(filePath);
         try {
-            const processedDir = path.join(this.watchPath, 'processed');
-            if (!fs.existsSync(processedDir)) {
-                fs.mkdirSync(processedDir, { recursive: true });
+            const outcomeDir = path.join(this.watchPath, folder);
+            if (!fs.existsSync(outcomeDir)) {
+                fs.mkdirSync(outcomeDir, { recursive: true });
+            }
+
+            const content = await fs.promises.readFile(filePath);
+            for (const other of OUTCOME_FOLDERS.filter(f => f !== folder)) {
+                const stalePath = path.join(this.watchPath, other, fileName);
+                if (fs.existsSync(stalePath) && content.equals(await fs.promises.readFile(stalePath))) {
+                    await fs.promises.rm(stalePath);
+                    await fs.promises.rm(`${stalePath}.json`, { force: true });
+                }
             }
 
-            const newPath = path.join(processedDir, path.basename(filePath));
-            
+            const newPath = path.join(outcomeDir, fileName);
+
             // Use async rename to avoid blocking
             await fs.promises.rename(filePath, newPath);
+            if (Object.keys(report).length > 0) {
+                const sidecar = { file: fileName, outcome: folder, processedAt: new Date().toISOString(), ...report };
+                await fs.promises.writeFile(`${newPath}.json`, JSON.stringify(sidecar, null, 2));
+            } else {
+                await fs.promises.rm(`${newPath}.json`, { force: true });
+            }
         } catch (error) {
-            console.error('Error moving file to processed folder:', error);
+            console.error(`Error moving file to ${folder} folder:`, error);
         }
     }
 }
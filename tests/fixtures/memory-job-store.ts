@@ -0,0 +1,20 @@
+// In-memory JobStore that also records every job's state changes
+
+import { GuideJob, GuideJobState } from '../../src/types';
+import { InMemoryJobStore, NewGuideJob } from '../../src/services/JobStore';
+
+export class MemoryJobStore extends InMemoryJobStore {
+  /** State changes per job id, in order */
+  history = new Map<number, string[]>();
+
+  async insert(job: NewGuideJob): Promise<GuideJob> {
+    const stored = await super.insert(job);
+    this.history.set(stored.id, ['queued']);
+    return stored;
+  }
+
+  protected setState(job: GuideJob, state: GuideJobState): void {
+    super.setState(job, state);
+    this.history.get(job.id)!.push(state);
+  }
+}
@@ -32,7 +32,12 @@ describe('API Routes Integration Tests', () => {
 
     // Setup default mock implementations
     mockParser.parse = jest.fn();
-    mockMatcher.findCustomer = jest.fn();
+    // Uploads go through parseAll; a file holds the one guide parse() returns
+    mockParser.parseAll = jest.fn(async (filePath: string) => {
+      const guide = await mockParser.parse(filePath);
+      return guide ? [guide] : [];
+    });
+    mockMatcher.findCandidates = jest.fn();
     mockMatcher.updateOrderTracking = jest.fn();
     mockSender.sendGuide = jest.fn();
 
@@ -100,7 +105,7 @@ describe('API Routes Integration Tests', () => {
 
     it('should process valid guide successfully', async () => {
       mockParser.parse.mockResolvedValue(mockParsedGuideData);
-      mockMatcher.findCustomer.mockResolvedValue(mockCustomerMatch);
+      mockMatcher.findCandidates.mockResolvedValue([mockCustomerMatch]);
       mockSender.sendGuide.mockResolvedValue(true);
       mockMatcher.updateOrderTracking.mockResolvedValue(true);
 
@@ -119,7 +124,7 @@ describe('API Routes Integration Tests', () => {
       });
 
       expect(mockParser.parse).toHaveBeenCalled();
-      expect(mockMatcher.findCustomer).toHaveBeenCalled();
+      expect(mockMatcher.findCandidates).toHaveBeenCalled();
       expect(mockSender.sendGuide).toHaveBeenCalled();
       expect(mockMatcher.updateOrderTracking).toHaveBeenCalled();
     });
@@ -153,7 +158,7 @@ describe('API Routes Integration Tests', () => {
 
     it('should return success:false when no customer match found', async () => {
       mockParser.parse.mockResolvedValue(mockParsedGuideData);
-      mockMatcher.findCustomer.mockResolvedValue(null);
+      mockMatcher.findCandidates.mockResolvedValue([]);
 
       const response = await request(app)
         .post('/api/process-guide')
@@ -164,13 +169,15 @@ describe('API Routes Integration Tests', () => {
       expect(response.body).toEqual({
         success: false,
         message: 'No se encontró cliente asociado',
-        guideData: mockParsedGuideData
+        guideData: mockParsedGuideData,
+        weakFields: [],
+        candidates: []
       });
     });
 
     it('should return 500 when WhatsApp send fails', async () => {
       mockParser.parse.mockResolvedValue(mockParsedGuideData);
-      mockMatcher.findCustomer.mockResolvedValue(mockCustomerMatch);
+      mockMatcher.findCandidates.mockResolvedValue([mockCustomerMatch]);
       mockSender.sendGuide.mockResolvedValue(false);
 
       const response = await request(app)
@@ -202,7 +209,7 @@ describe('API Routes Integration Tests', () => {
 
     it('should cleanup file on success', async () => {
       mockParser.parse.mockResolvedValue(mockParsedGuideData);
-      mockMatcher.findCustomer.mockResolvedValue(mockCustomerMatch);
+      mockMatcher.findCandidates.mockResolvedValue([mockCustomerMatch]);
       mockSender.sendGuide.mockResolvedValue(true);
       mockMatcher.updateOrderTracking.mockResolvedValue(true);
 
@@ -267,7 +274,8 @@ describe('API Routes Integration Tests', () => {
 
       expect(response.body).toEqual({
         success: true,
-        data: mockParsedGuideData
+        data: mockParsedGuideData,
+        weakFields: []
       });
 
       expect(mockParser.parse).toHaveBeenCalled();
@@ -324,7 +332,7 @@ describe('API Routes Integration Tests', () => {
         .attach('guide', testFilePath)
         .expect(200);
 
-      expect(mockMatcher.findCustomer).not.toHaveBeenCalled();
+      expect(mockMatcher.findCandidates).not.toHaveBeenCalled();
       expect(mockSender.sendGuide).not.toHaveBeenCalled();
       expect(mockMatcher.updateOrderTracking).not.toHaveBeenCalled();
     });
@@ -332,7 +340,7 @@ describe('API Routes Integration Tests', () => {
 
   describe('POST /api/test-match', () => {
     it('should match customer by phone', async () => {
-      mockMatcher.findCustomer.mockResolvedValue(mockCustomerMatch);
+      mockMatcher.findCandidates.mockResolvedValue([mockCustomerMatch]);
 
       const response = await request(app)
         .post('/api/test-match')
@@ -344,14 +352,16 @@ describe('API Routes Integration Tests', () => {
 
       expect(response.body).toEqual({
         success: true,
-        match: mockCustomerMatch
+        match: mockCustomerMatch,
+        autoSend: true,
+        candidates: [mockCustomerMatch]
       });
 
-      expect(mockMatcher.findCustomer).toHaveBeenCalled();
+      expect(mockMatcher.findCandidates).toHaveBeenCalled();
     });
 
     it('should match customer by name and city', async () => {
-      mockMatcher.findCustomer.mockResolvedValue(mockCustomerMatch);
+      mockMatcher.findCandidates.mockResolvedValue([mockCustomerMatch]);
 
       const response = await request(app)
         .post('/api/test-match')
@@ -364,12 +374,14 @@ describe('API Routes Integration Tests', () => {
 
       expect(response.body).toEqual({
         success: true,
-        match: mockCustomerMatch
+        match: mockCustomerMatch,
+        autoSend: true,
+        candidates: [mockCustomerMatch]
       });
     });
 
     it('should match customer by address', async () => {
-      mockMatcher.findCustomer.mockResolvedValue(mockCustomerMatch);
+      mockMatcher.findCandidates.mockResolvedValue([mockCustomerMatch]);
 
       const response = await request(app)
         .post('/api/test-match')
@@ -381,7 +393,9 @@ describe('API Routes Integration Tests', () => {
 
       expect(response.body).toEqual({
         success: true,
-        match: mockCustomerMatch
+        match: mockCustomerMatch,
+        autoSend: true,
+        candidates: [mockCustomerMatch]
       });
     });
 
@@ -399,7 +413,7 @@ describe('API Routes Integration Tests', () => {
     });
 
     it('should return success:false when no match found', async () => {
-      mockMatcher.findCustomer.mockResolvedValue(null);
+      mockMatcher.findCandidates.mockResolvedValue([]);
 
       const response = await request(app)
         .post('/api/test-match')
@@ -416,7 +430,7 @@ describe('API Routes Integration Tests', () => {
     });
 
     it('should handle matcher errors', async () => {
-      mockMatcher.findCustomer.mockRejectedValue(new Error('Database error'));
+      mockMatcher.findCandidates.mockRejectedValue(new Error('Database error'));
 
       const response = await request(app)
         .post('/api/test-match')
@@ -433,7 +447,7 @@ describe('API Routes Integration Tests', () => {
     });
 
     it('should not send WhatsApp message or update database', async () => {
-      mockMatcher.findCustomer.mockResolvedValue(mockCustomerMatch);
+      mockMatcher.findCandidates.mockResolvedValue([mockCustomerMatch]);
 
       await request(app)
         .post('/api/test-match')
@@ -448,6 +462,42 @@ describe('API Routes Integration Tests', () => {
     });
   });
 
+  describe('GET /api/ocr/metrics', () => {
+    it('should return the OCR pool metrics', async () => {
+      const response = await request(app)
+        .get('/api/ocr/metrics')
+        .set('x-api-key', 'test-shipping-api-key')
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.metrics).toMatchObject({ busy: 0, queued: 0, completed: 0 });
+      expect(response.body.metrics.size).toBeGreaterThan(0);
+    });
+
+    it('should require an API key', async () => {
+      await request(app)
+        .get('/api/ocr/metrics')
+        .expect(401);
+    });
+  });
+
+  describe('DELETE /api/ocr/cache', () => {
+    it('should clear the OCR cache', async () => {
+      const response = await request(app)
+        .delete('/api/ocr/cache')
+        .set('x-api-key', 'test-shipping-api-key')
+        .expect(200);
+
+      expect(response.body).toEqual({ success: true, removed: expect.any(Number) });
+    });
+
+    it('should require an API key', async () => {
+      await request(app)
+        .delete('/api/ocr/cache')
+        .expect(401);
+    });
+  });
+
   describe('404 Handler', () => {
     it('should return 404 for unknown routes', async () => {
       const response = await request(app)
@@ -459,7 +509,13 @@ describe('API Routes Integration Tests', () => {
         availableEndpoints: [
           'GET /health',
           'GET /health/techaura',
+          'GET /api/ocr/metrics',
+          'DELETE /api/ocr/cache',
           'POST /api/process-guide',
+          'GET /api/unmatched-guides',
+          'GET /api/unmatched-guides/:id',
+          'GET /api/unmatched-guides/:id/file',
+          'POST /api/unmatched-guides/:id/assign',
           'POST /api/test-parse',
           'POST /api/test-match',
           'POST /api/extract-whatsapp-orders',
@@ -467,7 +523,10 @@ describe('API Routes Integration Tests', () => {
           'GET /orders/confirm',
           'POST /webhooks/order-completed',
           'POST /webhooks/new-order',
+          'POST /webhooks/carriers/:carrierId',
           'GET /api/tracking/:trackingNumber',
+          'GET /api/shipments',
+          'POST /api/shipments/labels',
           'POST /api/shipments',
           'GET /api/shipments/:trackingNumber/label',
           'DELETE /api/shipments/:trackingNumber',
@@ -0,0 +1,193 @@
+/**
+ * Integration tests for the HTTP carrier adapters against the mock carrier server
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import { MockCarrierServer } from '../../src/carriers/mock/MockCarrierServer';
+import { createCarriers, CarrierOptions } from '../../src/carriers/createCarriers';
+import { HttpCarrier } from '../../src/carriers/http/HttpCarrier';
+import { CarrierApiError } from '../../src/carriers/http/CarrierApi';
+import { CARRIER_APIS } from '../../src/carriers/http/apis';
+import { detectCarrierByTrackingNumber } from '../../src/carriers/trackingPatterns';
+import { ServientregaCarrier } from '../../src/carriers/implementations';
+import { ShipmentData } from '../../src/carriers/types';
+
+const NO_RETRY = { maxRetries: 0, initialDelayMs: 1, maxDelayMs: 1, backoffMultiplier: 2 };
+
+const shipmentData: ShipmentData = {
+    origin: 'Bogotá',
+    destination: 'Medellín',
+    weight: 2,
+    reference: 'ORD-2024-001',
+    recipient: {
+        name: 'Juan Pérez',
+        phone: '3001234567',
+        address: 'Calle 50 # 40-30',
+        city: 'Medellín',
+        daneCode: '05001'
+    }
+};
+
+describe('HTTP carrier adapters', () => {
+    const server = new MockCarrierServer();
+    let mockUrl: string;
+
+    const options = (overrides: Partial<CarrierOptions> = {}): CarrierOptions => ({
+        mode: 'mock',
+        mockUrl,
+        timeoutMs: 2000,
+        credentials: {},
+        retry: NO_RETRY,
+        ...overrides
+    });
+
+    beforeAll(async () => {
+        mockUrl = await server.start(0);
+    });
+
+    afterAll(async () => {
+        await server.stop();
+    });
+
+    describe('createCarriers', () => {
+        it('builds the simulated carriers by default', () => {
+            const carriers = createCarriers(options({ mode: 'simulated' }));
+
+            expect(carriers).toHaveLength(6);
+            expect(carriers.some(carrier => carrier instanceof HttpCarrier)).toBe(false);
+        });
+
+        it('builds an HTTP adapter per carrier in mock mode', () => {
+            const carriers = createCarriers(options());
+
+            expect(carriers.map(carrier => carrier.id)).toEqual(Object.keys(CARRIER_APIS));
+            expect(carriers.every(carrier => carrier instanceof HttpCarrier)).toBe(true);
+        });
+
+        it('leaves out live carriers without credentials', () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+            const carriers = createCarriers(options({
+                mode: 'live',
+                credentials: { tcc: { apiUrl: `${mockUrl}/tcc`, apiKey: 'live-key' } }
+            }));
+
+            expect(carriers.map(carrier => carrier.id)).toEqual(['tcc']);
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('SERVIENTREGA_API_URL and SERVIENTREGA_API_KEY'));
+            warn.mockRestore();
+        });
+    });
+
+    describe.each(Object.keys(CARRIER_APIS))('%s', carrierId => {
+        const carrier = () => createCarriers(options()).find(c => c.id === carrierId)!;
+
+        it('books, tracks, labels and cancels a shipment', async () => {
+            const result = await carrier().createShipment(shipmentData);
+            expect(result.carrier).toBe(carrierId);
+            expect(detectCarrierByTrackingNumber(result.trackingNumber)).toBe(carrierId);
+            expect(result.estimatedDelivery!.getTime()).toBeGreaterThan(Date.now());
+
+            const tracking = await carrier().getTrackingInfo(result.trackingNumber);
+            expect(tracking.trackingNumber).toBe(result.trackingNumber);
+            expect(tracking.status).toBe('in_transit');
+            expect(tracking.events.map(event => event.status)).toEqual(['in_transit', expect.any(String), expect.any(String)]);
+            expect(tracking.events[2].status).toBe('created');
+            // A later lookup reports the same events, at the same times
+            expect((await carrier().getTrackingInfo(result.trackingNumber)).events).toEqual(tracking.events);
+
+            const label = await carrier().getLabel(result.trackingNumber);
+            expect(label.subarray(0, 5).toString()).toBe('%PDF-');
+            expect((await PDFDocument.load(label)).getPageCount()).toBe(1);
+
+            expect(await carrier().cancelShipment(result.trackingNumber)).toBe(true);
+            // The carrier refuses to cancel a guide twice
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            expect(await carrier().cancelShipment(result.trackingNumber)).toBe(false);
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('rechazó la solicitud: La guía'));
+            warn.mockRestore();
+        });
+
+        it('maps the quote', async () => {
+            const quote = await carrier().getQuote('Bogotá', 'Medellín', 2);
+
+            expect(quote.available).toBe(true);
+            expect(quote.price).toBeGreaterThan(0);
+            expect(quote.currency).toBe('COP');
+            expect(quote.estimatedDays).toBeGreaterThan(0);
+        });
+    });
+
+    describe('tracking events without a readable date', () => {
+        it('are read with a null timestamp', () => {
+            const tracking = CARRIER_APIS.servientrega.trackingResponse({
+                estadoActual: { codigo: 'EN TRANSPORTE', descripcion: 'En transporte' },
+                estados: [{ fecha: 'sin fecha', codigo: 'EN TRANSPORTE', descripcion: 'En transporte', ciudad: 'Cali' }]
+            });
+
+            expect(tracking.events[0].timestamp).toBeNull();
+        });
+
+        it('are left out of the tracking info rather than stamped with the lookup time', async () => {
+            const carrier = createCarriers(options()).find(c => c.id === 'servientrega')!;
+            const { trackingNumber } = await carrier.createShipment(shipmentData);
+            const trackingResponse = CARRIER_APIS.servientrega.trackingResponse;
+            const spy = jest.spyOn(CARRIER_APIS.servientrega, 'trackingResponse').mockImplementation(body => {
+                const tracking = trackingResponse(body);
+                return { ...tracking, events: tracking.events.map((event, index) => index === 0 ? { ...event, timestamp: null } : event) };
+            });
+
+            try {
+                const tracking = await carrier.getTrackingInfo(trackingNumber);
+
+                expect(tracking.events).toHaveLength(2);
+                expect(tracking.events.every(event => event.timestamp instanceof Date)).toBe(true);
+            } finally {
+                spy.mockRestore();
+            }
+        });
+    });
+
+    describe('error translation', () => {
+        const servientrega = (credentials: { apiUrl: string; apiKey: string }) =>
+            new HttpCarrier(new ServientregaCarrier(), CARRIER_APIS.servientrega, credentials, { timeoutMs: 2000, retry: NO_RETRY });
+
+        it('reports refused credentials as unauthorized', async () => {
+            const error = await servientrega({ apiUrl: `${mockUrl}/servientrega`, apiKey: '' })
+                .createShipment(shipmentData).catch(e => e);
+
+            expect(error).toBeInstanceOf(CarrierApiError);
+            expect(error.kind).toBe('unauthorized');
+            expect(error.status).toBe(401);
+        });
+
+        it('reports an unknown guide as not found, with the carrier message', async () => {
+            const error = await servientrega({ apiUrl: `${mockUrl}/servientrega`, apiKey: 'key' })
+                .getTrackingInfo('SV0000000000').catch(e => e);
+
+            expect(error.kind).toBe('not_found');
+            expect(error.message).toBe('Servientrega: Guía SV0000000000 no encontrada');
+        });
+
+        it('reads the error message of binary label requests', async () => {
+            const error = await servientrega({ apiUrl: `${mockUrl}/servientrega`, apiKey: 'key' })
+                .getLabel('SV0000000000').catch(e => e);
+
+            expect(error.kind).toBe('not_found');
+            expect(error.message).toContain('no encontrada');
+        });
+
+        it('reports an unreachable carrier as unavailable after retrying lookups', async () => {
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+            const carrier = new HttpCarrier(new ServientregaCarrier(), CARRIER_APIS.servientrega,
+                { apiUrl: 'http://127.0.0.1:1', apiKey: 'key' },
+                { timeoutMs: 2000, retry: { ...NO_RETRY, maxRetries: 2 } });
+
+            const error = await carrier.getTrackingInfo('SV0000000000').catch(e => e);
+
+            expect(error.kind).toBe('unavailable');
+            expect(error.message).toMatch(/^Servientrega no disponible/);
+            expect(warn).toHaveBeenCalledTimes(2);
+            warn.mockRestore();
+        });
+    });
+});
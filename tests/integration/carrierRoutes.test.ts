@@ -3,18 +3,50 @@
  */
 
 import express from 'express';
+import { PDFDocument } from 'pdf-lib';
 import request from 'supertest';
-import carrierRoutes from '../../src/api/carrierRoutes';
+import { createCarrierRouter } from '../../src/api/carrierRoutes';
+import { carrierSelector } from '../../src/services/CarrierSelector';
+import { ShipmentService } from '../../src/services/ShipmentService';
+import { InMemoryShipmentRepository } from '../../src/services/ShipmentRepository';
+import { CarrierApiError } from '../../src/carriers/http/CarrierApi';
 
 describe('Carrier Routes Integration Tests', () => {
     let app: express.Application;
+    let shipments: ShipmentService;
 
     beforeAll(() => {
+        shipments = new ShipmentService(new InMemoryShipmentRepository());
         app = express();
         app.use(express.json());
-        app.use('/api', carrierRoutes);
+        app.use('/api', createCarrierRouter(shipments));
     });
 
+    const validShipmentRequest = {
+        origin: 'Bogotá',
+        destination: 'Medellín',
+        weight: 2,
+        priority: 'balanced',
+        recipientData: {
+            name: 'Juan Pérez',
+            phone: '3001234567',
+            address: 'Calle 50 # 40-30',
+            city: 'Medellín'
+        },
+        orderNumber: 'ORD-2024-001'
+    };
+
+    /**
+     * Creates a shipment through the API, answering its tracking number
+     */
+    async function createShipment(overrides: object = {}): Promise<string> {
+        const response = await request(app)
+            .post('/api/shipments')
+            .send({ ...validShipmentRequest, ...overrides })
+            .expect(200);
+        return response.body.shipment.trackingNumber;
+    }
+
     describe('GET /api/carriers', () => {
         it('should return list of all carriers', async () => {
             const response = await request(app)
@@ -130,6 +162,37 @@ describe('Carrier Routes Integration Tests', () => {
             }
         });
 
+        it('should track shipments created here through their stored carrier', async () => {
+            const trackingNumber = await createShipment({ priority: 'cheapest' });
+            const stored = await shipments.getShipmentByTrackingNumber(trackingNumber);
+            const getTrackingInfo = jest.spyOn(carrierSelector.getCarrier(stored!.carrier!)!, 'getTrackingInfo');
+
+            const response = await request(app)
+                .get(`/api/tracking/${trackingNumber}`)
+                .expect(200);
+
+            expect(response.body.tracking.trackingNumber).toBe(trackingNumber);
+            expect(getTrackingInfo).toHaveBeenCalledWith(trackingNumber);
+            getTrackingInfo.mockRestore();
+        });
+
+        it('should answer carrier API failures with their status', async () => {
+            const trackingNumber = await createShipment({ priority: 'cheapest' });
+            const stored = await shipments.getShipmentByTrackingNumber(trackingNumber);
+            const carrier = carrierSelector.getCarrier(stored!.carrier!)!;
+            const getTrackingInfo = jest.spyOn(carrier, 'getTrackingInfo')
+                .mockRejectedValueOnce(new CarrierApiError(carrier.id, 'not_found', `${carrier.name}: Guía no encontrada`, 404))
+                .mockRejectedValueOnce(new CarrierApiError(carrier.id, 'unavailable', `${carrier.name} no disponible: HTTP 502`, 502));
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+            const notFound = await request(app).get(`/api/tracking/${trackingNumber}`).expect(404);
+            expect(notFound.body.error).toBe(`${carrier.name}: Guía no encontrada`);
+            await request(app).get(`/api/tracking/${trackingNumber}`).expect(503);
+
+            getTrackingInfo.mockRestore();
+            (console.error as jest.Mock).mockRestore();
+        });
+
         it('should return 400 for empty tracking number', async () => {
             const response = await request(app)
                 .get('/api/tracking/%20')
@@ -140,20 +203,6 @@ describe('Carrier Routes Integration Tests', () => {
     });
 
     describe('POST /api/shipments', () => {
-        const validShipmentRequest = {
-            origin: 'Bogotá',
-            destination: 'Medellín',
-            weight: 2,
-            priority: 'balanced',
-            recipientData: {
-                name: 'Juan Pérez',
-                phone: '3001234567',
-                address: 'Calle 50 # 40-30',
-                city: 'Medellín'
-            },
-            orderNumber: 'ORD-2024-001'
-        };
-
         it('should create shipment with balanced priority', async () => {
             const response = await request(app)
                 .post('/api/shipments')
@@ -168,6 +217,124 @@ describe('Carrier Routes Integration Tests', () => {
             expect(response.body.selectionReason).toContain('balance');
         });
 
+        it('should store the weight and cash on delivery amount for the label', async () => {
+            const trackingNumber = await createShipment({ codAmount: 85000 });
+
+            const stored = await shipments.getShipmentByTrackingNumber(trackingNumber);
+
+            expect(stored!.booking).toMatchObject({ weight: 2, codAmount: 85000 });
+        });
+
+        it('should return 400 for an invalid cash on delivery amount', async () => {
+            const response = await request(app)
+                .post('/api/shipments')
+                .send({ ...validShipmentRequest, codAmount: -5 })
+                .expect(400);
+
+            expect(response.body.error).toContain('codAmount');
+        });
+
+        it('should store the shipment with its carrier, quote, selection reason and recipient', async () => {
+            const response = await request(app)
+                .post('/api/shipments')
+                .send({ ...validShipmentRequest, orderNumber: 'ORD-2024-STORE', productDescription: 'USB 32GB' })
+                .expect(200);
+
+            const stored = await shipments.getShipmentByTrackingNumber(response.body.shipment.trackingNumber);
+            expect(stored).toMatchObject({
+                id: response.body.shipment.id,
+                orderNumber: 'ORD-2024-STORE',
+                carrier: response.body.shipment.carrierId,
+                customerName: 'Juan Pérez',
+                city: 'Medellín',
+                productDescription: 'USB 32GB',
+                status: 'created',
+                booking: {
+                    quote: response.body.quote,
+                    selectionReason: response.body.selectionReason,
+                    labelReference: null,
+                    estimatedDelivery: expect.any(Date),
+                    recipient: expect.objectContaining({ name: 'Juan Pérez', daneCode: '05001' })
+                }
+            });
+            expect((await shipments.getStatusHistory(stored!.id))[0]).toMatchObject({ toStatus: 'created', triggeredBy: 'api' });
+        });
+
+        it('should book the order\'s shipment waiting for its guide instead of storing another', async () => {
+            const waiting = await shipments.createShipment({
+                orderNumber: 'ORD-2024-READY',
+                customerName: 'Juan Pérez',
+                customerPhone: '3001234567',
+                shippingAddress: 'Calle 50 # 40-30',
+                shippingPhone: '3001234567',
+                productDescription: 'USB 64GB',
+                status: 'ready_for_shipping'
+            }, 'webhook');
+
+            const response = await request(app)
+                .post('/api/shipments')
+                .send({ ...validShipmentRequest, orderNumber: 'ORD-2024-READY' })
+                .expect(200);
+
+            expect(response.body.shipment.id).toBe(waiting.id);
+            const booked = await shipments.getShipmentByOrderNumber('ORD-2024-READY');
+            expect(booked).toMatchObject({
+                id: waiting.id,
+                trackingNumber: response.body.shipment.trackingNumber,
+                carrier: response.body.shipment.carrierId,
+                productDescription: 'USB 64GB',
+                status: 'created',
+                booking: { quote: response.body.quote, selectionReason: response.body.selectionReason }
+            });
+            expect(await shipments.getShipmentByTrackingNumber(waiting.trackingNumber)).toBeNull();
+            expect((await shipments.getStatusHistory(waiting.id)).map(change => [change.fromStatus, change.toStatus, change.triggeredBy])).toEqual([
+                [null, 'ready_for_shipping', 'webhook'],
+                ['ready_for_shipping', 'created', 'api']
+            ]);
+        });
+
+        it('should void the carrier guide when the shipment cannot be stored', async () => {
+            const failing = new ShipmentService(new InMemoryShipmentRepository());
+            jest.spyOn(failing, 'createShipment').mockRejectedValue(new Error('Database connection failed'));
+            const failingApp = express();
+            failingApp.use(express.json());
+            failingApp.use('/api', createCarrierRouter(failing));
+            const selectBestCarrier = carrierSelector.selectBestCarrier.bind(carrierSelector);
+            let createShipment: jest.SpyInstance | undefined;
+            let cancelShipment: jest.SpyInstance | undefined;
+            const selectSpy = jest.spyOn(carrierSelector, 'selectBestCarrier').mockImplementation(async (...args) => {
+                const selection = await selectBestCarrier(...args);
+                createShipment = jest.spyOn(selection.carrier, 'createShipment');
+                cancelShipment = jest.spyOn(selection.carrier, 'cancelShipment');
+                return selection;
+            });
+
+            const response = await request(failingApp)
+                .post('/api/shipments')
+                .send(validShipmentRequest)
+                .expect(500);
+
+            expect(response.body.error).toBe('Database connection failed');
+            const created = await createShipment!.mock.results[0].value;
+            expect(cancelShipment).toHaveBeenCalledWith(created.trackingNumber);
+            selectSpy.mockRestore();
+            createShipment?.mockRestore();
+            cancelShipment?.mockRestore();
+        });
+
+        it('should return 503 without a shipment store', async () => {
+            const bare = express();
+            bare.use(express.json());
+            bare.use('/api', createCarrierRouter(null));
+
+            const response = await request(bare)
+                .post('/api/shipments')
+                .send(validShipmentRequest)
+                .expect(503);
+
+            expect(response.body.error).toBe('Registro de envíos no configurado');
+        });
+
         it('should create shipment with fastest priority', async () => {
             const response = await request(app)
                 .post('/api/shipments')
@@ -211,6 +378,34 @@ describe('Carrier Routes Integration Tests', () => {
             expect(response.body.error).toContain('Datos de destinatario incompletos');
         });
 
+        it('should pass the carrier the normalized recipient address and DANE code', async () => {
+            const selectBestCarrier = carrierSelector.selectBestCarrier.bind(carrierSelector);
+            let createShipment: jest.SpyInstance | undefined;
+            const selectSpy = jest.spyOn(carrierSelector, 'selectBestCarrier').mockImplementation(async (...args) => {
+                const selection = await selectBestCarrier(...args);
+                createShipment = jest.spyOn(selection.carrier, 'createShipment');
+                return selection;
+            });
+
+            await request(app)
+                .post('/api/shipments')
+                .send({
+                    ...validShipmentRequest,
+                    recipientData: { ...validShipmentRequest.recipientData, address: 'CL 50 NO 40 - 30 apto 201' }
+                })
+                .expect(200);
+
+            expect(createShipment).toHaveBeenCalledWith(expect.objectContaining({
+                recipient: expect.objectContaining({
+                    address: 'Calle 50 # 40-30, Apto 201',
+                    daneCode: '05001',
+                    structuredAddress: expect.objectContaining({ viaType: 'Calle', viaNumber: '50', plate: '30' })
+                })
+            }));
+            selectSpy.mockRestore();
+            createShipment?.mockRestore();
+        });
+
         it('should return 500 when no carriers support the route', async () => {
             const response = await request(app)
                 .post('/api/shipments')
@@ -227,36 +422,113 @@ describe('Carrier Routes Integration Tests', () => {
 
     describe('DELETE /api/shipments/:trackingNumber', () => {
         it('should cancel shipment successfully', async () => {
+            const trackingNumber = await createShipment();
+
             const response = await request(app)
-                .delete('/api/shipments/SV123456789')
+                .delete(`/api/shipments/${trackingNumber}`)
                 .expect(200);
 
             expect(response.body.success).toBe(true);
             expect(response.body.message).toContain('cancelado');
+            expect(await shipments.getShipmentByTrackingNumber(trackingNumber)).toMatchObject({ status: 'cancelled' });
+        });
+
+        it('should cancel through the stored carrier', async () => {
+            const trackingNumber = await createShipment({ priority: 'fastest' });
+            const stored = await shipments.getShipmentByTrackingNumber(trackingNumber);
+            const cancelShipment = jest.spyOn(carrierSelector.getCarrier(stored!.carrier!)!, 'cancelShipment');
+
+            await request(app)
+                .delete(`/api/shipments/${trackingNumber}`)
+                .expect(200);
+
+            expect(cancelShipment).toHaveBeenCalledWith(trackingNumber);
+            cancelShipment.mockRestore();
+        });
+
+        it('should return 409 once the carrier has picked the shipment up', async () => {
+            const trackingNumber = await createShipment();
+            const stored = await shipments.getShipmentByTrackingNumber(trackingNumber);
+            await shipments.updateShipmentStatus(stored!.id, 'in_transit', { triggeredBy: 'test' });
+
+            const response = await request(app)
+                .delete(`/api/shipments/${trackingNumber}`)
+                .expect(409);
+
+            expect(response.body.error).toBe('El envío ya no se puede cancelar (estado: in_transit)');
         });
 
-        it('should return 404 for unknown tracking format', async () => {
+        it('should return 404 for shipments not created here', async () => {
             const response = await request(app)
-                .delete('/api/shipments/UNKNOWN123')
+                .delete('/api/shipments/SV123456789')
                 .expect(404);
 
             expect(response.body.success).toBe(false);
+            expect(response.body.error).toBe('Envío no encontrado');
         });
     });
 
     describe('GET /api/shipments/:trackingNumber/label', () => {
         it('should return PDF label', async () => {
+            const trackingNumber = await createShipment();
+
             const response = await request(app)
-                .get('/api/shipments/SV123456789/label')
+                .get(`/api/shipments/${trackingNumber}/label`)
+                .set('x-api-key', 'test-shipping-api-key')
                 .expect(200);
 
             expect(response.headers['content-type']).toBe('application/pdf');
-            expect(response.headers['content-disposition']).toContain('label-SV123456789.pdf');
+            expect(response.headers['content-disposition']).toContain(`label-${trackingNumber}.pdf`);
+            const pdf = await PDFDocument.load(response.body);
+            expect(pdf.getPage(0).getSize()).toEqual({ width: 288, height: 432 });
+        });
+
+        it('should render A4 labels', async () => {
+            const trackingNumber = await createShipment();
+
+            const response = await request(app)
+                .get(`/api/shipments/${trackingNumber}/label?size=a4`)
+                .set('x-api-key', 'test-shipping-api-key')
+                .expect(200);
+
+            expect(Math.round((await PDFDocument.load(response.body)).getPage(0).getSize().width)).toBe(595);
+        });
+
+        it('should fetch the carrier label with source=carrier', async () => {
+            const trackingNumber = await createShipment();
+            const stored = await shipments.getShipmentByTrackingNumber(trackingNumber);
+            const getLabel = jest.spyOn(carrierSelector.getCarrier(stored!.carrier!)!, 'getLabel')
+                .mockResolvedValue(Buffer.from('%PDF-carrier'));
+
+            const response = await request(app)
+                .get(`/api/shipments/${trackingNumber}/label?source=carrier`)
+                .set('x-api-key', 'test-shipping-api-key')
+                .expect(200);
+
+            expect(response.body.toString()).toBe('%PDF-carrier');
+            expect(getLabel).toHaveBeenCalledWith(trackingNumber);
+            getLabel.mockRestore();
+        });
+
+        it('should return 400 for an unknown label size', async () => {
+            const response = await request(app)
+                .get('/api/shipments/SV1/label?size=letter')
+                .set('x-api-key', 'test-shipping-api-key')
+                .expect(400);
+
+            expect(response.body.error).toContain('Tamaño de etiqueta inválido: letter');
+        });
+
+        it('should require an API key', async () => {
+            const trackingNumber = await createShipment();
+
+            await request(app).get(`/api/shipments/${trackingNumber}/label`).expect(401);
         });
 
-        it('should return 404 for unknown tracking format', async () => {
+        it('should return 404 for shipments not created here', async () => {
             const response = await request(app)
                 .get('/api/shipments/UNKNOWN123/label')
+                .set('x-api-key', 'test-shipping-api-key')
                 .expect(404);
 
             expect(response.body.success).toBe(false);
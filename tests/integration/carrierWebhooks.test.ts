@@ -0,0 +1,214 @@
+/**
+ * Integration tests for the carriers' tracking webhooks
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { createHmac } from 'crypto';
+import { createCarrierWebhookRouter, keepRawBody } from '../../src/routes/webhooks';
+import { ShipmentService } from '../../src/services/ShipmentService';
+import { InMemoryShipmentRepository } from '../../src/services/ShipmentRepository';
+import { TrackingUpdater } from '../../src/services/TrackingUpdater';
+import { InMemoryStatusNotificationStore } from '../../src/services/StatusNotificationStore';
+import { ShipmentStatus } from '../../src/carriers/types';
+
+const SECRETS = {
+    servientrega: 'sv-secret',
+    envia: 'envia-secret',
+    coordinadora: 'cd-secret',
+    tcc: 'tcc-secret'
+};
+
+function hmac(algorithm: string, secret: string, body: string, encoding: 'hex' | 'base64') {
+    return createHmac(algorithm, secret).update(body).digest(encoding);
+}
+
+function servientregaEvent(codigo: string, fecha: string) {
+    return { guia: 'SV1234567890', estado: { fecha, codigo, descripcion: `Estado ${codigo}`, ciudad: 'Medellín', observacion: null } };
+}
+
+describe('Carrier tracking webhooks', () => {
+    let app: express.Application;
+    let shipments: ShipmentService;
+    let dashboard: jest.Mock;
+
+    const createShipment = (trackingNumber: string, carrier: string | undefined, status: ShipmentStatus = 'created') => shipments.createShipment({
+        orderNumber: `ORD-${trackingNumber}`,
+        trackingNumber,
+        carrier,
+        customerName: 'Juan Pérez',
+        customerPhone: '3001234567',
+        shippingAddress: 'Calle 50 # 40-30',
+        shippingPhone: '3001234567',
+        productDescription: 'USB 64GB',
+        status
+    });
+
+    /**
+     * Posts a Servientrega callback signed with its HMAC-SHA256
+     */
+    const postServientrega = (payload: object, secret = SECRETS.servientrega) => {
+        const body = JSON.stringify(payload);
+        return request(app)
+            .post('/webhooks/carriers/servientrega')
+            .set('Content-Type', 'application/json')
+            .set('X-Servientrega-Firma', hmac('sha256', secret, body, 'hex'))
+            .send(body);
+    };
+
+    beforeEach(async () => {
+        shipments = new ShipmentService(new InMemoryShipmentRepository());
+        dashboard = jest.fn();
+        const updater = new TrackingUpdater(shipments, {
+            dashboard,
+            techAura: { updateShippingStatus: jest.fn().mockResolvedValue(true) },
+            whatsapp: null
+        }, new InMemoryStatusNotificationStore());
+        app = express();
+        app.use(express.json({ verify: keepRawBody }));
+        app.use('/webhooks', createCarrierWebhookRouter(shipments, updater, { secrets: SECRETS }));
+        await createShipment('SV1234567890', 'servientrega');
+    });
+
+    it('applies a signed callback through the carrier\'s status vocabulary', async () => {
+        const response = await postServientrega(servientregaEvent('EN TRANSPORTE', '2024-01-17T08:00:00Z')).expect(200);
+
+        expect(response.body).toEqual({ success: true, trackingNumber: 'SV1234567890', status: 'in_transit', newEvents: 1, statusChanged: true });
+        const shipment = await shipments.getShipmentByTrackingNumber('SV1234567890');
+        expect(shipment!.status).toBe('in_transit');
+        const [, change] = await shipments.getStatusHistory(shipment!.id);
+        expect(change).toMatchObject({
+            fromStatus: 'created',
+            toStatus: 'in_transit',
+            triggeredBy: 'carrier:servientrega',
+            carrierEvent: { status: 'in_transit', description: 'Estado EN TRANSPORTE', location: 'Medellín' }
+        });
+        expect(dashboard).toHaveBeenCalledWith('ORD-SV1234567890', 'in_transit');
+    });
+
+    it('refuses callbacks with a wrong, missing or stale signature', async () => {
+        await postServientrega(servientregaEvent('ENTREGADO', '2024-01-17T08:00:00Z'), 'other-secret').expect(401);
+
+        await request(app)
+            .post('/webhooks/carriers/servientrega')
+            .send(servientregaEvent('ENTREGADO', '2024-01-17T08:00:00Z'))
+            .expect(401);
+
+        // Signed for another body
+        const signature = hmac('sha256', SECRETS.servientrega, JSON.stringify(servientregaEvent('EN TRANSPORTE', '2024-01-17T08:00:00Z')), 'hex');
+        const response = await request(app)
+            .post('/webhooks/carriers/servientrega')
+            .set('Content-Type', 'application/json')
+            .set('X-Servientrega-Firma', signature)
+            .send(JSON.stringify(servientregaEvent('ENTREGADO', '2024-01-17T08:00:00Z')))
+            .expect(401);
+
+        expect(response.body.error).toBe('Firma inválida');
+        expect((await shipments.getShipmentByTrackingNumber('SV1234567890'))!.status).toBe('created');
+    });
+
+    it('answers a callback delivered again without applying it twice', async () => {
+        const payload = servientregaEvent('EN TRANSPORTE', '2024-01-17T08:00:00Z');
+        await postServientrega(payload).expect(200);
+
+        const response = await postServientrega(payload).expect(200);
+
+        expect(response.body).toMatchObject({ status: 'in_transit', newEvents: 0, statusChanged: false });
+        expect(await shipments.getTrackingEvents('SV1234567890')).toHaveLength(1);
+        expect(dashboard).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps a callback delivered late as history without moving the shipment back', async () => {
+        await postServientrega(servientregaEvent('RECHAZADO', '2024-01-18T15:00:00Z')).expect(200);
+
+        const response = await postServientrega(servientregaEvent('EN TRANSPORTE', '2024-01-17T08:00:00Z')).expect(200);
+
+        expect(response.body).toMatchObject({ status: 'failed_delivery', newEvents: 1, statusChanged: false });
+        expect((await shipments.getTrackingEvents('SV1234567890')).map(event => event.status)).toEqual(['in_transit', 'failed_delivery']);
+    });
+
+    it('checks shared-token callbacks and applies several events at a time', async () => {
+        await createShipment('TCC0000000001', 'tcc');
+        const payload = {
+            remesa: 'TCC0000000001',
+            eventos: [
+                { fecha: '2024-01-17T08:00:00Z', estado: 'EN TRANSITO', descripcion: 'En tránsito', ciudad: 'Cali' },
+                { fecha: '2024-01-16T10:00:00Z', estado: 'RECOGIDO', descripcion: 'Recogido', ciudad: 'Bogotá' }
+            ]
+        };
+
+        await request(app).post('/webhooks/carriers/tcc').set('X-TCC-Token', 'wrong').send(payload).expect(401);
+        const response = await request(app).post('/webhooks/carriers/tcc').set('X-TCC-Token', SECRETS.tcc).send(payload).expect(200);
+
+        expect(response.body).toMatchObject({ status: 'in_transit', newEvents: 2, statusChanged: true });
+        const shipment = await shipments.getShipmentByTrackingNumber('TCC0000000001');
+        expect((await shipments.getStatusHistory(shipment!.id)).map(change => change.toStatus)).toEqual(['created', 'picked_up', 'in_transit']);
+    });
+
+    it('checks prefixed hex and base64 signatures', async () => {
+        await createShipment('CD0000000001', 'coordinadora');
+        const coordinadora = JSON.stringify({
+            codigo_remision: 'CD0000000001',
+            novedad: { fecha: '2024-01-17T08:00:00Z', estado: 'EN REPARTO', descripcion: 'En reparto', ciudad: 'Cali', observaciones: null }
+        });
+        await request(app)
+            .post('/webhooks/carriers/coordinadora')
+            .set('Content-Type', 'application/json')
+            .set('X-Coordinadora-Signature', `sha256=${hmac('sha256', SECRETS.coordinadora, coordinadora, 'hex')}`)
+            .send(coordinadora)
+            .expect(200);
+
+        await createShipment('ENV0000000001', 'envia');
+        const envia = JSON.stringify({ guia: 'ENV0000000001', estado: 'ENTREGADO', detalle: 'Entregado', ciudad: 'Pasto', fechaHora: '2024-01-17T08:00:00Z' });
+        await request(app)
+            .post('/webhooks/carriers/envia')
+            .set('Content-Type', 'application/json')
+            .set('X-Envia-Signature', hmac('sha1', SECRETS.envia, envia, 'base64'))
+            .send(envia)
+            .expect(200);
+
+        expect((await shipments.getShipmentByTrackingNumber('CD0000000001'))!.status).toBe('out_for_delivery');
+        expect((await shipments.getShipmentByTrackingNumber('ENV0000000001'))!.status).toBe('delivered');
+    });
+
+    it('answers 404 for unknown carriers, carriers without a secret and guides not registered with the carrier', async () => {
+        expect((await request(app).post('/webhooks/carriers/fedex').send({}).expect(404)).body.error).toBe('Transportadora no encontrada: fedex');
+        expect((await request(app).post('/webhooks/carriers/deprisa').send({}).expect(404)).body.error).toBe('Notificaciones de Deprisa no configuradas');
+
+        const unknown = await postServientrega({ ...servientregaEvent('ENTREGADO', '2024-01-17T08:00:00Z'), guia: 'SV0000000000' }).expect(404);
+        expect(unknown.body.error).toBe('Guía SV0000000000 no registrada con Servientrega');
+    });
+
+    it('lets only the carrier its tracking number points to update a shipment stored without one', async () => {
+        await createShipment('SV0000000002', undefined);
+        await createShipment('XX0000000003', undefined);
+        const delivered = (guia: string) => ({ ...servientregaEvent('ENTREGADO', '2024-01-17T08:00:00Z'), guia });
+        const tccDelivered = { remesa: 'SV0000000002', eventos: [{ fecha: '2024-01-17T08:00:00Z', estado: 'ENTREGADO', descripcion: 'Entregado', ciudad: 'Cali' }] };
+
+        expect((await request(app).post('/webhooks/carriers/tcc').set('X-TCC-Token', SECRETS.tcc).send(tccDelivered).expect(404)).body.error)
+            .toBe('Guía SV0000000002 no registrada con TCC');
+        await postServientrega(delivered('XX0000000003')).expect(404);
+        expect((await shipments.getShipmentByTrackingNumber('XX0000000003'))!.status).toBe('created');
+
+        await postServientrega(delivered('SV0000000002')).expect(200);
+        expect((await shipments.getShipmentByTrackingNumber('SV0000000002'))!.status).toBe('delivered');
+    });
+
+        it('answers 400 for payloads it cannot read', async () => {
+        expect((await postServientrega({ guia: 'SV1234567890' }).expect(400)).body.error).toBe('Notificación de Servientrega no reconocida');
+        expect((await postServientrega({ estado: servientregaEvent('ENTREGADO', '').estado }).expect(400)).body.error)
+            .toBe('Notificación de Servientrega sin guía o sin eventos');
+        expect((await postServientrega(servientregaEvent('ENTREGADO', 'ayer')).expect(400)).body.error).toBe('Evento sin fecha válida');
+        expect((await postServientrega(servientregaEvent('', '2024-01-17T08:00:00Z')).expect(400)).body.error).toBe('Evento sin estado');
+        const { codigo, ...withoutCode } = servientregaEvent('ENTREGADO', '2024-01-17T08:00:00Z').estado;
+        expect((await postServientrega({ guia: 'SV1234567890', estado: withoutCode }).expect(400)).body.error).toBe('Evento sin estado');
+    });
+
+    it('answers 503 while shipment tracking is not set up', async () => {
+        const bare = express();
+        bare.use(express.json({ verify: keepRawBody }));
+        bare.use('/webhooks', createCarrierWebhookRouter(null, null, { secrets: SECRETS }));
+
+        await request(bare).post('/webhooks/carriers/servientrega').send({}).expect(503);
+    });
+});
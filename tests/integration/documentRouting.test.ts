@@ -0,0 +1,153 @@
+/**
+ * Tests for uploads that are not carrier guides (receipts, invoices, IDs)
+ */
+
+import express from 'express';
+import request from 'supertest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setupRoutes } from '../../src/api/routes';
+import { GuideParser, NonGuideDocumentError } from '../../src/services/GuideParser';
+import { DocumentClassifier } from '../../src/services/DocumentClassifier';
+import { CustomerMatcher } from '../../src/services/CustomerMatcher';
+import { WhatsAppSender } from '../../src/services/WhatsAppSender';
+import { techAuraIntegration } from '../../src/services/TechAuraIntegration';
+import { mockCustomerMatch } from '../fixtures/mock-data';
+
+jest.mock('../../src/services/CustomerMatcher');
+jest.mock('../../src/services/WhatsAppSender');
+jest.mock('../../src/services/TechAuraIntegration');
+
+const receiptText = 'DaviPlata\nTransacción exitosa\nDe: Laura Gómez\nValor $85.000\nNúmero de aprobación: 004512';
+
+describe('POST /api/process-guide with non-guide documents', () => {
+  const testFilePath = path.join('/tmp/test-uploads', 'document.png');
+  const classifier = new DocumentClassifier();
+  let app: express.Application;
+  let parser: GuideParser;
+  let mockMatcher: jest.Mocked<CustomerMatcher>;
+  const mockTechAura = techAuraIntegration as jest.Mocked<typeof techAuraIntegration>;
+
+  const uploadAs = (text: string) => {
+    jest.spyOn(parser, 'parseAll').mockRejectedValue(new NonGuideDocumentError(classifier.classify(text), text));
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(testFilePath), { recursive: true });
+    fs.writeFileSync(testFilePath, 'document image');
+
+    parser = new GuideParser();
+    mockMatcher = new CustomerMatcher({} as any) as jest.Mocked<CustomerMatcher>;
+    mockMatcher.findCandidates = jest.fn().mockResolvedValue([]);
+    mockTechAura.attachPaymentProof.mockResolvedValue(true);
+
+    app = express();
+    setupRoutes(app, {
+      parser,
+      matcher: mockMatcher,
+      sender: new WhatsAppSender({ apiUrl: '', apiKey: '' })
+    });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testFilePath)) fs.unlinkSync(testFilePath);
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('attaches a payment receipt to the given order', async () => {
+    uploadAs(receiptText);
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .field('orderNumber', 'ORD-77')
+      .attach('guide', testFilePath)
+      .expect(200);
+
+    expect(response.body).toMatchObject({
+      success: true,
+      documentType: 'payment_receipt',
+      orderNumber: 'ORD-77',
+      receipt: { provider: 'Daviplata', amount: 85000, reference: '004512' }
+    });
+    expect(mockTechAura.attachPaymentProof).toHaveBeenCalledWith(expect.objectContaining({
+      orderNumber: 'ORD-77',
+      fileName: 'document.png',
+      fileBase64: Buffer.from('document image').toString('base64')
+    }));
+  });
+
+  it('matches a receipt to an order by payer name', async () => {
+    uploadAs(receiptText);
+    mockMatcher.findCandidates.mockResolvedValue([{ ...mockCustomerMatch, signals: { phone: null, name: 1, city: null, address: null } }]);
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .attach('guide', testFilePath)
+      .expect(200);
+
+    expect(response.body.orderNumber).toBe(mockCustomerMatch.orderNumber);
+  });
+
+  it('asks for the order number when the receipt matches no order', async () => {
+    uploadAs(receiptText);
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .attach('guide', testFilePath)
+      .expect(400);
+
+    expect(response.body).toMatchObject({ success: false, documentType: 'payment_receipt' });
+    expect(response.body.error).toContain('orderNumber');
+    expect(mockTechAura.attachPaymentProof).not.toHaveBeenCalled();
+  });
+
+  it('rejects invoices with their classification', async () => {
+    uploadAs('FACTURA ELECTRÓNICA DE VENTA\nNIT 901.234.567-8\nSubtotal $ 100.000\nIVA $ 19.000');
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .attach('guide', testFilePath)
+      .expect(400);
+
+    expect(response.body).toMatchObject({ success: false, documentType: 'invoice' });
+    expect(response.body.classification.signals).toContain('invoice.nit');
+    expect(response.body.classification.scores.invoice).toBeGreaterThanOrEqual(0.5);
+  });
+
+  it('rejects ID documents', async () => {
+    uploadAs('REPÚBLICA DE COLOMBIA\nCÉDULA DE CIUDADANÍA\nAPELLIDOS\nNOMBRES');
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .attach('guide', testFilePath)
+      .expect(400);
+
+    expect(response.body.documentType).toBe('id_document');
+    expect(response.body.error).toContain('documento de identidad');
+  });
+
+  it('routes each file of a multi-file upload by its type', async () => {
+    jest.spyOn(parser, 'parseAll')
+      .mockRejectedValueOnce(new NonGuideDocumentError(classifier.classify(receiptText), receiptText))
+      .mockRejectedValueOnce(new NonGuideDocumentError(classifier.classify('FACTURA DE VENTA NIT 901.234.567-8 IVA'), 'FACTURA'));
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .field('orderNumber', 'ORD-77')
+      .attach('guide', testFilePath)
+      .attach('guide', testFilePath)
+      .expect(200);
+
+    expect(response.body.results).toEqual([
+      expect.objectContaining({ success: true, fileName: 'document.png', documentType: 'payment_receipt' }),
+      expect.objectContaining({ success: false, fileName: 'document.png', documentType: 'invoice' })
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for skipping guides that were already sent
+ */
+
+import express from 'express';
+import request from 'supertest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { setupRoutes } from '../../src/api/routes';
+import { GuideParser } from '../../src/services/GuideParser';
+import { CustomerMatcher } from '../../src/services/CustomerMatcher';
+import { WhatsAppSender } from '../../src/services/WhatsAppSender';
+import { GuideRegistry } from '../../src/services/GuideRegistry';
+import { mockParsedGuideData, mockCustomerMatch } from '../fixtures/mock-data';
+
+jest.mock('../../src/services/GuideParser');
+jest.mock('../../src/services/CustomerMatcher');
+jest.mock('../../src/services/WhatsAppSender');
+
+describe('POST /api/process-guide duplicate detection', () => {
+  const testFilePath = path.join('/tmp/test-uploads', 'duplicate-guide.png');
+  let registryDir: string;
+  let registry: GuideRegistry;
+  let app: express.Application;
+  let mockParser: jest.Mocked<GuideParser>;
+  let mockMatcher: jest.Mocked<CustomerMatcher>;
+  let mockSender: jest.Mocked<WhatsAppSender>;
+
+  const upload = (query = '') => request(app)
+    .post(`/api/process-guide${query}`)
+    .set('x-api-key', 'test-shipping-api-key')
+    .attach('guide', testFilePath);
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(testFilePath), { recursive: true });
+    fs.writeFileSync(testFilePath, 'guide image');
+    registryDir = fs.mkdtempSync(path.join(os.tmpdir(), 'duplicates-'));
+    registry = new GuideRegistry(path.join(registryDir, 'processed-guides.json'));
+
+    mockParser = new GuideParser() as jest.Mocked<GuideParser>;
+    mockMatcher = new CustomerMatcher({} as any) as jest.Mocked<CustomerMatcher>;
+    mockSender = new WhatsAppSender({ apiUrl: '', apiKey: '' }) as jest.Mocked<WhatsAppSender>;
+    mockParser.parseAll = jest.fn().mockResolvedValue([mockParsedGuideData]);
+    mockMatcher.findCandidates = jest.fn().mockResolvedValue([mockCustomerMatch]);
+    mockMatcher.updateOrderTracking = jest.fn().mockResolvedValue(true);
+    mockSender.sendGuide = jest.fn().mockResolvedValue(true);
+
+    app = express();
+    setupRoutes(app, { parser: mockParser, matcher: mockMatcher, sender: mockSender, registry });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testFilePath)) fs.unlinkSync(testFilePath);
+    fs.rmSync(registryDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('skips a re-uploaded file without parsing it again', async () => {
+    await upload().expect(200);
+
+    const response = await upload().expect(409);
+
+    expect(response.body).toMatchObject({
+      success: false,
+      duplicate: true,
+      trackingNumber: mockParsedGuideData.trackingNumber,
+      previous: { sentTo: mockCustomerMatch.phone, orderNumber: mockCustomerMatch.orderNumber, source: 'upload' }
+    });
+    expect(mockParser.parseAll).toHaveBeenCalledTimes(1);
+    expect(mockSender.sendGuide).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips a different file carrying a tracking number already sent', async () => {
+    await upload().expect(200);
+    fs.writeFileSync(testFilePath, 'another photo of the same guide');
+
+    const response = await upload().expect(409);
+
+    expect(response.body.duplicate).toBe(true);
+    expect(response.body.message).toContain(mockParsedGuideData.trackingNumber);
+    expect(mockSender.sendGuide).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-sends a duplicate with force=true', async () => {
+    await upload().expect(200);
+
+    const response = await upload('?force=true').expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(mockSender.sendGuide).toHaveBeenCalledTimes(2);
+  });
+
+  it('accepts force as a form field', async () => {
+    await upload().expect(200);
+
+    await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .field('force', 'true')
+      .attach('guide', testFilePath)
+      .expect(200);
+
+    expect(mockSender.sendGuide).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not register guides that were not sent', async () => {
+    mockSender.sendGuide.mockResolvedValueOnce(false);
+    await upload().expect(500);
+
+    await upload().expect(200);
+
+    expect(mockSender.sendGuide).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends a guide once when two uploads carrying it are processed at the same time', async () => {
+    let finishSend: (sent: boolean) => void = () => undefined;
+    mockSender.sendGuide.mockImplementationOnce(() => new Promise<boolean>(resolve => { finishSend = resolve; }));
+    const first = upload().then(response => response);
+    while (mockSender.sendGuide.mock.calls.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+
+    const second = await upload().expect(409);
+    finishSend(true);
+
+    expect(second.body).toMatchObject({ success: false, duplicate: true, trackingNumber: mockParsedGuideData.trackingNumber });
+    expect(second.body.message).toContain('se está enviando');
+    expect((await first).status).toBe(200);
+    expect(mockSender.sendGuide).toHaveBeenCalledTimes(1);
+    await upload().expect(409);
+  });
+
+  it('skips only the already-sent guides of a multi-guide file', async () => {
+    const secondGuide = { ...mockParsedGuideData, trackingNumber: 'SV987654321', page: 2 };
+    registry.recordGuide({
+      trackingNumber: mockParsedGuideData.trackingNumber,
+      carrier: 'Servientrega',
+      fileHash: 'other-file',
+      orderNumber: 'ORD-1',
+      sentTo: '3001234567',
+      source: 'watcher',
+      processedAt: '2025-03-12T15:00:00.000Z'
+    });
+    mockParser.parseAll.mockResolvedValue([{ ...mockParsedGuideData, page: 1 }, secondGuide]);
+    jest.spyOn(require('../../src/services/PdfPageExtractor').PdfPageExtractor.prototype, 'extractPage')
+      .mockImplementation(async () => testFilePath);
+
+    const response = await upload().expect(200);
+
+    expect(response.body.results).toEqual([
+      expect.objectContaining({ page: 1, duplicate: true, previous: expect.objectContaining({ source: 'watcher' }) }),
+      expect.objectContaining({ page: 2, success: true, trackingNumber: 'SV987654321' })
+    ]);
+    expect(mockSender.sendGuide).toHaveBeenCalledTimes(1);
+    expect(registry.findGuide('SV987654321')).not.toBeNull();
+  });
+});
@@ -3,6 +3,7 @@ import request from 'supertest';
 import { setupRoutes } from '../../src/api/routes';
 import { GuideParser } from '../../src/services/GuideParser';
 import { CustomerMatcher } from '../../src/services/CustomerMatcher';
+import { MySqlOrderRepository } from '../../src/services/OrderRepository';
 import { WhatsAppSender } from '../../src/services/WhatsAppSender';
 import { FolderWatcher } from '../../src/watchers/FolderWatcher';
 import { mockGuideTexts, mockDatabaseOrders } from '../fixtures/mock-data';
@@ -27,17 +28,21 @@ jest.mock('pdf-parse', () => {
   });
 });
 
-jest.mock('tesseract.js', () => ({
-  default: {
-    recognize: jest.fn(() => {
-      return Promise.resolve({
-        data: {
-          text: mockGuideTexts.coordinadora
-        }
-      });
-    })
-  }
-}));
+jest.mock('tesseract.js', () => {
+  const recognize = jest.fn(() => {
+    return Promise.resolve({
+      data: {
+        text: mockGuideTexts.coordinadora
+      }
+    });
+  });
+  return {
+    default: {
+      recognize,
+      createWorker: jest.fn(async () => ({ recognize, terminate: jest.fn(async () => undefined) }))
+    }
+  };
+});
 
 describe('End-to-End Flow Tests', () => {
   describe('Complete Upload → Parse → Match → Send Flow', () => {
@@ -57,13 +62,13 @@ describe('End-to-End Flow Tests', () => {
 
       // Setup real services with mocked dependencies
       parser = new GuideParser();
-      matcher = new CustomerMatcher({
+      matcher = new CustomerMatcher(new MySqlOrderRepository({
         host: 'localhost',
         port: 3306,
         user: 'test',
         password: 'test',
         database: 'test'
-      });
+      }));
       sender = new WhatsAppSender({
         apiUrl: 'http://localhost:9999',
         apiKey: 'test-key'
@@ -285,7 +290,7 @@ describe('End-to-End Flow Tests', () => {
 
       // Add multiple files
       const file1 = path.join(watchDir, 'guide1.pdf');
-      const file2 = path.join(watchDir, 'guide2.png');
+      const file2 = path.join(watchDir, 'guide2.pdf');
       
       fs.writeFileSync(file1, 'guide 1');
       await new Promise(resolve => setTimeout(resolve, 3000));
@@ -343,13 +348,13 @@ describe('End-to-End Flow Tests', () => {
       mysql.createPool.mockReturnValue(mockPool);
 
       parser = new GuideParser();
-      matcher = new CustomerMatcher({
+      matcher = new CustomerMatcher(new MySqlOrderRepository({
         host: 'localhost',
         port: 3306,
         user: 'test',
         password: 'test',
         database: 'test'
-      });
+      }));
       sender = new WhatsAppSender({
         apiUrl: 'http://localhost:9999',
         apiKey: 'test-key'
@@ -419,7 +424,7 @@ describe('End-to-End Flow Tests', () => {
       app = express();
       setupRoutes(app, {
         parser: new GuideParser(),
-        matcher: new CustomerMatcher({} as any),
+        matcher: new CustomerMatcher(new MySqlOrderRepository({})),
         sender: new WhatsAppSender({ apiUrl: '', apiKey: '' })
       });
     });
@@ -465,13 +470,13 @@ describe('End-to-End Flow Tests', () => {
       app = express();
       setupRoutes(app, {
         parser: new GuideParser(),
-        matcher: new CustomerMatcher({
+        matcher: new CustomerMatcher(new MySqlOrderRepository({
           host: 'localhost',
           port: 3306,
           user: 'test',
           password: 'test',
           database: 'test'
-        }),
+        })),
         sender: new WhatsAppSender({
           apiUrl: 'http://localhost:9999',
           apiKey: 'test-key'
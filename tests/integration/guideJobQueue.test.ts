@@ -0,0 +1,119 @@
+/**
+ * Tests for processing uploads through the guide job queue
+ */
+
+import express from 'express';
+import request from 'supertest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { setupRoutes } from '../../src/api/routes';
+import { GuideParser } from '../../src/services/GuideParser';
+import { CustomerMatcher } from '../../src/services/CustomerMatcher';
+import { WhatsAppSender } from '../../src/services/WhatsAppSender';
+import { JobQueue } from '../../src/services/JobQueue';
+import { MemoryJobStore } from '../fixtures/memory-job-store';
+import { mockParsedGuideData, mockCustomerMatch } from '../fixtures/mock-data';
+
+jest.mock('../../src/services/GuideParser');
+jest.mock('../../src/services/CustomerMatcher');
+jest.mock('../../src/services/WhatsAppSender');
+
+describe('POST /api/process-guide with a job queue', () => {
+  const testDir = '/tmp/test-uploads';
+  const testFiles = ['queued-guide-1.png', 'queued-guide-2.png', 'queued-guide-3.png'].map(name => path.join(testDir, name));
+  let store: MemoryJobStore;
+  let jobs: JobQueue;
+  let app: express.Application;
+  let mockParser: jest.Mocked<GuideParser>;
+  let mockMatcher: jest.Mocked<CustomerMatcher>;
+  let mockSender: jest.Mocked<WhatsAppSender>;
+
+  beforeEach(() => {
+    fs.mkdirSync(testDir, { recursive: true });
+    testFiles.forEach(file => fs.writeFileSync(file, 'guide image'));
+
+    mockParser = new GuideParser() as jest.Mocked<GuideParser>;
+    mockMatcher = new CustomerMatcher({} as any) as jest.Mocked<CustomerMatcher>;
+    mockSender = new WhatsAppSender({ apiUrl: '', apiKey: '' }) as jest.Mocked<WhatsAppSender>;
+    mockParser.parseAll = jest.fn().mockResolvedValue([mockParsedGuideData]);
+    mockMatcher.findCandidates = jest.fn().mockResolvedValue([mockCustomerMatch]);
+    mockMatcher.updateOrderTracking = jest.fn().mockResolvedValue(true);
+    mockSender.sendGuide = jest.fn().mockResolvedValue(true);
+
+    store = new MemoryJobStore();
+    jobs = new JobQueue(store, { concurrency: 2, maxAttempts: 3, retryBackoffMs: 10, pollIntervalMs: 5 });
+    jobs.start();
+
+    app = express();
+    setupRoutes(app, { parser: mockParser, matcher: mockMatcher, sender: mockSender, jobs });
+  });
+
+  afterEach(() => {
+    jobs.stop();
+    testFiles.filter(file => fs.existsSync(file)).forEach(file => fs.unlinkSync(file));
+    jest.clearAllMocks();
+  });
+
+  it('answers an upload once its job is done', async () => {
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .attach('guide', testFiles[0])
+      .expect(200);
+
+    expect(response.body).toMatchObject({ success: true, trackingNumber: mockParsedGuideData.trackingNumber, sentTo: mockCustomerMatch.phone });
+    expect(store.jobs).toHaveLength(1);
+    expect(store.jobs[0]).toMatchObject({ source: 'upload', state: 'done', options: { originalName: 'queued-guide-1.png', force: false } });
+    expect(store.history.get(1)).toEqual(['queued', 'parsing', 'matching', 'sending', 'done']);
+    expect(fs.existsSync(store.jobs[0].filePath)).toBe(false);
+  });
+
+  it('queues every file of a multi-file upload and answers in upload order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    mockParser.parseAll = jest.fn(async (_filePath: string) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+      return [mockParsedGuideData];
+    });
+
+    const upload = request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key');
+    testFiles.forEach(file => upload.attach('guide', file));
+    const response = await upload.expect(200);
+
+    expect(response.body.results.map((r: any) => r.fileName)).toEqual(['queued-guide-1.png', 'queued-guide-2.png', 'queued-guide-3.png']);
+    expect(store.jobs.map(job => job.state)).toEqual(['done', 'done', 'done']);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('answers errors from the job without retrying the upload', async () => {
+    mockMatcher.findCandidates = jest.fn().mockRejectedValue(new Error('Database not connected'));
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .attach('guide', testFiles[0])
+      .expect(503);
+
+    expect(response.body).toEqual({ success: false, error: 'Base de datos no conectada' });
+    expect(mockMatcher.findCandidates).toHaveBeenCalledTimes(1);
+    expect(store.jobs[0]).toMatchObject({ state: 'done', attempts: 1 });
+  });
+
+  it('answers 503 when the upload cannot be queued', async () => {
+    jest.spyOn(store, 'insert').mockRejectedValue(new Error('Database not connected'));
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .attach('guide', testFiles[0])
+      .expect(503);
+
+    expect(response.body.error).toBe('Base de datos no conectada');
+    expect(mockParser.parseAll).not.toHaveBeenCalled();
+  });
+});
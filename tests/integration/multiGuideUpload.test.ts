@@ -0,0 +1,91 @@
+/**
+ * Tests for uploading a PDF that holds several shipping guides
+ */
+
+import express from 'express';
+import request from 'supertest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { setupRoutes } from '../../src/api/routes';
+import { GuideParser } from '../../src/services/GuideParser';
+import { CustomerMatcher } from '../../src/services/CustomerMatcher';
+import { WhatsAppSender } from '../../src/services/WhatsAppSender';
+import { mockParsedGuideData, mockCustomerMatch } from '../fixtures/mock-data';
+
+jest.mock('../../src/services/GuideParser');
+jest.mock('../../src/services/CustomerMatcher');
+jest.mock('../../src/services/WhatsAppSender');
+
+describe('POST /api/process-guide with multi-guide PDFs', () => {
+  const testFilePath = path.join('/tmp/test-uploads', 'multi-guide.pdf');
+  const secondGuide = { ...mockParsedGuideData, trackingNumber: 'SV987654321', customerName: 'Ana Ruiz', page: 2 };
+  let app: express.Application;
+  let mockParser: jest.Mocked<GuideParser>;
+  let mockMatcher: jest.Mocked<CustomerMatcher>;
+  let mockSender: jest.Mocked<WhatsAppSender>;
+  let sentPageCounts: number[];
+
+  beforeEach(async () => {
+    fs.mkdirSync(path.dirname(testFilePath), { recursive: true });
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    pdf.addPage();
+    fs.writeFileSync(testFilePath, await pdf.save());
+
+    mockParser = new GuideParser() as jest.Mocked<GuideParser>;
+    mockMatcher = new CustomerMatcher({} as any) as jest.Mocked<CustomerMatcher>;
+    mockSender = new WhatsAppSender({ apiUrl: '', apiKey: '' }) as jest.Mocked<WhatsAppSender>;
+
+    mockParser.parseAll = jest.fn().mockResolvedValue([{ ...mockParsedGuideData, page: 1 }, secondGuide]);
+    mockMatcher.findCandidates = jest.fn();
+    mockMatcher.updateOrderTracking = jest.fn().mockResolvedValue(true);
+    sentPageCounts = [];
+    mockSender.sendGuide = jest.fn(async (_phone: string, _guide: any, filePath: string) => {
+      sentPageCounts.push((await PDFDocument.load(fs.readFileSync(filePath))).getPageCount());
+      return true;
+    });
+
+    app = express();
+    setupRoutes(app, { parser: mockParser, matcher: mockMatcher, sender: mockSender });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testFilePath)) fs.unlinkSync(testFilePath);
+    jest.clearAllMocks();
+  });
+
+  it('matches and sends each guide separately', async () => {
+    mockMatcher.findCandidates
+      .mockResolvedValueOnce([mockCustomerMatch])
+      .mockResolvedValueOnce([]);
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .attach('guide', testFilePath)
+      .expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(response.body.results).toEqual([
+      expect.objectContaining({ success: true, page: 1, trackingNumber: 'SV123456789', sentTo: mockCustomerMatch.phone }),
+      expect.objectContaining({ success: false, page: 2, message: 'No se encontró cliente asociado' })
+    ]);
+    expect(mockMatcher.updateOrderTracking).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends each customer only the page with their own guide', async () => {
+    mockMatcher.findCandidates.mockResolvedValue([mockCustomerMatch]);
+
+    const response = await request(app)
+      .post('/api/process-guide')
+      .set('x-api-key', 'test-shipping-api-key')
+      .attach('guide', testFilePath)
+      .expect(200);
+
+    expect(response.body.results.map((r: any) => r.page)).toEqual([1, 2]);
+    expect(sentPageCounts).toEqual([1, 1]);
+    const sentPaths = mockSender.sendGuide.mock.calls.map(call => call[2]);
+    sentPaths.forEach(sentPath => expect(fs.existsSync(sentPath)).toBe(false));
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Integration tests for the shipment listing routes
+ */
+
+import express from 'express';
+import request from 'supertest';
+import ExcelJS from 'exceljs';
+import { PDFDocument } from 'pdf-lib';
+import { createShipmentRouter } from '../../src/api/shipmentRoutes';
+import { ShipmentService } from '../../src/services/ShipmentService';
+import { InMemoryShipmentRepository, NewShipment } from '../../src/services/ShipmentRepository';
+
+function shipment(overrides: Partial<NewShipment>): NewShipment {
+    return {
+        orderNumber: 'ORD-000',
+        trackingNumber: 'TA000',
+        customerName: 'Juan Pérez',
+        customerPhone: '3001234567',
+        shippingAddress: 'Calle 45 # 23-67, Bogotá',
+        city: 'Bogotá',
+        shippingPhone: '3001234567',
+        productDescription: 'USB 16GB',
+        status: 'created',
+        createdAt: new Date(2024, 0, 10, 12),
+        updatedAt: new Date(2024, 0, 10, 12),
+        ...overrides
+    };
+}
+
+function binaryParser(res: any, callback: (error: Error | null, body: Buffer) => void): void {
+    const chunks: Buffer[] = [];
+    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+    res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+describe('Shipment Routes Integration Tests', () => {
+    let app: express.Application;
+
+    beforeAll(async () => {
+        const repository = new InMemoryShipmentRepository();
+        await repository.insert(shipment({ orderNumber: 'ORD-001', trackingNumber: 'TA001', carrier: 'servientrega', createdAt: new Date(2024, 0, 10, 9) }), 'test');
+        await repository.insert(shipment({ orderNumber: 'ORD-002', trackingNumber: 'TA002', carrier: 'coordinadora', status: 'in_transit', customerName: 'María García', customerPhone: '3109876543', shippingPhone: '3109876543', shippingAddress: 'Carrera 7 # 100-25, Medellín', city: 'Medellín', createdAt: new Date(2024, 0, 11, 9) }), 'test');
+        await repository.insert(shipment({ orderNumber: 'ORD-003', trackingNumber: 'TA003', carrier: 'servientrega', status: 'delivered', productDescription: 'USB 64GB "Música"', createdAt: new Date(2024, 0, 12, 9) }), 'test');
+        await repository.insert(shipment({ orderNumber: 'ORD-004', trackingNumber: 'TA004', status: 'ready_for_shipping', city: undefined, createdAt: new Date(2024, 0, 12, 18) }), 'test');
+        await repository.insert(shipment({ orderNumber: 'ORD-005', trackingNumber: 'TA005', carrier: 'interrapidisimo', status: 'in_transit', createdAt: new Date(2024, 0, 13, 9) }), 'test');
+
+        app = express();
+        app.use(express.json());
+        app.use('/api', createShipmentRouter(new ShipmentService(repository)));
+    });
+
+    const get = (url: string) => request(app).get(url).set('x-api-key', 'test-shipping-api-key');
+    const orderNumbers = (response: request.Response) => response.body.shipments.map((s: any) => s.orderNumber);
+
+    describe('GET /api/shipments', () => {
+        it('lists shipments newest first', async () => {
+            const response = await get('/api/shipments').expect(200);
+
+            expect(response.body.success).toBe(true);
+            expect(response.body.count).toBe(5);
+            expect(orderNumbers(response)).toEqual(['ORD-005', 'ORD-004', 'ORD-003', 'ORD-002', 'ORD-001']);
+            expect(response.body.nextCursor).toBeNull();
+        });
+
+        it('filters by several statuses, carrier and city', async () => {
+            expect(orderNumbers(await get('/api/shipments?status=in_transit,delivered'))).toEqual(['ORD-005', 'ORD-003', 'ORD-002']);
+            expect(orderNumbers(await get('/api/shipments?carrier=Servientrega'))).toEqual(['ORD-003', 'ORD-001']);
+            expect(orderNumbers(await get('/api/shipments?city=medellin'))).toEqual(['ORD-002']);
+        });
+
+        it('filters by creation date, the end date including its whole day', async () => {
+            const response = await get('/api/shipments?from=2024-01-11&to=2024-01-12').expect(200);
+
+            expect(orderNumbers(response)).toEqual(['ORD-004', 'ORD-003', 'ORD-002']);
+        });
+
+        it('filters by customer phone, with or without the country code', async () => {
+            expect(orderNumbers(await get('/api/shipments?phone=%2B57%20310%20987%206543'))).toEqual(['ORD-002']);
+            expect(orderNumbers(await get('/api/shipments?phone=9876'))).toEqual(['ORD-002']);
+        });
+
+        it('searches free text across order, guide, customer, address and product', async () => {
+            expect(orderNumbers(await get('/api/shipments?q=garcia'))).toEqual(['ORD-002']);
+            expect(orderNumbers(await get('/api/shipments?q=ta003'))).toEqual(['ORD-003']);
+            expect(orderNumbers(await get('/api/shipments?q=64gb'))).toEqual(['ORD-003']);
+        });
+
+        it('pages with the cursor of the previous page until the last one', async () => {
+            const first = await get('/api/shipments?limit=2&sort=orderNumber&order=asc').expect(200);
+            expect(orderNumbers(first)).toEqual(['ORD-001', 'ORD-002']);
+            expect(first.body.nextCursor).toEqual(expect.any(String));
+
+            const second = await get('/api/shipments').query({ limit: 2, sort: 'orderNumber', order: 'asc', cursor: first.body.nextCursor }).expect(200);
+            expect(orderNumbers(second)).toEqual(['ORD-003', 'ORD-004']);
+
+            const third = await get('/api/shipments').query({ limit: 2, sort: 'orderNumber', order: 'asc', cursor: second.body.nextCursor }).expect(200);
+            expect(orderNumbers(third)).toEqual(['ORD-005']);
+            expect(third.body.nextCursor).toBeNull();
+        });
+
+        it('keeps date cursors on filtered listings', async () => {
+            const first = await get('/api/shipments?limit=1&carrier=servientrega').expect(200);
+            const second = await get('/api/shipments').query({ limit: 1, carrier: 'servientrega', cursor: first.body.nextCursor }).expect(200);
+
+            expect([...orderNumbers(first), ...orderNumbers(second)]).toEqual(['ORD-003', 'ORD-001']);
+            expect(second.body.nextCursor).toBeNull();
+        });
+
+        it('rejects a cursor of a listing with another sort', async () => {
+            const first = await get('/api/shipments?limit=2').expect(200);
+
+            const response = await get('/api/shipments').query({ limit: 2, sort: 'orderNumber', cursor: first.body.nextCursor }).expect(400);
+
+            expect(response.body.error).toBe('Cursor inválido para este listado');
+            await get('/api/shipments?cursor=not-a-cursor').expect(400);
+        });
+
+        it('rejects invalid parameters', async () => {
+            expect((await get('/api/shipments?status=shipped').expect(400)).body.error).toBe('Estado de envío inválido: shipped');
+            expect((await get('/api/shipments?from=ayer').expect(400)).body.error).toBe('Fecha inválida en from: ayer');
+            expect((await get('/api/shipments?sort=customerPhone').expect(400)).body.error).toContain('Orden inválido');
+            expect((await get('/api/shipments?order=up').expect(400)).body.error).toContain('Dirección de orden inválida');
+            expect((await get('/api/shipments?limit=500').expect(400)).body.error).toBe('limit debe ser un entero entre 1 y 200');
+            expect((await get('/api/shipments?format=pdf').expect(400)).body.error).toContain('Formato inválido');
+        });
+
+        it('exports every matching shipment as CSV, ignoring the page size', async () => {
+            const response = await get('/api/shipments?format=csv&carrier=servientrega&limit=1').expect(200);
+
+            expect(response.headers['content-type']).toContain('text/csv');
+            expect(response.headers['content-disposition']).toContain('envios.csv');
+            const lines = response.text.replace(/^\uFEFF/, '').split('\r\n');
+            expect(lines[0]).toBe('"PEDIDO","GUIA","TRANSPORTADORA","ESTADO","CLIENTE","TELEFONO","DIRECCION","CIUDAD","PRODUCTO","CREADO","ACTUALIZADO"');
+            expect(lines).toHaveLength(3);
+            expect(lines[1]).toContain('"ORD-003","TA003","servientrega","delivered"');
+            expect(lines[1]).toContain('"USB 64GB ""Música"""');
+        });
+
+        it('exports as XLSX', async () => {
+            const response = await get('/api/shipments?format=xlsx&status=in_transit')
+                .buffer(true)
+                .parse(binaryParser)
+                .expect(200);
+
+            expect(response.headers['content-type']).toContain('spreadsheetml');
+            const workbook = new ExcelJS.Workbook();
+            await workbook.xlsx.load(response.body);
+            const sheet = workbook.getWorksheet('Envios')!;
+            expect(sheet.rowCount).toBe(3);
+            expect(sheet.getRow(2).getCell(1).value).toBe('ORD-005');
+            expect(sheet.getRow(3).getCell(8).value).toBe('Medellín');
+        });
+
+        it('requires the API key', async () => {
+            await request(app).get('/api/shipments').expect(401);
+        });
+
+        it('answers 503 without a shipment store', async () => {
+            const bare = express();
+            bare.use('/api', createShipmentRouter(null));
+
+            const response = await request(bare).get('/api/shipments').set('x-api-key', 'test-shipping-api-key').expect(503);
+
+            expect(response.body.error).toBe('Listado de envíos no configurado');
+        });
+    });
+
+    describe('POST /api/shipments/labels', () => {
+        const post = (body: object) => request(app)
+            .post('/api/shipments/labels')
+            .set('x-api-key', 'test-shipping-api-key')
+            .send(body)
+            .buffer(true)
+            .parse(binaryParser);
+
+        it('prints the labels of many shipments in one PDF', async () => {
+            const response = await post({ trackingNumbers: ['TA001', 'TA003', 'TA005', 'TA001'], size: 'a4' }).expect(200);
+
+            expect(response.headers['content-type']).toBe('application/pdf');
+            expect(response.headers['content-disposition']).toContain('etiquetas-3.pdf');
+            const pdf = await PDFDocument.load(response.body);
+            expect(pdf.getPageCount()).toBe(3);
+            expect(Math.round(pdf.getPage(0).getSize().width)).toBe(595);
+        });
+
+        it('answers 404 with the tracking numbers it does not know', async () => {
+            const response = await request(app)
+                .post('/api/shipments/labels')
+                .set('x-api-key', 'test-shipping-api-key')
+                .send({ trackingNumbers: ['TA001', 'NOPE1', 'NOPE2'] })
+                .expect(404);
+
+            expect(response.body.missing).toEqual(['NOPE1', 'NOPE2']);
+        });
+
+        it('rejects invalid batches', async () => {
+            const send = (body: object) => request(app).post('/api/shipments/labels').set('x-api-key', 'test-shipping-api-key').send(body);
+
+            expect((await send({}).expect(400)).body.error).toContain('trackingNumbers');
+            expect((await send({ trackingNumbers: ['TA001', 7] }).expect(400)).body.error).toContain('trackingNumbers');
+            expect((await send({ trackingNumbers: Array(201).fill('TA001') }).expect(400)).body.error).toBe('Máximo 200 etiquetas por lote');
+            expect((await send({ trackingNumbers: ['TA001'], size: 'letter' }).expect(400)).body.error).toContain('Tamaño de etiqueta inválido');
+        });
+
+        it('requires the API key', async () => {
+            await request(app).post('/api/shipments/labels').send({ trackingNumbers: ['TA001'] }).expect(401);
+        });
+    });
+});
@@ -0,0 +1,303 @@
+/**
+ * Tests for the unmatched guides review queue and manual assignment
+ */
+
+import express from 'express';
+import request from 'supertest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { setupRoutes } from '../../src/api/routes';
+import { GuideParser } from '../../src/services/GuideParser';
+import { CustomerMatcher } from '../../src/services/CustomerMatcher';
+import { WhatsAppSender } from '../../src/services/WhatsAppSender';
+import { GuideRegistry } from '../../src/services/GuideRegistry';
+import { FileUnmatchedGuideStore } from '../../src/services/UnmatchedGuideStore';
+import { InMemorySendLog } from '../../src/services/SendLog';
+import { CustomerMatch } from '../../src/types';
+import { mockParsedGuideData, mockCustomerMatch } from '../fixtures/mock-data';
+
+jest.mock('../../src/services/GuideParser');
+jest.mock('../../src/services/CustomerMatcher');
+jest.mock('../../src/services/WhatsAppSender');
+
+describe('Unmatched guides review', () => {
+  const testFilePath = path.join('/tmp/test-uploads', 'unmatched-guide.png');
+  const order: CustomerMatch = { ...mockCustomerMatch, orderNumber: 'ORD-2024-002', phone: '3012345678', confidence: 100, matchedBy: 'order' };
+  let dir: string;
+  let store: FileUnmatchedGuideStore;
+  let sendLog: InMemorySendLog;
+  let registry: GuideRegistry;
+  let app: express.Application;
+  let mockParser: jest.Mocked<GuideParser>;
+  let mockMatcher: jest.Mocked<CustomerMatcher>;
+  let mockSender: jest.Mocked<WhatsAppSender>;
+
+  const addGuide = (trackingNumber = 'SV123456789', filePath = testFilePath, page?: number) => store.add({
+    reason: 'no_match',
+    source: 'watcher',
+    guide: { ...mockParsedGuideData, trackingNumber, page },
+    fileName: path.basename(filePath),
+    candidates: [mockCustomerMatch]
+  }, filePath);
+
+  const assign = (id: string, body: object = { orderNumber: 'ORD-2024-002' }) => request(app)
+    .post(`/api/unmatched-guides/${id}/assign`)
+    .set('x-api-key', 'test-shipping-api-key')
+    .send(body);
+
+  beforeEach(() => {
+    fs.mkdirSync(path.dirname(testFilePath), { recursive: true });
+    fs.writeFileSync(testFilePath, 'guide image');
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'unmatched-review-'));
+    store = new FileUnmatchedGuideStore(path.join(dir, 'unmatched'));
+    sendLog = new InMemorySendLog();
+    registry = new GuideRegistry(path.join(dir, 'processed-guides.json'));
+
+    mockParser = new GuideParser() as jest.Mocked<GuideParser>;
+    mockMatcher = new CustomerMatcher({} as any) as jest.Mocked<CustomerMatcher>;
+    mockSender = new WhatsAppSender({ apiUrl: '', apiKey: '' }) as jest.Mocked<WhatsAppSender>;
+    mockParser.parseAll = jest.fn().mockResolvedValue([mockParsedGuideData]);
+    mockMatcher.findCandidates = jest.fn().mockResolvedValue([]);
+    mockMatcher.findOrder = jest.fn().mockResolvedValue(order);
+    mockMatcher.updateOrderTracking = jest.fn().mockResolvedValue(true);
+    mockSender.sendGuide = jest.fn().mockResolvedValue(true);
+
+    app = express();
+    setupRoutes(app, { parser: mockParser, matcher: mockMatcher, sender: mockSender, registry, unmatched: store, sendLog });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(testFilePath)) fs.unlinkSync(testFilePath);
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/process-guide', () => {
+    it('queues an uploaded guide with no matching order for review', async () => {
+      const response = await request(app)
+        .post('/api/process-guide')
+        .set('x-api-key', 'test-shipping-api-key')
+        .attach('guide', testFilePath)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ success: false, message: 'No se encontró cliente asociado', reviewId: expect.any(String) });
+      const entry = await store.get(response.body.reviewId);
+      expect(entry).toMatchObject({ reason: 'no_match', source: 'upload', fileName: 'unmatched-guide.png', status: 'pending' });
+      expect(fs.readFileSync(store.filePath(entry!), 'utf8')).toBe('guide image');
+    });
+
+    it('queues a guide whose best candidate scores below the auto-send score', async () => {
+      const weak = { ...mockCustomerMatch, confidence: 72, matchedBy: 'name' as const };
+      mockMatcher.findCandidates.mockResolvedValue([weak]);
+
+      const response = await request(app)
+        .post('/api/process-guide')
+        .set('x-api-key', 'test-shipping-api-key')
+        .attach('guide', testFilePath)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ success: false, candidates: [weak] });
+      expect(mockSender.sendGuide).not.toHaveBeenCalled();
+      expect(await store.get(response.body.reviewId)).toMatchObject({ reason: 'low_score', candidates: [weak] });
+    });
+
+    it('queues a guide whose key fields were read with low confidence instead of sending it', async () => {
+      const field = (value: string, confidence: number) => ({ value, confidence, rule: 'generic.test', span: null });
+      const guide = {
+        ...mockParsedGuideData,
+        fields: {
+          trackingNumber: field(mockParsedGuideData.trackingNumber, 0.4),
+          customerName: field(mockParsedGuideData.customerName, 0.9),
+          customerPhone: field('', 0),
+          shippingAddress: field('', 0),
+          city: field('', 0),
+          department: field('', 0),
+          carrier: field(mockParsedGuideData.carrier, 0.95)
+        }
+      };
+      mockParser.parseAll.mockResolvedValue([guide]);
+      mockMatcher.findCandidates.mockResolvedValue([order]);
+
+      const response = await request(app)
+        .post('/api/process-guide')
+        .set('x-api-key', 'test-shipping-api-key')
+        .attach('guide', testFilePath)
+        .expect(200);
+
+      expect(response.body).toMatchObject({ success: false, weakFields: expect.arrayContaining(['trackingNumber']), candidates: [order] });
+      expect(mockSender.sendGuide).not.toHaveBeenCalled();
+      expect(await store.get(response.body.reviewId)).toMatchObject({ reason: 'low_confidence', candidates: [order] });
+
+      // An operator who checked the guide sends it anyway
+      fs.writeFileSync(testFilePath, 'guide image');
+      const forced = await request(app)
+        .post('/api/process-guide?force=true')
+        .set('x-api-key', 'test-shipping-api-key')
+        .attach('guide', testFilePath)
+        .expect(200);
+
+      expect(forced.body).toMatchObject({ success: true, sentTo: order.phone });
+      expect(mockSender.sendGuide).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GET /api/unmatched-guides', () => {
+    it('lists and searches the queue', async () => {
+      const pending = await addGuide('SV111111111');
+      const assigned = await addGuide('SV222222222');
+      await store.markAssigned(assigned.id, 'ORD-2024-001', '3001234567');
+
+      const all = await request(app)
+        .get('/api/unmatched-guides')
+        .set('x-api-key', 'test-shipping-api-key')
+        .expect(200);
+      expect(all.body.total).toBe(2);
+
+      const search = await request(app)
+        .get('/api/unmatched-guides?status=pending&q=sv1111')
+        .set('x-api-key', 'test-shipping-api-key')
+        .expect(200);
+      expect(search.body).toEqual({ success: true, total: 1, guides: [expect.objectContaining({ id: pending.id, candidates: [mockCustomerMatch] })] });
+    });
+
+    it('serves a guide and its file', async () => {
+      const entry = await addGuide();
+
+      const detail = await request(app)
+        .get(`/api/unmatched-guides/${entry.id}`)
+        .set('x-api-key', 'test-shipping-api-key')
+        .expect(200);
+      expect(detail.body.guide.id).toBe(entry.id);
+
+      const file = await request(app)
+        .get(`/api/unmatched-guides/${entry.id}/file`)
+        .set('x-api-key', 'test-shipping-api-key')
+        .expect(200);
+      expect(file.headers['content-type']).toBe('image/png');
+      expect(file.body.toString()).toBe('guide image');
+    });
+
+    it('returns 404 for an unknown guide', async () => {
+      const response = await request(app)
+        .get('/api/unmatched-guides/unknown')
+        .set('x-api-key', 'test-shipping-api-key')
+        .expect(404);
+
+      expect(response.body).toEqual({ success: false, error: 'Guía no encontrada' });
+    });
+
+    it('returns 503 without a review queue', async () => {
+      app = express();
+      setupRoutes(app, { parser: mockParser, matcher: mockMatcher, sender: mockSender });
+
+      await request(app)
+        .get('/api/unmatched-guides')
+        .set('x-api-key', 'test-shipping-api-key')
+        .expect(503);
+    });
+
+    it('requires an API key', async () => {
+      await request(app).get('/api/unmatched-guides').expect(401);
+    });
+  });
+
+  describe('POST /api/unmatched-guides/:id/assign', () => {
+    it('sends the guide to the order customer and sets its tracking number', async () => {
+      const entry = await addGuide();
+
+      const response = await assign(entry.id).expect(200);
+
+      expect(response.body).toMatchObject({ success: true, trackingNumber: 'SV123456789', sentTo: order.phone });
+      expect(mockMatcher.findOrder).toHaveBeenCalledWith('ORD-2024-002');
+      expect(mockSender.sendGuide).toHaveBeenCalledWith(order.phone, expect.objectContaining({ trackingNumber: 'SV123456789' }), store.filePath(entry));
+      expect(mockMatcher.updateOrderTracking).toHaveBeenCalledWith('ORD-2024-002', 'SV123456789', mockParsedGuideData.carrier);
+      expect(await store.get(entry.id)).toMatchObject({ status: 'assigned', orderNumber: 'ORD-2024-002', sentTo: order.phone });
+      expect(registry.findGuide('SV123456789')).toMatchObject({ source: 'review', orderNumber: 'ORD-2024-002' });
+      expect(sendLog.attempts).toEqual([expect.objectContaining({ trackingNumber: 'SV123456789', source: 'review', sentTo: order.phone, success: true, error: null })]);
+    });
+
+    it('sends only the guide page of a multi-guide PDF', async () => {
+      const pdfPath = path.join(dir, 'multi-guide.pdf');
+      const pdf = await PDFDocument.create();
+      pdf.addPage();
+      pdf.addPage();
+      fs.writeFileSync(pdfPath, await pdf.save());
+      const entry = await addGuide('SV987654321', pdfPath, 2);
+      let sentPages = 0;
+      mockSender.sendGuide = jest.fn(async (_phone: string, _guide: any, filePath: string) => {
+        sentPages = (await PDFDocument.load(fs.readFileSync(filePath))).getPageCount();
+        return true;
+      });
+
+      await assign(entry.id).expect(200);
+
+      expect(sentPages).toBe(1);
+    });
+
+    it('rejects a missing or unknown order', async () => {
+      const entry = await addGuide();
+      mockMatcher.findOrder.mockResolvedValue(null);
+
+      await assign(entry.id, {}).expect(400);
+      const response = await assign(entry.id).expect(404);
+
+      expect(response.body.error).toBe('Pedido no encontrado');
+      expect(mockSender.sendGuide).not.toHaveBeenCalled();
+      expect((await store.get(entry.id))?.status).toBe('pending');
+    });
+
+    it('does not assign a guide twice', async () => {
+      const entry = await addGuide();
+      await assign(entry.id).expect(200);
+
+      const response = await assign(entry.id).expect(409);
+
+      expect(response.body.error).toContain('ORD-2024-002');
+      expect(mockSender.sendGuide).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not send again a guide sent some other way since it was queued, unless forced', async () => {
+      const entry = await addGuide();
+      registry.recordGuide({
+        trackingNumber: 'SV123456789',
+        carrier: mockParsedGuideData.carrier,
+        fileHash: 'abc',
+        orderNumber: 'ORD-2024-001',
+        sentTo: '3001234567',
+        source: 'upload',
+        processedAt: '2026-10-19T10:00:00.000Z'
+      });
+
+      const response = await assign(entry.id).expect(409);
+
+      expect(response.body).toMatchObject({ duplicate: true, trackingNumber: 'SV123456789', previous: { orderNumber: 'ORD-2024-001' } });
+      expect(mockSender.sendGuide).not.toHaveBeenCalled();
+      expect((await store.get(entry.id))?.status).toBe('pending');
+
+      await assign(entry.id, { orderNumber: 'ORD-2024-002', force: true }).expect(200);
+      expect(mockSender.sendGuide).toHaveBeenCalledTimes(1);
+    });
+
+        it('keeps the guide pending when it cannot be sent', async () => {
+      const entry = await addGuide();
+      mockSender.sendGuide.mockResolvedValue(false);
+
+      await assign(entry.id).expect(502);
+
+      expect(mockMatcher.updateOrderTracking).not.toHaveBeenCalled();
+      expect((await store.get(entry.id))?.status).toBe('pending');
+      expect(sendLog.attempts).toEqual([expect.objectContaining({ orderNumber: 'ORD-2024-002', success: false, error: 'WhatsApp send failed' })]);
+    });
+
+    it('returns 503 when the database is not connected', async () => {
+      const entry = await addGuide();
+      mockMatcher.findOrder.mockRejectedValue(new Error('Database not connected'));
+
+      const response = await assign(entry.id).expect(503);
+
+      expect(response.body).toEqual({ success: false, error: 'Base de datos no conectada' });
+    });
+  });
+});
@@ -3,6 +3,8 @@ import request from 'supertest';
 import * as path from 'path';
 import { createViewRouter, getShippingStats, getTrackingHistory } from '../../src/api/viewRoutes';
 import { techAuraIntegration } from '../../src/services/TechAuraIntegration';
+import { ShipmentService } from '../../src/services/ShipmentService';
+import { InMemoryShipmentRepository } from '../../src/services/ShipmentRepository';
 
 // Mock the TechAura integration
 jest.mock('../../src/services/TechAuraIntegration');
@@ -127,6 +129,27 @@ describe('View Routes', () => {
             expect(response.text).toContain('Pedido ORD-001');
             expect(response.text).toContain('Juan Pérez');
             expect(mockTechAuraIntegration.getOrderDetails).toHaveBeenCalledWith('ORD-001');
+            expect(response.text).toContain('No hay historial de tracking disponible');
+        });
+
+        it('should show the status history of the order shipment', async () => {
+            mockTechAuraIntegration.getOrderDetails.mockResolvedValue(mockOrderDetails);
+            const shipments = new ShipmentService(new InMemoryShipmentRepository());
+            const shipment = await shipments.createShipment({ ...mockOrderDetails, shippingPhone: '3001234567', status: 'ready_for_shipping' }, 'webhook');
+            await shipments.updateShipmentStatus(shipment.id, 'created', { triggeredBy: 'operator' });
+            const detailApp = express();
+            detailApp.set('view engine', 'ejs');
+            detailApp.set('views', path.join(__dirname, '../../src/views'));
+            detailApp.use(createViewRouter(shipments));
+
+            const response = await request(detailApp)
+                .get('/orders/ORD-001')
+                .expect(200);
+
+            expect(response.text).toContain('Listo para envío');
+            expect(response.text).toContain('Guía creada');
+            expect(response.text).toContain('por operator');
+            expect(response.text).not.toContain('No hay historial de tracking disponible');
         });
 
         it('should return 404 when order not found', async () => {
@@ -174,6 +197,18 @@ describe('View Routes', () => {
         });
     });
 
+    describe('GET /unmatched', () => {
+        it('should render the unmatched guides review page', async () => {
+            const response = await request(app)
+                .get('/unmatched')
+                .expect(200);
+
+            expect(response.text).toContain('Guías sin pedido');
+            expect(response.text).toContain('/api/unmatched-guides');
+            expect(mockTechAuraIntegration.getOrdersReadyForShipping).not.toHaveBeenCalled();
+        });
+    });
+
     describe('GET /', () => {
         it('should redirect to dashboard', async () => {
             const response = await request(app)
@@ -207,8 +242,37 @@ describe('View Routes', () => {
     });
 
     describe('getTrackingHistory', () => {
-        it('should return empty array (placeholder implementation)', async () => {
-            const history = await getTrackingHistory('ORD-001');
+        let shipments: ShipmentService;
+
+        beforeEach(() => {
+            shipments = new ShipmentService(new InMemoryShipmentRepository());
+        });
+
+        it('should return empty array when the order has no shipment', async () => {
+            const history = await getTrackingHistory('ORD-001', shipments);
+
+            expect(history).toEqual([]);
+        });
+
+        it('should list the status changes oldest first, with the carrier event', async () => {
+            const shipment = await shipments.createShipment({ ...mockOrderDetails, shippingPhone: '3001234567', status: 'created' }, 'webhook');
+            await shipments.updateShipmentStatus(shipment.id, 'in_transit', {
+                triggeredBy: 'carrier:servientrega',
+                carrierEvent: { timestamp: new Date(), status: 'in_transit', description: 'En centro de distribución', location: 'Medellín', details: null }
+            });
+
+            const history = await getTrackingHistory('ORD-001', shipments);
+
+            expect(history).toEqual([
+                { timestamp: expect.any(Date), action: 'Guía creada', details: 'por webhook' },
+                { timestamp: expect.any(Date), action: 'En tránsito', details: 'En centro de distribución — Medellín · por carrier:servientrega' }
+            ]);
+        });
+
+        it('should return empty array on error', async () => {
+            jest.spyOn(shipments, 'getShipmentByOrderNumber').mockRejectedValue(new Error('Error'));
+
+            const history = await getTrackingHistory('ORD-001', shipments);
 
             expect(history).toEqual([]);
         });
@@ -47,7 +47,12 @@ describe('Webhooks API Tests', () => {
 
         // Setup default mock implementations
         mockParser.parse = jest.fn();
-        mockMatcher.findCustomer = jest.fn();
+        // Uploads go through parseAll; a file holds the one guide parse() returns
+        mockParser.parseAll = jest.fn(async (filePath: string) => {
+          const guide = await mockParser.parse(filePath);
+          return guide ? [guide] : [];
+        });
+        mockMatcher.findCandidates = jest.fn();
         mockMatcher.updateOrderTracking = jest.fn();
         mockSender.sendGuide = jest.fn();
 
@@ -105,6 +110,20 @@ describe('Webhooks API Tests', () => {
             });
         });
 
+        it('should record the destination city found in the shipping address', async () => {
+            mockCreateShipment.mockResolvedValue({ id: 1, trackingNumber: 'TA123ABC456DEF' });
+
+            await request(app)
+                .post('/webhooks/order-completed')
+                .send(validOrderData)
+                .expect(200);
+
+            expect(mockCreateShipment).toHaveBeenCalledWith(
+                expect.objectContaining({ city: 'Bogotá' }),
+                'webhook'
+            );
+        });
+
         it('should return 400 when order_number is missing', async () => {
             const invalidData = {
                 customer_phone: '3001234567',
@@ -191,7 +210,8 @@ describe('Webhooks API Tests', () => {
             expect(mockCreateShipment).toHaveBeenCalledWith(
                 expect.objectContaining({
                     shippingPhone: dataWithoutShippingPhone.customer_phone
-                })
+                }),
+                'webhook'
             );
         });
 
@@ -257,7 +277,8 @@ describe('Webhooks API Tests', () => {
             expect(mockCreateShipment).toHaveBeenCalledWith(
                 expect.objectContaining({
                     productDescription: 'USB'
-                })
+                }),
+                'webhook'
             );
         });
 
@@ -293,7 +314,8 @@ describe('Webhooks API Tests', () => {
             expect(mockCreateShipment).toHaveBeenCalledWith(
                 expect.objectContaining({
                     productDescription: 'USB 16GB'
-                })
+                }),
+                'webhook'
             );
         });
 
@@ -329,7 +351,8 @@ describe('Webhooks API Tests', () => {
             expect(mockCreateShipment).toHaveBeenCalledWith(
                 expect.objectContaining({
                     productDescription: 'USB Custom Design'
-                })
+                }),
+                'webhook'
             );
         });
     });
@@ -165,6 +165,17 @@ describe('WhatsApp Orders API Endpoints', () => {
             expect(response.text).toContain('Jezus H.');
         });
 
+        it('should export addresses in canonical nomenclature', async () => {
+            const response = await request(app)
+                .post('/api/export-orders')
+                .set('x-api-key', TEST_API_KEY)
+                .set('Content-Type', 'application/json')
+                .send({ orders: [{ ...sampleOrders[0], direccion: 'cra 49# 45-134 barrio Prado', barrio: '' }] })
+                .expect(200);
+
+            expect(response.text).toContain('"Carrera 49 # 45-134","Bello","Prado"');
+        });
+
         it('should return CSV by default when format is not specified', async () => {
             const response = await request(app)
                 .post('/api/export-orders')
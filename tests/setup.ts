@@ -17,6 +17,9 @@ process.env.TECHAURA_DB_PASSWORD = 'test_password';
 process.env.TECHAURA_DB_NAME = 'test_db';
 process.env.DASHBOARD_SECRET = 'test-dashboard-secret';
 process.env.CORS_ORIGIN = 'http://localhost:3010';
+// Parsers in tests read through mocked OCR; cached text would leak between tests
+process.env.OCR_CACHE_ENABLED = 'false';
+process.env.OCR_CACHE_DIR = '/tmp/test-ocr-cache';
 
 // Mock console methods to reduce noise in tests
 global.console = {
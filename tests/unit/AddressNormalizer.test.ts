@@ -0,0 +1,88 @@
+import { parseColombianAddress, normalizeAddress, isSameAddress } from '../../src/services/AddressNormalizer';
+
+describe('AddressNormalizer', () => {
+    describe('parseColombianAddress', () => {
+        it('parses a full address into its parts', () => {
+            const address = parseColombianAddress('Calle 45A Bis # 23-67 Sur Torre 2 Apto 301, Barrio Kennedy');
+
+            expect(address).toEqual({
+                viaType: 'Calle',
+                viaNumber: '45A BIS',
+                crossNumber: '23',
+                plate: '67',
+                quadrant: 'Sur',
+                complement: 'Torre 2 Apto 301',
+                neighborhood: 'Kennedy',
+                raw: 'Calle 45A Bis # 23-67 Sur Torre 2 Apto 301, Barrio Kennedy',
+                normalized: 'Calle 45A BIS # 23-67 Sur, Torre 2 Apto 301'
+            });
+        });
+
+        it.each([
+            ['Cl 45 # 23-67', 'Calle 45 # 23-67'],
+            ['CLL 45 NO. 23 - 67', 'Calle 45 # 23-67'],
+            ['Cra 7 # 100-25', 'Carrera 7 # 100-25'],
+            ['KR 7 N° 100 25', 'Carrera 7 # 100-25'],
+            ['Kra. 7 Nro 100-25', 'Carrera 7 # 100-25'],
+            ['Av. 68 # 45-23', 'Avenida 68 # 45-23'],
+            ['Avenida 44 n 44 013', 'Avenida 44 # 44-013'],
+            ['Av Cra 68 # 45-23', 'Avenida Carrera 68 # 45-23'],
+            ['AC 26 # 68C-10', 'Avenida Calle 26 # 68C-10'],
+            ['Tv 5 Bis # 12-30', 'Transversal 5 BIS # 12-30'],
+            ['Diag. 62 Sur #19c-15', 'Diagonal 62 # 19C-15 Sur'],
+            ['Cq 74 # 39-10', 'Circular 74 # 39-10']
+        ])('reads "%s" as "%s"', (text, normalized) => {
+            expect(parseColombianAddress(text)?.normalized).toBe(normalized);
+        });
+
+        it.each([
+            ['CaIle 45 # 23-67', 'Calle 45 # 23-67'],
+            ['Ca11e 45 # 23-67', 'Calle 45 # 23-67'],
+            ['Carerra 1O # 4l-2O', 'Carrera 10 # 41-20'],
+            ['Cra 7 # 1OO-25', 'Carrera 7 # 100-25']
+        ])('corrects the OCR misreading "%s"', (text, normalized) => {
+            expect(parseColombianAddress(text)?.normalized).toBe(normalized);
+        });
+
+        it('finds the address inside guide text', () => {
+            const address = parseColombianAddress('Destinatario: Juan Pérez\nDirección: CRA 49# 45-134 apto 502 parque de San Antonio\nMedellín');
+
+            expect(address).toMatchObject({ viaType: 'Carrera', viaNumber: '49', crossNumber: '45', plate: '134', complement: 'Apto 502' });
+        });
+
+        it('reads the barrio from the rest of the text', () => {
+            expect(parseColombianAddress('Calle 10 # 5-20\nBarrio: La Floresta, Bello')?.neighborhood).toBe('La Floresta');
+            expect(parseColombianAddress('Calle 10 # 5-20 brr Niquía Tel 3001234567')?.neighborhood).toBe('Niquía');
+        });
+
+        it('returns null for addresses outside the nomenclature', () => {
+            expect(parseColombianAddress('Vereda El Carmen, finca La Esperanza')).toBeNull();
+            expect(parseColombianAddress('Mz 4 Casa 12')).toBeNull();
+            expect(parseColombianAddress('')).toBeNull();
+        });
+    });
+
+    describe('normalizeAddress', () => {
+        it('falls back to the collapsed text', () => {
+            expect(normalizeAddress('  Vereda   El Carmen ')).toBe('Vereda El Carmen');
+        });
+    });
+
+    describe('isSameAddress', () => {
+        const parse = (text: string) => parseColombianAddress(text)!;
+
+        it('matches differently written forms of the same address', () => {
+            expect(isSameAddress(parse('Calle 45 # 23-67, Bogotá'), parse('CL 45 NO 23 - 67 apto 201'))).toBe(true);
+            expect(isSameAddress(parse('Avenida 44 n 44 013'), parse('Av 44 # 44-13'))).toBe(true);
+            expect(isSameAddress(parse('Av. 68 # 45-23'), parse('Avenida Carrera 68 # 45-23'))).toBe(true);
+            expect(isSameAddress(parse('Calle 45 Sur # 23-67'), parse('Calle 45 # 23-67'))).toBe(true);
+        });
+
+        it('tells different doors apart', () => {
+            expect(isSameAddress(parse('Calle 45 # 23-67'), parse('Carrera 45 # 23-67'))).toBe(false);
+            expect(isSameAddress(parse('Calle 45 # 23-67'), parse('Calle 45A # 23-67'))).toBe(false);
+            expect(isSameAddress(parse('Calle 45 # 23-67'), parse('Calle 45 # 23-69'))).toBe(false);
+            expect(isSameAddress(parse('Calle 45 Sur # 23-67'), parse('Calle 45 # 23-67 Este'))).toBe(false);
+        });
+    });
+});
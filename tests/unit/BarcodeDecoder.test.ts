@@ -0,0 +1,78 @@
+/**
+ * Tests for BarcodeDecoder
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import bwipjs from 'bwip-js';
+import Jimp from 'jimp';
+import { PDFDocument } from 'pdf-lib';
+import { BarcodeDecoder } from '../../src/services/BarcodeDecoder';
+
+const render = (bcid: string, text: string) =>
+    bwipjs.toBuffer({ bcid, text, scale: 4, paddingwidth: 20, paddingheight: 20, backgroundcolor: 'FFFFFF' });
+
+describe('BarcodeDecoder', () => {
+    const workDir = path.join(os.tmpdir(), 'barcode-decoder-test');
+    let decoder: BarcodeDecoder;
+
+    beforeAll(() => {
+        fs.mkdirSync(workDir, { recursive: true });
+    });
+
+    afterAll(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        decoder = new BarcodeDecoder();
+    });
+
+    it('decodes a Code128 barcode from an image file', async () => {
+        const file = path.join(workDir, 'code128.png');
+        fs.writeFileSync(file, await render('code128', 'SV123456789'));
+
+        const codes = await decoder.decodeImage(file);
+
+        expect(codes).toEqual([{ text: 'SV123456789', format: 'CODE_128' }]);
+    });
+
+    it('decodes a QR code', async () => {
+        const codes = await decoder.decodeImage(await render('qrcode', 'https://www.servientrega.com/rastreo?guia=2108765432'));
+
+        expect(codes).toEqual([{ text: 'https://www.servientrega.com/rastreo?guia=2108765432', format: 'QR_CODE' }]);
+    });
+
+    it('decodes a barcode printed vertically', async () => {
+        const image = await Jimp.read(await render('code128', 'CD45678901234'));
+        image.rotate(90);
+
+        const codes = await decoder.decodeImage(await image.getBufferAsync(Jimp.MIME_PNG));
+
+        expect(codes.map(c => c.text)).toEqual(['CD45678901234']);
+    });
+
+    it('returns no codes for an unreadable image', async () => {
+        const file = path.join(workDir, 'broken.png');
+        fs.writeFileSync(file, 'not an image');
+
+        await expect(decoder.decodeImage(file)).resolves.toEqual([]);
+    });
+
+    it('decodes the images embedded in each PDF page', async () => {
+        const pdf = await PDFDocument.create();
+        const jpeg = await Jimp.read(await render('code128', 'SV111222333'));
+        const first = await pdf.embedJpg(await jpeg.quality(95).getBufferAsync(Jimp.MIME_JPEG));
+        const second = await pdf.embedPng(await render('qrcode', 'ENV123456789012'));
+        pdf.addPage([600, 400]).drawImage(first, { x: 0, y: 0 });
+        pdf.addPage([600, 600]);
+        pdf.addPage([600, 600]).drawImage(second, { x: 0, y: 0 });
+        const file = path.join(workDir, 'scanned.pdf');
+        fs.writeFileSync(file, await pdf.save());
+
+        const pages = await decoder.decodePdfPages(file);
+
+        expect(pages.map(codes => codes.map(c => c.text))).toEqual([['SV111222333'], [], ['ENV123456789012']]);
+    });
+});
@@ -147,5 +147,26 @@ describe('CarrierSelector', () => {
 
             expect(quotes).toHaveLength(0);
         });
+
+        it('should leave out carriers whose quote fails', async () => {
+            const [failing, ...others] = selector.getCarriers();
+            jest.spyOn(failing, 'getQuote').mockRejectedValue(new Error('timeout of 15000ms exceeded'));
+            const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+            const quotes = await selector.getAllQuotes('Bogotá', 'Medellín', 1);
+
+            expect(quotes.map(q => q.carrier)).not.toContain(failing.id);
+            expect(quotes.length).toBe(others.length);
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('timeout of 15000ms exceeded'));
+            warn.mockRestore();
+        });
+    });
+
+    describe('constructor', () => {
+        it('should choose among the carriers it is given', () => {
+            const [carrier] = new CarrierSelector().getCarriers();
+
+            expect(new CarrierSelector([carrier]).getCarriers()).toEqual([carrier]);
+        });
     });
 });
@@ -0,0 +1,76 @@
+import { CityGazetteer } from '../../src/services/CityGazetteer';
+
+describe('CityGazetteer', () => {
+    const gazetteer = new CityGazetteer();
+
+    it('holds every DANE municipality with a unique code', () => {
+        expect(gazetteer.municipalities.length).toBeGreaterThan(1100);
+        expect(new Set(gazetteer.municipalities.map(m => m.code)).size).toBe(gazetteer.municipalities.length);
+        expect(gazetteer.municipalities.every(m => /^\d{5}$/.test(m.code))).toBe(true);
+    });
+
+    describe('lookup', () => {
+        it('finds municipalities regardless of accents and case', () => {
+            expect(gazetteer.lookup('MEDELLIN')).toMatchObject({ code: '05001', name: 'Medellín', department: 'Antioquia' });
+            expect(gazetteer.lookup('itagui')?.name).toBe('Itagüí');
+        });
+
+        it('finds municipalities by alias', () => {
+            expect(gazetteer.lookup('Santiago de Cali')?.code).toBe('76001');
+            expect(gazetteer.lookup('Bogotá D.C.')?.code).toBe('11001');
+            expect(gazetteer.lookup('Cartagena de Indias')?.name).toBe('Cartagena');
+        });
+
+        it('tells homonyms apart by department', () => {
+            expect(gazetteer.lookup('Argelia', 'Cauca')?.department).toBe('Cauca');
+            expect(gazetteer.lookup('Argelia', 'valle')?.department).toBe('Valle del Cauca');
+            expect(gazetteer.lookup('La Unión', 'Nariño')?.code).toBe('52399');
+        });
+
+        it('prefers the department capital for homonyms without a department', () => {
+            expect(gazetteer.lookup('Armenia')?.department).toBe('Quindío');
+            expect(gazetteer.lookup('Florencia')?.department).toBe('Caquetá');
+        });
+
+        it('returns null for unknown names', () => {
+            expect(gazetteer.lookup('Gotham')).toBeNull();
+        });
+    });
+
+    describe('findInText', () => {
+        it('matches whole words only', () => {
+            expect(gazetteer.findInText('Producto de alta Calidad para Caliente')).toBeNull();
+            expect(gazetteer.findInText('Entrega en Cali mañana')?.municipality.code).toBe('76001');
+        });
+
+        it('prefers a city followed by its department', () => {
+            const mention = gazetteer.findInText('Enviado desde Bogotá\nEntregar en Argelia, Antioquia');
+
+            expect(mention?.municipality).toMatchObject({ code: '05055', department: 'Antioquia' });
+            expect(mention?.departmentConfirmed).toBe(true);
+        });
+
+        it('does not read the department after a city as another city', () => {
+            const mentions = gazetteer.findAll('Manizales, Caldas');
+
+            expect(mentions.map(m => m.municipality.name)).toEqual(['Manizales']);
+        });
+
+        it('keeps the longest overlapping name', () => {
+            expect(gazetteer.findInText('Santa Rosa de Osos')?.municipality.code).toBe('05686');
+        });
+
+        it('skips surnames on name lines, lowercase words and the country', () => {
+            const text = 'Nombre: María González\nEnvío a toda Colombia, une tu pedido\nBello';
+
+            expect(gazetteer.findInText(text)?.municipality.name).toBe('Bello');
+        });
+
+        it('reports the span of the name in the original text', () => {
+            const text = 'Ciudad destino: BOGOTÁ D.C.';
+            const mention = gazetteer.findInText(text)!;
+
+            expect(text.substr(mention.index, mention.length)).toBe('BOGOTÁ D.C.');
+        });
+    });
+});
@@ -1,4 +1,5 @@
 import { CustomerMatcher } from '../../src/services/CustomerMatcher';
+import { MySqlOrderRepository, InMemoryOrderRepository, OrderRecord } from '../../src/services/OrderRepository';
 import { ShippingGuideData } from '../../src/types';
 import { mockDatabaseOrders, mockParsedGuideData } from '../fixtures/mock-data';
 
@@ -21,14 +22,16 @@ describe('CustomerMatcher', () => {
       execute: jest.fn(),
     };
     mysql.createPool.mockReturnValue(mockPool);
+    // Phone, name and address lookups find nothing unless a test says otherwise
+    mockPool.execute.mockResolvedValue([[]]);
 
-    matcher = new CustomerMatcher({
+    matcher = new CustomerMatcher(new MySqlOrderRepository({
       host: 'localhost',
       port: 3306,
       user: 'test',
       password: 'test',
       database: 'test'
-    });
+    }));
   });
 
   afterEach(() => {
@@ -90,7 +93,7 @@ describe('CustomerMatcher', () => {
 
         mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[0]]]);
 
-        const result = await matcher.findCustomer(guideData);
+        await matcher.findCustomer(guideData);
 
         expect(mockPool.execute).toHaveBeenCalledWith(
           expect.any(String),
@@ -99,112 +102,102 @@ describe('CustomerMatcher', () => {
           ])
         );
       });
-    });
 
-    describe('Name + City Matching', () => {
-      it('should match customer by name with 80% confidence', async () => {
+      it('should send on a phone match alone', async () => {
         const guideData: ShippingGuideData = {
           trackingNumber: 'TEST',
-          customerPhone: undefined,
-          customerName: 'María González',
-          shippingAddress: '',  // Clear address so it doesn't match by address
-          city: 'Medellin',
+          customerName: '',
+          customerPhone: '3001234567',
+          shippingAddress: '',
+          city: '',
           carrier: 'Test',
           rawText: 'test'
         };
 
-        // Name match returns data with 80 confidence
-        mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[1]]]);  // Name match
+        mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[0]]]);
 
         const result = await matcher.findCustomer(guideData);
 
-        expect(result).not.toBeNull();
-        expect(result?.confidence).toBe(80);
-        expect(result?.matchedBy).toBe('name');
-        expect(result?.name).toContain('María González');
+        expect(result?.confidence).toBe(95);
+        expect(result?.signals).toEqual({ phone: 1, name: null, city: null, address: null });
       });
+    });
 
-      it('should match by name without city', async () => {
+    describe('Name + City Matching', () => {
+      it('should send on a full name in the same city', async () => {
         const guideData: ShippingGuideData = {
-          ...mockParsedGuideData,
+          trackingNumber: 'TEST',
           customerPhone: undefined,
-          customerName: 'María González'
+          customerName: 'María González López',
+          shippingAddress: '',
+          city: 'Medellin',
+          carrier: 'Test',
+          rawText: 'test'
         };
 
-        // Phone is undefined so no phone query, name match returns data
         mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[1]]]);  // Name match
 
         const result = await matcher.findCustomer(guideData);
 
-        expect(result).not.toBeNull();
+        expect(result?.confidence).toBe(83);
         expect(result?.matchedBy).toBe('name');
+        expect(result?.signals).toEqual({ phone: null, name: 1, city: 1, address: null });
       });
 
-      it('should handle multi-word names', async () => {
+      it('should not send on a partial name match', async () => {
         const guideData: ShippingGuideData = {
-          ...mockParsedGuideData,
+          trackingNumber: 'TEST',
           customerPhone: undefined,
-          customerName: 'Carlos Alberto Rodríguez'
+          customerName: 'María González',
+          shippingAddress: '',  // Clear address so it doesn't match by address
+          city: 'Medellin',
+          carrier: 'Test',
+          rawText: 'test'
         };
 
-        mockPool.execute
-          .mockResolvedValueOnce([[]])  // No phone match
-          .mockResolvedValueOnce([[mockDatabaseOrders[2]]]);  // Name match
-
-        const result = await matcher.findCustomer(guideData);
+        mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[1]]]);  // Name match
 
-        expect(result).not.toBeNull();
-        expect(mockPool.execute).toHaveBeenCalledWith(
-          expect.any(String),
-          expect.arrayContaining([
-            expect.stringContaining('carlos')
-          ])
-        );
+        expect(await matcher.findCustomer(guideData)).toBeNull();
       });
 
-      it('should include city in query when provided', async () => {
+      it('should compare the names of recent open orders', async () => {
         const guideData: ShippingGuideData = {
           ...mockParsedGuideData,
           customerPhone: undefined,
-          customerName: 'María González',
-          city: 'Medellin'
+          customerName: 'Carlos Alberto Rodríguez'
         };
 
-        mockPool.execute
-          .mockResolvedValueOnce([[]])  // No phone match
-          .mockResolvedValueOnce([[mockDatabaseOrders[1]]]);  // Name match
-
         await matcher.findCustomer(guideData);
 
-        expect(mockPool.execute).toHaveBeenCalledWith(
-          expect.stringContaining('LOWER(shipping_address) LIKE ?'),
-          expect.arrayContaining([
-            expect.any(String),
-            expect.stringContaining('medellin')
-          ])
-        );
+        const [sql, params] = mockPool.execute.mock.calls[0];
+        expect(sql).toContain('customer_name LIKE ? OR customer_name LIKE ?');
+        expect(sql).toContain('created_at >= ?');
+        expect(sql).toContain('LIMIT 500');
+        expect(params.slice(0, -1)).toEqual(['%carl%', '%rlos%', '%albe%', '%erto%', '%rodr%', '%guez%']);
+        expect(Date.now() - params[params.length - 1].getTime()).toBeGreaterThanOrEqual(60 * 24 * 60 * 60 * 1000);
       });
-    });
 
-    describe('Address Matching', () => {
-      it('should match customer by address with 60% confidence', async () => {
+      it('should match a name garbled by OCR', async () => {
         const guideData: ShippingGuideData = {
-          ...mockParsedGuideData,
+          trackingNumber: 'TEST',
           customerPhone: undefined,
-          customerName: '',  // Empty name so name matching is skipped
-          shippingAddress: 'Av. 68 # 45-23'
+          customerName: 'RODRIGEZ CARL0S  ALBERT0',
+          shippingAddress: '',
+          city: 'Cali',
+          carrier: 'Test',
+          rawText: 'test'
         };
 
-        // No phone or name queries, address match returns data
-        mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[2]]]);  // Address match
+        mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[0], mockDatabaseOrders[2]]]);
 
         const result = await matcher.findCustomer(guideData);
 
-        expect(result).not.toBeNull();
-        expect(result?.confidence).toBe(60);
-        expect(result?.matchedBy).toBe('address');
+        expect(result?.orderNumber).toBe('ORD-2024-003');
+        expect(result?.signals?.name).toBeGreaterThan(0.9);
       });
+    });
 
+    describe('Address Matching', () => {
       it('should truncate long addresses for matching', async () => {
         const guideData: ShippingGuideData = {
           ...mockParsedGuideData,
@@ -223,6 +216,19 @@ describe('CustomerMatcher', () => {
         // Check that address is truncated to 30 chars
         expect(addressParam.length).toBeLessThanOrEqual(32); // 30 + 2 for %%
       });
+
+      it('should not match candidates on a different via', async () => {
+        const guideData: ShippingGuideData = {
+          ...mockParsedGuideData,
+          customerPhone: undefined,
+          customerName: '',
+          shippingAddress: 'Carrera 45 # 23-67'
+        };
+
+        mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[0]]]);
+
+        expect(await matcher.findCustomer(guideData)).toBeNull();
+      });
     });
 
     describe('No Match Scenarios', () => {
@@ -258,44 +264,118 @@ describe('CustomerMatcher', () => {
         expect(result).toBeNull();
       });
     });
+  });
 
-    describe('Confidence Scoring', () => {
-      it('should prioritize phone match over name match', async () => {
-        const guideData: ShippingGuideData = {
-          ...mockParsedGuideData,
-          customerPhone: '573001234567',
-          customerName: 'Juan Carlos Pérez'
-        };
+  describe('findCandidates', () => {
+    it('should score a partial name in the same city for review', async () => {
+      const guideData: ShippingGuideData = {
+        trackingNumber: 'TEST',
+        customerName: 'María González',
+        shippingAddress: '',
+        city: 'Medellin',
+        carrier: 'Test',
+        rawText: 'test'
+      };
 
-        // Only phone match will be executed
-        mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[0]]]);
+      mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[1]]]);
 
-        const result = await matcher.findCustomer(guideData);
+      const [candidate] = await matcher.findCandidates(guideData);
 
-        expect(result?.confidence).toBe(100);
-        expect(result?.matchedBy).toBe('phone');
-        // Should only call execute once for phone match
-        expect(mockPool.execute).toHaveBeenCalledTimes(1);
-      });
+      expect(candidate).toMatchObject({ orderNumber: 'ORD-2024-002', confidence: 72, matchedBy: 'name' });
+      expect(candidate.signals).toEqual({ phone: null, name: 0.8, city: 1, address: null });
+    });
 
-      it('should prioritize name match over address match', async () => {
-        const guideData: ShippingGuideData = {
-          ...mockParsedGuideData,
-          customerPhone: undefined,
-          customerName: 'María González',
-          shippingAddress: 'Cra 7 # 100-25'
-        };
+    it('should match a differently written Colombian address by its parts', async () => {
+      const guideData: ShippingGuideData = {
+        ...mockParsedGuideData,
+        customerPhone: undefined,
+        customerName: '',
+        shippingAddress: 'CL 45 NO. 23 - 67 APTO 201'
+      };
 
-        // Name match will be executed first and returns data
-        mockPool.execute.mockResolvedValueOnce([[mockDatabaseOrders[1]]]);  // Name match
+      mockPool.execute.mockResolvedValueOnce([[
+        { ...mockDatabaseOrders[1], shipping_address: 'Calle 45 # 23-69, Bogotá' },
+        mockDatabaseOrders[0]
+      ]]);
 
-        const result = await matcher.findCustomer(guideData);
+      const candidates = await matcher.findCandidates(guideData);
 
-        expect(result?.confidence).toBe(80);
-        expect(result?.matchedBy).toBe('name');
-        // Should not reach address matching
-        expect(mockPool.execute).toHaveBeenCalledTimes(1);
+      expect(mockPool.execute.mock.calls[0][1]).toEqual(['%45%23%67%']);
+      expect(candidates.map(c => [c.orderNumber, c.confidence, c.signals?.address])).toEqual([
+        [mockDatabaseOrders[0].order_number, 79, 1],
+        [mockDatabaseOrders[1].order_number, 55, 0.5]
+      ]);
+      expect(candidates[0].matchedBy).toBe('address');
+    });
+
+    it('should rank a phone match above a name match with another phone', async () => {
+      const namesake = { ...mockDatabaseOrders[0], id: 9, order_number: 'ORD-2024-009', phone_number: '3110000000', shipping_phone: null, created_at: new Date('2024-02-01') };
+      mockPool.execute
+        .mockResolvedValueOnce([[mockDatabaseOrders[0]]])  // Phone
+        .mockResolvedValueOnce([[namesake, mockDatabaseOrders[0]]])  // Name
+        .mockResolvedValueOnce([[]]);  // Address
+
+      const candidates = await matcher.findCandidates(mockParsedGuideData);
+
+      expect(candidates.map(c => c.orderNumber)).toEqual(['ORD-2024-001', 'ORD-2024-009']);
+      expect(candidates[0].confidence).toBeGreaterThan(candidates[1].confidence);
+      expect(mockPool.execute).toHaveBeenCalledTimes(3);
+    });
+
+    it('should rank equal scores most recent first', async () => {
+      const older = { ...mockDatabaseOrders[1], id: 7, order_number: 'ORD-2023-007', created_at: new Date('2023-06-01') };
+      mockPool.execute.mockResolvedValueOnce([[older, mockDatabaseOrders[1]]]);
+
+      const candidates = await matcher.findCandidates({ ...mockParsedGuideData, customerPhone: undefined, customerName: 'María González López', shippingAddress: '', city: '' });
+
+      expect(candidates.map(c => c.orderNumber)).toEqual(['ORD-2024-002', 'ORD-2023-007']);
+    });
+
+    it('should drop weak candidates and keep at most maxCandidates', async () => {
+      matcher = new CustomerMatcher(new MySqlOrderRepository({}), { autoSendScore: 80, autoSendMargin: 10, minCandidateScore: 40, maxCandidates: 1, nameLookbackDays: 60 });
+      mockPool.execute.mockResolvedValueOnce([[
+        mockDatabaseOrders[1],
+        { ...mockDatabaseOrders[1], id: 8, order_number: 'ORD-2024-008' },
+        { ...mockDatabaseOrders[2], customer_name: 'María Rodríguez' }
+      ]]);
+
+      const candidates = await matcher.findCandidates({ ...mockParsedGuideData, customerPhone: undefined, customerName: 'María González', shippingAddress: '', city: '' });
+
+      expect(candidates).toHaveLength(1);
+      expect(candidates[0].confidence).toBe(60);
+    });
+  });
+
+  describe('findOrder', () => {
+    it('should find an order by number whatever its status', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ ...mockDatabaseOrders[0], tracking_number: 'SV000000001' }]]);
+
+      const result = await matcher.findOrder('ORD-2024-001');
+
+      expect(result).toEqual({
+        id: 1,
+        orderNumber: 'ORD-2024-001',
+        phone: '3001234567',
+        name: 'Juan Carlos Pérez',
+        address: 'Calle 45 # 23-67, Bogotá',
+        confidence: 100,
+        matchedBy: 'order'
       });
+      expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('WHERE order_number = ?'), ['ORD-2024-001']);
+    });
+
+    it('should fall back to the shipping phone', async () => {
+      mockPool.execute.mockResolvedValueOnce([[{ ...mockDatabaseOrders[0], phone_number: null }]]);
+
+      const result = await matcher.findOrder('ORD-2024-001');
+
+      expect(result?.phone).toBe('3001234567');
+    });
+
+    it('should return null for an unknown order', async () => {
+      mockPool.execute.mockResolvedValueOnce([[]]);
+
+      expect(await matcher.findOrder('ORD-UNKNOWN')).toBeNull();
     });
   });
 
@@ -420,4 +500,35 @@ describe('CustomerMatcher', () => {
       );
     });
   });
+
+  describe('with in-memory orders', () => {
+    it('should match and ship an order without a database', async () => {
+      const orders = new InMemoryOrderRepository((mockDatabaseOrders as OrderRecord[]).map(order => ({ ...order, created_at: new Date() })));
+      matcher = new CustomerMatcher(orders);
+
+      const match = await matcher.findCustomer({ ...mockParsedGuideData, customerPhone: undefined, customerName: 'JUAN CARL0S PERES', shippingAddress: '', city: 'Bogotá' });
+      expect(match).toMatchObject({ orderNumber: 'ORD-2024-001', matchedBy: 'name' });
+
+      expect(await matcher.updateOrderTracking('ORD-2024-001', 'SV123456789', 'Servientrega')).toBe(true);
+      expect(await matcher.findCandidates(mockParsedGuideData)).toEqual([]);
+      expect(mockPool.execute).not.toHaveBeenCalled();
+    });
+
+    it('should find an older order by name behind many newer orders of other customers', async () => {
+      const now = Date.now();
+      const others = Array.from({ length: 600 }, (_, i) => ({
+        ...(mockDatabaseOrders[1] as OrderRecord),
+        id: 100 + i,
+        order_number: `ORD-OTHER-${i}`,
+        customer_name: `Cliente ${i} Ramírez`,
+        created_at: new Date(now - i * 60000)
+      }));
+      const older = { ...(mockDatabaseOrders[2] as OrderRecord), created_at: new Date(now - 30 * 24 * 60 * 60 * 1000) };
+      matcher = new CustomerMatcher(new InMemoryOrderRepository([...others, older]));
+
+      const candidates = await matcher.findCandidates({ ...mockParsedGuideData, customerPhone: undefined, customerName: 'RODRIGEZ CARL0S ALBERT0', shippingAddress: '', city: '' });
+
+      expect(candidates[0]).toMatchObject({ orderNumber: 'ORD-2024-003', matchedBy: 'name' });
+    });
+  });
 });
@@ -0,0 +1,133 @@
+import { DocumentClassifier } from '../../src/services/DocumentClassifier';
+import { mockGuideTexts } from '../fixtures/mock-data';
+
+const nequiReceipt = `Nequi
+¡Listo! Enviaste plata
+Para
+TECHAURA SAS
+¿Cuánto?
+$ 85.000,00
+Fecha
+12 de marzo de 2025, 03:41 p. m.
+Referencia
+M8123456`;
+
+const invoice = `FACTURA ELECTRÓNICA DE VENTA No. FE-1045
+TechAura SAS NIT: 901.234.567-8
+Cliente: Juan Pérez
+Subtotal $ 100.000
+IVA 19% $ 19.000
+Total $ 119.000
+CUFE: 3a9f0c2b`;
+
+const idDocument = `REPÚBLICA DE COLOMBIA
+IDENTIFICACIÓN PERSONAL
+CÉDULA DE CIUDADANÍA
+NÚMERO 1.020.345.678
+PÉREZ GÓMEZ
+APELLIDOS
+JUAN CARLOS
+NOMBRES`;
+
+const whatsappChat = `Buenas tardes
+10:42 am
+Nombre: Laura Gómez
+Barrio Niquía, calle 45 # 12-30
+10:43 am ✓✓`;
+
+describe('DocumentClassifier', () => {
+    const classifier = new DocumentClassifier();
+
+    it('classifies carrier guides', () => {
+        const result = classifier.classify(mockGuideTexts.servientrega);
+
+        expect(result.type).toBe('carrier_guide');
+        expect(result.scores.carrier_guide).toBe(1);
+        expect(result.signals).toEqual(expect.arrayContaining(['carrier_guide.carrier-name', 'carrier_guide.tracking-number']));
+    });
+
+    it('classifies WhatsApp chat screenshots', () => {
+        const result = classifier.classify(whatsappChat);
+
+        expect(result.type).toBe('whatsapp_chat');
+        expect(result.signals).toEqual(expect.arrayContaining(['whatsapp_chat.message-time', 'whatsapp_chat.read-ticks']));
+    });
+
+    it('classifies Nequi payment receipts', () => {
+        const result = classifier.classify(nequiReceipt);
+
+        expect(result.type).toBe('payment_receipt');
+        expect(result.scores.payment_receipt).toBe(1);
+        expect(result.reason).toBe('payment_receipt (score 1): provider, confirmation, amount, reference');
+    });
+
+    it('does not take a transfer to a mobile number for a guide', () => {
+        const result = classifier.classify(`Nequi
+¡Listo! Enviaste plata
+Para
+JUAN PEREZ
+Número celular
+3001112222
+¿Cuánto?
+$ 50.000,00
+Referencia
+M8123456`);
+
+        expect(result.type).toBe('payment_receipt');
+        expect(result.scores.carrier_guide).toBe(0);
+    });
+
+    it('keeps a receipt for paying a carrier a receipt', () => {
+        const result = classifier.classify(`Nequi
+Pagaste a SERVIENTREGA S.A.
+$ 18.500,00
+Referencia 2108765432`);
+
+        expect(result.scores.carrier_guide).toBe(1);
+        expect(result.type).toBe('payment_receipt');
+    });
+
+    it('classifies invoices', () => {
+        const result = classifier.classify(invoice);
+
+        expect(result.type).toBe('invoice');
+        expect(result.scores.invoice).toBe(1);
+    });
+
+    it('classifies ID documents', () => {
+        const result = classifier.classify(idDocument);
+
+        expect(result.type).toBe('id_document');
+        expect(result.scores.id_document).toBeGreaterThanOrEqual(0.5);
+    });
+
+    it('keeps a guide that mentions an invoice and taxes a guide', () => {
+        const text = `${mockGuideTexts.coordinadora}\nFactura de venta 1045 - IVA incluido`;
+
+        expect(classifier.classify(text).type).toBe('carrier_guide');
+    });
+
+    it('does not take a chat that names a carrier for a chat', () => {
+        const result = classifier.classify('Buenas tardes 10:42 am, ya le envío por Servientrega');
+
+        expect(result.type).toBe('unknown');
+        expect(result.scores.whatsapp_chat).toBe(0.4);
+    });
+
+    it('explains unknown documents with the closest class', () => {
+        const result = classifier.classify('Nequi');
+
+        expect(result.type).toBe('unknown');
+        expect(result.signals).toEqual(['payment_receipt.provider']);
+        expect(result.reason).toBe('no class reached its minimum score; closest is payment_receipt (score 0.35, needs 0.5)');
+    });
+
+    it('reports when no signal fired', () => {
+        const result = classifier.classify('lorem ipsum');
+
+        expect(result.type).toBe('unknown');
+        expect(result.signals).toEqual([]);
+        expect(Object.values(result.scores).every(score => score === 0)).toBe(true);
+        expect(result.reason).toBe('no document signals found');
+    });
+});
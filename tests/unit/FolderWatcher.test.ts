@@ -1,4 +1,4 @@
-import { FolderWatcher } from '../../src/watchers/FolderWatcher';
+import { FolderWatcher, outcomeFolder } from '../../src/watchers/FolderWatcher';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -361,6 +361,120 @@ describe('FolderWatcher', () => {
 
       expect(readonlyCallback).toHaveBeenCalled();
     });
+    it('should leave the file in place when the callback rejects', async () => {
+      watcher = new FolderWatcher(testDir, jest.fn().mockRejectedValue(new Error('Database not connected')));
+      watcher.start();
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      const testFile = path.join(testDir, 'guide.pdf');
+      fs.writeFileSync(testFile, 'guide content');
+
+      await new Promise(resolve => setTimeout(resolve, 3500));
+
+      expect(fs.existsSync(testFile)).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'processed', 'guide.pdf'))).toBe(false);
+    });
+
+    it('should not report files moved to the processed subfolder', async () => {
+      watcher.start();
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      const testFile = path.join(testDir, 'guide.pdf');
+      fs.writeFileSync(testFile, 'guide content');
+
+      await new Promise(resolve => setTimeout(resolve, 5000));
+
+      expect(mockCallback).toHaveBeenCalledTimes(1);
+      expect(mockCallback).toHaveBeenCalledWith(testFile);
+    });
+  });
+
+  describe('outcome folders', () => {
+    it('should move the file to the folder it returns, with a sidecar report', async () => {
+      const callback = jest.fn().mockResolvedValue({
+        folder: 'unmatched',
+        report: { results: [{ success: false, unmatched: true, message: 'No customer match found', candidates: [] }] }
+      });
+      watcher = new FolderWatcher(testDir, callback);
+      watcher.start();
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      fs.writeFileSync(path.join(testDir, 'guide.pdf'), 'guide content');
+
+      await new Promise(resolve => setTimeout(resolve, 3500));
+
+      expect(fs.existsSync(path.join(testDir, 'unmatched', 'guide.pdf'))).toBe(true);
+      const sidecar = JSON.parse(fs.readFileSync(path.join(testDir, 'unmatched', 'guide.pdf.json'), 'utf8'));
+      expect(sidecar).toMatchObject({
+        file: 'guide.pdf',
+        outcome: 'unmatched',
+        processedAt: expect.any(String),
+        results: [{ message: 'No customer match found', candidates: [] }]
+      });
+    });
+
+    it('should process a file dropped back into the watch folder and clear its earlier outcome', async () => {
+      const callback = jest.fn()
+        .mockResolvedValueOnce({ folder: 'failed', report: { error: 'Database not connected' } })
+        .mockResolvedValueOnce({ folder: 'processed', report: { results: [{ success: true }] } });
+      watcher = new FolderWatcher(testDir, callback);
+      watcher.start();
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      const testFile = path.join(testDir, 'guide.pdf');
+      fs.writeFileSync(testFile, 'guide content');
+      await new Promise(resolve => setTimeout(resolve, 3000));
+      expect(fs.existsSync(path.join(testDir, 'failed', 'guide.pdf.json'))).toBe(true);
+
+      fs.copyFileSync(path.join(testDir, 'failed', 'guide.pdf'), testFile);
+      await new Promise(resolve => setTimeout(resolve, 3000));
+
+      expect(callback).toHaveBeenCalledTimes(2);
+      expect(fs.existsSync(path.join(testDir, 'processed', 'guide.pdf.json'))).toBe(true);
+      expect(fs.existsSync(path.join(testDir, 'failed', 'guide.pdf'))).toBe(false);
+      expect(fs.existsSync(path.join(testDir, 'failed', 'guide.pdf.json'))).toBe(false);
+    });
+
+    it('should keep a different file with the same name in another folder', async () => {
+      fs.mkdirSync(path.join(testDir, 'unmatched'), { recursive: true });
+      fs.writeFileSync(path.join(testDir, 'unmatched', 'guide.pdf'), 'another guide');
+      watcher.start();
+
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      fs.writeFileSync(path.join(testDir, 'guide.pdf'), 'guide content');
+
+      await new Promise(resolve => setTimeout(resolve, 3000));
+
+      expect(mockCallback).toHaveBeenCalledTimes(1);
+      expect(fs.existsSync(path.join(testDir, 'processed', 'guide.pdf'))).toBe(true);
+      expect(fs.readFileSync(path.join(testDir, 'unmatched', 'guide.pdf'), 'utf8')).toBe('another guide');
+    });
+  });
+
+  describe('outcomeFolder', () => {
+    it('should route sent and duplicate guides to processed', () => {
+      expect(outcomeFolder([{ success: true, message: 'Guide sent' }, { success: false, duplicate: true, message: 'Guide already sent' }])).toBe('processed');
+    });
+
+    it('should route guides without an order to unmatched', () => {
+      expect(outcomeFolder([{ success: true, message: 'Guide sent' }, { success: false, unmatched: true, message: 'No customer match found' }])).toBe('unmatched');
+    });
+
+    it('should route files with any failure to failed', () => {
+      expect(outcomeFolder([{ success: false, unmatched: true, message: 'No customer match found' }, { success: false, message: 'Failed to send guide' }])).toBe('failed');
+      expect(outcomeFolder([{ success: false, message: 'Could not parse guide' }])).toBe('failed');
+      expect(outcomeFolder([{ success: false, message: 'Not a guide: invoice', documentType: 'invoice' }])).toBe('failed');
+      expect(outcomeFolder([])).toBe('failed');
+    });
+
+    it('should route WhatsApp chat screenshots to whatsapp-chats', () => {
+      expect(outcomeFolder([{ success: false, message: 'Not a guide: whatsapp_chat', documentType: 'whatsapp_chat' }])).toBe('whatsapp-chats');
+    });
   });
 
   describe('stability threshold', () => {
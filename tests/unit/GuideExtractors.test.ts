@@ -0,0 +1,175 @@
+/**
+ * Tests for per-carrier guide layout extractors
+ */
+
+import {
+    createDefaultExtractors,
+    GenericGuideExtractor,
+    ServientregaExtractor,
+    CoordinadoraExtractor,
+    InterRapidisimoExtractor,
+    TCCExtractor,
+    Carrier472Extractor,
+    DeprisaExtractor
+} from '../../src/services/extractors';
+
+describe('Guide Extractors', () => {
+    describe('carrier detection', () => {
+        const cases = [
+            { text: 'SERVIENTREGA S.A. Guía 2108765432', carrier: 'Servientrega' },
+            { text: 'COORDINADORA MERCANTIL', carrier: 'Coordinadora' },
+            { text: 'INTER RAPIDÍSIMO S.A.', carrier: 'InterRapidisimo' },
+            { text: 'ENVÍA COLVANES', carrier: 'Envia' },
+            { text: 'TCC S.A.S remesa', carrier: 'TCC' },
+            { text: 'Servicios Postales Nacionales 472', carrier: '472' },
+            { text: 'DEPRISA - Avianca', carrier: 'Deprisa' }
+        ];
+
+        cases.forEach(({ text, carrier }) => {
+            it(`selects the ${carrier} extractor`, () => {
+                const extractor = createDefaultExtractors().find(e => e.detect(text));
+                expect(extractor?.carrier).toBe(carrier);
+            });
+        });
+
+        it('does not take an "Envía:" sender label for the Envía brand', () => {
+            const guide = 'Envía: TechAura Store\nTCC S.A.S\nRemesa: 987654321\nDestinatario: Ana Ruiz';
+            const extractor = createDefaultExtractors().find(e => e.detect(guide));
+            expect(extractor?.carrier).toBe('TCC');
+        });
+
+        it('does not take words that start like Envía for the brand', () => {
+            expect(createDefaultExtractors().find(e => e.detect('Enviaste $50.000 a Ana Ruiz'))).toBeUndefined();
+        });
+
+        it('finds no carrier extractor for unbranded text', () => {
+            const extractor = createDefaultExtractors().find(e => e.detect('Guía: 123456789012'));
+            expect(extractor).toBeUndefined();
+        });
+    });
+
+    describe('remitente/destinatario blocks', () => {
+        const senderFirstGuide = `
+SERVIENTREGA
+No. Guía: 2108765432
+REMITENTE
+TechAura Store
+Tel: 3101112233
+Calle 100 # 15-20
+Bogotá
+DESTINATARIO
+Nombre: Laura Gómez Ruiz
+Tel: 3157778899
+Carrera 45 # 30-12
+Medellín
+        `;
+
+        it('takes the recipient data, not the sender data', () => {
+            const result = new ServientregaExtractor().extract(senderFirstGuide);
+
+            expect(result.trackingNumber?.value).toBe('2108765432');
+            expect(result.customerName?.value).toBe('Laura Gómez Ruiz');
+            expect(result.customerPhone?.value).toBe('573157778899');
+            expect(result.shippingAddress?.value).toContain('Carrera 45');
+            expect(result.city?.value).toBe('Medellín');
+        });
+
+        it('ignores the sender block entirely when the recipient block lacks a field', () => {
+            const text = `
+COORDINADORA
+Guía No. 12345678901
+Remitente: TechAura
+Cra 7 # 100-25
+Destinatario: María González
+Tel: 3012345678
+            `;
+            const result = new CoordinadoraExtractor().extract(text);
+
+            expect(result.customerName?.value).toBe('María González');
+            expect(result.shippingAddress?.value).toBeUndefined();
+        });
+    });
+
+    describe('tracking number formats', () => {
+        it('reads an unlabelled Coordinadora 11-digit number', () => {
+            const result = new CoordinadoraExtractor().extract('COORDINADORA\n45678901234\nDestinatario: Ana Ruiz');
+            expect(result.trackingNumber?.value).toBe('45678901234');
+        });
+
+        it('reads an unlabelled InterRapidisimo 12-digit number', () => {
+            const result = new InterRapidisimoExtractor().extract('INTER RAPIDISIMO\n700012345678\nPara: Ana Ruiz');
+            expect(result.trackingNumber?.value).toBe('700012345678');
+        });
+
+        it('reads a TCC remesa number', () => {
+            const result = new TCCExtractor().extract('TCC\nRemesa: 987654321\nDestinatario: Ana Ruiz');
+            expect(result.trackingNumber?.value).toBe('987654321');
+        });
+
+        it('reads a 472 UPU S10 number', () => {
+            const result = new Carrier472Extractor().extract('472\nRN123456789CO\nDestinatario: Ana Ruiz');
+            expect(result.trackingNumber?.value).toBe('RN123456789CO');
+        });
+
+        it('reads a Deprisa 12-digit guide number', () => {
+            const result = new DeprisaExtractor().extract('DEPRISA\nGuía: 999912345678\nDestinatario: Ana Ruiz');
+            expect(result.trackingNumber?.value).toBe('999912345678');
+        });
+
+        it('does not take the phone number as the tracking number', () => {
+            const result = new ServientregaExtractor().extract('SERVIENTREGA\nDestinatario: Ana Ruiz\nCel: 3001234567');
+            expect(result.trackingNumber?.value).toBeUndefined();
+            expect(result.customerPhone?.value).toBe('573001234567');
+        });
+
+        it('does not take an ID number as the tracking number', () => {
+            const result = new TCCExtractor().extract('TCC\nDestinatario: Ana Ruiz\nC.C. 1020304050\nTel 3001234567');
+            expect(result.trackingNumber?.value).toBeUndefined();
+        });
+    });
+
+    describe('field provenance', () => {
+        const text = 'SERVIENTREGA\nNo. Guía: 2108765432\nDestinatario: Laura Gómez\nCiudad: Medellín';
+
+        it('records the rule and span of each field', () => {
+            const result = new ServientregaExtractor().extract(text);
+            const tracking = result.trackingNumber!;
+
+            expect(tracking.rule).toBe('servientrega.trackingNumber.labelled+format');
+            expect(text.substring(tracking.span![0], tracking.span![1])).toBe('2108765432');
+            expect(text.substring(result.customerName!.span![0], result.customerName!.span![1])).toBe('Laura Gómez');
+            expect(text.substring(result.city!.span![0], result.city!.span![1])).toBe('Medellín');
+            expect(result.carrier?.rule).toBe('servientrega.carrier.detect');
+        });
+
+        it('scores recipient-block and labelled values above free-text matches', () => {
+            const labelled = new ServientregaExtractor().extract(text);
+            const bare = new ServientregaExtractor().extract('SERVIENTREGA\n2108765432\nLaura Gómez\nMEDELLIN');
+
+            expect(labelled.trackingNumber!.confidence).toBeGreaterThan(bare.trackingNumber!.confidence);
+            expect(labelled.city!.confidence).toBeGreaterThan(bare.city!.confidence);
+            expect(labelled.customerName!.rule).toBe('servientrega.customerName.recipient-block');
+        });
+
+        it('maps spans back through accent normalisation', () => {
+            const accented = 'SERVIENTREGA\nDestinatario: José Núñez\nBogotá';
+            const result = new ServientregaExtractor().extract(accented);
+            expect(accented.substring(result.city!.span![0], result.city!.span![1])).toBe('Bogotá');
+        });
+    });
+
+    describe('GenericGuideExtractor', () => {
+        it('uses the generic labels and formats', () => {
+            const result = new GenericGuideExtractor().extract('Guía: SV999888777\nDestinatario: Laura Gómez');
+
+            expect(result.trackingNumber?.value).toBe('SV999888777');
+            expect(result.customerName?.value).toBe('Laura Gómez');
+            expect(result.carrier?.value).toBeUndefined();
+        });
+
+        it('does not join the name with the next line', () => {
+            const result = new GenericGuideExtractor().extract('Destinatario: Juan Pérez\nTeléfono: 3001234567');
+            expect(result.customerName?.value).toBe('Juan Pérez');
+        });
+    });
+});
@@ -1,4 +1,9 @@
-import { GuideParser } from '../../src/services/GuideParser';
+import { GuideParser, NonGuideDocumentError, WhatsAppChatDetectedError } from '../../src/services/GuideParser';
+import { getWeakFields, isConfidentEnoughToSend } from '../../src/services/GuideConfidence';
+import { BarcodeDecoder } from '../../src/services/BarcodeDecoder';
+import { ImagePreprocessor } from '../../src/services/ImagePreprocessor';
+import { OcrWorkerPool } from '../../src/services/OcrWorkerPool';
+import { OcrCache } from '../../src/services/OcrCache';
 import { mockGuideTexts } from '../fixtures/mock-data';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -14,16 +19,19 @@ jest.mock('pdf-parse', () => {
 });
 
 jest.mock('tesseract.js', () => {
+  const recognize = jest.fn((filePath: string) => {
+    // Return different text based on file path for testing
+    return Promise.resolve({
+      data: {
+        text: mockGuideTexts.coordinadora
+      }
+    });
+  });
   return {
     default: {
-      recognize: jest.fn((filePath: string) => {
-        // Return different text based on file path for testing
-        return Promise.resolve({
-          data: {
-            text: mockGuideTexts.coordinadora
-          }
-        });
-      })
+      recognize,
+      // Pool workers read through the same mock
+      createWorker: jest.fn(async () => ({ recognize, terminate: jest.fn(async () => undefined) }))
     }
   };
 });
@@ -202,6 +210,22 @@ describe('GuideParser', () => {
       fs.unlinkSync(testFile);
     });
 
+    it('should parse the shipping address into its parts', async () => {
+      const testFile = '/tmp/test.pdf';
+      fs.writeFileSync(testFile, 'test');
+
+      const result = await parser.parse(testFile);
+
+      expect(result?.structuredAddress).toMatchObject({
+        viaType: 'Calle',
+        viaNumber: '45',
+        crossNumber: '23',
+        plate: '67',
+        normalized: 'Calle 45 # 23-67'
+      });
+      fs.unlinkSync(testFile);
+    });
+
     it('should extract Colombian cities', async () => {
       const testFile = '/tmp/test.pdf';
       fs.writeFileSync(testFile, 'test');
@@ -356,6 +380,41 @@ describe('GuideParser', () => {
       
       fs.unlinkSync(testFile);
     });
+
+    it('should include the DANE code of the city', async () => {
+      const pdfParseMock = require('pdf-parse');
+      pdfParseMock.mockResolvedValueOnce({
+        text: 'Guía: SV111222333\nDestinatario: Carlos Ruiz\nTeléfono: 3005551234\nCiudad: Argelia, Cauca'
+      });
+
+      const testFile = '/tmp/dane-city.pdf';
+      fs.writeFileSync(testFile, 'test');
+
+      const result = await parser.parse(testFile);
+
+      expect(result?.city).toBe('Argelia');
+      expect(result?.department).toBe('Cauca');
+      expect(result?.daneCode).toBe('19050');
+
+      fs.unlinkSync(testFile);
+    });
+
+    it('should not match a city inside another word', async () => {
+      const pdfParseMock = require('pdf-parse');
+      pdfParseMock.mockResolvedValueOnce({
+        text: 'Guía: SV111222333\nDestinatario: Carlos Ruiz\nTeléfono: 3005551234\nProducto de alta calidad\nEnvigado'
+      });
+
+      const testFile = '/tmp/word-city.pdf';
+      fs.writeFileSync(testFile, 'test');
+
+      const result = await parser.parse(testFile);
+
+      expect(result?.city).toBe('Envigado');
+      expect(result?.daneCode).toBe('05266');
+
+      fs.unlinkSync(testFile);
+    });
   });
 
   describe('extractData - rawText length', () => {
@@ -405,4 +464,295 @@ describe('GuideParser', () => {
       });
     });
   });
+
+  describe('Multi-guide PDFs', () => {
+    const testFile = '/tmp/multi-guide.pdf';
+
+    // Feeds each page's lines through pdf-parse's page renderer, one baseline per line
+    const mockPages = (pages: string[]) => {
+      const pdfParseMock = require('pdf-parse');
+      pdfParseMock.mockImplementationOnce(async (_buffer: Buffer, options: any) => {
+        const texts: string[] = [];
+        for (let i = 0; i < pages.length; i++) {
+          const items = pages[i].split('\n').map((str, line) => ({ str, transform: [1, 0, 0, 1, 0, 800 - line * 10] }));
+          texts.push(await options.pagerender({ pageIndex: i, getTextContent: async () => ({ items }) }));
+        }
+        return { text: texts.map(t => `\n\n${t}`).join('') };
+      });
+    };
+
+    beforeEach(() => {
+      fs.writeFileSync(testFile, 'test');
+    });
+
+    afterEach(() => {
+      fs.unlinkSync(testFile);
+    });
+
+    it('should return one guide per page with its page number', async () => {
+      mockPages([mockGuideTexts.servientrega.trim(), 'Página sin guía', mockGuideTexts.coordinadora.trim()]);
+
+      const guides = await parser.parseAll(testFile);
+
+      expect(guides.map(g => [g.trackingNumber, g.page])).toEqual([
+        ['SV123456789', 1],
+        ['CD987654321', 3]
+      ]);
+      expect(guides[1].customerName).toBe('María González López');
+    });
+
+    it('should split a page holding several guides of the same carrier', async () => {
+      mockPages([
+        'SERVIENTREGA\nGuía: 2108765432\nDestinatario: Laura Gómez\nTel: 3157778899\n' +
+        'SERVIENTREGA\nGuía: 2109998877\nDestinatario: José Núñez\nTel: 3001112233'
+      ]);
+
+      const guides = await parser.parseAll(testFile);
+
+      expect(guides).toHaveLength(2);
+      expect(guides[0]).toMatchObject({ trackingNumber: '2108765432', customerName: 'Laura Gómez', customerPhone: '573157778899', page: 1 });
+      expect(guides[1]).toMatchObject({ trackingNumber: '2109998877', customerName: 'José Núñez', customerPhone: '573001112233', page: 1 });
+    });
+
+    it('should keep the copies of one guide on the same sheet as a single guide', async () => {
+      const copy = 'SERVIENTREGA\nGuía: 2108765432\nDestinatario: Laura Gómez\nTel: 3157778899\n';
+      mockPages([copy + copy + 'servientrega.com']);
+
+      const guides = await parser.parseAll(testFile);
+
+      expect(guides).toHaveLength(1);
+      expect(guides[0].trackingNumber).toBe('2108765432');
+    });
+
+    it('should return the first guide from parse()', async () => {
+      mockPages([mockGuideTexts.coordinadora.trim(), mockGuideTexts.servientrega.trim()]);
+
+      const result = await parser.parse(testFile);
+
+      expect(result?.trackingNumber).toBe('CD987654321');
+      expect(result?.page).toBe(1);
+    });
+  });
+
+  describe('Barcode decoding', () => {
+    const testFile = '/tmp/barcode-guide.pdf';
+    let decoder: { decodeImage: jest.Mock; decodePdfPages: jest.Mock };
+
+    const parseWithBarcodes = async (text: string, codes: string[]) => {
+      require('pdf-parse').mockResolvedValueOnce({ text });
+      decoder.decodePdfPages.mockResolvedValueOnce([codes.map(code => ({ text: code, format: 'CODE_128' }))]);
+      return new GuideParser(undefined, decoder as unknown as BarcodeDecoder).parse(testFile);
+    };
+
+    beforeEach(() => {
+      decoder = { decodeImage: jest.fn(), decodePdfPages: jest.fn() };
+      fs.writeFileSync(testFile, 'test');
+    });
+
+    afterEach(() => {
+      fs.unlinkSync(testFile);
+    });
+
+    it('should prefer a decoded value matching the carrier pattern over the OCR text', async () => {
+      const result = await parseWithBarcodes('SERVIENTREGA\nGuía: SV123456780\nDestinatario: Laura Gómez', ['SV123456789']);
+
+      expect(result?.trackingNumber).toBe('SV123456789');
+      expect(result?.fields?.trackingNumber).toEqual({
+        value: 'SV123456789', confidence: 0.97, rule: 'servientrega.trackingNumber.barcode+pattern', span: null
+      });
+    });
+
+    it('should score a decoded value that agrees with the text highest', async () => {
+      const result = await parseWithBarcodes('SERVIENTREGA\nGuía: SV123456789\nDestinatario: Laura Gómez', ['SV123456789']);
+
+      expect(result?.fields?.trackingNumber.rule).toBe('servientrega.trackingNumber.barcode+text');
+      expect(result?.fields?.trackingNumber.confidence).toBe(0.99);
+    });
+
+    it('should ignore a decoded value matching another carrier pattern', async () => {
+      const result = await parseWithBarcodes('SERVIENTREGA\nGuía: SV123456789\nDestinatario: Laura Gómez', ['CD987654321']);
+
+      expect(result?.trackingNumber).toBe('SV123456789');
+      expect(result?.fields?.trackingNumber.rule).toBe('servientrega.trackingNumber.labelled+format');
+    });
+
+    it('should accept an unprefixed value that fits the carrier format', async () => {
+      const result = await parseWithBarcodes('SERVIENTREGA\nDestinatario: Laura Gómez\nTel: 3157778899', ['2108765432']);
+
+      expect(result?.trackingNumber).toBe('2108765432');
+      expect(result?.fields?.trackingNumber.rule).toBe('servientrega.trackingNumber.barcode+format');
+    });
+
+    it('should read the tracking number out of a QR code URL', async () => {
+      const result = await parseWithBarcodes(
+        'SERVIENTREGA\nDestinatario: Laura Gómez\nTel: 3157778899',
+        ['https://www.servientrega.com/rastreo?guia=SV555666777']
+      );
+
+      expect(result?.trackingNumber).toBe('SV555666777');
+    });
+
+    it('should only use a page barcode to confirm guides split from one page', async () => {
+      decoder.decodePdfPages.mockResolvedValueOnce([[{ text: '2109998877', format: 'CODE_128' }]]);
+      require('pdf-parse').mockResolvedValueOnce({
+        text: 'SERVIENTREGA\nGuía: 2108765432\nDestinatario: Laura Gómez\n' +
+          'SERVIENTREGA\nGuía: 2109998877\nDestinatario: José Núñez'
+      });
+
+      const guides = await new GuideParser(undefined, decoder as unknown as BarcodeDecoder).parseAll(testFile);
+
+      expect(guides.map(g => [g.trackingNumber, g.fields?.trackingNumber.rule])).toEqual([
+        ['2108765432', 'servientrega.trackingNumber.labelled+format'],
+        ['2109998877', 'servientrega.trackingNumber.barcode+text']
+      ]);
+    });
+  });
+
+  describe('Field confidence and provenance', () => {
+    it('should attach provenance to every field', async () => {
+      const testFile = '/tmp/provenance.pdf';
+      fs.writeFileSync(testFile, 'test');
+
+      const result = await parser.parse(testFile);
+
+      expect(result?.fields?.trackingNumber).toEqual({
+        value: 'SV123456789',
+        confidence: expect.any(Number),
+        rule: expect.stringMatching(/^servientrega\.trackingNumber\./),
+        span: expect.any(Array)
+      });
+      const span = result!.fields!.customerName.span!;
+      expect(mockGuideTexts.servientrega.substring(span[0], span[1])).toBe('Juan Carlos Pérez');
+
+      fs.unlinkSync(testFile);
+    });
+
+    it('should mark defaulted fields with zero confidence', async () => {
+      const pdfParseMock = require('pdf-parse');
+      pdfParseMock.mockResolvedValueOnce({ text: 'Guía: SV999888777\nDestinatario: Laura Gómez' });
+
+      const testFile = '/tmp/defaults.pdf';
+      fs.writeFileSync(testFile, 'test');
+
+      const result = await parser.parse(testFile);
+
+      expect(result?.carrier).toBe('Unknown');
+      expect(result?.fields?.carrier).toEqual({ value: 'Unknown', confidence: 0, rule: 'default', span: null });
+      expect(result?.fields?.shippingAddress.rule).toBe('default');
+      expect(getWeakFields(result!, 0.6)).toEqual(
+        expect.arrayContaining(['carrier', 'shippingAddress', 'city', 'customerPhone'])
+      );
+
+      fs.unlinkSync(testFile);
+    });
+
+    it('should refuse auto-send when the tracking number is weak', () => {
+      const guide = {
+        trackingNumber: '1234567890', customerName: 'Ana Ruiz', shippingAddress: '', city: '', carrier: 'Unknown', rawText: '',
+        fields: {
+          trackingNumber: { value: '1234567890', confidence: 0.4, rule: 'generic.trackingNumber.format', span: [0, 10] as [number, number] },
+          customerName: { value: 'Ana Ruiz', confidence: 0.9, rule: 'generic.customerName.recipient-block', span: [11, 19] as [number, number] },
+          customerPhone: { value: '', confidence: 0, rule: 'default', span: null },
+          shippingAddress: { value: '', confidence: 0, rule: 'default', span: null },
+          city: { value: '', confidence: 0, rule: 'default', span: null },
+          department: { value: '', confidence: 0, rule: 'default', span: null },
+          carrier: { value: 'Unknown', confidence: 0, rule: 'default', span: null }
+        }
+      };
+
+      expect(isConfidentEnoughToSend(guide, 0.6)).toBe(false);
+      expect(isConfidentEnoughToSend({ ...guide, fields: { ...guide.fields, trackingNumber: { ...guide.fields.trackingNumber, confidence: 0.9 } } }, 0.6)).toBe(true);
+    });
+
+    it('should treat guides without provenance as confident', () => {
+      expect(isConfidentEnoughToSend({
+        trackingNumber: 'TEST', customerName: 'Ana', shippingAddress: '', city: '', carrier: 'Test', rawText: ''
+      }, 0.6)).toBe(true);
+    });
+  });
+
+  describe('OCR cache', () => {
+    it('should not OCR the same image twice', async () => {
+      const dir = fs.mkdtempSync(path.join(require('os').tmpdir(), 'guide-ocr-cache-'));
+      const pool = {
+        recognize: jest.fn().mockResolvedValue({ text: mockGuideTexts.coordinadora, confidence: 90 })
+      } as unknown as OcrWorkerPool;
+      const preprocessor = { process: jest.fn(async (file: string) => file) } as unknown as ImagePreprocessor;
+      const cachedParser = new GuideParser(undefined, null, preprocessor, pool, new OcrCache({ dir, ttlMs: 60000 }));
+      const first = path.join(dir, 'upload-1.png');
+      const second = path.join(dir, 'upload-2.png');
+      fs.writeFileSync(first, 'same guide photo');
+      fs.writeFileSync(second, 'same guide photo');
+
+      const firstResult = await cachedParser.parse(first);
+      const secondResult = await cachedParser.parse(second);
+
+      expect(pool.recognize).toHaveBeenCalledTimes(1);
+      expect(secondResult?.trackingNumber).toBe(firstResult?.trackingNumber);
+      expect(secondResult?.carrier).toBe('Coordinadora');
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should not keep the text of an ID document', async () => {
+      const dir = fs.mkdtempSync(path.join(require('os').tmpdir(), 'guide-ocr-cache-'));
+      const cacheDir = path.join(dir, 'cache');
+      const pool = {
+        recognize: jest.fn().mockResolvedValue({
+          text: 'REPÚBLICA DE COLOMBIA\nIDENTIFICACIÓN PERSONAL\nCÉDULA DE CIUDADANÍA\nNÚMERO 1.020.304.050\nAPELLIDOS PÉREZ\nNOMBRES JUAN\nFECHA DE NACIMIENTO 12-MAR-1990',
+          confidence: 88
+        })
+      } as unknown as OcrWorkerPool;
+      const preprocessor = { process: jest.fn(async (file: string) => file) } as unknown as ImagePreprocessor;
+      const cachedParser = new GuideParser(undefined, null, preprocessor, pool, new OcrCache({ dir: cacheDir, ttlMs: 60000 }));
+      const photo = path.join(dir, 'cedula.png');
+      fs.writeFileSync(photo, 'id photo');
+
+      const error = await cachedParser.parse(photo).catch(e => e);
+
+      expect(error).toBeInstanceOf(NonGuideDocumentError);
+      expect(error.classification.type).toBe('id_document');
+      expect(fs.existsSync(cacheDir) ? fs.readdirSync(cacheDir) : []).toEqual([]);
+
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Document classification', () => {
+    const testFile = '/tmp/test-guides/classified.pdf';
+
+    beforeEach(() => {
+      fs.mkdirSync(path.dirname(testFile), { recursive: true });
+      fs.writeFileSync(testFile, 'test');
+    });
+
+    afterEach(() => {
+      fs.unlinkSync(testFile);
+    });
+
+    it('should report the classification of a payment receipt', async () => {
+      require('pdf-parse').mockResolvedValueOnce({ text: 'Nequi\nEnviaste plata\n$ 85.000\nReferencia M8123456' });
+
+      const error = await parser.parseAll(testFile).catch(e => e);
+
+      expect(error).toBeInstanceOf(NonGuideDocumentError);
+      expect(error.classification.type).toBe('payment_receipt');
+      expect(error.text).toContain('M8123456');
+    });
+
+    it('should keep rejecting WhatsApp chats with their own error', async () => {
+      require('pdf-parse').mockResolvedValueOnce({ text: 'Buenas tardes\n10:42 am\nBarrio Niquía ✓✓' });
+
+      const error = await parser.parseAll(testFile).catch(e => e);
+
+      expect(error).toBeInstanceOf(WhatsAppChatDetectedError);
+      expect(error).toBeInstanceOf(NonGuideDocumentError);
+      expect(error.classification.type).toBe('whatsapp_chat');
+    });
+
+    it('should return the richer type from detectImageType', () => {
+      expect(parser.detectImageType('FACTURA ELECTRÓNICA DE VENTA NIT 901.234.567-8 Subtotal IVA')).toBe('invoice');
+      expect(parser.detectImageType(mockGuideTexts.tcc)).toBe('carrier_guide');
+    });
+  });
 });
@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GuideRegistry, hashFile } from '../../src/services/GuideRegistry';
+import { ProcessedGuideRecord } from '../../src/types';
+
+describe('GuideRegistry', () => {
+    let dir: string;
+    let registryPath: string;
+
+    const record = (trackingNumber: string, fileHash = 'hash-1'): ProcessedGuideRecord => ({
+        trackingNumber,
+        carrier: 'Servientrega',
+        fileHash,
+        orderNumber: 'ORD-1',
+        sentTo: '3001234567',
+        source: 'upload',
+        processedAt: '2025-03-12T15:00:00.000Z'
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'guide-registry-'));
+        registryPath = path.join(dir, 'nested', 'processed-guides.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('finds sent guides by tracking number, ignoring case', () => {
+        const registry = new GuideRegistry(registryPath);
+        registry.recordGuide(record('SV123456789'));
+
+        expect(registry.findGuide('sv123456789')).toEqual(record('SV123456789'));
+        expect(registry.findGuide('CD987654321')).toBeNull();
+    });
+
+    it('keeps the records across restarts', () => {
+        new GuideRegistry(registryPath).recordGuide(record('SV123456789'));
+        new GuideRegistry(registryPath).recordFile('hash-1', ['SV123456789']);
+
+        const reloaded = new GuideRegistry(registryPath);
+        expect(reloaded.findGuide('SV123456789')).not.toBeNull();
+        expect(reloaded.findFile('hash-1')).toEqual(record('SV123456789'));
+    });
+
+    it('only reports files that were recorded as fully processed', () => {
+        const registry = new GuideRegistry(registryPath);
+        registry.recordGuide(record('SV123456789', 'hash-2'));
+
+        expect(registry.findFile('hash-2')).toBeNull();
+    });
+
+    it('lets one job at a time claim a tracking number until it is released', () => {
+        const registry = new GuideRegistry(registryPath);
+
+        expect(registry.claimGuide('SV123456789')).toBe(true);
+        expect(registry.claimGuide('sv123456789')).toBe(false);
+        expect(registry.claimGuide('CD987654321')).toBe(true);
+
+        registry.releaseGuide('SV123456789');
+        expect(registry.claimGuide('SV123456789')).toBe(true);
+    });
+
+    it('starts empty when the registry file is unreadable', () => {
+        fs.mkdirSync(path.dirname(registryPath), { recursive: true });
+        fs.writeFileSync(registryPath, '{not json');
+
+        const registry = new GuideRegistry(registryPath);
+
+        expect(registry.findGuide('SV123456789')).toBeNull();
+        expect(console.error).toHaveBeenCalled();
+    });
+
+    it('hashes files by content', () => {
+        const a = path.join(dir, 'a.pdf');
+        const b = path.join(dir, 'b.pdf');
+        fs.writeFileSync(a, 'same');
+        fs.writeFileSync(b, 'same');
+
+        expect(hashFile(a)).toBe(hashFile(b));
+        expect(hashFile(a)).toMatch(/^[0-9a-f]{64}$/);
+    });
+});
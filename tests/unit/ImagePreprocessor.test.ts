@@ -0,0 +1,137 @@
+/**
+ * Tests for the OCR image preprocessing pipeline
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Jimp from 'jimp';
+import { ImagePreprocessor, parsePreprocessSteps } from '../../src/services/ImagePreprocessor';
+
+const GUIDE_LINES = [
+    'SERVIENTREGA Guia: SV123456789',
+    'Destinatario: Laura Gomez Ruiz',
+    'Telefono: 315 777 8899',
+    'Carrera 45 # 30-12 Medellin'
+];
+
+describe('ImagePreprocessor', () => {
+    const workDir = path.join(os.tmpdir(), 'image-preprocessor-test');
+    let guide: Jimp;
+
+    // A photo-like guide: the text, turned and lit unevenly
+    const photo = async (degrees: number, name: string) => {
+        const image = guide.clone().background(0xffffffff).rotate(degrees);
+        const file = path.join(workDir, `${name}.png`);
+        await image.writeAsync(file);
+        return file;
+    };
+
+    // Horizontal ink profile: text rows stand out sharply when the text is upright and level
+    const rowProfilePeaks = (image: Jimp) => {
+        const rows: number[] = [];
+        image.scan(0, 0, image.bitmap.width, image.bitmap.height, (x, y, idx) => {
+            rows[y] = (rows[y] || 0) + (image.bitmap.data[idx] < 128 ? 1 : 0);
+        });
+        const lines = [];
+        for (let y = 0; y < rows.length; y++) {
+            if (rows[y] > 0 && !(rows[y - 1] > 0)) lines.push(y);
+        }
+        return lines.length;
+    };
+
+    beforeAll(async () => {
+        fs.mkdirSync(workDir, { recursive: true });
+        const font = await Jimp.loadFont(Jimp.FONT_SANS_32_BLACK);
+        guide = new Jimp(900, 420, 0xffffffff).filterType(Jimp.PNG_FILTER_NONE);
+        GUIDE_LINES.forEach((line, i) => guide.print(font, 30, 40 + i * 90, line));
+    });
+
+    afterAll(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it.each([
+        ['a skewed', 6],
+        ['a sideways', 93],
+        ['an upside-down', 184],
+        ['a sideways, skewed', 266]
+    ])('straightens %s photo', async (_label, degrees) => {
+        const file = await photo(degrees, `rotated-${degrees}`);
+        const preprocessor = new ImagePreprocessor({ steps: ['autorotate', 'grayscale', 'deskew', 'threshold'], minWidth: 0 });
+
+        const output = await Jimp.read(await preprocessor.process(file) as Buffer);
+
+        // Upright text is wider than tall and shows its four lines as separate bands
+        expect(output.bitmap.width).toBeGreaterThan(output.bitmap.height);
+        expect(rowProfilePeaks(output)).toBe(GUIDE_LINES.length);
+        // Upside-down output would put the first line's ink at the bottom
+        let firstInkRow = -1;
+        output.scan(0, 0, output.bitmap.width, output.bitmap.height, (x, y, idx) => {
+            if (firstInkRow < 0 && output.bitmap.data[idx] < 128) firstInkRow = y;
+        });
+        expect(firstInkRow).toBeLessThan(output.bitmap.height / 2);
+    });
+
+    it('keeps text under uneven lighting with the adaptive threshold', async () => {
+        const image = guide.clone();
+        // Darken the right half like a shadow across the page
+        image.scan(450, 0, 450, image.bitmap.height, (x, y, idx) => {
+            for (let c = 0; c < 3; c++) image.bitmap.data[idx + c] = Math.round(image.bitmap.data[idx + c] * 0.45);
+        });
+        const file = path.join(workDir, 'shadow.png');
+        await image.writeAsync(file);
+
+        const output = await Jimp.read(await new ImagePreprocessor({ steps: ['threshold'], minWidth: 0 }).process(file) as Buffer);
+
+        let shadowInk = 0;
+        let shadowPixels = 0;
+        output.scan(450, 0, 450, output.bitmap.height, (x, y, idx) => {
+            shadowPixels++;
+            if (output.bitmap.data[idx] === 0) shadowInk++;
+        });
+        // The shadowed half becomes white paper with black text, not a black block
+        expect(shadowInk / shadowPixels).toBeLessThan(0.2);
+        expect(shadowInk).toBeGreaterThan(0);
+    });
+
+    it('upscales images narrower than the minimum width', async () => {
+        const file = path.join(workDir, 'small.png');
+        await guide.clone().resize(300, 140).writeAsync(file);
+
+        const output = await Jimp.read(await new ImagePreprocessor({ steps: ['upscale'], minWidth: 1200 }).process(file) as Buffer);
+
+        expect(output.bitmap.width).toBe(1200);
+    });
+
+    it('saves every intermediate image in debug mode', async () => {
+        const debugDir = path.join(workDir, 'debug');
+        const file = await photo(0, 'debug-guide');
+
+        await new ImagePreprocessor({ steps: ['threshold', 'grayscale'], minWidth: 0, debugDir }).process(file);
+
+        expect(fs.readdirSync(debugDir).sort()).toEqual([
+            'debug-guide-0-original.png',
+            'debug-guide-1-grayscale.png',
+            'debug-guide-2-threshold.png'
+        ]);
+    });
+
+    it('returns the original path when no steps are configured', async () => {
+        const preprocessor = new ImagePreprocessor({ steps: parsePreprocessSteps('none'), minWidth: 0 });
+        await expect(preprocessor.process('/tmp/guide.png')).resolves.toBe('/tmp/guide.png');
+    });
+
+    it('returns the original path when the image cannot be read', async () => {
+        const file = path.join(workDir, 'broken.png');
+        fs.writeFileSync(file, 'not an image');
+
+        await expect(new ImagePreprocessor({ steps: ['grayscale'], minWidth: 0 }).process(file)).resolves.toBe(file);
+    });
+
+    describe('parsePreprocessSteps', () => {
+        it('keeps known steps and ignores unknown ones', () => {
+            expect(parsePreprocessSteps(' Grayscale, deskew,sharpen ,threshold')).toEqual(['grayscale', 'deskew', 'threshold']);
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import { JobQueue, JobQueueOptions } from '../../src/services/JobQueue';
+import { MemoryJobStore } from '../fixtures/memory-job-store';
+
+const options: JobQueueOptions = { concurrency: 2, maxAttempts: 3, retryBackoffMs: 20, pollIntervalMs: 5 };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('JobQueue', () => {
+    let store: MemoryJobStore;
+    let queue: JobQueue;
+
+    beforeEach(() => {
+        store = new MemoryJobStore();
+        queue = new JobQueue(store, options);
+    });
+
+    afterEach(() => {
+        queue.stop();
+    });
+
+    it('runs a queued job through its states and keeps the result', async () => {
+        queue.register('watcher', async (job, setState) => {
+            await setState('matching');
+            await setState('sending');
+            return [{ success: true, message: 'Guide sent', trackingNumber: job.filePath }];
+        });
+        queue.start();
+
+        const job = await queue.enqueue('watcher', '/guides/a.pdf');
+        const result = await queue.waitFor(job.id);
+
+        expect(result).toEqual([{ success: true, message: 'Guide sent', trackingNumber: '/guides/a.pdf' }]);
+        expect(store.history.get(job.id)).toEqual(['queued', 'parsing', 'matching', 'sending', 'done']);
+        expect(store.jobs[0]).toMatchObject({ state: 'done', attempts: 1, result });
+    });
+
+    it('passes the job options to the handler', async () => {
+        const handler = jest.fn().mockResolvedValue('ok');
+        queue.register('upload', handler);
+        queue.start();
+
+        const job = await queue.enqueue('upload', '/tmp/upload-1', { force: true, originalName: 'guia.png' });
+        await queue.waitFor(job.id);
+
+        expect(handler.mock.calls[0][0]).toMatchObject({ filePath: '/tmp/upload-1', options: { force: true, originalName: 'guia.png' } });
+    });
+
+    it('returns the active job instead of queueing a file twice', async () => {
+        const first = await queue.enqueue('watcher', '/guides/a.pdf');
+        const second = await queue.enqueue('watcher', '/guides/a.pdf');
+
+        expect(second.id).toBe(first.id);
+        expect(store.jobs).toHaveLength(1);
+    });
+
+    it('queues a file again once its earlier job is finished', async () => {
+        queue.register('watcher', async () => 'ok');
+        queue.start();
+        const first = await queue.enqueue('watcher', '/guides/a.pdf');
+        await queue.waitFor(first.id);
+
+        const second = await queue.enqueue('watcher', '/guides/a.pdf');
+
+        expect(second.id).not.toBe(first.id);
+    });
+
+    it('never runs more jobs at once than its concurrency', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        queue.register('watcher', async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await delay(20);
+            running--;
+        });
+        queue.start();
+
+        const jobs = await Promise.all([1, 2, 3, 4, 5].map(n => queue.enqueue('watcher', `/guides/${n}.pdf`)));
+        await Promise.all(jobs.map(job => queue.waitFor(job.id)));
+
+        expect(maxRunning).toBe(2);
+        expect(store.jobs.every(job => job.state === 'done')).toBe(true);
+    });
+
+    it('retries a failing job with growing backoff', async () => {
+        const startedAt: number[] = [];
+        const handler = jest.fn(async () => {
+            startedAt.push(Date.now());
+            if (startedAt.length < 3) throw new Error('Database not connected');
+            return 'ok';
+        });
+        queue.register('watcher', handler);
+        queue.start();
+
+        const job = await queue.enqueue('watcher', '/guides/a.pdf');
+        await expect(queue.waitFor(job.id)).resolves.toBe('ok');
+
+        expect(handler).toHaveBeenCalledTimes(3);
+        expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(options.retryBackoffMs);
+        expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(options.retryBackoffMs * 2);
+        expect(store.jobs[0]).toMatchObject({ state: 'done', attempts: 3, lastError: null });
+    });
+
+    it('marks a job failed once it runs out of attempts', async () => {
+        queue.register('watcher', async () => {
+            throw new Error('OCR crashed');
+        });
+        queue.start();
+
+        const job = await queue.enqueue('watcher', '/guides/a.pdf');
+
+        await expect(queue.waitFor(job.id)).rejects.toThrow('OCR crashed');
+        expect(store.jobs[0]).toMatchObject({ state: 'failed', attempts: 3, lastError: 'OCR crashed' });
+    });
+
+    it('queues again the jobs a restart left running', async () => {
+        await store.insert({ source: 'watcher', filePath: '/guides/a.pdf', options: {}, maxAttempts: 3 });
+        await store.claim(1);
+        await store.update(1, { state: 'sending' });
+        const handler = jest.fn().mockResolvedValue('ok');
+        queue.register('watcher', handler);
+
+        queue.start();
+        await delay(50);
+
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(store.jobs[0]).toMatchObject({ state: 'done', attempts: 2 });
+    });
+
+    it('fails interrupted jobs that are out of attempts instead of running them again', async () => {
+        await store.insert({ source: 'watcher', filePath: '/guides/a.pdf', options: {}, maxAttempts: 1 });
+        await store.claim(1);
+        const handler = jest.fn().mockResolvedValue('ok');
+        queue.register('watcher', handler);
+
+        queue.start();
+        await delay(50);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(store.jobs[0].state).toBe('failed');
+    });
+
+    it('waits for the store to be reachable before running jobs', async () => {
+        const init = jest.spyOn(store, 'init')
+            .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+            .mockResolvedValue(undefined);
+        queue.register('watcher', async () => 'ok');
+        queue.start();
+
+        const job = await queue.enqueue('watcher', '/guides/a.pdf');
+
+        await expect(queue.waitFor(job.id)).resolves.toBe('ok');
+        expect(init).toHaveBeenCalledTimes(2);
+    });
+
+    it('leaves jobs without a handler queued', async () => {
+        queue.register('watcher', async () => 'ok');
+        queue.start();
+
+        await queue.enqueue('upload', '/tmp/upload-1');
+        await delay(30);
+
+        expect(store.jobs[0].state).toBe('queued');
+    });
+});
@@ -0,0 +1,112 @@
+import { MySqlJobStore, InMemoryJobStore } from '../../src/services/JobStore';
+
+jest.mock('mysql2/promise', () => ({
+    createPool: jest.fn().mockReturnValue({
+        execute: jest.fn()
+    })
+}));
+
+describe('MySqlJobStore', () => {
+    let store: MySqlJobStore;
+    let mockPool: any;
+
+    const row = {
+        id: 7,
+        source: 'upload',
+        file_path: '/tmp/upload-1',
+        options: '{"force":true,"originalName":"guia.png"}',
+        state: 'matching',
+        attempts: 1,
+        max_attempts: 3,
+        last_error: null,
+        result: null,
+        run_after: '2026-10-19 10:00:00.000',
+        created_at: '2026-10-19 10:00:00.000',
+        updated_at: '2026-10-19 10:00:01.000'
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        const mysql = require('mysql2/promise');
+        mockPool = mysql.createPool();
+        store = new MySqlJobStore({ host: 'localhost', port: 3306, user: 'test', password: '', database: 'test_db' });
+    });
+
+    it('checks the guide_jobs table exists, leaving its creation to the migration', async () => {
+        mockPool.execute.mockResolvedValue([[]]);
+
+        await store.init();
+
+        expect(mockPool.execute).toHaveBeenCalledWith('SELECT 1 FROM guide_jobs LIMIT 1');
+    });
+
+    it('inserts a queued job', async () => {
+        mockPool.execute.mockResolvedValue([{ insertId: 7 }]);
+
+        const job = await store.insert({ source: 'watcher', filePath: '/guides/a.pdf', options: { force: true }, maxAttempts: 3 });
+
+        expect(job).toMatchObject({ id: 7, state: 'queued', attempts: 0, filePath: '/guides/a.pdf' });
+        expect(mockPool.execute.mock.calls[0][1]).toEqual(['watcher', '/guides/a.pdf', '{"force":true}', 3, expect.any(Date), expect.any(Date), expect.any(Date)]);
+    });
+
+    it('reads jobs with their options parsed', async () => {
+        mockPool.execute.mockResolvedValue([[row]]);
+
+        const job = await store.get(7);
+
+        expect(job).toMatchObject({
+            id: 7,
+            source: 'upload',
+            filePath: '/tmp/upload-1',
+            options: { force: true, originalName: 'guia.png' },
+            state: 'matching',
+            maxAttempts: 3
+        });
+        expect(job!.runAfter).toBeInstanceOf(Date);
+    });
+
+    it('claims only queued jobs', async () => {
+        mockPool.execute.mockResolvedValueOnce([{ affectedRows: 1 }]).mockResolvedValueOnce([{ affectedRows: 0 }]);
+
+        expect(await store.claim(7)).toBe(true);
+        expect(await store.claim(7)).toBe(false);
+        expect(mockPool.execute.mock.calls[0][0]).toMatch(/SET state = 'parsing', attempts = attempts \+ 1[\s\S]*WHERE id = \? AND state = 'queued'/);
+    });
+
+    it('updates only the given fields, storing the result as JSON', async () => {
+        mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+        await store.update(7, { state: 'done', result: [{ success: true }], lastError: null });
+
+        const [sql, values] = mockPool.execute.mock.calls[0];
+        expect(sql).toBe('UPDATE guide_jobs SET state = ?, result = ?, last_error = ?, updated_at = ? WHERE id = ?');
+        expect(values).toEqual(['done', '[{"success":true}]', null, expect.any(Date), 7]);
+    });
+
+    it('fails interrupted jobs out of attempts and queues the others again', async () => {
+        mockPool.execute.mockResolvedValueOnce([{ affectedRows: 1 }]).mockResolvedValueOnce([{ affectedRows: 2 }]);
+
+        const requeued = await store.requeueRunning();
+
+        expect(requeued).toBe(2);
+        expect(mockPool.execute.mock.calls[0][0]).toMatch(/SET state = 'failed'[\s\S]*attempts >= max_attempts/);
+        expect(mockPool.execute.mock.calls[1][0]).toContain("SET state = 'queued'");
+    });
+});
+
+describe('InMemoryJobStore', () => {
+    it('claims only queued jobs and requeues interrupted ones', async () => {
+        const store = new InMemoryJobStore();
+        const job = await store.insert({ source: 'watcher', filePath: '/tmp/guia.png', options: {}, maxAttempts: 1 });
+        const other = await store.insert({ source: 'upload', filePath: '/tmp/upload-1', options: {}, maxAttempts: 3 });
+
+        expect(await store.claim(job.id)).toBe(true);
+        expect(await store.claim(job.id)).toBe(false);
+        await store.claim(other.id);
+        expect(await store.findActive('/tmp/guia.png')).toMatchObject({ state: 'parsing', attempts: 1 });
+
+        expect(await store.requeueRunning()).toBe(1);
+        expect(await store.get(job.id)).toMatchObject({ state: 'failed', lastError: 'Interrupted by a restart' });
+        expect(await store.findDue(new Date(), 10)).toEqual([expect.objectContaining({ id: other.id, state: 'queued' })]);
+    });
+});
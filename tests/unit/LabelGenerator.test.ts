@@ -0,0 +1,159 @@
+/**
+ * Tests for LabelGenerator
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PDFDocument, PDFName, PDFRawStream } from 'pdf-lib';
+import pdfParse from 'pdf-parse';
+import { config } from '../../src/config/config';
+import { LabelGenerator, renderQrCode } from '../../src/services/LabelGenerator';
+import { BarcodeDecoder } from '../../src/services/BarcodeDecoder';
+import { Shipment } from '../../src/types';
+
+function shipment(overrides: Partial<Shipment> = {}): Shipment {
+    return {
+        id: 1,
+        orderNumber: 'ORD-2024-001',
+        trackingNumber: 'SV1234567890',
+        carrier: 'servientrega',
+        customerName: 'Juan Pérez',
+        customerPhone: '3001234567',
+        shippingAddress: 'Calle 50 # 40-30',
+        city: 'Medellín',
+        shippingPhone: '3001234567',
+        productDescription: 'USB 64GB Música',
+        status: 'created',
+        createdAt: new Date(2024, 0, 15, 10),
+        updatedAt: new Date(2024, 0, 15, 10),
+        booking: {
+            quote: { price: 20400, currency: 'COP', estimatedDays: 1, serviceName: 'Servicio Express' },
+            selectionReason: 'Seleccionado por ser el más rápido (1 días)',
+            labelReference: null,
+            estimatedDelivery: new Date(2024, 0, 16, 18),
+            recipient: {
+                name: 'Juan Pérez',
+                phone: '3001234567',
+                address: 'Calle 50 # 40-30',
+                city: 'Medellín',
+                department: 'Antioquia'
+            },
+            weight: 2,
+            codAmount: 85000
+        },
+        ...overrides
+    };
+}
+
+describe('LabelGenerator', () => {
+    const workDir = path.join(os.tmpdir(), 'label-generator-test');
+    let generator: LabelGenerator;
+
+    const text = async (pdf: Buffer) => (await pdfParse(pdf)).text;
+
+    beforeAll(() => {
+        fs.mkdirSync(workDir, { recursive: true });
+    });
+
+    afterAll(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        generator = new LabelGenerator({
+            sender: { name: 'TechAura', phone: '6011234567', address: 'Carrera 7 # 71-21', city: 'Bogotá' },
+            trackingUrl: 'https://envios.techaura.co/tracking/{trackingNumber}',
+            publicDir: workDir
+        });
+    });
+
+    it('renders a 4x6 label page', async () => {
+        const pdf = await PDFDocument.load(await generator.render([shipment()]));
+
+        expect(pdf.getPageCount()).toBe(1);
+        expect(pdf.getPage(0).getSize()).toEqual({ width: 288, height: 432 });
+    });
+
+    it('renders A4 labels', async () => {
+        const pdf = await PDFDocument.load(await generator.render([shipment()], 'a4'));
+
+        const { width, height } = pdf.getPage(0).getSize();
+        expect([Math.round(width), Math.round(height)]).toEqual([595, 842]);
+    });
+
+    it('prints sender, recipient, cash on delivery and order blocks', async () => {
+        const content = await text(await generator.render([shipment()]));
+
+        expect(content).toContain('REMITENTE');
+        expect(content).toContain('TechAura');
+        expect(content).toContain('Carrera 7 # 71-21');
+        expect(content).toContain('DESTINATARIO');
+        expect(content).toContain('Juan Pérez');
+        expect(content).toContain('MEDELLÍN, ANTIOQUIA');
+        expect(content).toContain('CONTRAENTREGA: $ 85.000');
+        expect(content).toContain('Pedido ORD-2024-001 - 2 kg - USB 64GB Música');
+        expect(content).toContain('Servicio Express');
+        expect(content).toContain('SV1234567890');
+    });
+
+    it('leaves out the cash on delivery band when nothing is collected', async () => {
+        const content = await text(await generator.render([shipment({ booking: { ...shipment().booking!, codAmount: undefined } })]));
+
+        expect(content).not.toContain('CONTRAENTREGA');
+    });
+
+    it('falls back to the stored shipment fields without a booking', async () => {
+        const content = await text(await generator.render([shipment({ booking: undefined, customerName: 'María García', city: 'Cali' })]));
+
+        expect(content).toContain('María García');
+        expect(content).toContain('CALI');
+    });
+
+    it('encodes the tracking number as Code128 and the tracking URL as QR', async () => {
+        const file = path.join(workDir, 'label.pdf');
+        fs.writeFileSync(file, await generator.render([shipment()]));
+
+        const [codes] = await new BarcodeDecoder().decodePdfPages(file);
+
+        expect(codes).toEqual(expect.arrayContaining([
+            { text: 'SV1234567890', format: 'CODE_128' },
+            { text: 'https://envios.techaura.co/tracking/SV1234567890', format: 'QR_CODE' }
+        ]));
+    });
+
+    it('prints the carrier name when its logo file is missing, and the logo when present', async () => {
+        expect(await text(await generator.render([shipment()]))).toContain('SERVIENTREGA');
+
+        fs.mkdirSync(path.join(workDir, 'images', 'carriers'), { recursive: true });
+        fs.writeFileSync(path.join(workDir, 'images', 'carriers', 'servientrega.png'), await renderQrCode('logo'));
+
+        expect(await text(await generator.render([shipment()]))).not.toContain('SERVIENTREGA');
+    });
+
+    it('embeds the logos shipped for every carrier', async () => {
+        const shipped = new LabelGenerator({ ...config.labels, publicDir: undefined });
+        const carriers = ['servientrega', 'coordinadora', 'interrapidisimo', 'tcc', 'envia', 'deprisa'];
+
+        for (const carrier of carriers) {
+            const pdf = await shipped.render([shipment({ carrier, trackingNumber: '1234567890' })]);
+
+            expect(await text(pdf)).not.toContain(carrier.toUpperCase());
+            // The logo besides the barcode and the QR code
+            const images = (await PDFDocument.load(pdf)).context.enumerateIndirectObjects()
+                .filter(([, object]) => object instanceof PDFRawStream && object.dict.get(PDFName.of('Subtype')) === PDFName.of('Image'));
+            expect(images).toHaveLength(3);
+        }
+    });
+
+    it('prints many shipments in one PDF, a page each', async () => {
+        const shipments = ['SV0000000001', 'CD0000000002', 'TCC0000000003'].map((trackingNumber, i) =>
+            shipment({ id: i + 1, trackingNumber, carrier: ['servientrega', 'coordinadora', 'tcc'][i] }));
+
+        const pdf = await generator.render(shipments, 'a4');
+
+        expect((await PDFDocument.load(pdf)).getPageCount()).toBe(3);
+        const content = await text(pdf);
+        expect(content.indexOf('SV0000000001')).toBeLessThan(content.indexOf('TCC0000000003'));
+    });
+});
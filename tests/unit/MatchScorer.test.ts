@@ -0,0 +1,112 @@
+import {
+    tokenize,
+    sanitizePhone,
+    addressSimilarity,
+    cityInAddress,
+    combineSignals,
+    scoreOrder,
+    autoSendMatch
+} from '../../src/services/MatchScorer';
+import { mockDatabaseOrders, mockParsedGuideData, mockCustomerMatch } from '../fixtures/mock-data';
+
+describe('MatchScorer', () => {
+    describe('tokenize', () => {
+        it('splits into lowercase words without accents or punctuation', () => {
+            expect(tokenize('Pérez-GÓMEZ, Ñuñez  Jr.')).toEqual(['perez', 'gomez', 'nunez', 'jr']);
+        });
+    });
+
+    describe('sanitizePhone', () => {
+        it('keeps the last 10 digits without the country code', () => {
+            expect(sanitizePhone('+57 300 123 4567')).toBe('3001234567');
+            expect(sanitizePhone('300-123-4567')).toBe('3001234567');
+        });
+    });
+
+    describe('addressSimilarity', () => {
+        it('compares Colombian addresses part by part', () => {
+            expect(addressSimilarity('CL 45 NO. 23 - 67', 'Calle 45 # 23-67, Bogotá')).toBe(1);
+            expect(addressSimilarity('Calle 45 # 23-69', 'Calle 45 # 23-67')).toBe(0.5);
+            expect(addressSimilarity('Carrera 45 # 23-67', 'Calle 45 # 23-67')).toBe(0);
+        });
+
+        it('compares other addresses by their words', () => {
+            expect(addressSimilarity('Vereda El Retiro finca La Esperanza', 'Finca la esperanza, vereda el retiro')).toBe(1);
+        });
+    });
+
+    describe('cityInAddress', () => {
+        it('finds the city words in the address', () => {
+            expect(cityInAddress('Bogotá', 'Calle 45 # 23-67, BOGOTA D.C.')).toBe(1);
+            expect(cityInAddress('Santa Marta', 'Carrera 5 # 10-20, Santa Marta')).toBe(1);
+        });
+
+        it('does not match part of a word', () => {
+            expect(cityInAddress('Cali', 'Calle 5 # 10-20, Calima')).toBe(0);
+        });
+    });
+
+    describe('combineSignals', () => {
+        it('adds up the signals as independent evidence', () => {
+            expect(combineSignals({ phone: 1, name: null, city: null, address: null })).toBe(95);
+            expect(combineSignals({ phone: null, name: 1, city: null, address: null })).toBe(75);
+            expect(combineSignals({ phone: null, name: 1, city: 1, address: null })).toBe(83);
+            expect(combineSignals({ phone: 1, name: 1, city: 1, address: 1 })).toBe(100);
+            expect(combineSignals({ phone: 0, name: 0, city: 0, address: null })).toBe(0);
+        });
+    });
+
+    describe('scoreOrder', () => {
+        it('scores every signal and names the strongest', () => {
+            const match = scoreOrder(mockParsedGuideData, mockDatabaseOrders[0]);
+
+            expect(match).toMatchObject({ id: 1, orderNumber: 'ORD-2024-001', phone: '3001234567', confidence: 100, matchedBy: 'phone' });
+            expect(match.signals).toEqual({ phone: 1, name: 1, city: 1, address: 1 });
+        });
+
+        it('leaves out signals the guide or the order lacks', () => {
+            const match = scoreOrder(
+                { ...mockParsedGuideData, customerPhone: undefined },
+                { ...mockDatabaseOrders[0], phone_number: null, shipping_phone: null, shipping_address: null }
+            );
+
+            expect(match.signals).toEqual({ phone: null, name: 1, city: null, address: null });
+            expect(match.matchedBy).toBe('name');
+        });
+
+        it('matches the shipping phone too', () => {
+            const match = scoreOrder(mockParsedGuideData, { ...mockDatabaseOrders[0], phone_number: '3110000000' });
+
+            expect(match.signals?.phone).toBe(1);
+            expect(match.phone).toBe('3110000000');
+        });
+    });
+
+    describe('autoSendMatch', () => {
+        it('returns the best candidate only when it reaches the score', () => {
+            expect(autoSendMatch([mockCustomerMatch], 80, 10)).toBe(mockCustomerMatch);
+            expect(autoSendMatch([{ ...mockCustomerMatch, confidence: 79 }], 80, 10)).toBeNull();
+            expect(autoSendMatch([], 80, 10)).toBeNull();
+        });
+
+        it('requires the best candidate to lead the runner-up by the margin', () => {
+            const runnerUp = { ...mockCustomerMatch, id: 2, orderNumber: 'ORD-2024-002', confidence: 85 };
+
+            expect(autoSendMatch([mockCustomerMatch, runnerUp], 80, 10)).toBe(mockCustomerMatch);
+            expect(autoSendMatch([{ ...mockCustomerMatch, confidence: 94 }, runnerUp], 80, 10)).toBeNull();
+        });
+
+        it('leaves namesakes in the same city to review, and never sends to an order with another phone', () => {
+            const guide = { ...mockParsedGuideData, customerName: 'JUAN PEREZ', customerPhone: '3001112222', shippingAddress: '', city: 'BOGOTA' };
+            const order = (id: number, phone: string) => ({ ...mockDatabaseOrders[0], id, order_number: `ORD-${id}`, customer_name: 'Juan Pérez', phone_number: phone, shipping_phone: null });
+            const a = scoreOrder(guide, order(1, '3109998888'));
+            const b = scoreOrder(guide, order(2, '3157776666'));
+
+            expect([a.confidence, b.confidence]).toEqual([83, 83]);
+            expect(autoSendMatch([a, b], 80, 10)).toBeNull();
+            // Alone, the namesake still has a phone that is not the guide's
+            expect(autoSendMatch([a], 80, 10)).toBeNull();
+            expect(autoSendMatch([scoreOrder(guide, order(3, '3001112222'))], 80, 10)).toMatchObject({ orderNumber: 'ORD-3' });
+        });
+    });
+});
@@ -0,0 +1,163 @@
+import { Migrator, Migration, REQUIRED_ORDER_COLUMNS } from '../../src/services/Migrator';
+import { migrations } from '../../src/migrations';
+import { runMigrate } from '../../src/cli/migrate';
+
+jest.mock('mysql2/promise', () => ({
+    createPool: jest.fn().mockReturnValue({
+        execute: jest.fn(),
+        end: jest.fn()
+    })
+}));
+
+describe('Migrator', () => {
+    let mockPool: any;
+    let applied: Array<{ version: number; applied_at: Date }>;
+    let orderColumns: string[];
+    let statements: string[];
+
+    const testMigrations: Migration[] = [
+        { version: 1, name: 'create_a', up: ['CREATE TABLE a (id INT)'], down: ['DROP TABLE a'] },
+        { version: 2, name: 'create_b', up: ['CREATE TABLE b (id INT)', 'CREATE INDEX idx_b ON b (id)'], down: ['DROP TABLE b'] },
+        { version: 3, name: 'create_c', up: ['CREATE TABLE c (id INT)'], down: ['DROP TABLE c'] }
+    ];
+
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => {});
+        applied = [];
+        orderColumns = [...REQUIRED_ORDER_COLUMNS];
+        statements = [];
+
+        const mysql = require('mysql2/promise');
+        mockPool = mysql.createPool();
+        mockPool.execute.mockReset();
+        mockPool.execute.mockImplementation(async (sql: string, params: any[] = []) => {
+            const statement = sql.trim();
+            if (statement.startsWith('SELECT version')) return [applied];
+            if (statement.startsWith('INSERT INTO migrations')) {
+                applied.push({ version: params[0], applied_at: params[2] });
+                return [{ affectedRows: 1 }];
+            }
+            if (statement.startsWith('DELETE FROM migrations')) {
+                applied = applied.filter(row => row.version !== params[0]);
+                return [{ affectedRows: 1 }];
+            }
+            if (statement.includes('information_schema.COLUMNS')) return [orderColumns.map(column => ({ column_name: column.toUpperCase() }))];
+            if (!statement.includes('CREATE TABLE IF NOT EXISTS migrations')) statements.push(statement);
+            return [{}];
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('applies pending migrations in order and records them', async () => {
+        const migrator = new Migrator({}, testMigrations);
+
+        const ran = await migrator.up();
+
+        expect(ran.map(m => m.version)).toEqual([1, 2, 3]);
+        expect(statements).toEqual(['CREATE TABLE a (id INT)', 'CREATE TABLE b (id INT)', 'CREATE INDEX idx_b ON b (id)', 'CREATE TABLE c (id INT)']);
+        expect(applied.map(row => row.version)).toEqual([1, 2, 3]);
+        expect(await migrator.up()).toEqual([]);
+    });
+
+    it('applies up to a version', async () => {
+        const migrator = new Migrator({}, testMigrations);
+
+        await migrator.up(2);
+
+        expect(await migrator.status()).toEqual([
+            { version: 1, name: 'create_a', appliedAt: expect.any(Date) },
+            { version: 2, name: 'create_b', appliedAt: expect.any(Date) },
+            { version: 3, name: 'create_c', appliedAt: null }
+        ]);
+    });
+
+    it('reverts the last applied migrations', async () => {
+        const migrator = new Migrator({}, testMigrations);
+        await migrator.up();
+        statements = [];
+
+        const reverted = await migrator.down(2);
+
+        expect(reverted.map(m => m.version)).toEqual([3, 2]);
+        expect(statements).toEqual(['DROP TABLE c', 'DROP TABLE b']);
+        expect((await migrator.pending()).map(m => m.version)).toEqual([2, 3]);
+    });
+
+    it('stops at a failing migration and leaves it pending', async () => {
+        const migrator = new Migrator({}, testMigrations);
+        const execute = mockPool.execute.getMockImplementation();
+        mockPool.execute.mockImplementation(async (sql: string, params?: any[]) => {
+            if (sql.startsWith('CREATE TABLE b')) throw new Error("Table 'b' already exists");
+            return execute(sql, params);
+        });
+
+        await expect(migrator.up()).rejects.toThrow("Migration 2 (create_b) failed: Table 'b' already exists");
+
+        expect(applied.map(row => row.version)).toEqual([1]);
+    });
+
+    it('rejects migrations out of order', () => {
+        expect(() => new Migrator({}, [testMigrations[1], testMigrations[0]])).toThrow('Migration 1 (create_a) is out of order');
+    });
+
+    it('reports the pending migrations and the columns the orders table lacks', async () => {
+        orderColumns = orderColumns.filter(column => column !== 'shipping_phone' && column !== 'shipped_at');
+        const migrator = new Migrator({}, testMigrations);
+        await migrator.up(1);
+
+        const check = await migrator.check();
+
+        expect(check.pending.map(m => m.version)).toEqual([2, 3]);
+        expect(check.missingOrderColumns).toEqual(['shipping_phone', 'shipped_at']);
+    });
+
+    it('numbers the service migrations in order, each with a way back', () => {
+        expect(migrations.map(m => m.version)).toEqual(migrations.map((_, index) => index + 1));
+        expect(migrations.map(m => m.name)).toEqual(['create_shipments', 'create_tracking_events', 'create_send_log', 'create_unmatched_guides', 'create_shipment_status_history', 'add_shipment_carrier_and_city', 'add_shipment_carrier_booking', 'add_tracking_event_key', 'create_guide_jobs', 'create_status_notifications']);
+        migrations.forEach(m => {
+            expect(m.up.length).toBeGreaterThan(0);
+            expect(m.down.length).toBeGreaterThan(0);
+        });
+    });
+
+    describe('migrate CLI', () => {
+        let lines: string[];
+        const log = (line: string) => lines.push(line);
+
+        beforeEach(() => {
+            lines = [];
+        });
+
+        it('lists, applies and reverts migrations', async () => {
+            const migrator = new Migrator({}, testMigrations);
+
+            expect(await runMigrate(['up', '1'], migrator, log)).toBe(0);
+            expect(await runMigrate(['status'], migrator, log)).toBe(0);
+            expect(await runMigrate(['down'], migrator, log)).toBe(0);
+
+            expect(lines[0]).toBe('Applied 1 migration(s)');
+            expect(lines[1]).toMatch(/^applied {2}1 {2}create_a {2}\d{4}-/);
+            expect(lines[2]).toBe('pending  2  create_b');
+            expect(lines[4]).toBe('Reverted 1 migration(s)');
+        });
+
+        it('fails the check while the schema is behind', async () => {
+            const migrator = new Migrator({}, testMigrations);
+
+            expect(await runMigrate(['check'], migrator, log)).toBe(1);
+            await migrator.up();
+            expect(await runMigrate(['check'], migrator, log)).toBe(0);
+            expect(lines[lines.length - 1]).toBe('Schema up to date');
+        });
+
+        it('rejects unknown commands and arguments', async () => {
+            const migrator = new Migrator({}, testMigrations);
+
+            expect(await runMigrate(['sideways'], migrator, log)).toBe(2);
+            expect(await runMigrate(['down', 'all'], migrator, log)).toBe(2);
+        });
+    });
+});
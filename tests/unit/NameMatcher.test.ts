@@ -0,0 +1,106 @@
+import { nameWords, nameFragments, phoneticKey, jaroWinkler, wordSimilarity, nameSimilarity } from '../../src/services/NameMatcher';
+
+describe('NameMatcher', () => {
+    describe('nameWords', () => {
+        it('drops accents, punctuation, extra spaces and initials', () => {
+            expect(nameWords('MARÍA  JOSÉ   PÉREZ-GÓMEZ  R.')).toEqual(['maria', 'jose', 'perez', 'gomez']);
+        });
+
+        it('reads the digits OCR confuses with letters', () => {
+            expect(nameWords('CAM1LO 0SP1NA')).toEqual(['camllo', 'osplna']);
+            expect(nameWords('5ANDRA 8ETANCUR')).toEqual(['sandra', 'betancur']);
+        });
+    });
+
+    describe('nameFragments', () => {
+        it('takes the first and last four letters of each word, without particles', () => {
+            expect(nameFragments('ZEBALLOS DE LA HOZ Ana')).toEqual(['zeba', 'llos', 'hoz', 'ana']);
+            expect(nameFragments('J. R.')).toEqual([]);
+        });
+    });
+
+    describe('phoneticKey', () => {
+        it('gives spellings that sound the same in Spanish the same key', () => {
+            expect(phoneticKey('Jhon')).toBe(phoneticKey('John'));
+            expect(phoneticKey('Zeballos')).toBe(phoneticKey('Ceballos'));
+            expect(phoneticKey('Vásquez')).toBe(phoneticKey('Basques'));
+            expect(phoneticKey('Yuly')).toBe(phoneticKey('Yuli'));
+            expect(phoneticKey('Freddy')).toBe(phoneticKey('Fredy'));
+            expect(phoneticKey('Stephany')).toBe(phoneticKey('Stefani'));
+            expect(phoneticKey('Yesica')).toBe(phoneticKey('Llesica'));
+        });
+
+        it('keeps sounds apart that differ', () => {
+            expect(phoneticKey('Castro')).not.toBe(phoneticKey('Gastro'));
+            expect(phoneticKey('Chaves')).not.toBe(phoneticKey('Cabes'));
+        });
+    });
+
+    describe('jaroWinkler', () => {
+        it('scores close spellings high and unrelated words low', () => {
+            expect(jaroWinkler('martha', 'martha')).toBe(1);
+            expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+            expect(jaroWinkler('rodriguez', 'rodrigez')).toBeGreaterThan(0.95);
+            expect(jaroWinkler('ana', 'juan')).toBeLessThan(0.6);
+            expect(jaroWinkler('', 'juan')).toBe(0);
+        });
+    });
+
+    describe('wordSimilarity', () => {
+        it('counts only close enough words', () => {
+            expect(wordSimilarity('jhon', 'john')).toBe(1);
+            expect(wordSimilarity('gonzales', 'gonzalez')).toBe(1);
+            expect(wordSimilarity('hernandes', 'hernandez')).toBe(1);
+            expect(wordSimilarity('alejandr', 'alejandro')).toBeGreaterThan(0.9);
+            expect(wordSimilarity('perez', 'ruiz')).toBe(0);
+        });
+    });
+
+    describe('nameSimilarity', () => {
+        it('ignores accents, case and word order', () => {
+            expect(nameSimilarity('JUAN CARLOS PEREZ', 'Pérez Juan Carlos')).toBe(1);
+        });
+
+        it('scores shared words', () => {
+            expect(nameSimilarity('Juan Pérez', 'Juan Carlos Pérez')).toBe(0.8);
+            expect(nameSimilarity('Juan', 'Juan Carlos Pérez')).toBe(0.5);
+            expect(nameSimilarity('Ana Ruiz', 'Juan Carlos Pérez')).toBe(0);
+        });
+
+        it('does not count a repeated word twice', () => {
+            expect(nameSimilarity('Juan Juan', 'Juan Pérez')).toBe(0.5);
+        });
+
+        it('scores 0 for empty names', () => {
+            expect(nameSimilarity('', 'Juan')).toBe(0);
+        });
+
+        it('keeps different people apart', () => {
+            expect(nameSimilarity('María González', 'María Rodríguez')).toBe(0.5);
+            expect(nameSimilarity('Carlos Andrés Gómez', 'Carlos Alberto Rodríguez')).toBeLessThan(0.5);
+        });
+
+        // Names as read by OCR from real guides, against the name on the order
+        it.each([
+            ['JHON FREDY GOMEZ', 'John Freddy Gómez'],
+            ['MARIA  JOSE  RODRIGUEZ', 'María José Rodríguez'],
+            ['LOPEZ HERNANDEZ CAROLINA', 'Carolina López Hernández'],
+            ['SEBASTIAN ZEBALLOS', 'Sebastián Ceballos'],
+            ['LUZ DARY 0CHOA', 'Luz Dary Ochoa'],
+            ['YULY ANDREA VASQUEZ', 'Yuli Andrea Vásquez'],
+            ['DE LA HOZ CAMILO', 'Camilo Delahoz'],
+            ['MARIAJOSE PEREZ', 'María José Pérez'],
+            ['ANGELA MARIA DEL PILAR RIOS', 'Ángela María del Pilar Ríos']
+        ])('matches %s with %s', (ocr, order) => {
+            expect(nameSimilarity(ocr, order)).toBeGreaterThanOrEqual(0.9);
+        });
+
+        it.each([
+            ['RODRIGEZ CARLOS', 'Carlos Rodríguez'],
+            ['ALEJANDR0 CAST1LLO', 'Alejandro Castillo'],
+            ['YENNIFER MARCELA', 'Jennifer Marcela']
+        ])('matches %s with %s despite misread letters', (ocr, order) => {
+            expect(nameSimilarity(ocr, order)).toBeGreaterThanOrEqual(0.85);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { OcrCache } from '../../src/services/OcrCache';
+import { config } from '../../src/config/config';
+
+describe('OcrCache', () => {
+    let dir: string;
+    let filesDir: string;
+    let cache: OcrCache;
+
+    const writeImage = (name: string, content: string) => {
+        const file = path.join(filesDir, name);
+        fs.writeFileSync(file, content);
+        return file;
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-cache-'));
+        filesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-files-'));
+        cache = new OcrCache({ dir, ttlMs: 60 * 60 * 1000 });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(dir, { recursive: true, force: true });
+        fs.rmSync(filesDir, { recursive: true, force: true });
+    });
+
+    it('runs the OCR once for files with the same content', async () => {
+        const recognize = jest.fn().mockResolvedValue({ text: 'GUIA 123', confidence: 91 });
+        const first = writeImage('upload-a', 'same bytes');
+        const second = writeImage('upload-b.png', 'same bytes');
+
+        await expect(cache.resolve(first, 'guide', recognize)).resolves.toEqual({ text: 'GUIA 123', confidence: 91 });
+        await expect(cache.resolve(second, 'guide', recognize)).resolves.toEqual({ text: 'GUIA 123', confidence: 91 });
+
+        expect(recognize).toHaveBeenCalledTimes(1);
+        expect(cache.getStats()).toEqual({ entries: 1, hits: 1, misses: 1 });
+    });
+
+    it('does not keep results it is told not to accept, and removes those already cached', async () => {
+        const recognize = jest.fn().mockResolvedValue({ text: 'CÉDULA DE CIUDADANÍA', confidence: 88 });
+        const file = writeImage('cedula.png', 'id photo');
+
+        await cache.resolve(file, 'guide', recognize, () => false);
+        expect(cache.getStats().entries).toBe(0);
+
+        await cache.resolve(file, 'guide', recognize);
+        expect(cache.getStats().entries).toBe(1);
+        await expect(cache.resolve(file, 'guide', recognize, () => false)).resolves.toEqual({ text: 'CÉDULA DE CIUDADANÍA', confidence: 88 });
+        expect(cache.getStats().entries).toBe(0);
+    });
+
+    it('keeps results apart for different content and sources', async () => {
+        const recognize = jest.fn()
+            .mockResolvedValueOnce({ text: 'a', confidence: 90 })
+            .mockResolvedValueOnce({ text: 'b', confidence: 90 })
+            .mockResolvedValueOnce({ text: 'c', confidence: 90 });
+
+        await cache.resolve(writeImage('a.png', 'one'), 'guide', recognize);
+        await cache.resolve(writeImage('b.png', 'two'), 'guide', recognize);
+        const chat = await cache.resolve(writeImage('c.png', 'one'), 'whatsapp', recognize);
+
+        expect(chat.text).toBe('c');
+        expect(recognize).toHaveBeenCalledTimes(3);
+    });
+
+    it('ignores entries written with other preprocessing settings', async () => {
+        const recognize = jest.fn().mockResolvedValue({ text: 'texto', confidence: 80 });
+        const file = writeImage('a.png', 'bytes');
+        const original = config.ocr.preprocessing.guide;
+
+        await cache.resolve(file, 'guide', recognize);
+        config.ocr.preprocessing.guide = 'grayscale';
+        try {
+            await cache.resolve(file, 'guide', recognize);
+        } finally {
+            config.ocr.preprocessing.guide = original;
+        }
+
+        expect(recognize).toHaveBeenCalledTimes(2);
+    });
+
+    it('treats entries past the TTL as missing', async () => {
+        const recognize = jest.fn().mockResolvedValue({ text: 'texto', confidence: 80 });
+        const file = writeImage('a.png', 'bytes');
+        const now = Date.now();
+
+        await cache.resolve(file, 'guide', recognize);
+        jest.spyOn(Date, 'now').mockReturnValue(now + 2 * 60 * 60 * 1000);
+        await cache.resolve(file, 'guide', recognize);
+
+        expect(recognize).toHaveBeenCalledTimes(2);
+    });
+
+    it('evicts expired entries and keeps fresh ones', async () => {
+        const recognize = jest.fn().mockResolvedValue({ text: 'texto', confidence: 80 });
+        const now = Date.now();
+        const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now - 2 * 60 * 60 * 1000);
+        await cache.resolve(writeImage('old.png', 'old'), 'guide', recognize);
+        dateNow.mockReturnValue(now);
+        await cache.resolve(writeImage('new.png', 'new'), 'guide', recognize);
+
+        expect(cache.evictExpired()).toBe(1);
+        expect(cache.getStats().entries).toBe(1);
+    });
+
+    it('clears every entry', async () => {
+        const recognize = jest.fn().mockResolvedValue({ text: 'texto', confidence: 80 });
+        await cache.resolve(writeImage('a.png', 'a'), 'guide', recognize);
+        await cache.resolve(writeImage('b.png', 'b'), 'whatsapp', recognize);
+
+        expect(cache.clear()).toBe(2);
+        expect(cache.getStats().entries).toBe(0);
+    });
+
+    it('runs the OCR directly when the file cannot be read', async () => {
+        const recognize = jest.fn().mockResolvedValue({ text: 'texto', confidence: 80 });
+
+        await expect(cache.resolve('/missing/file.png', 'guide', recognize)).resolves.toMatchObject({ text: 'texto' });
+        expect(cache.getStats()).toEqual({ entries: 0, hits: 0, misses: 0 });
+    });
+});
@@ -0,0 +1,167 @@
+import { OcrWorkerPool, OcrTimeoutError } from '../../src/services/OcrWorkerPool';
+
+jest.mock('tesseract.js', () => ({
+    createWorker: jest.fn()
+}));
+
+interface FakeWorker {
+    recognize: jest.Mock;
+    terminate: jest.Mock;
+    logger: (m: any) => void;
+    finish: (text: string) => void;
+}
+
+/**
+ * Workers whose jobs stay pending until the test finishes them
+ */
+function fakeWorkers(): FakeWorker[] {
+    const workers: FakeWorker[] = [];
+    require('tesseract.js').createWorker.mockImplementation(async (_lang: string, _oem: number, options: any) => {
+        const pending: Array<(value: any) => void> = [];
+        const worker: FakeWorker = {
+            recognize: jest.fn(() => new Promise(resolve => pending.push(resolve))),
+            terminate: jest.fn(async () => undefined),
+            logger: options.logger,
+            finish: (text: string) => pending.shift()!({ data: { text, confidence: 88 } })
+        };
+        workers.push(worker);
+        return worker;
+    });
+    return workers;
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('OcrWorkerPool', () => {
+    let pool: OcrWorkerPool;
+
+    afterEach(async () => {
+        await pool.terminate();
+    });
+
+    it('warms up the configured number of workers once', async () => {
+        const workers = fakeWorkers();
+        pool = new OcrWorkerPool({ size: 2, language: 'spa', jobTimeoutMs: 1000 });
+
+        await pool.warmUp();
+        await pool.warmUp();
+
+        expect(workers).toHaveLength(2);
+        expect(require('tesseract.js').createWorker).toHaveBeenCalledWith('spa', 1, expect.any(Object));
+        expect(pool.getMetrics()).toMatchObject({ size: 2, workers: 2, busy: 0, queued: 0 });
+    });
+
+    it('queues jobs beyond the pool size and runs them as workers free up', async () => {
+        const workers = fakeWorkers();
+        pool = new OcrWorkerPool({ size: 2, language: 'spa', jobTimeoutMs: 1000 });
+        await pool.warmUp();
+
+        const first = pool.recognize('/a.png', { source: 'guide' });
+        const second = pool.recognize('/b.png', { source: 'guide' });
+        const third = pool.recognize('/c.png', { source: 'whatsapp' });
+        await flush();
+
+        expect(pool.getMetrics()).toMatchObject({ busy: 2, queued: 1 });
+        expect(workers[0].recognize).toHaveBeenCalledWith('/a.png');
+        expect(workers[1].recognize).toHaveBeenCalledWith('/b.png');
+
+        workers[0].finish('texto a');
+        await expect(first).resolves.toEqual({ text: 'texto a', confidence: 88 });
+        await flush();
+        expect(workers[0].recognize).toHaveBeenCalledWith('/c.png');
+
+        workers[1].finish('texto b');
+        workers[0].finish('texto c');
+        await expect(second).resolves.toMatchObject({ text: 'texto b' });
+        await expect(third).resolves.toMatchObject({ text: 'texto c' });
+        expect(workers).toHaveLength(2);
+        expect(pool.getMetrics()).toMatchObject({ busy: 0, queued: 0, completed: 3, failed: 0 });
+    });
+
+    it('starts workers on demand when not warmed up', async () => {
+        const workers = fakeWorkers();
+        pool = new OcrWorkerPool({ size: 3, language: 'spa', jobTimeoutMs: 1000 });
+
+        const job = pool.recognize(Buffer.from('img'), { source: 'guide' });
+        await flush();
+
+        expect(workers).toHaveLength(1);
+        workers[0].finish('ok');
+        await expect(job).resolves.toMatchObject({ text: 'ok' });
+    });
+
+    it('rejects a job that times out and replaces its worker', async () => {
+        const workers = fakeWorkers();
+        pool = new OcrWorkerPool({ size: 1, language: 'spa', jobTimeoutMs: 50 });
+        await pool.warmUp();
+
+        await expect(pool.recognize('/slow.png', { source: 'guide' })).rejects.toBeInstanceOf(OcrTimeoutError);
+        expect(workers[0].terminate).toHaveBeenCalled();
+        expect(pool.getMetrics()).toMatchObject({ workers: 0, timedOut: 1 });
+
+        const next = pool.recognize('/next.png', { source: 'guide' });
+        await flush();
+        expect(workers).toHaveLength(2);
+        workers[1].finish('siguiente');
+        await expect(next).resolves.toMatchObject({ text: 'siguiente' });
+    });
+
+    it('keeps the workers started after terminate() when an older job times out', async () => {
+        const workers = fakeWorkers();
+        pool = new OcrWorkerPool({ size: 1, language: 'spa', jobTimeoutMs: 50 });
+        await pool.warmUp();
+        const stuck = pool.recognize('/slow.png', { source: 'guide' });
+        await flush();
+
+        await pool.terminate();
+        await pool.warmUp();
+
+        await expect(stuck).rejects.toBeInstanceOf(OcrTimeoutError);
+        expect(workers).toHaveLength(2);
+        expect(pool.getMetrics()).toMatchObject({ workers: 1, timedOut: 1 });
+    });
+
+    it('counts failed jobs and keeps the worker', async () => {
+        const workers = fakeWorkers();
+        pool = new OcrWorkerPool({ size: 1, language: 'spa', jobTimeoutMs: 1000 });
+        await pool.warmUp();
+        workers[0].recognize.mockRejectedValueOnce(new Error('bad image'));
+
+        await expect(pool.recognize('/bad.png', { source: 'guide' })).rejects.toThrow('bad image');
+
+        expect(pool.getMetrics()).toMatchObject({ workers: 1, busy: 0, failed: 1 });
+    });
+
+    it('rejects queued jobs when no worker can be started', async () => {
+        require('tesseract.js').createWorker.mockRejectedValue(new Error('language data missing'));
+        pool = new OcrWorkerPool({ size: 1, language: 'spa', jobTimeoutMs: 1000 });
+
+        await expect(pool.recognize('/a.png', { source: 'guide' })).rejects.toThrow('language data missing');
+    });
+
+    it('logs progress as structured JSON instead of writing to stdout', async () => {
+        const debug = jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+        const stdout = jest.spyOn(process.stdout, 'write');
+        const workers = fakeWorkers();
+        pool = new OcrWorkerPool({ size: 1, language: 'spa', jobTimeoutMs: 1000 });
+        await pool.warmUp();
+
+        const job = pool.recognize('/a.png', { source: 'guide', label: 'a.png' });
+        await flush();
+        for (const progress of [0.1, 0.3, 0.35, 0.6, 1]) {
+            workers[0].logger({ status: 'recognizing text', progress });
+        }
+        workers[0].finish('listo');
+        await job;
+
+        const progressLogs = debug.mock.calls
+            .map(([line]) => JSON.parse(line as string))
+            .filter(log => log.action === 'job_progress');
+        expect(progressLogs.map(log => log.metadata.progress)).toEqual([25, 50, 100]);
+        expect(progressLogs[0]).toMatchObject({ level: 'DEBUG', service: 'OcrWorkerPool' });
+        expect(stdout).not.toHaveBeenCalled();
+
+        debug.mockRestore();
+        stdout.mockRestore();
+    });
+});
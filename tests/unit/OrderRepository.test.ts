@@ -0,0 +1,53 @@
+import { InMemoryOrderRepository, OrderRecord } from '../../src/services/OrderRepository';
+import { mockDatabaseOrders } from '../fixtures/mock-data';
+
+describe('InMemoryOrderRepository', () => {
+    let repository: InMemoryOrderRepository;
+    const orders = mockDatabaseOrders as OrderRecord[];
+    const shipped: OrderRecord = { ...orders[0], id: 4, order_number: 'ORD-2024-004', tracking_number: 'SV000000004', created_at: new Date('2024-01-20') };
+
+    beforeEach(() => {
+        repository = new InMemoryOrderRepository([...orders, shipped]);
+    });
+
+    it('finds open orders by phone, newest first', async () => {
+        const found = await repository.findOpenByPhone('3001234567', 10);
+
+        expect(found.map(order => order.order_number)).toEqual(['ORD-2024-001']);
+    });
+
+    it('finds open orders placed since a date by fragments of their name, ignoring accents', async () => {
+        expect((await repository.findOpenByNameFragments(['gonz', 'rodr'], new Date('2024-01-16'), 10)).map(order => order.order_number))
+            .toEqual(['ORD-2024-003', 'ORD-2024-002']);
+        expect((await repository.findOpenByNameFragments(['perez'], new Date(0), 10)).map(order => order.order_number)).toEqual(['ORD-2024-001']);
+        expect(await repository.findOpenByNameFragments(['perez'], new Date('2024-01-16'), 10)).toEqual([]);
+    });
+
+    it('finds open orders by a LIKE pattern on the lowercase address', async () => {
+        expect((await repository.findOpenByAddress('%45%23%67%', 10)).map(order => order.id)).toEqual([1]);
+        expect((await repository.findOpenByAddress('%medellín%', 10)).map(order => order.id)).toEqual([2]);
+        expect((await repository.findOpenByAddress('%45_23%', 10)).map(order => order.id)).toEqual([3]);
+        expect(await repository.findOpenByAddress('%45_67%', 10)).toEqual([]);
+    });
+
+    it('keeps to the limit', async () => {
+        expect(await repository.findOpenByNameFragments(['carl', 'mari'], new Date(0), 2)).toHaveLength(2);
+    });
+
+    it('finds any order by number and records its tracking number', async () => {
+        expect(await repository.findByOrderNumber('ORD-2024-004')).toMatchObject({ tracking_number: 'SV000000004' });
+
+        expect(await repository.setTracking('ORD-2024-001', 'SV123456789', 'Servientrega')).toBe(true);
+        expect(await repository.findByOrderNumber('ORD-2024-001')).toMatchObject({ tracking_number: 'SV123456789', carrier: 'Servientrega', shipping_status: 'shipped' });
+        expect(await repository.findOpenByPhone('3001234567', 10)).toEqual([]);
+
+        expect(await repository.setTracking('ORD-UNKNOWN', 'SV1', 'TCC')).toBe(false);
+    });
+
+    it('does not share its orders with callers', async () => {
+        const [order] = await repository.findOpenByPhone('3001234567', 10);
+        order.customer_name = 'Changed';
+
+        expect((await repository.findByOrderNumber('ORD-2024-001'))?.customer_name).toBe('Juan Carlos Pérez');
+    });
+});
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PaymentProofService, extractPaymentReceipt } from '../../src/services/PaymentProofService';
+import { TechAuraIntegration } from '../../src/services/TechAuraIntegration';
+import { ICustomerMatcher } from '../../src/types';
+import { mockCustomerMatch } from '../fixtures/mock-data';
+
+const nequiReceipt = `Nequi
+¡Listo! Enviaste plata
+Para
+TECHAURA SAS
+¿Cuánto?
+$ 85.000,00
+Fecha
+12 de marzo de 2025, 03:41 p. m.
+Referencia
+M8123456`;
+
+const daviplataReceipt = `DaviPlata
+Transacción exitosa
+De: Laura Gómez
+Valor $1.250.000
+Número de aprobación: 004512
+05/03/2025`;
+
+describe('extractPaymentReceipt', () => {
+    it('reads a Nequi receipt', () => {
+        expect(extractPaymentReceipt(nequiReceipt)).toEqual({
+            provider: 'Nequi',
+            amount: 85000,
+            reference: 'M8123456',
+            paidAt: '12 de marzo de 2025, 03:41 p. m.',
+            payerName: null
+        });
+    });
+
+    it('reads a Daviplata receipt with the payer name', () => {
+        expect(extractPaymentReceipt(daviplataReceipt)).toEqual({
+            provider: 'Daviplata',
+            amount: 1250000,
+            reference: '004512',
+            paidAt: '05/03/2025',
+            payerName: 'Laura Gómez'
+        });
+    });
+
+    it('leaves missing values null', () => {
+        expect(extractPaymentReceipt('Comprobante')).toEqual({
+            provider: null, amount: null, reference: null, paidAt: null, payerName: null
+        });
+    });
+});
+
+describe('PaymentProofService', () => {
+    let filePath: string;
+    let matcher: jest.Mocked<ICustomerMatcher>;
+    let techAura: jest.Mocked<Pick<TechAuraIntegration, 'attachPaymentProof'>>;
+    let service: PaymentProofService;
+
+    beforeEach(() => {
+        filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'receipt-')), 'recibo.png');
+        fs.writeFileSync(filePath, 'receipt image');
+        matcher = { findCustomer: jest.fn(), findCandidates: jest.fn().mockResolvedValue([]), findOrder: jest.fn(), updateOrderTracking: jest.fn() };
+        techAura = { attachPaymentProof: jest.fn().mockResolvedValue(true) };
+        service = new PaymentProofService(matcher, techAura as unknown as TechAuraIntegration);
+    });
+
+    afterEach(() => {
+        fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+    });
+
+    it('attaches the receipt to the given order', async () => {
+        const result = await service.attach(filePath, 'recibo.png', nequiReceipt, 'ORD-77');
+
+        expect(result).toMatchObject({ attached: true, orderNumber: 'ORD-77' });
+        expect(matcher.findCandidates).not.toHaveBeenCalled();
+        expect(techAura.attachPaymentProof).toHaveBeenCalledWith({
+            orderNumber: 'ORD-77',
+            provider: 'Nequi',
+            amount: 85000,
+            reference: 'M8123456',
+            paidAt: '12 de marzo de 2025, 03:41 p. m.',
+            fileName: 'recibo.png',
+            fileBase64: Buffer.from('receipt image').toString('base64')
+        });
+    });
+
+    it('finds the order from the payer name', async () => {
+        matcher.findCandidates.mockResolvedValue([{ ...mockCustomerMatch, signals: { phone: null, name: 1, city: null, address: null } }]);
+
+        const result = await service.attach(filePath, 'recibo.png', daviplataReceipt);
+
+        expect(matcher.findCandidates).toHaveBeenCalledWith(expect.objectContaining({ customerName: 'Laura Gómez' }));
+        expect(result).toMatchObject({ attached: true, orderNumber: mockCustomerMatch.orderNumber });
+    });
+
+    it('does not attach to an order whose name only partly matches the payer', async () => {
+        matcher.findCandidates.mockResolvedValue([{ ...mockCustomerMatch, signals: { phone: null, name: 0.5, city: null, address: null } }]);
+
+        const result = await service.attach(filePath, 'recibo.png', daviplataReceipt);
+
+        expect(result).toMatchObject({ attached: false, orderNumber: null });
+        expect(techAura.attachPaymentProof).not.toHaveBeenCalled();
+    });
+
+    it('does not pick between orders whose names both match the payer', async () => {
+        const fullName = { phone: null, name: 1, city: null, address: null };
+        matcher.findCandidates.mockResolvedValue([
+            { ...mockCustomerMatch, orderNumber: 'ORD-2024-001', signals: fullName },
+            { ...mockCustomerMatch, orderNumber: 'ORD-2024-007', signals: fullName }
+        ]);
+
+        const result = await service.attach(filePath, 'recibo.png', daviplataReceipt);
+
+        expect(result).toMatchObject({ attached: false, orderNumber: null });
+        expect(techAura.attachPaymentProof).not.toHaveBeenCalled();
+    });
+
+        it('does not attach when no order is found', async () => {
+        const result = await service.attach(filePath, 'recibo.png', nequiReceipt);
+
+        expect(result).toMatchObject({ attached: false, orderNumber: null, receipt: { provider: 'Nequi' } });
+        expect(techAura.attachPaymentProof).not.toHaveBeenCalled();
+    });
+});
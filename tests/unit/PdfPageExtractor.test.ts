@@ -0,0 +1,53 @@
+/**
+ * Tests for PdfPageExtractor
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import { PdfPageExtractor } from '../../src/services/PdfPageExtractor';
+
+describe('PdfPageExtractor', () => {
+    const workDir = path.join(os.tmpdir(), 'pdf-page-extractor-test');
+    const sourcePath = path.join(workDir, 'guides.pdf');
+    let extractor: PdfPageExtractor;
+
+    beforeAll(async () => {
+        fs.mkdirSync(workDir, { recursive: true });
+        const pdf = await PDFDocument.create();
+        pdf.addPage([100, 100]);
+        pdf.addPage([200, 300]);
+        pdf.addPage([100, 100]);
+        fs.writeFileSync(sourcePath, await pdf.save());
+    });
+
+    afterAll(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        extractor = new PdfPageExtractor(path.join(workDir, 'pages'));
+    });
+
+    it('writes the requested page as a single-page PDF', async () => {
+        const pagePath = await extractor.extractPage(sourcePath, 2);
+
+        const page = await PDFDocument.load(fs.readFileSync(pagePath));
+        expect(page.getPageCount()).toBe(1);
+        expect(page.getPage(0).getSize()).toEqual({ width: 200, height: 300 });
+        expect(path.dirname(pagePath)).toBe(path.join(workDir, 'pages'));
+    });
+
+    it('rejects a page outside the document', async () => {
+        await expect(extractor.extractPage(sourcePath, 4)).rejects.toThrow('Page 4 out of range (1-3)');
+    });
+
+    it('removes the page file on cleanup', async () => {
+        const pagePath = await extractor.extractPage(sourcePath, 1);
+
+        extractor.cleanup(pagePath);
+
+        expect(fs.existsSync(pagePath)).toBe(false);
+    });
+});
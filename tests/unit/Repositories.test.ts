@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createRepositories } from '../../src/services/Repositories';
+import { InMemoryOrderRepository, MySqlOrderRepository } from '../../src/services/OrderRepository';
+import { InMemoryShipmentRepository, MySqlShipmentRepository } from '../../src/services/ShipmentRepository';
+import { InMemoryJobStore, MySqlJobStore } from '../../src/services/JobStore';
+import { InMemorySendLog, MySqlSendLog } from '../../src/services/SendLog';
+import { FileUnmatchedGuideStore, MySqlUnmatchedGuideStore } from '../../src/services/UnmatchedGuideStore';
+import { InMemoryStatusNotificationStore, MySqlStatusNotificationStore } from '../../src/services/StatusNotificationStore';
+import { mockDatabaseOrders } from '../fixtures/mock-data';
+
+jest.mock('mysql2/promise', () => ({
+    createPool: jest.fn().mockReturnValue({ execute: jest.fn() })
+}));
+
+describe('createRepositories', () => {
+    it('uses the TechAura database with the mysql driver', () => {
+        const repositories = createRepositories({ driver: 'mysql' }, { host: 'localhost' });
+
+        expect(repositories.orders).toBeInstanceOf(MySqlOrderRepository);
+        expect(repositories.shipments).toBeInstanceOf(MySqlShipmentRepository);
+        expect(repositories.jobs).toBeInstanceOf(MySqlJobStore);
+        expect(repositories.sendLog).toBeInstanceOf(MySqlSendLog);
+        expect(repositories.unmatchedGuides).toBeInstanceOf(MySqlUnmatchedGuideStore);
+        expect(repositories.statusNotifications).toBeInstanceOf(MySqlStatusNotificationStore);
+    });
+
+    it('keeps everything in memory with the memory driver, and the review queue in its folder', () => {
+        const repositories = createRepositories({ driver: 'memory' });
+
+        expect(repositories.orders).toBeInstanceOf(InMemoryOrderRepository);
+        expect(repositories.shipments).toBeInstanceOf(InMemoryShipmentRepository);
+        expect(repositories.jobs).toBeInstanceOf(InMemoryJobStore);
+        expect(repositories.sendLog).toBeInstanceOf(InMemorySendLog);
+        expect(repositories.unmatchedGuides).toBeInstanceOf(FileUnmatchedGuideStore);
+        expect(repositories.statusNotifications).toBeInstanceOf(InMemoryStatusNotificationStore);
+    });
+
+    it('loads the seed orders into memory', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'seed-orders-'));
+        const seedOrdersPath = path.join(dir, 'orders.json');
+        fs.writeFileSync(seedOrdersPath, JSON.stringify(mockDatabaseOrders));
+
+        try {
+            const { orders } = createRepositories({ driver: 'memory', seedOrdersPath });
+
+            const order = await orders.findByOrderNumber('ORD-2024-002');
+            expect(order?.customer_name).toBe('María González López');
+            expect(order?.created_at).toEqual(new Date('2024-01-16'));
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,46 @@
+import { MySqlSendLog, InMemorySendLog, SendAttempt } from '../../src/services/SendLog';
+
+jest.mock('mysql2/promise', () => ({
+    createPool: jest.fn().mockReturnValue({
+        execute: jest.fn()
+    })
+}));
+
+const attempt: SendAttempt = {
+    trackingNumber: 'sv123456789',
+    carrier: 'Servientrega',
+    orderNumber: 'ORD-2024-001',
+    sentTo: '3001234567',
+    source: 'upload',
+    fileHash: null,
+    success: false,
+    error: 'WhatsApp send failed',
+    sentAt: new Date('2026-10-19T10:00:00Z')
+};
+
+describe('MySqlSendLog', () => {
+    it('inserts each attempt with its tracking number upper-cased', async () => {
+        const mysql = require('mysql2/promise');
+        const mockPool = mysql.createPool();
+        mockPool.execute.mockResolvedValue([{ insertId: 1 }]);
+        const log = new MySqlSendLog({ host: 'localhost', port: 3306, user: 'test', password: '', database: 'test_db' });
+
+        await log.record(attempt);
+
+        expect(mockPool.execute.mock.calls[0][0]).toContain('INSERT INTO send_log');
+        expect(mockPool.execute.mock.calls[0][1]).toEqual([
+            'SV123456789', 'Servientrega', 'ORD-2024-001', '3001234567', 'upload', null, 0, 'WhatsApp send failed', attempt.sentAt
+        ]);
+    });
+});
+
+describe('InMemorySendLog', () => {
+    it('keeps the attempts in order', async () => {
+        const log = new InMemorySendLog();
+
+        await log.record(attempt);
+        await log.record({ ...attempt, success: true, error: null });
+
+        expect(log.attempts.map(a => [a.trackingNumber, a.success])).toEqual([['SV123456789', false], ['SV123456789', true]]);
+    });
+});
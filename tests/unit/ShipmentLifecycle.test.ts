@@ -0,0 +1,76 @@
+import {
+    SHIPMENT_TRANSITIONS,
+    TECHAURA_STATUS,
+    InvalidStatusTransitionError,
+    assertTransition,
+    canTransition,
+    isShipmentStatus
+} from '../../src/services/ShipmentLifecycle';
+import { ShipmentStatus } from '../../src/carriers/types';
+
+describe('ShipmentLifecycle', () => {
+    describe('canTransition', () => {
+        it('follows the shipment forward, skipping statuses the carrier did not report', () => {
+            expect(canTransition('ready_for_shipping', 'created')).toBe(true);
+            expect(canTransition('created', 'picked_up')).toBe(true);
+            expect(canTransition('created', 'delivered')).toBe(true);
+            expect(canTransition('in_transit', 'out_for_delivery')).toBe(true);
+        });
+
+        it('never moves back', () => {
+            expect(canTransition('in_transit', 'picked_up')).toBe(false);
+            expect(canTransition('created', 'ready_for_shipping')).toBe(false);
+            expect(canTransition('out_for_delivery', 'in_transit')).toBe(false);
+        });
+
+        it('allows another attempt after a failed delivery', () => {
+            expect(canTransition('failed_delivery', 'out_for_delivery')).toBe(true);
+            expect(canTransition('failed_delivery', 'returned')).toBe(true);
+        });
+
+        it('only cancels shipments the carrier has not picked up', () => {
+            expect(canTransition('ready_for_shipping', 'cancelled')).toBe(true);
+            expect(canTransition('created', 'cancelled')).toBe(true);
+            expect(canTransition('in_transit', 'cancelled')).toBe(false);
+        });
+
+        it('keeps delivered, returned and cancelled shipments final', () => {
+            const statuses = Object.keys(SHIPMENT_TRANSITIONS) as ShipmentStatus[];
+            for (const final of ['delivered', 'returned', 'cancelled'] as ShipmentStatus[]) {
+                expect(statuses.filter(status => canTransition(final, status))).toEqual([]);
+            }
+        });
+
+        it('only moves to known statuses', () => {
+            for (const targets of Object.values(SHIPMENT_TRANSITIONS)) {
+                expect(targets.every(isShipmentStatus)).toBe(true);
+            }
+        });
+    });
+
+    describe('assertTransition', () => {
+        it('throws InvalidStatusTransitionError for a change the lifecycle does not allow', () => {
+            expect(() => assertTransition('delivered', 'in_transit')).toThrow(InvalidStatusTransitionError);
+            expect(() => assertTransition('delivered', 'in_transit')).toThrow("Cannot change shipment status from 'delivered' to 'in_transit'");
+        });
+
+        it('passes allowed changes', () => {
+            expect(() => assertTransition('picked_up', 'in_transit')).not.toThrow();
+        });
+    });
+
+    describe('isShipmentStatus', () => {
+        it('recognises lifecycle statuses only', () => {
+            expect(isShipmentStatus('in_transit')).toBe(true);
+            expect(isShipmentStatus('shipped')).toBe(false);
+            expect(isShipmentStatus('toString')).toBe(false);
+            expect(isShipmentStatus(undefined)).toBe(false);
+        });
+    });
+
+    describe('TECHAURA_STATUS', () => {
+        it('reports a created guide as label_created', () => {
+            expect(TECHAURA_STATUS.created).toBe('label_created');
+        });
+    });
+});
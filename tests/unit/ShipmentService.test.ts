@@ -1,11 +1,25 @@
-import { ShipmentService } from '../../src/services/ShipmentService';
-
-// Mock the mysql2/promise module
-jest.mock('mysql2/promise', () => ({
-    createPool: jest.fn().mockReturnValue({
-        execute: jest.fn()
-    })
-}));
+import { ShipmentService, InvalidCursorError, trackingEventKey } from '../../src/services/ShipmentService';
+import { CreateShipmentRequest } from '../../src/types';
+import { TrackingEvent } from '../../src/carriers/types';
+import { InMemoryShipmentRepository } from '../../src/services/ShipmentRepository';
+import { InvalidStatusTransitionError } from '../../src/services/ShipmentLifecycle';
+
+// Mock the mysql2/promise module; writes go through a pooled connection in a transaction
+jest.mock('mysql2/promise', () => {
+    const connection = {
+        execute: jest.fn(),
+        beginTransaction: jest.fn(),
+        commit: jest.fn(),
+        rollback: jest.fn(),
+        release: jest.fn()
+    };
+    return {
+        createPool: jest.fn().mockReturnValue({
+            execute: jest.fn(),
+            getConnection: jest.fn().mockResolvedValue(connection)
+        })
+    };
+});
 
 // Mock the config
 jest.mock('../../src/config/config', () => ({
@@ -16,26 +30,31 @@ jest.mock('../../src/config/config', () => ({
             user: 'test_user',
             password: 'test_password',
             database: 'test_db'
-        }
+        },
+        storage: { driver: 'mysql' },
+        review: { unmatchedDir: '/tmp/unmatched-guides' }
     }
 }));
 
 describe('ShipmentService', () => {
     let shipmentService: ShipmentService;
     let mockPool: any;
+    let mockConnection: any;
 
-    beforeEach(() => {
+    beforeEach(async () => {
         jest.clearAllMocks();
         
         // Get the mocked pool
         const mysql = require('mysql2/promise');
         mockPool = mysql.createPool();
+        mockConnection = await mockPool.getConnection();
+        mockPool.getConnection.mockClear();
         
         shipmentService = new ShipmentService();
     });
 
     describe('createShipment', () => {
-        const mockShipmentRequest = {
+        const mockShipmentRequest: CreateShipmentRequest = {
             orderNumber: 'ORD-2024-001',
             customerName: 'Juan Carlos Pérez',
             customerPhone: '3001234567',
@@ -46,7 +65,7 @@ describe('ShipmentService', () => {
         };
 
         it('should create a shipment and return it with a generated tracking number', async () => {
-            mockPool.execute.mockResolvedValue([{ insertId: 1 }]);
+            mockConnection.execute.mockResolvedValue([{ insertId: 1 }]);
 
             const result = await shipmentService.createShipment(mockShipmentRequest);
 
@@ -64,7 +83,7 @@ describe('ShipmentService', () => {
                 updatedAt: expect.any(Date)
             });
 
-            expect(mockPool.execute).toHaveBeenCalledWith(
+            expect(mockConnection.execute).toHaveBeenCalledWith(
                 expect.stringContaining('INSERT INTO shipments'),
                 expect.arrayContaining([
                     mockShipmentRequest.orderNumber,
@@ -81,8 +100,22 @@ describe('ShipmentService', () => {
             );
         });
 
+        it('should record the initial status in the history in the same transaction', async () => {
+            mockConnection.execute.mockResolvedValue([{ insertId: 7 }]);
+
+            await shipmentService.createShipment(mockShipmentRequest, 'webhook');
+
+            expect(mockConnection.execute).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO shipment_status_history'),
+                [7, null, 'ready_for_shipping', 'webhook', null, expect.any(Date)]
+            );
+            expect(mockConnection.beginTransaction).toHaveBeenCalled();
+            expect(mockConnection.commit).toHaveBeenCalled();
+            expect(mockConnection.release).toHaveBeenCalled();
+        });
+
         it('should generate unique tracking numbers', async () => {
-            mockPool.execute.mockResolvedValue([{ insertId: 1 }]);
+            mockConnection.execute.mockResolvedValue([{ insertId: 1 }]);
 
             const result1 = await shipmentService.createShipment(mockShipmentRequest);
             const result2 = await shipmentService.createShipment(mockShipmentRequest);
@@ -92,10 +125,13 @@ describe('ShipmentService', () => {
         });
 
         it('should throw error on database failure', async () => {
-            mockPool.execute.mockRejectedValue(new Error('Database connection failed'));
+            mockConnection.execute.mockRejectedValue(new Error('Database connection failed'));
 
             await expect(shipmentService.createShipment(mockShipmentRequest))
                 .rejects.toThrow('Database connection failed');
+            expect(mockConnection.rollback).toHaveBeenCalled();
+            expect(mockConnection.commit).not.toHaveBeenCalled();
+            expect(mockConnection.release).toHaveBeenCalled();
         });
     });
 
@@ -143,6 +179,55 @@ describe('ShipmentService', () => {
         });
     });
 
+    describe('carrier bookings', () => {
+        const booking = {
+            quote: { price: 12000, currency: 'COP', estimatedDays: 2, serviceName: 'Mercancía Premier' },
+            selectionReason: 'Seleccionado por ser el más rápido (2 días)',
+            labelReference: null,
+            estimatedDelivery: new Date('2024-01-17T00:00:00.000Z'),
+            recipient: { name: 'Juan Pérez', phone: '3001234567', address: 'Calle 50 # 40-30', city: 'Medellín', daneCode: '05001' }
+        };
+
+        it('should store the booking as JSON under the carrier guide number', async () => {
+            mockConnection.execute.mockResolvedValue([{ insertId: 4 }]);
+
+            const result = await shipmentService.createShipment({
+                orderNumber: 'ORD-2024-001',
+                trackingNumber: 'SVLQ2X9ABC123',
+                carrier: 'servientrega',
+                booking,
+                customerName: 'Juan Pérez',
+                customerPhone: '3001234567',
+                shippingAddress: 'Calle 50 # 40-30',
+                city: 'Medellín',
+                shippingPhone: '3001234567',
+                productDescription: '',
+                status: 'created'
+            }, 'api');
+
+            expect(result).toMatchObject({ id: 4, trackingNumber: 'SVLQ2X9ABC123', carrier: 'servientrega', booking });
+            const [, params] = mockConnection.execute.mock.calls[0];
+            expect(params.slice(0, 4)).toEqual(['ORD-2024-001', 'SVLQ2X9ABC123', 'servientrega', JSON.stringify(booking)]);
+        });
+
+        it('should read the booking back with its dates', async () => {
+            mockPool.execute.mockResolvedValue([[{
+                id: 4,
+                order_number: 'ORD-2024-001',
+                tracking_number: 'SVLQ2X9ABC123',
+                carrier: 'servientrega',
+                carrier_booking: JSON.stringify(booking),
+                status: 'created',
+                created_at: new Date('2024-01-15'),
+                updated_at: new Date('2024-01-15')
+            }]]);
+
+            const result = await shipmentService.getShipmentByTrackingNumber('SVLQ2X9ABC123');
+
+            expect(result!.booking).toEqual(booking);
+        });
+    });
+
     describe('getShipmentByOrderNumber', () => {
         it('should return shipment when found', async () => {
             const mockRow = {
@@ -176,6 +261,10 @@ describe('ShipmentService', () => {
                 createdAt: expect.any(Date),
                 updatedAt: expect.any(Date)
             });
+            expect(mockPool.execute).toHaveBeenCalledWith(
+                expect.stringContaining('WHERE order_number = ? ORDER BY created_at DESC, id DESC LIMIT 1'),
+                ['ORD-2024-001']
+            );
         });
 
         it('should return null when order not found', async () => {
@@ -187,25 +276,315 @@ describe('ShipmentService', () => {
         });
     });
 
+    describe('bookShipment', () => {
+        const waiting = {
+            id: 1,
+            order_number: 'ORD-2024-001',
+            tracking_number: 'TA123ABC456DEF',
+            customer_name: 'Juan Carlos Pérez',
+            customer_phone: '3001234567',
+            shipping_address: 'Calle 45 # 23-67, Bogotá',
+            shipping_phone: '3001234567',
+            product_description: 'USB 16GB - Custom Design',
+            status: 'ready_for_shipping',
+            created_at: new Date('2024-01-15'),
+            updated_at: new Date('2024-01-15')
+        };
+        const booking = {
+            quote: { price: 12000, currency: 'COP', estimatedDays: 2, serviceName: 'Mercancía Premier' },
+            selectionReason: 'Mejor balance',
+            labelReference: null,
+            estimatedDelivery: null,
+            recipient: { name: 'Juan Carlos Pérez', phone: '3001234567', address: 'CL 45 # 23-67', city: 'Bogotá' }
+        };
+
+        it('should store the carrier guide and move the waiting shipment to created', async () => {
+            mockPool.execute.mockResolvedValue([[waiting]]);
+            mockConnection.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+            const result = await shipmentService.bookShipment(1, { trackingNumber: 'SV9876543210', carrier: 'servientrega', booking }, 'api');
+
+            expect(result).toMatchObject({ id: 1, trackingNumber: 'SV9876543210', carrier: 'servientrega', status: 'created', booking });
+            expect(mockConnection.execute).toHaveBeenCalledWith(
+                expect.stringContaining("WHERE id = ? AND status = 'ready_for_shipping'"),
+                ['SV9876543210', 'servientrega', JSON.stringify(booking), expect.any(Date), 1]
+            );
+            expect(mockConnection.execute.mock.calls[1][1]).toEqual([1, 'ready_for_shipping', 'created', 'api', null, expect.any(Date)]);
+        });
+
+        it('should return null once the shipment is no longer waiting', async () => {
+            mockPool.execute.mockResolvedValue([[waiting]]);
+            mockConnection.execute.mockResolvedValue([{ affectedRows: 0 }]);
+
+            expect(await shipmentService.bookShipment(1, { trackingNumber: 'SV9876543210', carrier: 'servientrega', booking })).toBeNull();
+
+            mockConnection.execute.mockClear();
+            mockPool.execute.mockResolvedValue([[{ ...waiting, status: 'created' }]]);
+            expect(await shipmentService.bookShipment(1, { trackingNumber: 'SV9876543210', carrier: 'servientrega', booking })).toBeNull();
+            expect(mockConnection.execute).not.toHaveBeenCalled();
+        });
+    });
+
     describe('updateShipmentStatus', () => {
-        it('should update status successfully', async () => {
-            mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+        const row = {
+            id: 1,
+            order_number: 'ORD-2024-001',
+            tracking_number: 'TA123ABC456DEF',
+            customer_name: 'Juan Carlos Pérez',
+            customer_phone: '3001234567',
+            shipping_address: 'Calle 45 # 23-67, Bogotá',
+            shipping_phone: '3001234567',
+            product_description: 'USB 16GB - Custom Design',
+            status: 'created',
+            created_at: new Date('2024-01-15'),
+            updated_at: new Date('2024-01-15')
+        };
 
-            const result = await shipmentService.updateShipmentStatus(1, 'shipped');
+        it('should change the status only while it is still the one read, and record the change', async () => {
+            mockPool.execute.mockResolvedValue([[row]]);
+            mockConnection.execute.mockResolvedValue([{ affectedRows: 1 }]);
 
-            expect(result).toBe(true);
-            expect(mockPool.execute).toHaveBeenCalledWith(
+            const result = await shipmentService.updateShipmentStatus(1, 'picked_up', { triggeredBy: 'operator' });
+
+            expect(result).toMatchObject({ id: 1, status: 'picked_up' });
+            expect(mockConnection.execute).toHaveBeenCalledWith(
                 expect.stringContaining('UPDATE shipments SET status'),
-                ['shipped', 1]
+                ['picked_up', expect.any(Date), 1, 'created']
             );
+            expect(mockConnection.execute).toHaveBeenCalledWith(
+                expect.stringContaining('INSERT INTO shipment_status_history'),
+                [1, 'created', 'picked_up', 'operator', null, expect.any(Date)]
+            );
+            expect(mockConnection.commit).toHaveBeenCalled();
+        });
+
+        it('should retry when another change lands first', async () => {
+            mockPool.execute
+                .mockResolvedValueOnce([[row]])
+                .mockResolvedValueOnce([[{ ...row, status: 'picked_up' }]]);
+            mockConnection.execute
+                .mockResolvedValueOnce([{ affectedRows: 0 }])
+                .mockResolvedValue([{ affectedRows: 1 }]);
+
+            const result = await shipmentService.updateShipmentStatus(1, 'in_transit', { triggeredBy: 'operator' });
+
+            expect(result).toMatchObject({ status: 'in_transit' });
+            expect(mockConnection.execute).toHaveBeenCalledWith(
+                expect.stringContaining('UPDATE shipments SET status'),
+                ['in_transit', expect.any(Date), 1, 'picked_up']
+            );
+        });
+
+        it('should give up when the status keeps changing', async () => {
+            mockPool.execute.mockResolvedValue([[row]]);
+            mockConnection.execute.mockResolvedValue([{ affectedRows: 0 }]);
+
+            await expect(shipmentService.updateShipmentStatus(1, 'picked_up', { triggeredBy: 'operator' }))
+                .rejects.toThrow('Shipment 1 status keeps changing, try again');
+        });
+
+        it('should reject a change the lifecycle does not allow', async () => {
+            mockPool.execute.mockResolvedValue([[{ ...row, status: 'delivered' }]]);
+
+            await expect(shipmentService.updateShipmentStatus(1, 'in_transit', { triggeredBy: 'operator' }))
+                .rejects.toThrow(InvalidStatusTransitionError);
+            expect(mockPool.getConnection).not.toHaveBeenCalled();
+        });
+
+        it('should return the shipment unchanged when it already has the status', async () => {
+            mockPool.execute.mockResolvedValue([[row]]);
+
+            const result = await shipmentService.updateShipmentStatus(1, 'created', { triggeredBy: 'operator' });
+
+            expect(result).toMatchObject({ status: 'created' });
+            expect(mockPool.getConnection).not.toHaveBeenCalled();
+        });
+
+        it('should return null when shipment not found', async () => {
+            mockPool.execute.mockResolvedValue([[]]);
+
+            const result = await shipmentService.updateShipmentStatus(999, 'picked_up', { triggeredBy: 'operator' });
+
+            expect(result).toBeNull();
+        });
+    });
+
+    describe('getStatusHistory', () => {
+        it('should read the history oldest first, with the carrier event', async () => {
+            const event = { timestamp: '2024-01-16T10:00:00.000Z', status: 'picked_up', description: 'Recogido', location: 'Bogotá', details: null };
+            mockPool.execute.mockResolvedValue([[{
+                id: 3,
+                shipment_id: 1,
+                from_status: 'created',
+                to_status: 'picked_up',
+                triggered_by: 'carrier:servientrega',
+                carrier_event: JSON.stringify(event),
+                changed_at: '2024-01-16T10:05:00.000Z'
+            }]]);
+
+            const history = await shipmentService.getStatusHistory(1);
+
+            expect(mockPool.execute).toHaveBeenCalledWith(expect.stringContaining('ORDER BY changed_at'), [1]);
+            expect(history).toEqual([{
+                id: 3,
+                shipmentId: 1,
+                fromStatus: 'created',
+                toStatus: 'picked_up',
+                triggeredBy: 'carrier:servientrega',
+                carrierEvent: { ...event, timestamp: new Date(event.timestamp) },
+                changedAt: new Date('2024-01-16T10:05:00.000Z')
+            }]);
+        });
+    });
+
+    describe('recordTrackingEvents', () => {
+        const pickedUp: TrackingEvent = { timestamp: new Date('2024-01-16T10:00:00Z'), status: 'picked_up', description: 'Recogido', location: 'Bogotá', details: null };
+        const inTransit: TrackingEvent = { timestamp: new Date('2024-01-17T08:00:00Z'), status: 'in_transit', description: 'En ruta', location: 'Bogotá', details: 'Camión 12' };
+
+        it('should store only the events the guide does not have, oldest first', async () => {
+            mockPool.execute
+                .mockResolvedValueOnce([[{
+                    id: 1,
+                    tracking_number: 'SV1234567890',
+                    carrier: 'servientrega',
+                    event_key: trackingEventKey(pickedUp),
+                    status: 'picked_up',
+                    description: 'Recogido',
+                    location: 'Bogotá',
+                    details: null,
+                    occurred_at: pickedUp.timestamp,
+                    created_at: new Date()
+                }]])
+                .mockResolvedValueOnce([{ affectedRows: 1 }]);
+
+            const added = await shipmentService.recordTrackingEvents('SV1234567890', 'servientrega', [inTransit, pickedUp, inTransit]);
+
+            expect(added).toEqual([inTransit]);
+            expect(mockPool.execute).toHaveBeenCalledTimes(2);
+            const [sql, params] = mockPool.execute.mock.calls[1];
+            expect(sql).toContain('INSERT IGNORE INTO tracking_events');
+            expect(params).toEqual(['SV1234567890', 'servientrega', trackingEventKey(inTransit), 'in_transit', 'En ruta', 'Bogotá', 'Camión 12', inTransit.timestamp, expect.any(Date)]);
+        });
+
+        it('should leave out events another poll stored meanwhile', async () => {
+            mockPool.execute
+                .mockResolvedValueOnce([[]])
+                .mockResolvedValueOnce([{ affectedRows: 0 }]);
+
+            expect(await shipmentService.recordTrackingEvents('SV1234567890', 'servientrega', [pickedUp])).toEqual([]);
+        });
+
+        it('should key events by moment, status, description and place', () => {
+            expect(trackingEventKey(pickedUp)).toBe(trackingEventKey({ ...pickedUp, details: 'otro' }));
+            expect(trackingEventKey(pickedUp)).not.toBe(trackingEventKey({ ...pickedUp, timestamp: new Date('2024-01-16T10:00:01Z') }));
+            expect(trackingEventKey(pickedUp)).toMatch(/^[0-9a-f]{40}$/);
+        });
+    });
+
+    describe('listShipments', () => {
+        const row = (id: number, createdAt: Date) => ({
+            id,
+            order_number: `ORD-${id}`,
+            tracking_number: `TA${id}`,
+            carrier: 'servientrega',
+            customer_name: 'Juan Carlos Pérez',
+            customer_phone: '3001234567',
+            shipping_address: 'Calle 45 # 23-67, Bogotá',
+            city: 'Bogotá',
+            shipping_phone: '3001234567',
+            product_description: 'USB 16GB - Custom Design',
+            status: 'in_transit',
+            created_at: createdAt,
+            updated_at: createdAt
+        });
+
+        it('should filter in SQL and fetch one row more than the page to know whether another follows', async () => {
+            mockPool.execute.mockResolvedValue([[row(3, new Date('2024-01-03')), row(2, new Date('2024-01-02')), row(1, new Date('2024-01-01'))]]);
+
+            const page = await shipmentService.listShipments({
+                filter: { statuses: ['in_transit', 'delivered'], carrier: 'servientrega', phone: '3001234567', search: 'usb' },
+                limit: 2
+            });
+
+            expect(page.shipments.map(s => s.id)).toEqual([3, 2]);
+            expect(page.shipments[0]).toMatchObject({ carrier: 'servientrega', city: 'Bogotá' });
+            expect(page.nextCursor).toEqual(expect.any(String));
+            const [sql, params] = mockPool.execute.mock.calls[0];
+            expect(sql).toContain('status IN (?, ?)');
+            expect(sql).toContain('carrier = ?');
+            expect(sql).toContain('(customer_phone LIKE ? OR shipping_phone LIKE ?)');
+            expect(sql).toContain('ORDER BY created_at DESC, id DESC');
+            expect(sql).toContain('LIMIT 3');
+            expect(params).toEqual(['in_transit', 'delivered', 'servientrega', '%3001234567%', '%3001234567%', '%usb%', '%usb%', '%usb%', '%usb%', '%usb%']);
+        });
+
+        it('should start the next page after the last shipment of the previous one', async () => {
+            mockPool.execute.mockResolvedValueOnce([[row(3, new Date('2024-01-03')), row(2, new Date('2024-01-02'))]]);
+            const first = await shipmentService.listShipments({ limit: 1 });
+            mockPool.execute.mockResolvedValueOnce([[row(2, new Date('2024-01-02'))]]);
+
+            const second = await shipmentService.listShipments({ limit: 1, cursor: first.nextCursor! });
+
+            expect(second).toEqual({ shipments: [expect.objectContaining({ id: 2 })], nextCursor: null });
+            const [sql, params] = mockPool.execute.mock.calls[1];
+            expect(sql).toContain('(created_at < ? OR (created_at = ? AND id < ?))');
+            expect(params).toEqual([new Date('2024-01-03'), new Date('2024-01-03'), 3]);
+        });
+
+        it('should reject a cursor of a listing with another sort', async () => {
+            mockPool.execute.mockResolvedValueOnce([[row(3, new Date('2024-01-03')), row(2, new Date('2024-01-02'))]]);
+            const first = await shipmentService.listShipments({ limit: 1 });
+
+            await expect(shipmentService.listShipments({ limit: 1, order: 'asc', cursor: first.nextCursor! }))
+                .rejects.toThrow(InvalidCursorError);
+            await expect(shipmentService.listShipments({ cursor: 'garbage' })).rejects.toThrow(InvalidCursorError);
+        });
+    });
+
+    describe('with in-memory storage', () => {
+        it('creates, finds and updates shipments without a database', async () => {
+            const service = new ShipmentService(new InMemoryShipmentRepository());
+
+            const created = await service.createShipment({
+                orderNumber: 'ORD-2024-001',
+                customerName: 'Juan Carlos Pérez',
+                customerPhone: '3001234567',
+                shippingAddress: 'Calle 45 # 23-67, Bogotá',
+                shippingPhone: '3001234567',
+                productDescription: 'USB 16GB - Custom Design',
+                status: 'ready_for_shipping'
+            });
+
+            expect(await service.getShipmentByTrackingNumber(created.trackingNumber)).toEqual(created);
+            await service.updateShipmentStatus(created.id, 'created', { triggeredBy: 'operator' });
+            await service.updateShipmentStatus(created.id, 'in_transit', { triggeredBy: 'carrier:servientrega' });
+            expect(await service.getShipmentByOrderNumber('ORD-2024-001')).toMatchObject({ id: 1, status: 'in_transit' });
+            expect(await service.updateShipmentStatus(99, 'created', { triggeredBy: 'operator' })).toBeNull();
+            await expect(service.updateShipmentStatus(created.id, 'ready_for_shipping', { triggeredBy: 'operator' }))
+                .rejects.toThrow("Cannot change shipment status from 'in_transit' to 'ready_for_shipping'");
+
+            expect((await service.getStatusHistory(created.id)).map(change => [change.fromStatus, change.toStatus, change.triggeredBy])).toEqual([
+                [null, 'ready_for_shipping', 'system'],
+                ['ready_for_shipping', 'created', 'operator'],
+                ['created', 'in_transit', 'carrier:servientrega']
+            ]);
+            expect(mockPool.execute).not.toHaveBeenCalled();
         });
 
-        it('should return false when shipment not found', async () => {
-            mockPool.execute.mockResolvedValue([{ affectedRows: 0 }]);
+        it('keeps the tracking events of each guide once', async () => {
+            const service = new ShipmentService(new InMemoryShipmentRepository());
+            const later: TrackingEvent = { timestamp: new Date('2024-01-17T08:00:00Z'), status: 'in_transit', description: 'En ruta', location: 'Bogotá', details: null };
+            const earlier: TrackingEvent = { ...later, timestamp: new Date('2024-01-16T10:00:00Z'), status: 'picked_up', description: 'Recogido' };
 
-            const result = await shipmentService.updateShipmentStatus(999, 'shipped');
+            expect(await service.recordTrackingEvents('SV1', 'servientrega', [later, earlier])).toEqual([earlier, later]);
+            expect(await service.recordTrackingEvents('SV1', 'servientrega', [later])).toEqual([]);
+            expect(await service.recordTrackingEvents('SV2', 'servientrega', [later])).toEqual([later]);
 
-            expect(result).toBe(false);
+            expect((await service.getTrackingEvents('SV1')).map(event => [event.status, event.carrier, event.key])).toEqual([
+                ['picked_up', 'servientrega', trackingEventKey(earlier)],
+                ['in_transit', 'servientrega', trackingEventKey(later)]
+            ]);
+            expect(mockPool.execute).not.toHaveBeenCalled();
         });
     });
 });
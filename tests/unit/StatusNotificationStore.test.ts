@@ -0,0 +1,101 @@
+import { MySqlStatusNotificationStore, InMemoryStatusNotificationStore, NewStatusNotification } from '../../src/services/StatusNotificationStore';
+
+jest.mock('mysql2/promise', () => ({
+    createPool: jest.fn().mockReturnValue({
+        execute: jest.fn()
+    })
+}));
+
+const techAura: NewStatusNotification = {
+    shipmentId: 7,
+    status: 'in_transit',
+    channel: 'techaura',
+    update: {
+        orderNumber: 'ORD-2024-001',
+        status: 'in_transit',
+        trackingNumber: 'SV123456789',
+        carrier: 'Servientrega',
+        estimatedDelivery: new Date('2026-10-20T18:00:00Z')
+    }
+};
+
+const whatsapp: NewStatusNotification = {
+    shipmentId: 7,
+    status: 'out_for_delivery',
+    channel: 'whatsapp',
+    phone: '3001234567',
+    update: { trackingNumber: 'SV123456789', carrier: 'Servientrega', status: 'out_for_delivery', description: 'En reparto' }
+};
+
+describe('MySqlStatusNotificationStore', () => {
+    let mockPool: any;
+    let store: MySqlStatusNotificationStore;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        const mysql = require('mysql2/promise');
+        mockPool = mysql.createPool();
+        store = new MySqlStatusNotificationStore({ host: 'localhost', port: 3306, user: 'test', password: '', database: 'test_db' });
+    });
+
+    it('inserts the notification with the WhatsApp phone as its recipient', async () => {
+        mockPool.execute.mockResolvedValue([{ insertId: 3 }]);
+
+        const added = await store.add(whatsapp);
+
+        expect(added).toMatchObject({ ...whatsapp, id: 3, attempts: 0, lastError: null });
+        expect(mockPool.execute.mock.calls[0][0]).toContain('INSERT INTO status_notifications');
+        expect(mockPool.execute.mock.calls[0][1]).toEqual([
+            7, 'whatsapp', 'out_for_delivery', '3001234567', JSON.stringify(whatsapp.update), expect.any(Date), expect.any(Date)
+        ]);
+    });
+
+    it('reads the pending notifications oldest first, with their dates parsed', async () => {
+        mockPool.execute.mockResolvedValue([[
+            {
+                id: 1, shipment_id: 7, channel: 'techaura', status: 'in_transit', recipient: null,
+                payload: JSON.stringify(techAura.update), attempts: 2, last_error: 'TechAura did not accept the update',
+                created_at: '2026-10-19 10:00:00.000'
+            },
+            {
+                id: 2, shipment_id: 7, channel: 'whatsapp', status: 'out_for_delivery', recipient: '3001234567',
+                payload: JSON.stringify(whatsapp.update), attempts: 1, last_error: 'WhatsApp send failed',
+                created_at: '2026-10-19 11:00:00.000'
+            }
+        ]]);
+
+        const pending = await store.pending(50);
+
+        expect(mockPool.execute.mock.calls[0][0]).toMatch(/ORDER BY id\s+LIMIT 50/);
+        expect(pending).toEqual([
+            { ...techAura, id: 1, attempts: 2, lastError: 'TechAura did not accept the update', createdAt: new Date('2026-10-19 10:00:00.000') },
+            { ...whatsapp, id: 2, attempts: 1, lastError: 'WhatsApp send failed', createdAt: new Date('2026-10-19 11:00:00.000') }
+        ]);
+    });
+
+    it('counts failed attempts and deletes delivered notifications', async () => {
+        mockPool.execute.mockResolvedValue([{ affectedRows: 1 }]);
+
+        await store.markFailed(1, 'socket hang up');
+        await store.remove(1);
+
+        expect(mockPool.execute.mock.calls[0][0]).toContain('SET attempts = attempts + 1, last_error = ?');
+        expect(mockPool.execute.mock.calls[0][1]).toEqual(['socket hang up', expect.any(Date), 1]);
+        expect(mockPool.execute.mock.calls[1]).toEqual(['DELETE FROM status_notifications WHERE id = ?', [1]]);
+    });
+});
+
+describe('InMemoryStatusNotificationStore', () => {
+    it('keeps the notifications until removed', async () => {
+        const store = new InMemoryStatusNotificationStore();
+        const first = await store.add(techAura);
+        const second = await store.add(whatsapp);
+
+        await store.markFailed(first.id, 'TechAura did not accept the update');
+        await store.remove(second.id);
+
+        expect(await store.pending(10)).toEqual([
+            expect.objectContaining({ id: first.id, channel: 'techaura', attempts: 1, lastError: 'TechAura did not accept the update' })
+        ]);
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for TrackingPoller
+ */
+
+import { TrackingPoller, TrackingPollerOptions } from '../../src/services/TrackingPoller';
+import { TrackingUpdater } from '../../src/services/TrackingUpdater';
+import { InMemoryStatusNotificationStore } from '../../src/services/StatusNotificationStore';
+import { ShipmentService } from '../../src/services/ShipmentService';
+import { InMemoryShipmentRepository } from '../../src/services/ShipmentRepository';
+import { Carrier, ShipmentStatus, TrackingInfo } from '../../src/carriers/types';
+
+function tracking(trackingNumber: string, status: ShipmentStatus): TrackingInfo {
+    return {
+        carrier: 'Carrier',
+        trackingNumber,
+        status,
+        statusDescription: status,
+        estimatedDelivery: null,
+        events: [{ timestamp: new Date('2024-01-17T08:00:00Z'), status, description: `Evento ${status}`, location: 'Bogotá', details: null }],
+        currentLocation: null,
+        recipientName: null,
+        signedBy: null,
+        deliveredAt: null
+    };
+}
+
+function fakeCarrier(id: string, name: string, status: ShipmentStatus = 'in_transit') {
+    const calls: Array<{ trackingNumber: string; at: number }> = [];
+    const carrier = {
+        id,
+        name,
+        calls,
+        getTrackingInfo: jest.fn(async (trackingNumber: string) => {
+            calls.push({ trackingNumber, at: Date.now() });
+            return tracking(trackingNumber, status);
+        })
+    };
+    return carrier as typeof carrier & Carrier;
+}
+
+describe('TrackingPoller', () => {
+    const options: TrackingPollerOptions = { intervalMs: 60000, defaultRateLimit: 6000, rateLimits: {} };
+    let shipments: ShipmentService;
+    let dashboard: jest.Mock;
+    let updateShippingStatus: jest.Mock;
+    let notifications: InMemoryStatusNotificationStore;
+    let servientrega: ReturnType<typeof fakeCarrier>;
+    let tcc: ReturnType<typeof fakeCarrier>;
+
+    const poller = (overrides: Partial<TrackingPollerOptions> = {}) => {
+        const updater = new TrackingUpdater(shipments, {
+            dashboard,
+            techAura: { updateShippingStatus },
+            whatsapp: null
+        }, notifications);
+        const carriers = new Map<string, Carrier>([[servientrega.id, servientrega], [tcc.id, tcc]]);
+        return new TrackingPoller(shipments, updater, { getCarrier: id => carriers.get(id) }, { ...options, ...overrides });
+    };
+
+    const createShipment = (trackingNumber: string, status: ShipmentStatus, carrier?: string) => shipments.createShipment({
+        orderNumber: `ORD-${trackingNumber}`,
+        trackingNumber,
+        carrier,
+        customerName: 'Juan Pérez',
+        customerPhone: '3001234567',
+        shippingAddress: 'Calle 50 # 40-30',
+        shippingPhone: '3001234567',
+        productDescription: 'USB 64GB',
+        status
+    });
+
+    beforeEach(() => {
+        shipments = new ShipmentService(new InMemoryShipmentRepository());
+        dashboard = jest.fn();
+        updateShippingStatus = jest.fn().mockResolvedValue(true);
+        notifications = new InMemoryStatusNotificationStore();
+        servientrega = fakeCarrier('servientrega', 'Servientrega');
+        tcc = fakeCarrier('tcc', 'TCC', 'delivered');
+    });
+
+    it('polls the carriers of active shipments and applies what they report', async () => {
+        await createShipment('SV0000000001', 'created', 'servientrega');
+        await createShipment('SV0000000002', 'ready_for_shipping', 'servientrega');
+        await createShipment('SV0000000003', 'delivered', 'servientrega');
+        // Without a stored carrier, the tracking number tells it
+        await createShipment('TCC0000000004', 'out_for_delivery');
+
+        const summary = await poller().pollOnce();
+
+        expect(summary).toEqual({ polled: 2, newEvents: 2, statusChanges: 2, failed: 0 });
+        expect(servientrega.calls.map(call => call.trackingNumber)).toEqual(['SV0000000001']);
+        expect(tcc.calls.map(call => call.trackingNumber)).toEqual(['TCC0000000004']);
+        expect((await shipments.getShipmentByTrackingNumber('SV0000000001'))!.status).toBe('in_transit');
+        expect((await shipments.getShipmentByTrackingNumber('TCC0000000004'))!.status).toBe('delivered');
+        expect(dashboard).toHaveBeenCalledWith('ORD-TCC0000000004', 'delivered');
+        expect(await shipments.getTrackingEvents('SV0000000001')).toHaveLength(1);
+    });
+
+    it('finds no news when nothing changed since the last round', async () => {
+        await createShipment('SV0000000001', 'created', 'servientrega');
+        const tracker = poller();
+        await tracker.pollOnce();
+
+        expect(await tracker.pollOnce()).toEqual({ polled: 1, newEvents: 0, statusChanges: 0, failed: 0 });
+        expect(dashboard).toHaveBeenCalledTimes(1);
+    });
+
+    it('spaces each carrier\'s lookups to its rate limit, and asks carriers side by side', async () => {
+        for (let i = 1; i <= 3; i++) {
+            await createShipment(`SV000000000${i}`, 'created', 'servientrega');
+            await createShipment(`TCC000000000${i}`, 'created', 'tcc');
+        }
+
+        await poller({ rateLimits: { servientrega: 600 } }).pollOnce();
+
+        const gaps = servientrega.calls.slice(1).map((call, i) => call.at - servientrega.calls[i].at);
+        expect(gaps).toHaveLength(2);
+        gaps.forEach(gap => expect(gap).toBeGreaterThanOrEqual(95));
+        // TCC's default limit of 6000 a minute leaves it done before Servientrega's second lookup
+        expect(tcc.calls).toHaveLength(3);
+        expect(tcc.calls[2].at).toBeLessThan(servientrega.calls[1].at);
+    });
+
+    it('logs a failed lookup and carries on with the other shipments', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        await createShipment('SV0000000001', 'created', 'servientrega');
+        await createShipment('SV0000000002', 'created', 'servientrega');
+        servientrega.getTrackingInfo.mockRejectedValueOnce(new Error('Servientrega no disponible: timeout'));
+
+        const summary = await poller().pollOnce();
+
+        expect(summary).toMatchObject({ polled: 2, failed: 1, statusChanges: 1 });
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('SV0000000001 (Servientrega)'), 'Servientrega no disponible: timeout');
+        warn.mockRestore();
+    });
+
+    it('sends again the status notifications not delivered in an earlier round', async () => {
+        await createShipment('SV0000000001', 'created', 'servientrega');
+        updateShippingStatus.mockResolvedValueOnce(false);
+        const tracker = poller();
+        await tracker.pollOnce();
+        expect(notifications.notifications).toHaveLength(1);
+
+        await tracker.pollOnce();
+
+        expect(updateShippingStatus).toHaveBeenCalledTimes(2);
+        expect(updateShippingStatus).toHaveBeenLastCalledWith(expect.objectContaining({ orderNumber: 'ORD-SV0000000001', status: 'in_transit' }));
+        expect(notifications.notifications).toEqual([]);
+    });
+
+    it('skips shipments of carriers it does not have', async () => {
+        await createShipment('DPR0000000001', 'created', 'deprisa');
+        await createShipment('XX1', 'created');
+
+        expect(await poller().pollOnce()).toEqual({ polled: 0, newEvents: 0, statusChanges: 0, failed: 0 });
+    });
+
+    it('polls on start and again after the interval until stopped', async () => {
+        jest.useFakeTimers();
+        try {
+            await createShipment('SV0000000001', 'created', 'servientrega');
+            const tracker = poller({ intervalMs: 1000 });
+
+            tracker.start();
+            await jest.advanceTimersByTimeAsync(0);
+            expect(servientrega.calls).toHaveLength(1);
+
+            await jest.advanceTimersByTimeAsync(1000);
+            expect(servientrega.calls).toHaveLength(2);
+
+            tracker.stop();
+            await jest.advanceTimersByTimeAsync(5000);
+            expect(servientrega.calls).toHaveLength(2);
+        } finally {
+            jest.useRealTimers();
+        }
+    });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for TrackingUpdater
+ */
+
+import { TrackingUpdater, StatusChangeNotifiers, CarrierTrackingReport, MAX_NOTIFICATION_ATTEMPTS } from '../../src/services/TrackingUpdater';
+import { ShipmentService } from '../../src/services/ShipmentService';
+import { InMemoryShipmentRepository } from '../../src/services/ShipmentRepository';
+import { InMemoryStatusNotificationStore } from '../../src/services/StatusNotificationStore';
+import { ShipmentStatus, TrackingEvent } from '../../src/carriers/types';
+import { Shipment } from '../../src/types';
+
+function event(status: ShipmentStatus, at: string, description = `Evento ${status}`): TrackingEvent {
+    return { timestamp: new Date(at), status, description, location: 'Bogotá', details: null };
+}
+
+function report(events: TrackingEvent[], status?: ShipmentStatus): CarrierTrackingReport {
+    return { carrierId: 'servientrega', carrierName: 'Servientrega', events, status, estimatedDelivery: new Date('2024-01-18T18:00:00Z') };
+}
+
+describe('TrackingUpdater', () => {
+    let shipments: ShipmentService;
+    let notifiers: { dashboard: jest.Mock; techAura: { updateShippingStatus: jest.Mock }; whatsapp: { sendStatusUpdate: jest.Mock } };
+    let notifications: InMemoryStatusNotificationStore;
+    let updater: TrackingUpdater;
+
+    const createShipment = (status: ShipmentStatus = 'created'): Promise<Shipment> => shipments.createShipment({
+        orderNumber: 'ORD-2024-001',
+        trackingNumber: 'SV1234567890',
+        carrier: 'servientrega',
+        customerName: 'Juan Pérez',
+        customerPhone: '3001234567',
+        shippingAddress: 'Calle 50 # 40-30',
+        shippingPhone: '3109876543',
+        productDescription: 'USB 64GB',
+        status
+    });
+
+    beforeEach(() => {
+        shipments = new ShipmentService(new InMemoryShipmentRepository());
+        notifiers = {
+            dashboard: jest.fn(),
+            techAura: { updateShippingStatus: jest.fn().mockResolvedValue(true) },
+            whatsapp: { sendStatusUpdate: jest.fn().mockResolvedValue(true) }
+        };
+        notifications = new InMemoryStatusNotificationStore();
+        updater = new TrackingUpdater(shipments, notifiers as StatusChangeNotifiers, notifications, ['out_for_delivery', 'failed_delivery']);
+    });
+
+    it('moves the shipment through its new events oldest first and announces the last status once', async () => {
+        const shipment = await createShipment();
+        const pickedUp = event('picked_up', '2024-01-16T10:00:00Z');
+        const inTransit = event('in_transit', '2024-01-17T08:00:00Z', 'Salió del centro logístico');
+
+        const update = await updater.apply(shipment, report([inTransit, pickedUp], 'in_transit'));
+
+        expect(update.newEvents).toEqual([pickedUp, inTransit]);
+        expect(update.previousStatus).toBe('created');
+        expect(update.shipment.status).toBe('in_transit');
+        expect((await shipments.getStatusHistory(shipment.id)).slice(1).map(change => [change.toStatus, change.triggeredBy, change.carrierEvent]))
+            .toEqual([
+                ['picked_up', 'carrier:servientrega', pickedUp],
+                ['in_transit', 'carrier:servientrega', inTransit]
+            ]);
+
+        expect(notifiers.dashboard).toHaveBeenCalledTimes(1);
+        expect(notifiers.dashboard).toHaveBeenCalledWith('ORD-2024-001', 'in_transit');
+        expect(notifiers.techAura.updateShippingStatus).toHaveBeenCalledWith({
+            orderNumber: 'ORD-2024-001',
+            status: 'in_transit',
+            trackingNumber: 'SV1234567890',
+            carrier: 'Servientrega',
+            estimatedDelivery: new Date('2024-01-18T18:00:00Z'),
+            notes: 'Salió del centro logístico'
+        });
+        expect(notifiers.whatsapp.sendStatusUpdate).not.toHaveBeenCalled();
+    });
+
+    it('messages the customer on the statuses configured, and not TechAura on those it does not track', async () => {
+        const shipment = await createShipment('in_transit');
+
+        await updater.apply(shipment, report([event('out_for_delivery', '2024-01-18T07:00:00Z', 'En reparto')]));
+
+        expect(notifiers.whatsapp.sendStatusUpdate).toHaveBeenCalledWith('3109876543', {
+            trackingNumber: 'SV1234567890',
+            carrier: 'Servientrega',
+            status: 'out_for_delivery',
+            description: 'En reparto'
+        });
+        expect(notifiers.techAura.updateShippingStatus).not.toHaveBeenCalled();
+        expect(notifiers.dashboard).toHaveBeenCalledWith('ORD-2024-001', 'out_for_delivery');
+    });
+
+    it('does nothing when the same report comes again', async () => {
+        const shipment = await createShipment();
+        const events = [event('picked_up', '2024-01-16T10:00:00Z')];
+        const first = await updater.apply(shipment, report(events, 'picked_up'));
+        jest.clearAllMocks();
+
+        const again = await updater.apply(first.shipment, report(events, 'picked_up'));
+
+        expect(again).toEqual({ shipment: first.shipment, newEvents: [], previousStatus: null });
+        expect(await shipments.getTrackingEvents('SV1234567890')).toHaveLength(1);
+        expect(notifiers.dashboard).not.toHaveBeenCalled();
+        expect(notifiers.techAura.updateShippingStatus).not.toHaveBeenCalled();
+    });
+
+    it('stores an event that arrives late without moving the shipment back', async () => {
+        const shipment = await createShipment('out_for_delivery');
+
+        const update = await updater.apply(shipment, report([event('picked_up', '2024-01-16T10:00:00Z')]));
+
+        expect(update.newEvents).toHaveLength(1);
+        expect(update.previousStatus).toBeNull();
+        expect((await shipments.getShipmentByTrackingNumber('SV1234567890'))!.status).toBe('out_for_delivery');
+        expect(notifiers.dashboard).not.toHaveBeenCalled();
+    });
+
+    it('does not move back to an earlier status reported after a later one', async () => {
+        const shipment = await createShipment('in_transit');
+        const failed = await updater.apply(shipment, report([event('failed_delivery', '2024-01-18T15:00:00Z')]));
+        jest.clearAllMocks();
+
+        // In transit may follow a failed delivery, but this event happened before it
+        const late = await updater.apply(failed.shipment, report([event('in_transit', '2024-01-17T08:00:00Z')]));
+
+        expect(late.newEvents).toHaveLength(1);
+        expect(late.shipment.status).toBe('failed_delivery');
+        expect(notifiers.dashboard).not.toHaveBeenCalled();
+    });
+
+    it('applies the status the carrier states even without an event for it', async () => {
+        const shipment = await createShipment('in_transit');
+
+        const update = await updater.apply(shipment, report([], 'delivered'));
+
+        expect(update.previousStatus).toBe('in_transit');
+        const [, change] = await shipments.getStatusHistory(shipment.id);
+        expect(change).toMatchObject({ toStatus: 'delivered', triggeredBy: 'carrier:servientrega', carrierEvent: null });
+        expect(notifiers.techAura.updateShippingStatus).toHaveBeenCalledWith(expect.objectContaining({ status: 'delivered', notes: undefined }));
+    });
+
+    it('keeps a status someone else set meanwhile', async () => {
+        const shipment = await createShipment();
+        await shipments.updateShipmentStatus(shipment.id, 'cancelled', { triggeredBy: 'operator' });
+
+        const update = await updater.apply(shipment, report([event('picked_up', '2024-01-16T10:00:00Z')]));
+
+        expect(update.previousStatus).toBeNull();
+        expect((await shipments.getShipmentByTrackingNumber('SV1234567890'))!.status).toBe('cancelled');
+        expect(notifiers.dashboard).not.toHaveBeenCalled();
+    });
+
+    describe('notifications not delivered', () => {
+        it('keeps an update TechAura did not accept and sends it again on retry', async () => {
+            const shipment = await createShipment();
+            notifiers.techAura.updateShippingStatus.mockResolvedValueOnce(false);
+
+            await updater.apply(shipment, report([event('picked_up', '2024-01-16T10:00:00Z')]));
+
+            expect(notifications.notifications).toEqual([expect.objectContaining({
+                shipmentId: shipment.id,
+                channel: 'techaura',
+                status: 'picked_up',
+                attempts: 1,
+                lastError: 'TechAura did not accept the update'
+            })]);
+
+            expect(await updater.retryNotifications()).toEqual({ sent: 1, failed: 0, dropped: 0 });
+            expect(notifiers.techAura.updateShippingStatus).toHaveBeenCalledTimes(2);
+            expect(notifiers.techAura.updateShippingStatus).toHaveBeenLastCalledWith(expect.objectContaining({ orderNumber: 'ORD-2024-001', status: 'picked_up' }));
+            expect(notifications.notifications).toEqual([]);
+        });
+
+        it('retries only the channel that failed', async () => {
+            const shipment = await createShipment('in_transit');
+            notifiers.whatsapp.sendStatusUpdate.mockRejectedValueOnce(new Error('socket hang up'));
+
+            await updater.apply(shipment, report([event('out_for_delivery', '2024-01-18T07:00:00Z', 'En reparto')]));
+            expect(notifications.notifications).toEqual([expect.objectContaining({ channel: 'whatsapp', phone: '3109876543', lastError: 'socket hang up' })]);
+
+            await updater.retryNotifications();
+
+            expect(notifiers.whatsapp.sendStatusUpdate).toHaveBeenCalledTimes(2);
+            expect(notifiers.whatsapp.sendStatusUpdate).toHaveBeenLastCalledWith('3109876543', expect.objectContaining({ status: 'out_for_delivery', description: 'En reparto' }));
+            expect(notifications.notifications).toEqual([]);
+        });
+
+        it('counts a failed retry and gives up after the last attempt', async () => {
+            const shipment = await createShipment();
+            notifiers.techAura.updateShippingStatus.mockResolvedValue(false);
+            await updater.apply(shipment, report([event('picked_up', '2024-01-16T10:00:00Z')]));
+
+            expect(await updater.retryNotifications()).toEqual({ sent: 0, failed: 1, dropped: 0 });
+            expect(notifications.notifications[0].attempts).toBe(2);
+
+            for (let attempt = 3; attempt < MAX_NOTIFICATION_ATTEMPTS; attempt++) {
+                await updater.retryNotifications();
+            }
+            expect(await updater.retryNotifications()).toEqual({ sent: 0, failed: 0, dropped: 1 });
+            expect(notifiers.techAura.updateShippingStatus).toHaveBeenCalledTimes(MAX_NOTIFICATION_ATTEMPTS);
+            expect(notifications.notifications).toEqual([]);
+        });
+
+        it('drops a notification once the shipment has moved on', async () => {
+            const shipment = await createShipment();
+            notifiers.techAura.updateShippingStatus.mockResolvedValueOnce(false);
+            const pickedUp = await updater.apply(shipment, report([event('picked_up', '2024-01-16T10:00:00Z')]));
+            await updater.apply(pickedUp.shipment, report([event('in_transit', '2024-01-17T08:00:00Z')]));
+            jest.clearAllMocks();
+
+            expect(await updater.retryNotifications()).toEqual({ sent: 0, failed: 0, dropped: 1 });
+            expect(notifiers.techAura.updateShippingStatus).not.toHaveBeenCalled();
+            expect(notifications.notifications).toEqual([]);
+        });
+    });
+});
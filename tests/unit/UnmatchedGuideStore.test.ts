@@ -0,0 +1,188 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileUnmatchedGuideStore, MySqlUnmatchedGuideStore, NewUnmatchedGuide } from '../../src/services/UnmatchedGuideStore';
+import { mockParsedGuideData, mockCustomerMatch } from '../fixtures/mock-data';
+
+jest.mock('mysql2/promise', () => ({
+    createPool: jest.fn().mockReturnValue({
+        execute: jest.fn()
+    })
+}));
+
+describe('FileUnmatchedGuideStore', () => {
+    let dir: string;
+    let storeDir: string;
+    let guideFile: string;
+
+    const entry = (trackingNumber: string, overrides: Partial<NewUnmatchedGuide['guide']> = {}): NewUnmatchedGuide => ({
+        reason: 'no_match',
+        source: 'watcher',
+        guide: { ...mockParsedGuideData, trackingNumber, ...overrides },
+        fileName: 'guia.png',
+        candidates: []
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'unmatched-guides-'));
+        storeDir = path.join(dir, 'nested', 'unmatched');
+        guideFile = path.join(dir, 'guia.PNG');
+        fs.writeFileSync(guideFile, 'guide image');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps a copy of the guide file without the OCR text', async () => {
+        const store = new FileUnmatchedGuideStore(storeDir);
+        const added = await store.add(entry('SV123456789'), guideFile);
+        fs.unlinkSync(guideFile);
+
+        expect(added).toMatchObject({ reason: 'no_match', source: 'watcher', status: 'pending', fileName: 'guia.png' });
+        expect(added.storedFile).toBe(`${added.id}.png`);
+        expect(added.guide.rawText).toBe('');
+        expect(fs.readFileSync(store.filePath(added), 'utf8')).toBe('guide image');
+        expect(await store.get(added.id)).toEqual(added);
+        expect(await store.get('unknown')).toBeNull();
+    });
+
+    it('keeps the entries across restarts', async () => {
+        const added = await new FileUnmatchedGuideStore(storeDir).add(entry('SV123456789'), guideFile);
+
+        expect(await new FileUnmatchedGuideStore(storeDir).get(added.id)).toEqual(added);
+    });
+
+    it('replaces a pending entry for the same tracking number', async () => {
+        const store = new FileUnmatchedGuideStore(storeDir);
+        const first = await store.add(entry('SV123456789'), guideFile);
+        const second = await store.add(entry('sv123456789'), guideFile);
+
+        expect((await store.list()).map(g => g.id)).toEqual([second.id]);
+        expect(fs.existsSync(store.filePath(first))).toBe(false);
+    });
+
+    it('lists newest first, filtered by status and accent-insensitive text', async () => {
+        const store = new FileUnmatchedGuideStore(storeDir);
+        const older = await store.add(entry('SV111111111', { customerName: 'José Muñoz', city: 'Medellín' }), guideFile);
+        older.createdAt = '2025-03-12T15:00:00.000Z';
+        const newer = await store.add(entry('SV222222222', { customerName: 'Ana Ruiz', city: 'Cali' }), guideFile);
+        await store.markAssigned(newer.id, 'ORD-2024-001', '3001234567');
+
+        expect((await store.list()).map(g => g.id)).toEqual([newer.id, older.id]);
+        expect((await store.list({ status: 'pending' })).map(g => g.id)).toEqual([older.id]);
+        expect((await store.list({ query: 'munoz' })).map(g => g.id)).toEqual([older.id]);
+        expect((await store.list({ query: ' MEDELLIN ' })).map(g => g.id)).toEqual([older.id]);
+        expect((await store.list({ query: 'sv2222' })).map(g => g.id)).toEqual([newer.id]);
+        expect(await store.list({ status: 'pending', query: 'cali' })).toEqual([]);
+    });
+
+    it('marks an entry assigned to an order', async () => {
+        const store = new FileUnmatchedGuideStore(storeDir);
+        const added = await store.add({ ...entry('SV123456789'), candidates: [mockCustomerMatch] }, guideFile);
+
+        await store.markAssigned(added.id, 'ORD-2024-001', '3001234567');
+
+        const reloaded = await new FileUnmatchedGuideStore(storeDir).get(added.id);
+        expect(reloaded).toMatchObject({ status: 'assigned', orderNumber: 'ORD-2024-001', sentTo: '3001234567', candidates: [mockCustomerMatch] });
+        expect(reloaded?.assignedAt).toEqual(expect.any(String));
+        await expect(store.markAssigned('unknown', 'ORD-2024-001', '3001234567')).rejects.toThrow('not found');
+    });
+
+    it('starts empty when the index is corrupt', async () => {
+        fs.mkdirSync(storeDir, { recursive: true });
+        fs.writeFileSync(path.join(storeDir, 'index.json'), '{not json');
+
+        expect(await new FileUnmatchedGuideStore(storeDir).list()).toEqual([]);
+    });
+});
+
+describe('MySqlUnmatchedGuideStore', () => {
+    let dir: string;
+    let guideFile: string;
+    let store: MySqlUnmatchedGuideStore;
+    let mockPool: any;
+
+    const row = {
+        id: 'b3a9c1d2-0000-4000-8000-000000000001',
+        reason: 'low_score',
+        source: 'upload',
+        tracking_number: 'SV123456789',
+        file_name: 'guia.png',
+        stored_file: 'b3a9c1d2-0000-4000-8000-000000000001.png',
+        guide: JSON.stringify({ ...mockParsedGuideData, customerName: 'José Muñoz', rawText: '' }),
+        candidates: JSON.stringify([mockCustomerMatch]),
+        status: 'assigned',
+        order_number: 'ORD-2024-001',
+        sent_to: '3001234567',
+        created_at: '2026-10-19 10:00:00.000',
+        assigned_at: '2026-10-19 11:00:00.000'
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'unmatched-guides-'));
+        guideFile = path.join(dir, 'guia.png');
+        fs.writeFileSync(guideFile, 'guide image');
+        const mysql = require('mysql2/promise');
+        mockPool = mysql.createPool();
+        store = new MySqlUnmatchedGuideStore({ host: 'localhost', port: 3306, user: 'test', password: '', database: 'test_db' }, path.join(dir, 'unmatched'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('inserts the entry, replacing a pending one for the same tracking number and its file', async () => {
+        const previousFile = path.join(dir, 'unmatched', 'previous.png');
+        fs.mkdirSync(path.dirname(previousFile), { recursive: true });
+        fs.writeFileSync(previousFile, 'older guide image');
+        mockPool.execute
+            .mockResolvedValueOnce([[{ id: 'previous', stored_file: 'previous.png' }]])
+            .mockResolvedValue([{ affectedRows: 1 }]);
+
+        const added = await store.add({ reason: 'no_match', source: 'watcher', guide: { ...mockParsedGuideData, trackingNumber: 'sv123456789' }, fileName: 'guia.png', candidates: [] }, guideFile);
+
+        expect(mockPool.execute.mock.calls[0][1]).toEqual(['SV123456789']);
+        expect(mockPool.execute.mock.calls[1]).toEqual(['DELETE FROM unmatched_guides WHERE id = ?', ['previous']]);
+        expect(fs.existsSync(previousFile)).toBe(false);
+        expect(mockPool.execute.mock.calls[2][0]).toContain('INSERT INTO unmatched_guides');
+        expect(mockPool.execute.mock.calls[2][1]).toEqual([
+            added.id, 'no_match', 'watcher', 'SV123456789', 'guia.png', added.storedFile,
+            JSON.stringify(added.guide), '[]', 'pending', expect.any(Date)
+        ]);
+        expect(fs.readFileSync(store.filePath(added), 'utf8')).toBe('guide image');
+    });
+
+    it('reads entries with their guide and candidates parsed', async () => {
+        mockPool.execute.mockResolvedValue([[row]]);
+
+        const guide = await store.get(row.id);
+
+        expect(guide).toMatchObject({
+            id: row.id,
+            reason: 'low_score',
+            status: 'assigned',
+            orderNumber: 'ORD-2024-001',
+            sentTo: '3001234567',
+            candidates: [mockCustomerMatch],
+            createdAt: new Date('2026-10-19 10:00:00.000').toISOString()
+        });
+        expect(guide!.guide.customerName).toBe('José Muñoz');
+    });
+
+    it('filters the status in SQL and the free text accent-insensitively', async () => {
+        mockPool.execute.mockResolvedValue([[row]]);
+
+        expect(await store.list({ status: 'assigned', query: 'MUNOZ' })).toHaveLength(1);
+        expect(mockPool.execute.mock.calls[0][0]).toContain('WHERE status = ? ORDER BY created_at DESC');
+        expect(mockPool.execute.mock.calls[0][1]).toEqual(['assigned']);
+        expect(await store.list({ query: 'ruiz' })).toEqual([]);
+    });
+
+    it('fails to assign an entry that does not exist', async () => {
+        mockPool.execute.mockResolvedValue([{ affectedRows: 0 }]);
+
+        await expect(store.markAssigned('unknown', 'ORD-2024-001', '3001234567')).rejects.toThrow('not found');
+    });
+});
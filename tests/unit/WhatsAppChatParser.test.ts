@@ -1,9 +1,19 @@
 import { WhatsAppChatParser } from '../../src/services/WhatsAppChatParser';
 import { ExtractedOrderData } from '../../src/types';
-
-jest.mock('tesseract.js', () => ({
-    recognize: jest.fn()
-}));
+import { ImagePreprocessor } from '../../src/services/ImagePreprocessor';
+import { OcrWorkerPool } from '../../src/services/OcrWorkerPool';
+
+jest.mock('tesseract.js', () => {
+    const recognize = jest.fn();
+    return {
+        recognize,
+        // Pool workers read through the same mock
+        createWorker: jest.fn(async () => ({
+            recognize: (...args: unknown[]) => recognize(...args),
+            terminate: jest.fn(async () => undefined)
+        }))
+    };
+});
 
 describe('WhatsAppChatParser', () => {
     let parser: WhatsAppChatParser;
@@ -80,6 +90,14 @@ describe('WhatsAppChatParser', () => {
             expect(parser.extractCity('Entrega en Buga, Valle del Cauca')).toBe('Buga');
         });
 
+        it('does not match a city inside another word', () => {
+            expect(parser.extractCity('Pedido de Calidad Total\nEntrega en Envigado')).toBe('Envigado');
+        });
+
+        it('finds municipalities outside the main cities', () => {
+            expect(parser.extractCity('Ciudad: Santa Rosa de Osos, Antioquia')).toBe('Santa Rosa de Osos');
+        });
+
         it('returns null when no known city found', () => {
             expect(parser.extractCity('Solo texto sin ciudad conocida')).toBeNull();
         });
@@ -91,6 +109,10 @@ describe('WhatsAppChatParser', () => {
             expect(parser.extractNeighborhood('Barrio: La Candelaria')).toBe('La Candelaria');
         });
 
+        it('drops the city written after the neighborhood', () => {
+            expect(parser.extractNeighborhood('Barrio: Niquía Bello')).toBe('Niquía');
+        });
+
         it('returns null when no neighborhood keyword', () => {
             expect(parser.extractNeighborhood('Medellín, Antioquia')).toBeNull();
         });
@@ -159,6 +181,28 @@ describe('WhatsAppChatParser', () => {
             expect(result.rawText).toContain('Jezus H.');
             expect(result.confidence).toBeGreaterThan(0);
         });
+
+        it('runs OCR on the preprocessed image', async () => {
+            const cleaned = Buffer.from('preprocessed');
+            const preprocessor = { process: jest.fn().mockResolvedValue(cleaned) } as unknown as ImagePreprocessor;
+
+            await new WhatsAppChatParser(preprocessor).parseImage('/fake/photo.jpg');
+
+            expect(preprocessor.process).toHaveBeenCalledWith('/fake/photo.jpg');
+            expect(require('tesseract.js').recognize).toHaveBeenCalledWith(cleaned);
+        });
+
+        it('sends the OCR through the given worker pool', async () => {
+            const pool = {
+                recognize: jest.fn().mockResolvedValue({ text: 'Nombre: Ana Ruiz\nTeléfono: 3001234567', confidence: 90 })
+            } as unknown as OcrWorkerPool;
+            const preprocessor = { process: jest.fn().mockResolvedValue('/fake/photo.jpg') } as unknown as ImagePreprocessor;
+
+            const result = await new WhatsAppChatParser(preprocessor, pool).parseImage('/fake/photo.jpg');
+
+            expect(pool.recognize).toHaveBeenCalledWith('/fake/photo.jpg', { source: 'whatsapp', label: 'photo.jpg' });
+            expect(result.customerName).toBe('Ana Ruiz');
+        });
     });
 
     // ---- parseImages (batch) ----
@@ -170,6 +214,32 @@ describe('WhatsAppChatParser', () => {
             });
         });
 
+        it('preprocesses only as many images at a time as the pool has workers', async () => {
+            let inFlight = 0;
+            let mostInFlight = 0;
+            const preprocessor = {
+                process: jest.fn(async (file: string) => {
+                    mostInFlight = Math.max(mostInFlight, ++inFlight);
+                    await new Promise(resolve => setImmediate(resolve));
+                    return file;
+                })
+            } as unknown as ImagePreprocessor;
+            const pool = {
+                getMetrics: () => ({ size: 2 }),
+                recognize: jest.fn(async (file: string) => {
+                    inFlight--;
+                    return { text: `Teléfono: 300123456${file.slice(-5, -4)}`, confidence: 90 };
+                })
+            } as unknown as OcrWorkerPool;
+
+            const paths = [1, 2, 3, 4, 5].map(i => `/fake/img${i}.png`);
+            const results = await new WhatsAppChatParser(preprocessor, pool, null).parseImages(paths);
+
+            expect(mostInFlight).toBe(2);
+            expect(preprocessor.process).toHaveBeenCalledTimes(5);
+            expect(results.map(r => r.phone)).toEqual(['3001234561', '3001234562', '3001234563', '3001234564', '3001234565']);
+        });
+
         it('returns an array of results for each image', async () => {
             const results = await parser.parseImages(['/fake/img1.png', '/fake/img2.png']);
             expect(results).toHaveLength(2);
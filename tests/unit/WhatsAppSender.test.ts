@@ -302,6 +302,56 @@ describe('WhatsAppSender', () => {
     });
   });
 
+  describe('sendStatusUpdate', () => {
+    it('should send a text message about the new status, without a file', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { success: true } });
+
+      const result = await sender.sendStatusUpdate('300 123 4567', {
+        trackingNumber: 'SV1234567890',
+        carrier: 'Servientrega',
+        status: 'out_for_delivery'
+      });
+
+      expect(result).toBe(true);
+      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      const [url, body] = mockedAxios.post.mock.calls[0] as [string, any];
+      expect(url).toBe('http://localhost:9999/api/send-message');
+      expect(body.phone).toBe('573001234567');
+      expect(body.message).toContain('va en camino');
+      expect(body.message).toContain('SV1234567890');
+      expect(body.message).toContain('Servientrega');
+    });
+
+    it('should include why a delivery failed', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { success: true } });
+
+      await sender.sendStatusUpdate('3001234567', {
+        trackingNumber: 'SV1234567890',
+        carrier: 'Servientrega',
+        status: 'failed_delivery',
+        description: 'Destinatario ausente'
+      });
+
+      const message = (mockedAxios.post.mock.calls[0][1] as any).message;
+      expect(message).toContain('No pudimos entregar tu pedido');
+      expect(message).toContain('Destinatario ausente');
+    });
+
+    it('should return false when the message cannot be sent', async () => {
+      mockedAxios.post.mockRejectedValue({
+        response: { status: 401, data: { error: 'Unauthorized' } }
+      });
+
+      const result = await sender.sendStatusUpdate('3001234567', {
+        trackingNumber: 'SV1234567890',
+        carrier: 'Servientrega',
+        status: 'delivered'
+      });
+
+      expect(result).toBe(false);
+    });
+  });
+
   describe('sendMedia', () => {
     it.skip('should send media with correct caption', async () => {
       const fs = require('fs');
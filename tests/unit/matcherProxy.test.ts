@@ -30,11 +30,18 @@ describe('MatcherProxy and DB-not-connected handling', () => {
       mockSender = new WhatsAppSender({ apiUrl: '', apiKey: '' }) as jest.Mocked<WhatsAppSender>;
 
       mockParser.parse = jest.fn();
+      // Uploads go through parseAll; a file holds the one guide parse() returns
+      mockParser.parseAll = jest.fn(async (filePath: string) => {
+        const guide = await mockParser.parse(filePath);
+        return guide ? [guide] : [];
+      });
       mockSender.sendGuide = jest.fn();
 
       // Simulate a matcher proxy where DB is not connected
       dbNotConnectedMatcher = {
         findCustomer: jest.fn().mockRejectedValue(new Error('Database not connected')),
+        findCandidates: jest.fn().mockRejectedValue(new Error('Database not connected')),
+        findOrder: jest.fn().mockRejectedValue(new Error('Database not connected')),
         updateOrderTracking: jest.fn().mockRejectedValue(new Error('Database not connected')),
       };
 
@@ -92,10 +99,17 @@ describe('MatcherProxy and DB-not-connected handling', () => {
       mockSender = new WhatsAppSender({ apiUrl: '', apiKey: '' }) as jest.Mocked<WhatsAppSender>;
 
       mockParser.parse = jest.fn();
+      // Uploads go through parseAll; a file holds the one guide parse() returns
+      mockParser.parseAll = jest.fn(async (filePath: string) => {
+        const guide = await mockParser.parse(filePath);
+        return guide ? [guide] : [];
+      });
       mockSender.sendGuide = jest.fn();
 
       connectedMatcher = {
         findCustomer: jest.fn().mockResolvedValue(null),
+        findCandidates: jest.fn().mockResolvedValue([]),
+        findOrder: jest.fn().mockResolvedValue(null),
         updateOrderTracking: jest.fn().mockResolvedValue(true),
       };
 
@@ -133,7 +133,12 @@ describe('Service Startup - Health Check', () => {
     const mockSender = new WhatsAppSender({ apiUrl: '', apiKey: '' }) as jest.Mocked<WhatsAppSender>;
 
     mockParser.parse = jest.fn();
-    mockMatcher.findCustomer = jest.fn();
+    // Uploads go through parseAll; a file holds the one guide parse() returns
+    mockParser.parseAll = jest.fn(async (filePath: string) => {
+      const guide = await mockParser.parse(filePath);
+      return guide ? [guide] : [];
+    });
+    mockMatcher.findCandidates = jest.fn();
     mockMatcher.updateOrderTracking = jest.fn();
     mockSender.sendGuide = jest.fn();
 
@@ -121,7 +121,12 @@ describe('File Type Filtering', () => {
         const mockSender = new WhatsAppSender({ apiUrl: '', apiKey: '' }) as any;
 
         mockParser.parse = jest.fn().mockResolvedValue(null);
-        mockMatcher.findCustomer = jest.fn();
+        // Uploads go through parseAll; a file holds the one guide parse() returns
+        mockParser.parseAll = jest.fn(async (filePath: string) => {
+          const guide = await mockParser.parse(filePath);
+          return guide ? [guide] : [];
+        });
+        mockMatcher.findCandidates = jest.fn();
         mockMatcher.updateOrderTracking = jest.fn();
         mockSender.sendGuide = jest.fn();
 